@@ -7,6 +7,7 @@ import {
   ConnectionStatus,
   Message,
   MessageReactionSummary,
+  MessageReactionType,
   PaginatedResult,
   PresenceMember,
   HistoryParams,
@@ -398,6 +399,9 @@ export const useChatSettings = (): Partial<ChatSettingsContextType> => {
     allowMessageDeletesOwn: true,
     allowMessageDeletesAny: false,
     allowMessageReactions: true,
+    messageReactionType: MessageReactionType.Distinct,
+    allowMessagePins: false,
+    enableMarkdown: false,
   };
 
   const settings = { ...defaultSettings, ...overrides.chatSettings };
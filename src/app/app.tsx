@@ -9,6 +9,7 @@ import { EmptyState } from '../components/molecules/empty-state.tsx';
 import { RoomInfo } from '../components/molecules/room-info.tsx';
 import { RoomReaction } from '../components/molecules/room-reaction.tsx';
 import { Sidebar } from '../components/molecules/sidebar.tsx';
+import { IndexedDBMessageCache, MessageCache } from '../utils/message-cache.ts';
 
 /**
  * Props for the App component.
@@ -16,11 +17,13 @@ import { Sidebar } from '../components/molecules/sidebar.tsx';
  * @property initialRoomNames - An optional array of room names to populate the sidebar initially.
  * @property width - Width of the app container (default: '70vw')
  * @property height - Height of the app container (default: '70vh')
+ * @property messageCache - Cache used to show rooms instantly when switching (default: an IndexedDB-backed cache)
  */
 interface AppProps {
   initialRoomNames?: string[];
   width?: string | number;
   height?: string | number;
+  messageCache?: MessageCache;
 }
 
 const DEFAULT_ROOM_OPTIONS: RoomOptions = {
@@ -32,8 +35,21 @@ const DEFAULT_ROOM_OPTIONS: RoomOptions = {
  *
  * @param props - The props for the App component.
  */
-export const App = ({ initialRoomNames, width = '70vw', height = '70vh' }: AppProps) => {
+export const App = ({
+  initialRoomNames,
+  width = '70vw',
+  height = '70vh',
+  messageCache,
+}: AppProps) => {
   const { currentStatus } = useChatConnection();
+  // eslint-disable-next-line @typescript-eslint/no-unsafe-enum-comparison
+  const isConnected = currentStatus === ConnectionStatus.Connected;
+  // Once connected, the UI stays mounted through reconnects so messages sent offline are queued
+  const [hasConnected, setHasConnected] = useState(isConnected);
+  if (isConnected && !hasConnected) {
+    setHasConnected(true);
+  }
+  const defaultMessageCache = useMemo(() => new IndexedDBMessageCache(), []);
   const [roomNames, setRoomNames] = useState<string[]>(initialRoomNames || []);
   const [activeRoom, setActiveRoom] = useState<string | undefined>();
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
@@ -76,9 +92,8 @@ export const App = ({ initialRoomNames, width = '70vw', height = '70vh' }: AppPr
     [width, height]
   );
 
-  // Show loading state if not connected (cannot make REST or WS Calls)
-  // eslint-disable-next-line @typescript-eslint/no-unsafe-enum-comparison
-  if (currentStatus !== ConnectionStatus.Connected) {
+  // Show loading state until first connected (cannot make REST or WS Calls)
+  if (!hasConnected) {
     return <AppLoading />;
   }
 
@@ -123,13 +138,23 @@ export const App = ({ initialRoomNames, width = '70vw', height = '70vh' }: AppPr
       </div>
 
       {/* Main Content */}
-      <main className="flex-1 overflow-hidden">
+      <main className="relative flex-1 overflow-hidden">
+        {!isConnected && (
+          <div
+            className="absolute inset-x-0 top-0 z-20 px-4 py-2 text-center text-sm bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-100"
+            role="status"
+          >
+            Reconnecting… Messages you send will be delivered once you are back online.
+          </div>
+        )}
+
         {/* Render the active chat window if a room is selected, otherwise show empty state */}
         {activeRoom ? (
           <ChatRoomProvider key={activeRoom} name={activeRoom} options={DEFAULT_ROOM_OPTIONS}>
             <ChatWindow
               key={activeRoom}
               roomName={activeRoom}
+              messageCache={messageCache ?? defaultMessageCache}
               customHeaderContent={<RoomInfo />}
               customFooterContent={<RoomReaction />}
             />
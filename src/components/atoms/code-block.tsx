@@ -0,0 +1,111 @@
+import { clsx } from 'clsx';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+
+import { CodeTokenType, highlightCode } from '../../utils/syntax-highlight.ts';
+import { Icon } from './icon.tsx';
+
+/**
+ * Props for the CodeBlock component
+ */
+export interface CodeBlockProps {
+  /**
+   * The code to show
+   */
+  code: string;
+
+  /**
+   * Language named on the code fence, e.g. `ts` or `python`, used for highlighting
+   */
+  language?: string;
+
+  /**
+   * Additional CSS classes for the container
+   */
+  className?: string;
+}
+
+/** How long the copy button shows that the code was copied, in milliseconds */
+const COPIED_DURATION_MS = 2000;
+
+const TOKEN_CLASSES: Record<CodeTokenType, string | undefined> = {
+  plain: undefined,
+  keyword: 'text-purple-700 dark:text-purple-300',
+  string: 'text-green-700 dark:text-green-300',
+  comment: 'italic text-gray-500 dark:text-gray-400',
+  number: 'text-orange-700 dark:text-orange-300',
+};
+
+/**
+ * CodeBlock component shows a block of code in a monospace, horizontally scrollable container
+ *
+ * Features:
+ * - Syntax highlighting for common languages, with colours for both light and dark themes
+ * - Long lines scroll instead of wrapping, so indentation is preserved
+ * - Copy button that copies the code to the clipboard
+ *
+ * @example
+ * <CodeBlock language="ts" code={'const answer = 42;'} />
+ */
+export const CodeBlock = ({ code, language, className }: CodeBlockProps) => {
+  const [isCopied, setIsCopied] = useState(false);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const tokens = useMemo(() => highlightCode(code, language), [code, language]);
+
+  useEffect(
+    () => () => {
+      clearTimeout(timerRef.current);
+    },
+    []
+  );
+
+  const handleCopy = () => {
+    navigator.clipboard
+      .writeText(code)
+      .then(() => {
+        setIsCopied(true);
+        clearTimeout(timerRef.current);
+        timerRef.current = setTimeout(() => {
+          setIsCopied(false);
+        }, COPIED_DURATION_MS);
+      })
+      .catch((error: unknown) => {
+        console.error('Failed to copy code:', error);
+      });
+  };
+
+  return (
+    <div
+      className={clsx(
+        'rounded-md overflow-hidden border border-gray-200 dark:border-gray-700',
+        'bg-gray-50 text-gray-800 dark:bg-gray-900 dark:text-gray-100',
+        className
+      )}
+    >
+      <div className="flex items-center justify-between gap-2 px-2 py-1 border-b border-gray-200 dark:border-gray-700 text-xs text-gray-500 dark:text-gray-400">
+        <span className="font-mono truncate">{language}</span>
+        <button
+          type="button"
+          className="flex items-center gap-1 shrink-0 px-1 rounded hover:text-gray-800 dark:hover:text-gray-100 transition-colors"
+          onClick={handleCopy}
+          aria-label={isCopied ? 'Code copied' : 'Copy code'}
+        >
+          <Icon name={isCopied ? 'check' : 'copy'} size="sm" aria-hidden={true} />
+          <span>{isCopied ? 'Copied' : 'Copy'}</span>
+        </button>
+      </div>
+      <pre className="p-2 overflow-x-auto font-mono text-xs leading-snug whitespace-pre">
+        <code data-language={language}>
+          {tokens.map((token, i) =>
+            TOKEN_CLASSES[token.type] ? (
+              <span key={i} className={TOKEN_CLASSES[token.type]}>
+                {token.text}
+              </span>
+            ) : (
+              <React.Fragment key={i}>{token.text}</React.Fragment>
+            )
+          )}
+        </code>
+      </pre>
+    </div>
+  );
+};
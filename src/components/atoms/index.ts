@@ -12,7 +12,11 @@ export { TypingDots, type TypingDotsProps } from './typing-dots.tsx';
 
 // Visual and Media Components
 export { Avatar, type AvatarData, type AvatarProps } from './avatar.tsx';
+export { CodeBlock, type CodeBlockProps } from './code-block.tsx';
 export { Icon, type IconProps } from './icon.tsx';
+export { LinkifiedText, type LinkifiedTextProps } from './linkified-text.tsx';
+export { Markdown, type MarkdownProps } from './markdown.tsx';
+export { MentionChip, type MentionChipProps } from './mention-chip.tsx';
 
 // Tooltip Components
 export { Tooltip, type TooltipProps } from './tooltip.tsx';
@@ -0,0 +1,84 @@
+import React, { useMemo } from 'react';
+
+import { linkifyText, LinkPolicy, LinkSegment } from '../../utils/links.ts';
+import { Mention, MentionSegment, splitMentions } from '../../utils/mentions.ts';
+import { MentionChip } from './mention-chip.tsx';
+
+/**
+ * Props for the LinkifiedText component
+ */
+export interface LinkifiedTextProps {
+  /**
+   * Plain text that may contain URLs
+   */
+  text: string;
+
+  /**
+   * Allow and deny lists controlling which URLs become links
+   */
+  linkPolicy?: LinkPolicy;
+
+  /**
+   * Users mentioned in the text, rendered as chips where `@label` appears
+   */
+  mentions?: Mention[];
+
+  /**
+   * Client ID of the current user, whose mentions are highlighted more strongly
+   */
+  currentClientId?: string;
+}
+
+const NO_MENTIONS: Mention[] = [];
+
+/**
+ * LinkifiedText component renders plain text with any URLs in it turned into links, and any
+ * mentions turned into chips
+ *
+ * Links open in a new tab with `rel="noopener noreferrer"`. Only http(s) URLs and bare `www.`
+ * hostnames are detected, and URLs rejected by the `linkPolicy` stay plain text.
+ *
+ * @example
+ * <LinkifiedText text="Docs are at https://ably.com/docs" />
+ */
+export const LinkifiedText = ({
+  text,
+  linkPolicy,
+  mentions = NO_MENTIONS,
+  currentClientId,
+}: LinkifiedTextProps) => {
+  const segments = useMemo(
+    () =>
+      splitMentions(text, mentions).flatMap<MentionSegment | LinkSegment>((segment) =>
+        segment.type === 'mention' ? [segment] : linkifyText(segment.text, linkPolicy)
+      ),
+    [text, linkPolicy, mentions]
+  );
+
+  return (
+    <>
+      {segments.map((segment, i) =>
+        segment.type === 'mention' ? (
+          <MentionChip
+            key={i}
+            label={segment.mention.label}
+            clientId={segment.mention.clientId}
+            isCurrentUser={segment.mention.clientId === currentClientId}
+          />
+        ) : segment.type === 'link' ? (
+          <a
+            key={i}
+            href={segment.href}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="underline underline-offset-2 hover:opacity-80 break-all"
+          >
+            {segment.text}
+          </a>
+        ) : (
+          <React.Fragment key={i}>{segment.text}</React.Fragment>
+        )
+      )}
+    </>
+  );
+};
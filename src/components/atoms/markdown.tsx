@@ -0,0 +1,154 @@
+import { clsx } from 'clsx';
+import React, { useMemo } from 'react';
+
+import { isLinkAllowed, LinkPolicy } from '../../utils/links.ts';
+import { MarkdownBlock, MarkdownInline, parseMarkdown } from '../../utils/markdown.ts';
+import { Mention } from '../../utils/mentions.ts';
+import { CodeBlock } from './code-block.tsx';
+import { LinkifiedText } from './linkified-text.tsx';
+
+/**
+ * Props for the Markdown component
+ */
+export interface MarkdownProps {
+  /**
+   * Markdown source to render
+   */
+  text: string;
+
+  /**
+   * Allow and deny lists for links, applied to both Markdown links and bare URLs
+   */
+  linkPolicy?: LinkPolicy;
+
+  /**
+   * Users mentioned in the text, rendered as chips where `@label` appears
+   */
+  mentions?: Mention[];
+
+  /**
+   * Client ID of the current user, whose mentions are highlighted more strongly
+   */
+  currentClientId?: string;
+
+  /**
+   * Additional CSS classes for the container
+   */
+  className?: string;
+}
+
+/** Options applied to the plain text within Markdown */
+type TextOptions = Pick<MarkdownProps, 'linkPolicy' | 'mentions' | 'currentClientId'>;
+
+const renderInline = (
+  nodes: MarkdownInline[],
+  options: TextOptions,
+  inLink = false
+): React.ReactNode[] =>
+  nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text': {
+        return inLink ? (
+          <React.Fragment key={i}>{node.text}</React.Fragment>
+        ) : (
+          <LinkifiedText key={i} text={node.text} {...options} />
+        );
+      }
+      case 'code': {
+        return (
+          <code key={i} className="px-1 py-0.5 rounded bg-gray-500/20 font-mono text-[0.85em]">
+            {node.text}
+          </code>
+        );
+      }
+      case 'strong': {
+        return <strong key={i}>{renderInline(node.children, options, inLink)}</strong>;
+      }
+      case 'emphasis': {
+        return <em key={i}>{renderInline(node.children, options, inLink)}</em>;
+      }
+      case 'strikethrough': {
+        return <del key={i}>{renderInline(node.children, options, inLink)}</del>;
+      }
+      case 'link': {
+        if (inLink || !isLinkAllowed(node.href, options.linkPolicy)) {
+          return (
+            <React.Fragment key={i}>{renderInline(node.children, options, true)}</React.Fragment>
+          );
+        }
+        return (
+          <a
+            key={i}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="underline underline-offset-2 hover:opacity-80"
+          >
+            {renderInline(node.children, options, true)}
+          </a>
+        );
+      }
+    }
+  });
+
+const renderBlocks = (blocks: MarkdownBlock[], options: TextOptions): React.ReactNode[] =>
+  blocks.map((block, i) => {
+    switch (block.type) {
+      case 'paragraph': {
+        return (
+          <p key={i} className="whitespace-pre-wrap">
+            {renderInline(block.children, options)}
+          </p>
+        );
+      }
+      case 'codeBlock': {
+        return <CodeBlock key={i} code={block.code} language={block.language} />;
+      }
+      case 'blockquote': {
+        return (
+          <blockquote key={i} className="pl-3 border-l-4 border-gray-400/60 opacity-90 space-y-2">
+            {renderBlocks(block.children, options)}
+          </blockquote>
+        );
+      }
+      case 'list': {
+        const items = block.items.map((item, j) => <li key={j}>{renderInline(item, options)}</li>);
+        return block.ordered ? (
+          <ol key={i} start={block.start} className="pl-5 list-decimal">
+            {items}
+          </ol>
+        ) : (
+          <ul key={i} className="pl-5 list-disc">
+            {items}
+          </ul>
+        );
+      }
+    }
+  });
+
+/**
+ * Markdown component renders a safe subset of Markdown as React elements
+ *
+ * Supports bold, italic, strikethrough, inline code, fenced code blocks, lists, blockquotes
+ * and links, turns bare URLs into links and renders mentions as chips. Content is never injected as HTML, so markup in
+ * the source is shown as text, and only http(s) and mailto links allowed by the `linkPolicy`
+ * are rendered as links.
+ *
+ * @example
+ * <Markdown text="**Deploy** finished, see [the logs](https://example.com/logs)" />
+ */
+export const Markdown = ({
+  text,
+  linkPolicy,
+  mentions,
+  currentClientId,
+  className,
+}: MarkdownProps) => {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+
+  return (
+    <div className={clsx('space-y-2', className)}>
+      {renderBlocks(blocks, { linkPolicy, mentions, currentClientId })}
+    </div>
+  );
+};
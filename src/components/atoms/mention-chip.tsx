@@ -0,0 +1,42 @@
+import { clsx } from 'clsx';
+import React from 'react';
+
+/**
+ * Props for the MentionChip component
+ */
+export interface MentionChipProps {
+  /**
+   * Text shown after `@`, usually the user's display name
+   */
+  label: string;
+
+  /**
+   * Client ID of the mentioned user, shown on hover
+   */
+  clientId: string;
+
+  /**
+   * Whether the mention refers to the current user, which is highlighted more strongly
+   * @default false
+   */
+  isCurrentUser?: boolean;
+}
+
+/**
+ * MentionChip component renders an `@mention` of a user within message text
+ *
+ * @example
+ * <MentionChip label="Alice" clientId="alice-123" />
+ */
+export const MentionChip = ({ label, clientId, isCurrentUser = false }: MentionChipProps) => (
+  <span
+    className={clsx(
+      'px-1 rounded font-semibold',
+      isCurrentUser ? 'bg-amber-400/40' : 'bg-blue-500/25'
+    )}
+    title={clientId}
+    data-mention={clientId}
+  >
+    @{label}
+  </span>
+);
@@ -1,4 +1,4 @@
-import { Message } from '@ably/chat';
+import { ChatMessageAction, Message } from '@ably/chat';
 import { clsx } from 'clsx';
 import React, {
   forwardRef,
@@ -9,9 +9,99 @@ import React, {
   useState,
 } from 'react';
 
+import { LinkPreviewResolver } from '../../utils/link-preview.ts';
+import { LinkPolicy } from '../../utils/links.ts';
+import { MessageAction } from '../../utils/message-actions.ts';
+import { findMessageRenderer, MessageRenderer } from '../../utils/message-renderers.ts';
+import { OutboxMessage } from '../../utils/outbox.ts';
+import { EphemeralResponse } from '../../utils/slash-commands.ts';
 import { ChatMessage } from './chat-message.tsx';
+import { EphemeralMessage } from './ephemeral-message.tsx';
+import { PendingMessage } from './pending-message.tsx';
 import { TypingIndicators } from './typing-indicators.tsx';
 
+/** Shared empty history for edited messages with no earlier versions known */
+const NO_VERSIONS: Message[] = [];
+
+/**
+ * Computes the top offset of each row, using measured heights where known.
+ *
+ * @param messages - The rows being laid out
+ * @param heights - Measured row heights keyed by message serial
+ * @param estimatedRowHeight - Height assumed for rows that have not been measured
+ * @returns Offsets of length `messages.length + 1`; the last entry is the total height
+ */
+const computeRowOffsets = (
+  messages: Message[],
+  heights: Map<string, number>,
+  estimatedRowHeight: number
+): number[] => {
+  const offsets = [0];
+  let top = 0;
+  for (const msg of messages) {
+    top += heights.get(msg.serial) ?? estimatedRowHeight;
+    offsets.push(top);
+  }
+  return offsets;
+};
+
+/**
+ * Binary search for the row containing a vertical position.
+ *
+ * @param offsets - Row offsets from {@link computeRowOffsets}
+ * @param y - Position relative to the top of the first row
+ * @returns Index of the row, clamped to the valid range
+ */
+const findRowAt = (offsets: number[], y: number): number => {
+  let left = 0;
+  let right = Math.max(0, offsets.length - 2);
+  while (left < right) {
+    const mid = Math.ceil((left + right) / 2);
+    if ((offsets[mid] ?? 0) <= y) {
+      left = mid;
+    } else {
+      right = mid - 1;
+    }
+  }
+  return left;
+};
+
+/**
+ * Finds the element in a row that takes focus when moving between messages with the keyboard.
+ */
+const getFocusTarget = (row: HTMLElement): HTMLElement | null =>
+  row.querySelector<HTMLElement>('[role="article"]');
+
+/**
+ * Checks whether two dates fall on the same calendar day in the local timezone.
+ */
+const isSameDay = (a: Date, b: Date): boolean =>
+  a.getFullYear() === b.getFullYear() &&
+  a.getMonth() === b.getMonth() &&
+  a.getDate() === b.getDate();
+
+/**
+ * Formats the label shown in day separators.
+ *
+ * @param date - A date within the day to label
+ * @returns "Today", "Yesterday" or the full date, e.g. "Monday, January 2, 2023"
+ */
+const formatDayLabel = (date: Date): string => {
+  const today = new Date();
+  if (isSameDay(date, today)) return 'Today';
+
+  const yesterday = new Date(today);
+  yesterday.setDate(today.getDate() - 1);
+  if (isSameDay(date, yesterday)) return 'Yesterday';
+
+  return date.toLocaleDateString([], {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+  });
+};
+
 export interface ChatMessageListProps
   extends Omit<React.HTMLAttributes<HTMLDivElement>, 'children'> {
   /**
@@ -45,11 +135,74 @@ export interface ChatMessageListProps
    */
   onMessageInView?: (messageSerial: string) => void;
 
+  /**
+   * Callback triggered when the user scrolls, with the newest message that is fully in view.
+   * Useful for marking messages as read.
+   * @param messageSerial - The serial of the newest fully visible message
+   */
+  onLastMessageInView?: (messageSerial: string) => void;
+
   /**
    * Callback triggered when the user scrolls to the bottom of the message list.
    */
   onViewLatest?: () => void;
 
+  /**
+   * Serial of the newest message the user has read.
+   * When set, a "New messages" divider is shown above the first message after it.
+   */
+  lastReadSerial?: string;
+
+  /**
+   * Serial of a message to scroll into view and briefly highlight, e.g. after jumping to it.
+   * The list scrolls each time this changes to a message that is rendered.
+   */
+  highlightedSerial?: string;
+
+  /**
+   * Serial of a message to put into edit mode and scroll into view, e.g. the user's last message
+   * when they press Up in an empty input. Only used together with `onEditingChange`.
+   */
+  editingSerial?: string;
+
+  /**
+   * Callback triggered when a message enters or leaves edit mode. When set, the list controls
+   * which message is being edited through `editingSerial`, so only one is edited at a time.
+   * Otherwise each message manages its own edit mode.
+   * @param serial - Serial of the message now being edited, or undefined once editing ends
+   */
+  onEditingChange?: (serial: string | undefined) => void;
+
+  /**
+   * The current user's messages that are still being sent or failed to send.
+   * Rendered after all messages, with Retry and Discard actions once failed.
+   */
+  pendingMessages?: OutboxMessage[];
+
+  /**
+   * Callback triggered when the user retries a failed pending message.
+   * @param id - Outbox ID of the message
+   */
+  onRetryPending?: (id: string) => void;
+
+  /**
+   * Callback triggered when the user discards a failed pending message.
+   * @param id - Outbox ID of the message
+   */
+  onDiscardPending?: (id: string) => void;
+
+  /**
+   * Responses to the current user's slash commands that only they can see.
+   * Rendered after pending messages, until dismissed.
+   */
+  ephemeralResponses?: EphemeralResponse[];
+
+  /**
+   * Callback triggered when the user dismisses a slash command response.
+   * @param id - Local ID of the response
+   */
+  onDismissEphemeral?: (id: string) => void;
+
   /**
    * Callback triggered when a user saves an edited message.
    * Passed through to individual ChatMessage components.
@@ -81,6 +234,76 @@ export interface ChatMessageListProps
    */
   onReactionRemove?: (message: Message, emoji: string) => void;
 
+  /**
+   * Callback triggered when the user chooses to reply to a message.
+   * Passed through to individual ChatMessage components.
+   * @param message - The message being replied to
+   */
+  onReply?: (message: Message) => void;
+
+  /**
+   * Callback triggered when the quote of a reply's parent message is clicked.
+   * Passed through to individual ChatMessage components.
+   * @param serial - Serial of the quoted message
+   */
+  onQuoteClick?: (serial: string) => void;
+
+  /**
+   * Callback triggered when the user opens the thread started by a message.
+   * Passed through to individual ChatMessage components.
+   * @param message - The message that starts the thread
+   */
+  onOpenThread?: (message: Message) => void;
+
+  /**
+   * Number of thread replies keyed by the serial of the message that started each thread,
+   * shown as "N replies" under the message.
+   */
+  threadReplyCounts?: Record<string, number>;
+
+  /**
+   * Serials of the messages pinned in the room, which are shown with a "Pinned" label.
+   */
+  pinnedSerials?: ReadonlySet<string>;
+
+  /**
+   * Callback triggered when the user pins or unpins a message.
+   * Passed through to individual ChatMessage components.
+   * @param message - The message to pin or unpin
+   */
+  onPinToggle?: (message: Message) => void;
+
+  /**
+   * Earlier versions of edited messages, keyed by serial and sorted oldest first, as returned
+   * by `useMessageWindow`. Edited messages offer a "View edits" action when provided.
+   */
+  editHistory?: ReadonlyMap<string, Message[]>;
+
+  /**
+   * Allow and deny lists controlling which URLs in messages become links.
+   * Passed through to individual ChatMessage components.
+   */
+  linkPolicy?: LinkPolicy;
+
+  /**
+   * Resolver used to show preview cards for links in messages.
+   * Passed through to individual ChatMessage components.
+   */
+  linkPreviewResolver?: LinkPreviewResolver;
+
+  /**
+   * Custom renderers checked in order for each message. The first whose `match` returns true
+   * renders the message in place of ChatMessage; unmatched messages render as ChatMessage.
+   * Should be a stable array, e.g. defined outside the component or memoized.
+   */
+  messageRenderers?: readonly MessageRenderer[];
+
+  /**
+   * Custom actions offered on messages, such as copy text or report.
+   * Passed through to individual ChatMessage components.
+   */
+  messageActions?: readonly MessageAction[];
+
   /**
    * Optional React elements to render after all messages (e.g., TypingIndicators).
    * Commonly used for typing indicators, system messages, or loading states.
@@ -96,11 +319,41 @@ export interface ChatMessageListProps
 
   /**
    * Distance in pixels from the top edge that triggers onLoadMoreHistory callback.
+   * Moving keyboard focus up past the oldest loaded message also loads more history.
    * Lower values require more precise scrolling, higher values load history earlier.
    * @default 100
    */
   loadMoreThreshold?: number;
 
+  /**
+   * Height in pixels assumed for messages that have not been rendered yet.
+   * Rendered messages are measured, so this only affects scrollbar accuracy before then.
+   * @default 80
+   */
+  estimatedRowHeight?: number;
+
+  /**
+   * Distance in pixels above and below the viewport in which messages stay mounted.
+   * Larger values reduce blank flashes during fast scrolling at the cost of more DOM nodes.
+   * @default 800
+   */
+  overscanPixels?: number;
+
+  /**
+   * Whether to show a separator with the day ("Today", "Yesterday" or the full date) above the
+   * first message of each day, and a sticky header with the current day while scrolling.
+   * @default true
+   */
+  enableDateSeparators?: boolean;
+
+  /**
+   * Maximum time in milliseconds between consecutive messages from the same sender for them to
+   * be grouped. Grouped messages omit the avatar and timestamp and are spaced more tightly.
+   * Set to 0 to disable grouping.
+   * @default 300000 (5 minutes)
+   */
+  groupingInterval?: number;
+
   /**
    * Whether to enable built-in typing indicators for other users.
    * Displays animated dots when other users are typing in the chat room.
@@ -118,11 +371,29 @@ export interface ChatMessageListProps
 /**
  * ChatMessageList component provides a scrollable, virtualized container for chat messages
  *
+ * Only messages within `overscanPixels` of the viewport are mounted. Rendered rows are measured
+ * and their heights cached, so the scrollbar stays accurate and content does not jump when
+ * messages above the viewport change height (e.g. reactions or edits).
+ *
  * Features:
+ * - Variable-height virtualization with measured, cached row heights
  * - Infinite scroll with lazy loading of message history
  * - Smart auto-scroll that respects user's current position
  * - Loading states and indicators for history fetching
- * - Maintains scroll position when prepending historical messages
+ * - Maintains scroll position when prepending historical messages or when rows above resize
+ * - Day separators and a sticky header showing the day being scrolled through
+ * - Consecutive messages from the same sender are grouped under a single avatar
+ * - "New messages" divider above the first unread message
+ * - Pending and failed messages from an optimistic outbox, with retry
+ * - Slash command responses only visible to the current user
+ * - Scrolls to and highlights a message when jumping to it
+ * - Optionally controlled edit mode, for editing a message from outside the list
+ * - Thread reply counts under messages that started a thread
+ * - Pinned labels on pinned messages
+ * - Custom renderers for messages matching headers or metadata, e.g. bot cards
+ * - Custom message actions, also offered from a context menu
+ * - Keyboard navigation between messages with roving focus: arrow keys, Home/End and
+ *   PageUp/PageDown, loading more history when moving up past the oldest message
  * - Full accessibility support with ARIA labels
  * - Forward ref support for external scroll control
  *
@@ -160,10 +431,35 @@ export const ChatMessageList = forwardRef<HTMLDivElement, ChatMessageListProps>(
       onDelete,
       onReactionAdd,
       onReactionRemove,
+      onReply,
+      onQuoteClick,
+      onOpenThread,
+      threadReplyCounts,
+      pinnedSerials,
+      onPinToggle,
+      editHistory,
+      linkPolicy,
+      linkPreviewResolver,
+      messageRenderers,
+      messageActions,
       onMessageInView,
+      onLastMessageInView,
       onViewLatest,
+      lastReadSerial,
+      highlightedSerial,
+      editingSerial,
+      onEditingChange,
+      pendingMessages,
+      onRetryPending,
+      onDiscardPending,
+      ephemeralResponses,
+      onDismissEphemeral,
       autoScroll = true,
       loadMoreThreshold = 100,
+      estimatedRowHeight = 80,
+      overscanPixels = 800,
+      enableDateSeparators = true,
+      groupingInterval = 300_000,
       enableTypingIndicators = true,
       className = '',
       ...rest
@@ -171,13 +467,75 @@ export const ChatMessageList = forwardRef<HTMLDivElement, ChatMessageListProps>(
     ref
   ) => {
     const containerRef = useRef<HTMLDivElement | null>(null);
+    const bodyRef = useRef<HTMLDivElement | null>(null);
     const lastScrollCheck = useRef(0);
     const shouldStickAfterPrepend = useRef(false);
     const prevScrollHeight = useRef(0);
+    /** Mounted row elements keyed by message serial */
     const messagesMapRef = useRef<Map<string, HTMLElement>>(new Map());
+    /** Stable ref callbacks per row, so rows aren't re-observed on every render */
+    const rowRefCallbacksRef = useRef<Map<string, (el: HTMLDivElement | null) => void>>(new Map());
+    /** Measured row heights keyed by message serial */
+    const heightsRef = useRef<Map<string, number>>(new Map());
+    const rowObserverRef = useRef<ResizeObserver | undefined>(undefined);
+    const scrolledToSerialRef = useRef<string | undefined>(undefined);
+    /** Whether keyboard focus should move to `focusedSerial` once its row is mounted */
+    const shouldMoveFocusRef = useRef(false);
 
     const [isAtBottom, setIsAtBottom] = useState(true);
     const [centerSerial, setCenterSerial] = useState<string | undefined>();
+    const lastInViewSerialRef = useRef<string | undefined>(undefined);
+    /** The message with keyboard focus, or last focused, which is the list's tab stop */
+    const [focusedSerial, setFocusedSerial] = useState<string | undefined>();
+    /** Scroll position, viewport height and offset of the first row within the scroll container */
+    const [viewport, setViewport] = useState({ scrollTop: 0, height: 0, listTop: 0 });
+    /** Bumped when row heights are measured, to re-render with the new layout */
+    const [, setMeasureVersion] = useState(0);
+
+    const offsets = computeRowOffsets(messages, heightsRef.current, estimatedRowHeight);
+    const offsetsRef = useRef(offsets);
+    offsetsRef.current = offsets;
+    const totalHeight = offsets.at(-1) ?? 0;
+
+    // Until the container has been laid out, assume it fills the window
+    const viewportHeight = viewport.height || globalThis.innerHeight;
+    const viewTop = viewport.scrollTop - viewport.listTop;
+    const startIdx = findRowAt(offsets, viewTop - overscanPixels);
+    const endIdx =
+      messages.length === 0 ? 0 : findRowAt(offsets, viewTop + viewportHeight + overscanPixels) + 1;
+
+    const topMessage = messages[findRowAt(offsets, viewTop)];
+    const stickyDayLabel =
+      enableDateSeparators && topMessage && viewTop > 0
+        ? formatDayLabel(topMessage.timestamp)
+        : undefined;
+
+    // Only one message is in the tab order: the focused one if mounted, else the newest mounted
+    const focusedIdx =
+      focusedSerial === undefined ? -1 : messages.findIndex((m) => m.serial === focusedSerial);
+    const tabStopIdx = focusedIdx >= startIdx && focusedIdx < endIdx ? focusedIdx : endIdx - 1;
+
+    const firstUnreadSerial =
+      lastReadSerial === undefined
+        ? undefined
+        : messages.find((msg) => msg.serial > lastReadSerial)?.serial;
+
+    const syncViewport = useCallback(() => {
+      const node = containerRef.current;
+      if (!node) return;
+      const next = {
+        scrollTop: node.scrollTop,
+        height: node.clientHeight,
+        listTop: bodyRef.current?.offsetTop ?? 0,
+      };
+      setViewport((prev) =>
+        prev.scrollTop === next.scrollTop &&
+        prev.height === next.height &&
+        prev.listTop === next.listTop
+          ? prev
+          : next
+      );
+    }, []);
 
     const isUserAtBottom = useCallback(() => {
       if (!containerRef.current) return false;
@@ -192,22 +550,24 @@ export const ChatMessageList = forwardRef<HTMLDivElement, ChatMessageListProps>(
       });
     }, [isUserAtBottom]);
 
-    const maybeLoadHistory = useCallback(() => {
+    const loadHistory = useCallback(() => {
       if (!containerRef.current || !onLoadMoreHistory || !hasMoreHistory || isLoading) return;
 
-      if (containerRef.current.scrollTop < loadMoreThreshold) {
-        shouldStickAfterPrepend.current = true;
-        prevScrollHeight.current = containerRef.current.scrollHeight;
-        onLoadMoreHistory();
+      shouldStickAfterPrepend.current = true;
+      prevScrollHeight.current = containerRef.current.scrollHeight;
+      onLoadMoreHistory();
+    }, [onLoadMoreHistory, hasMoreHistory, isLoading]);
+
+    const maybeLoadHistory = useCallback(() => {
+      if (containerRef.current && containerRef.current.scrollTop < loadMoreThreshold) {
+        loadHistory();
       }
-    }, [onLoadMoreHistory, hasMoreHistory, isLoading, loadMoreThreshold]);
+    }, [loadHistory, loadMoreThreshold]);
 
-    /** Determine which message is closest to the viewport centre */
+    /** Determine which message is closest to the viewport centre, using the row layout */
     const reportMessageInView = useCallback(() => {
-      if (!containerRef.current || messages.length === 0) return;
-
-      const rect = containerRef.current.getBoundingClientRect();
-      const viewportCenter = rect.top + rect.height / 2;
+      const node = containerRef.current;
+      if (!node || messages.length === 0) return;
 
       if (isUserAtBottom()) {
         if (centerSerial !== undefined) setCenterSerial(undefined);
@@ -215,20 +575,38 @@ export const ChatMessageList = forwardRef<HTMLDivElement, ChatMessageListProps>(
         return;
       }
 
-      let best: { serial: string; dist: number } | undefined;
-      for (const [serial, el] of messagesMapRef.current.entries()) {
-        const { top, bottom } = el.getBoundingClientRect();
-        const d = Math.abs((top + bottom) / 2 - viewportCenter);
-        if (!best || d < best.dist) best = { serial, dist: d };
+      const listTop = bodyRef.current?.offsetTop ?? 0;
+      const centerY = node.scrollTop + node.clientHeight / 2 - listTop;
+      const serial = messages[findRowAt(offsetsRef.current, centerY)]?.serial;
+
+      if (serial && serial !== centerSerial) {
+        setCenterSerial(serial);
+        onMessageInView?.(serial);
       }
 
-      if (best && best.serial !== centerSerial) {
-        setCenterSerial(best.serial);
-        onMessageInView?.(best.serial);
+      // The row at the bottom edge only counts once it fits entirely within the viewport
+      const bottomY = node.scrollTop + node.clientHeight - listTop;
+      const bottomIdx = findRowAt(offsetsRef.current, bottomY);
+      const lastIdx =
+        (offsetsRef.current[bottomIdx + 1] ?? 0) <= bottomY ? bottomIdx : bottomIdx - 1;
+      const lastSerial = messages[lastIdx]?.serial;
+      if (lastSerial && lastSerial !== lastInViewSerialRef.current) {
+        lastInViewSerialRef.current = lastSerial;
+        onLastMessageInView?.(lastSerial);
       }
-    }, [centerSerial, isUserAtBottom, messages.length, onMessageInView, onViewLatest]);
+    }, [
+      centerSerial,
+      isUserAtBottom,
+      messages,
+      onMessageInView,
+      onLastMessageInView,
+      onViewLatest,
+    ]);
 
     const handleScroll = useCallback(() => {
+      // Always track the scroll position, so the rendered rows never lag behind the viewport
+      syncViewport();
+
       const now = performance.now();
       if (now - lastScrollCheck.current < 16) return; // ~60fps
       lastScrollCheck.current = now;
@@ -236,12 +614,13 @@ export const ChatMessageList = forwardRef<HTMLDivElement, ChatMessageListProps>(
       updateIsAtBottom();
       maybeLoadHistory();
       reportMessageInView();
-    }, [updateIsAtBottom, maybeLoadHistory, reportMessageInView]);
+    }, [syncViewport, updateIsAtBottom, maybeLoadHistory, reportMessageInView]);
 
     const scrollToBottom = useCallback(() => {
       if (!containerRef.current) return;
       containerRef.current.scrollTop = containerRef.current.scrollHeight;
-    }, []);
+      syncViewport();
+    }, [syncViewport]);
 
     const handleTypingChange = useCallback(() => {
       if (autoScroll && isAtBottom) {
@@ -252,20 +631,173 @@ export const ChatMessageList = forwardRef<HTMLDivElement, ChatMessageListProps>(
       }
     }, [autoScroll, isAtBottom, scrollToBottom]);
 
+    /** Records measured row heights, keeping visible content still when rows above it resize */
+    const handleRowResize = useCallback(
+      (entries: ResizeObserverEntry[]) => {
+        const node = containerRef.current;
+        if (!node) return;
+
+        const rowOffsets = offsetsRef.current;
+        const visibleTop = node.scrollTop - (bodyRef.current?.offsetTop ?? 0);
+        let anchorDelta = 0;
+        let changed = false;
+
+        for (const entry of entries) {
+          const el = entry.target as HTMLElement;
+          const serial = el.dataset.serial;
+          if (serial === undefined) continue;
+
+          const idx = Number(el.dataset.index);
+          const top = rowOffsets[idx];
+          const bottom = rowOffsets[idx + 1];
+          const previous =
+            heightsRef.current.get(serial) ??
+            (top === undefined || bottom === undefined ? estimatedRowHeight : bottom - top);
+          const height = el.offsetHeight;
+          if (height === previous) continue;
+
+          heightsRef.current.set(serial, height);
+          changed = true;
+          if (top !== undefined && top + previous <= visibleTop) {
+            anchorDelta += height - previous;
+          }
+        }
+
+        if (!changed) return;
+        // When following the latest messages, auto-scroll keeps the bottom in view instead
+        if (anchorDelta !== 0 && !(autoScroll && isUserAtBottom())) {
+          node.scrollTop += anchorDelta;
+        }
+        setMeasureVersion((v) => v + 1);
+      },
+      [autoScroll, estimatedRowHeight, isUserAtBottom]
+    );
+
+    const getRowRef = useCallback((serial: string) => {
+      let callback = rowRefCallbacksRef.current.get(serial);
+      if (!callback) {
+        callback = (el: HTMLDivElement | null) => {
+          const previous = messagesMapRef.current.get(serial);
+          if (previous) rowObserverRef.current?.unobserve(previous);
+          if (el) {
+            messagesMapRef.current.set(serial, el);
+            rowObserverRef.current?.observe(el);
+          } else {
+            messagesMapRef.current.delete(serial);
+            rowRefCallbacksRef.current.delete(serial);
+          }
+        };
+        rowRefCallbacksRef.current.set(serial, callback);
+      }
+      return callback;
+    }, []);
+
+    // Measure rows as they mount and whenever their content changes size
+    useEffect(() => {
+      const observer = new ResizeObserver(handleRowResize);
+      rowObserverRef.current = observer;
+      for (const el of messagesMapRef.current.values()) {
+        observer.observe(el);
+      }
+      return () => {
+        observer.disconnect();
+        rowObserverRef.current = undefined;
+      };
+    }, [handleRowResize]);
+
+    // Forget heights of messages that have left the window
+    useEffect(() => {
+      if (heightsRef.current.size <= messages.length * 2) return;
+      const serials = new Set(messages.map((m) => m.serial));
+      for (const serial of heightsRef.current.keys()) {
+        if (!serials.has(serial)) heightsRef.current.delete(serial);
+      }
+    }, [messages]);
+
     // After messages prepend, adjust scroll so content doesn't jump
     useLayoutEffect(() => {
       if (!shouldStickAfterPrepend.current || !containerRef.current) return;
       const delta = containerRef.current.scrollHeight - prevScrollHeight.current;
       containerRef.current.scrollTop += delta;
       shouldStickAfterPrepend.current = false;
-    }, [messages]);
+      syncViewport();
+    }, [messages, syncViewport]);
 
-    // Auto‑scroll on new messages if user is at bottom
+    // Auto‑scroll on new messages, or as rows are measured, if user is at bottom
     useLayoutEffect(() => {
       if (autoScroll && isAtBottom) {
         scrollToBottom();
       }
-    }, [messages, autoScroll, isAtBottom, scrollToBottom]);
+    }, [
+      messages,
+      pendingMessages,
+      ephemeralResponses,
+      totalHeight,
+      autoScroll,
+      isAtBottom,
+      scrollToBottom,
+    ]);
+
+    // Scroll a highlighted message, or the one being edited, into view. Runs after auto-scroll
+    // so jumping away from the bottom isn't undone by new messages arriving in the same render.
+    const scrollTargetSerial = highlightedSerial ?? (onEditingChange ? editingSerial : undefined);
+    useLayoutEffect(() => {
+      if (!scrollTargetSerial) {
+        scrolledToSerialRef.current = undefined;
+        return;
+      }
+      if (scrolledToSerialRef.current === scrollTargetSerial) return;
+
+      const el = messagesMapRef.current.get(scrollTargetSerial);
+      if (el) {
+        scrolledToSerialRef.current = scrollTargetSerial;
+        el.scrollIntoView({ block: 'center' });
+        updateIsAtBottom();
+        syncViewport();
+        return;
+      }
+
+      // Not mounted yet: scroll to its estimated position so it renders, then centre it precisely
+      const node = containerRef.current;
+      const idx = messages.findIndex((m) => m.serial === scrollTargetSerial);
+      if (!node || idx === -1) return;
+      node.scrollTop =
+        (bodyRef.current?.offsetTop ?? 0) + (offsetsRef.current[idx] ?? 0) - node.clientHeight / 2;
+      updateIsAtBottom();
+      syncViewport();
+    }, [scrollTargetSerial, messages, startIdx, endIdx, updateIsAtBottom, syncViewport]);
+
+    // Move keyboard focus to the focused message, first scrolling it into the window if needed
+    useLayoutEffect(() => {
+      if (!shouldMoveFocusRef.current || focusedSerial === undefined) return;
+
+      const row = messagesMapRef.current.get(focusedSerial);
+      const target = row && getFocusTarget(row);
+      if (target) {
+        shouldMoveFocusRef.current = false;
+        target.focus();
+        updateIsAtBottom();
+        syncViewport();
+        return;
+      }
+
+      // Not mounted yet: scroll to its estimated position so it renders
+      const node = containerRef.current;
+      const idx = messages.findIndex((m) => m.serial === focusedSerial);
+      if (!node || idx === -1) {
+        shouldMoveFocusRef.current = false;
+        return;
+      }
+      node.scrollTop =
+        (bodyRef.current?.offsetTop ?? 0) + (offsetsRef.current[idx] ?? 0) - node.clientHeight / 2;
+      updateIsAtBottom();
+      syncViewport();
+    }, [focusedSerial, messages, startIdx, endIdx, updateIsAtBottom, syncViewport]);
+
+    // Keep the viewport in sync with layout changes that don't fire scroll events
+    useLayoutEffect(() => {
+      syncViewport();
+    });
 
     useEffect(() => {
       const node = containerRef.current;
@@ -277,6 +809,7 @@ export const ChatMessageList = forwardRef<HTMLDivElement, ChatMessageListProps>(
 
       node.addEventListener('scroll', handleScroll, { passive: true });
       const resizeObs = new ResizeObserver(() => {
+        syncViewport();
         if (autoScroll && isUserAtBottom()) {
           scrollToBottom();
         }
@@ -294,6 +827,7 @@ export const ChatMessageList = forwardRef<HTMLDivElement, ChatMessageListProps>(
       reportMessageInView,
       isUserAtBottom,
       scrollToBottom,
+      syncViewport,
     ]);
 
     const setRefs = useCallback(
@@ -308,11 +842,139 @@ export const ChatMessageList = forwardRef<HTMLDivElement, ChatMessageListProps>(
       [ref]
     );
 
+    /** Tracks the focused message as the tab stop, whether focused by keyboard or pointer */
+    const handleFocus = (e: React.FocusEvent<HTMLDivElement>) => {
+      const row = (e.target as HTMLElement).closest<HTMLElement>('[data-serial]');
+      if (row && getFocusTarget(row) === e.target) {
+        setFocusedSerial(row.dataset.serial);
+      }
+    };
+
+    /** Moves focus between messages with the arrow, Home/End and PageUp/PageDown keys */
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+      const row = (e.target as HTMLElement).closest<HTMLElement>('[data-serial]');
+      if (!row || getFocusTarget(row) !== e.target || e.ctrlKey || e.metaKey || e.altKey) return;
+
+      const idx = Number(row.dataset.index);
+      const top = offsets[idx] ?? 0;
+      let next: number;
+      switch (e.key) {
+        case 'ArrowUp': {
+          next = idx - 1;
+          break;
+        }
+        case 'ArrowDown': {
+          next = idx + 1;
+          break;
+        }
+        case 'PageUp': {
+          next = Math.min(idx - 1, findRowAt(offsets, top - viewportHeight));
+          break;
+        }
+        case 'PageDown': {
+          next = Math.max(idx + 1, findRowAt(offsets, top + viewportHeight));
+          break;
+        }
+        case 'Home': {
+          next = 0;
+          break;
+        }
+        case 'End': {
+          next = messages.length - 1;
+          break;
+        }
+        default: {
+          return;
+        }
+      }
+      e.preventDefault();
+
+      // Moving up past the oldest loaded message loads more history
+      if (next < 0) {
+        loadHistory();
+        return;
+      }
+      const serial = messages[Math.min(next, messages.length - 1)]?.serial;
+      if (serial === undefined || serial === focusedSerial) return;
+      shouldMoveFocusRef.current = true;
+      setFocusedSerial(serial);
+    };
+
+    const renderMessage = (msg: Message, isGrouped: boolean, tabIndex: number) => {
+      const renderChatMessage = (focusTabIndex?: number) => (
+        <ChatMessage
+          message={msg}
+          isGrouped={isGrouped}
+          onEdit={onEdit}
+          onDelete={onDelete}
+          onReactionAdd={onReactionAdd}
+          onReactionRemove={onReactionRemove}
+          onReply={onReply}
+          onQuoteClick={onQuoteClick}
+          onOpenThread={onOpenThread}
+          threadReplyCount={threadReplyCounts?.[msg.serial]}
+          isPinned={pinnedSerials?.has(msg.serial)}
+          onPinToggle={onPinToggle}
+          previousVersions={editHistory ? (editHistory.get(msg.serial) ?? NO_VERSIONS) : undefined}
+          linkPolicy={linkPolicy}
+          linkPreviewResolver={linkPreviewResolver}
+          messageActions={messageActions}
+          isEditing={onEditingChange ? msg.serial === editingSerial : undefined}
+          onEditingChange={
+            onEditingChange &&
+            ((isEditing) => {
+              onEditingChange(isEditing ? msg.serial : undefined);
+            })
+          }
+          tabIndex={focusTabIndex}
+        />
+      );
+
+      const renderer = findMessageRenderer(messageRenderers, msg);
+      if (!renderer) return renderChatMessage(tabIndex);
+
+      // Custom renderings are wrapped, so they can be focused like standard messages
+      return (
+        <div
+          role="article"
+          aria-label={`Message from ${msg.clientId}`}
+          tabIndex={tabIndex}
+          className="rounded-lg outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+        >
+          {renderer.render(msg, {
+            isGrouped,
+            // The wrapper takes focus, so the default rendering isn't focusable itself
+            renderDefault: () => renderChatMessage(),
+            addReaction: onReactionAdd
+              ? (emoji: string) => {
+                  onReactionAdd(msg, emoji);
+                }
+              : undefined,
+            removeReaction: onReactionRemove
+              ? (emoji: string) => {
+                  onReactionRemove(msg, emoji);
+                }
+              : undefined,
+            reply: onReply
+              ? () => {
+                  onReply(msg);
+                }
+              : undefined,
+            deleteMessage: onDelete
+              ? () => {
+                  onDelete(msg);
+                }
+              : undefined,
+          })}
+        </div>
+      );
+    };
+
     return (
       <div
         ref={setRefs}
         className={clsx(
-          'flex-1 overflow-y-auto pt-10 px-6 pb-6 space-y-6 bg-gray-50 dark:bg-gray-950 ably-scrollbar',
+          'relative flex-1 overflow-y-auto pt-10 px-6 pb-6 space-y-6 bg-gray-50 dark:bg-gray-950 ably-scrollbar [overflow-anchor:none]',
           className
         )}
         role="log"
@@ -334,24 +996,94 @@ export const ChatMessageList = forwardRef<HTMLDivElement, ChatMessageListProps>(
           </div>
         )}
 
-        {/* Messages */}
-        {messages.map((msg) => {
-          const setEl = (el: HTMLElement | null) => {
-            if (el) messagesMapRef.current.set(msg.serial, el);
-            else messagesMapRef.current.delete(msg.serial);
-          };
-          return (
-            <div key={msg.serial} ref={setEl}>
-              <ChatMessage
-                message={msg}
-                onEdit={onEdit}
-                onDelete={onDelete}
-                onReactionAdd={onReactionAdd}
-                onReactionRemove={onReactionRemove}
-              />
+        {/* Messages, with padding standing in for the rows that aren't mounted */}
+        <div
+          ref={bodyRef}
+          onFocus={handleFocus}
+          onKeyDown={handleKeyDown}
+          style={{
+            paddingTop: offsets[startIdx] ?? 0,
+            paddingBottom: totalHeight - (offsets[endIdx] ?? totalHeight),
+          }}
+        >
+          {stickyDayLabel && (
+            <div
+              className="sticky top-0 z-10 flex justify-center h-0 pointer-events-none"
+              aria-hidden="true"
+            >
+              <span className="h-fit mt-2 px-3 py-1 rounded-full text-xs font-medium text-gray-600 dark:text-gray-300 bg-white dark:bg-gray-900 shadow-sm">
+                {stickyDayLabel}
+              </span>
             </div>
-          );
-        })}
+          )}
+          {messages.slice(startIdx, endIdx).map((msg, i) => {
+            const idx = startIdx + i;
+            const prev = messages[idx - 1];
+            const startsNewDay = !prev || !isSameDay(prev.timestamp, msg.timestamp);
+            const isGrouped =
+              !!prev &&
+              !startsNewDay &&
+              msg.serial !== firstUnreadSerial &&
+              prev.clientId === msg.clientId &&
+              prev.action !== ChatMessageAction.MessageDelete &&
+              msg.timestamp.getTime() - prev.timestamp.getTime() < groupingInterval;
+            return (
+              <div
+                key={msg.serial}
+                ref={getRowRef(msg.serial)}
+                data-serial={msg.serial}
+                data-index={idx}
+                className={clsx(idx > 0 && (isGrouped ? 'pt-1' : 'pt-6'))}
+              >
+                {enableDateSeparators && startsNewDay && (
+                  <div
+                    className="flex items-center gap-3 mb-6"
+                    role="separator"
+                    aria-label={formatDayLabel(msg.timestamp)}
+                  >
+                    <div className="flex-1 h-px bg-gray-200 dark:bg-gray-700" />
+                    <span className="text-xs font-medium text-gray-500 dark:text-gray-400">
+                      {formatDayLabel(msg.timestamp)}
+                    </span>
+                    <div className="flex-1 h-px bg-gray-200 dark:bg-gray-700" />
+                  </div>
+                )}
+                {msg.serial === firstUnreadSerial && (
+                  <div
+                    className="flex items-center gap-3 mb-6"
+                    role="separator"
+                    aria-label="New messages"
+                  >
+                    <div className="flex-1 h-px bg-red-400 dark:bg-red-500" />
+                    <span className="text-xs font-medium text-red-500 dark:text-red-400">
+                      New messages
+                    </span>
+                    <div className="flex-1 h-px bg-red-400 dark:bg-red-500" />
+                  </div>
+                )}
+                <div
+                  className={clsx(
+                    'rounded-lg transition-colors duration-500',
+                    msg.serial === highlightedSerial && 'bg-yellow-100 dark:bg-yellow-900/40'
+                  )}
+                >
+                  {renderMessage(msg, isGrouped, idx === tabStopIdx ? 0 : -1)}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        {pendingMessages?.map((pending) => (
+          <PendingMessage
+            key={pending.id}
+            message={pending}
+            onRetry={onRetryPending}
+            onDiscard={onDiscardPending}
+          />
+        ))}
+        {ephemeralResponses?.map((response) => (
+          <EphemeralMessage key={response.id} response={response} onDismiss={onDismissEphemeral} />
+        ))}
         {enableTypingIndicators && (
           <TypingIndicators className="px-4" onTypingChange={handleTypingChange} />
         )}
@@ -1,20 +1,49 @@
-import { ChatMessageAction, Message } from '@ably/chat';
-import { useChatClient } from '@ably/chat/react';
+import { ChatMessageAction, Message, MessageReactionType } from '@ably/chat';
+import { useChatClient, useRoom } from '@ably/chat/react';
 import { clsx } from 'clsx';
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { createPortal } from 'react-dom';
 
+import { useChatSettings } from '../../hooks/use-chat-settings.tsx';
+import { useLinkPreviews } from '../../hooks/use-link-previews.tsx';
 import { useUserAvatar } from '../../hooks/use-user-avatar.tsx';
+import { getAttachments } from '../../utils/attachments.ts';
+import { LinkPreviewResolver } from '../../utils/link-preview.ts';
+import { extractLinks, LinkPolicy } from '../../utils/links.ts';
+import { splitCodeBlocks } from '../../utils/markdown.ts';
+import { getMentions, isMentioned } from '../../utils/mentions.ts';
+import { getAvailableMessageActions, MessageAction } from '../../utils/message-actions.ts';
+import { getReactionCounts } from '../../utils/reactions.ts';
+import { getReplyReference } from '../../utils/replies.ts';
+import { isEmote } from '../../utils/slash-commands.ts';
 import { Avatar } from '../atoms/avatar.tsx';
 import { Button } from '../atoms/button.tsx';
+import { CodeBlock } from '../atoms/code-block.tsx';
 import { Icon } from '../atoms/icon.tsx';
+import { LinkifiedText } from '../atoms/linkified-text.tsx';
+import { Markdown } from '../atoms/markdown.tsx';
 import { TextInput } from '../atoms/text-input.tsx';
 import { Tooltip } from '../atoms/tooltip.tsx';
 import { ConfirmDialog } from './confirm-dialog.tsx';
+import { DropdownMenu } from './dropdown-menu.tsx';
+import { EditHistoryDialog } from './edit-history-dialog.tsx';
 import { EmojiPicker } from './emoji-picker.tsx';
-import { MessageActions } from './message-actions.tsx';
+import { LinkPreviewCard } from './link-preview-card.tsx';
+import { getMessageActionItems, MessageActions, MessageActionsProps } from './message-actions.tsx';
+import { MessageAttachments } from './message-attachments.tsx';
+import { MessageQuote } from './message-quote.tsx';
 import { MessageReactions } from './message-reactions.tsx';
 
+/** Maximum number of link previews shown under a single message */
+const MAX_LINK_PREVIEWS = 3;
+
+/** Keys that run an action on the focused message, mapped to the action's ID */
+const KEYBOARD_SHORTCUTS = new Map([
+  ['e', 'edit'],
+  ['r', 'react'],
+  ['Delete', 'delete'],
+]);
+
 /**
  * Formats a timestamp into a readable time string
  * For today's dates: HH:MM format
@@ -79,6 +108,99 @@ export interface ChatMessageProps {
    */
   onReactionRemove?: (message: Message, emoji: string) => void;
 
+  /**
+   * Optional callback triggered when the user chooses to reply to the message.
+   * The reply action is hidden when omitted.
+   * @param message - The message being replied to
+   */
+  onReply?: (message: Message) => void;
+
+  /**
+   * Optional callback triggered when the quote of a reply's parent message is clicked.
+   * The quote is not interactive when omitted.
+   * @param serial - Serial of the quoted message
+   */
+  onQuoteClick?: (serial: string) => void;
+
+  /**
+   * Optional callback triggered when the user opens the thread started by the message.
+   * The thread action and reply count are hidden when omitted.
+   * @param message - The message that starts the thread
+   */
+  onOpenThread?: (message: Message) => void;
+
+  /**
+   * Number of replies in the thread started by the message, shown as "N replies" under it.
+   * @default 0
+   */
+  threadReplyCount?: number;
+
+  /**
+   * Whether the message is pinned in the room, shown as a "Pinned" label above it.
+   * @default false
+   */
+  isPinned?: boolean;
+
+  /**
+   * Optional callback triggered when the user pins or unpins the message.
+   * The pin action is hidden when omitted, or when pins are disabled in the chat settings.
+   * @param message - The message to pin or unpin
+   */
+  onPinToggle?: (message: Message) => void;
+
+  /**
+   * Earlier versions of the message, oldest first, shown from a "View edits" action on edited
+   * messages. The action is hidden when omitted.
+   */
+  previousVersions?: Message[];
+
+  /**
+   * Custom actions offered on the message, such as copy text or report, shown in the toolbar's
+   * "More actions" menu and in the context menu. Actions are only shown when visible and
+   * permitted for the message.
+   */
+  messageActions?: readonly MessageAction[];
+
+  /**
+   * Whether the message continues a group of consecutive messages from the same sender.
+   * Grouped messages omit the avatar and timestamp, showing the time on hover instead.
+   * @default false
+   */
+  isGrouped?: boolean;
+
+  /**
+   * Allow and deny lists controlling which URLs in the message become links and get previews.
+   * By default every http(s) URL is linked.
+   */
+  linkPolicy?: LinkPolicy;
+
+  /**
+   * Resolver used to show preview cards for links under the message.
+   * No previews are shown when omitted.
+   */
+  linkPreviewResolver?: LinkPreviewResolver;
+
+  /**
+   * Whether the message is being edited, for putting it into edit mode from outside, e.g. when
+   * the user presses Up in an empty input to edit their last message. The message manages its
+   * own edit mode when omitted.
+   */
+  isEditing?: boolean;
+
+  /**
+   * Optional callback triggered when the message enters or leaves edit mode, whether from its
+   * edit action or by saving or cancelling the edit.
+   * @param isEditing - Whether the message is now being edited
+   */
+  onEditingChange?: (isEditing: boolean) => void;
+
+  /**
+   * Tab index of the message, making it focusable. Set by ChatMessageList, which moves focus
+   * between messages with the arrow keys. While focused, the message shows its actions and
+   * responds to shortcuts: `e` to edit, `r` to react and `Delete` to delete.
+   */
+  tabIndex?: number;
+
   /**
    * Additional CSS class names to apply to the message container
    * Useful for custom styling or theming
@@ -95,6 +217,18 @@ export interface ChatMessageProps {
  * - Emoji reactions system with picker and toggle functionality
  * - Avatar editing for message senders (own messages only)
  * - Status indicators (edited, deleted)
+ * - Optional Markdown rendering, with a live preview while editing
+ * - Clickable links, with optional preview cards
+ * - Mentions shown as chips, with messages mentioning the current user emphasized
+ * - Replies quoting their parent message, which can be clicked to jump to it
+ * - Thread reply count, opening the thread when clicked
+ * - Pinned label, and a pin action for users allowed to pin
+ * - Edit history of edited messages, showing what each edit changed
+ * - Custom message actions, and a context menu opened by right-click or long press
+ * - Keyboard shortcuts on the focused message, with focus returned after dialogs close
+ * - Attached images and videos shown inline, and other files as download links
+ * - Emotes sent with `/me` shown in italics
+ * - Compact layout when grouped with the sender's previous message
  * - Basic ARIA support (role, aria-label)
  * - Hover tooltips showing sender information
  *
@@ -114,10 +248,26 @@ export const ChatMessage = ({
   onDelete,
   onReactionAdd,
   onReactionRemove,
+  onReply,
+  onQuoteClick,
+  onOpenThread,
+  threadReplyCount = 0,
+  isPinned = false,
+  onPinToggle,
+  previousVersions,
+  messageActions,
+  isGrouped = false,
+  linkPolicy,
+  linkPreviewResolver,
+  isEditing: isEditingProp,
+  onEditingChange,
+  tabIndex,
   className,
 }: ChatMessageProps) => {
   const [isHovered, setIsHovered] = useState(false);
-  const [isEditing, setIsEditing] = useState(false);
+  const [hasFocus, setHasFocus] = useState(false);
+  const [isEditingState, setIsEditingState] = useState(false);
+  const isEditing = isEditingProp ?? isEditingState;
   const [editText, setEditText] = useState(message.text || '');
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
   const [emojiPickerPosition, setEmojiPickerPosition] = useState({ top: 0, left: 0 });
@@ -128,19 +278,102 @@ export const ChatMessage = ({
 
   // Confirm dialog state
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [showEditHistory, setShowEditHistory] = useState(false);
 
   const messageRef = useRef<HTMLDivElement>(null);
+  /** Element focused when a dialog, picker or edit was opened, to return focus to afterwards */
+  const focusReturnRef = useRef<HTMLElement | undefined>(undefined);
+  const shouldRestoreFocusRef = useRef(false);
   const messageBubbleRef = useRef<HTMLDivElement>(null);
+  const editInputRef = useRef<HTMLInputElement | HTMLTextAreaElement>(null);
   const avatarRef = useRef<HTMLDivElement>(null);
   const { clientId } = useChatClient();
   const isOwn = message.clientId === clientId;
 
   const { userAvatar } = useUserAvatar({ clientId: message.clientId });
 
+  const { roomName } = useRoom();
+  const { getEffectiveSettings } = useChatSettings();
+  const settings = getEffectiveSettings(roomName);
+  const { enableMarkdown, messageReactionType } = settings;
+
+  const isDeleted = message.action === ChatMessageAction.MessageDelete;
+  const previewUrls = useMemo(
+    () =>
+      linkPreviewResolver && !isDeleted
+        ? extractLinks(message.text || '', linkPolicy).slice(0, MAX_LINK_PREVIEWS)
+        : [],
+    [linkPreviewResolver, isDeleted, message.text, linkPolicy]
+  );
+  const linkPreviews = useLinkPreviews({ urls: previewUrls, resolver: linkPreviewResolver });
+
+  const mentions = useMemo(() => getMentions(message.metadata), [message.metadata]);
+  const mentionsMe =
+    !isOwn && !isDeleted && isMentioned(message.text || '', message.metadata, clientId);
+  const reply = useMemo(() => getReplyReference(message.metadata), [message.metadata]);
+  const attachments = useMemo(() => getAttachments(message.metadata), [message.metadata]);
+  // Messages sent with `/me` describe an action by the sender
+  const emote = isEmote(message.metadata);
+  // Messages sent with only attachments have no text to show
+  const hasText = !!message.text || attachments.length === 0;
+  const isEdited = message.action === ChatMessageAction.MessageUpdate;
+  // Without Markdown, fenced code blocks are still shown as code rather than wrapped text
+  const plainSegments = useMemo(
+    () => (enableMarkdown ? [] : splitCodeBlocks(message.text || '')),
+    [enableMarkdown, message.text]
+  );
+
+  /**
+   * Remembers the focused element, so focus can return to it when a dialog, picker or edit closes
+   */
+  const rememberFocus = () => {
+    focusReturnRef.current =
+      document.activeElement instanceof HTMLElement ? document.activeElement : undefined;
+  };
+
+  /**
+   * Returns focus to the remembered element once the dialog, picker or edit has closed
+   */
+  const restoreFocus = () => {
+    shouldRestoreFocusRef.current = true;
+  };
+
+  // Runs after the render that closed a dialog, picker or edit. Falls back to focusing the
+  // message when the remembered element is gone, e.g. because it was in the actions toolbar.
+  useEffect(() => {
+    if (!shouldRestoreFocusRef.current) return;
+    shouldRestoreFocusRef.current = false;
+    const previous = focusReturnRef.current;
+    focusReturnRef.current = undefined;
+    if (previous?.isConnected) {
+      previous.focus();
+    } else if (tabIndex !== undefined) {
+      messageRef.current?.focus();
+    }
+  });
+
+  // Move focus to the edit input, however edit mode was entered. Edits started from outside,
+  // e.g. with Up in the message input, return focus to where they started.
+  useEffect(() => {
+    if (!isEditing) return;
+    focusReturnRef.current ??=
+      document.activeElement instanceof HTMLElement ? document.activeElement : undefined;
+    editInputRef.current?.focus();
+  }, [isEditing]);
+
+  /**
+   * Enters or leaves edit mode, notifying onEditingChange
+   */
+  const setIsEditing = (editing: boolean) => {
+    setIsEditingState(editing);
+    onEditingChange?.(editing);
+  };
+
   /**
    * Enables edit mode for the message
    */
   const handleEdit = () => {
+    rememberFocus();
     setIsEditing(true);
   };
 
@@ -153,6 +386,7 @@ export const ChatMessage = ({
       onEdit?.(message, editText.trim());
     }
     setIsEditing(false);
+    restoreFocus();
   };
 
   /**
@@ -161,12 +395,14 @@ export const ChatMessage = ({
   const handleCancelEdit = () => {
     setEditText(message.text || '');
     setIsEditing(false);
+    restoreFocus();
   };
 
   /**
    * Shows the delete confirmation dialog
    */
   const handleDelete = () => {
+    rememberFocus();
     setShowDeleteConfirm(true);
   };
 
@@ -233,6 +469,7 @@ export const ChatMessage = ({
    * Calculates optimal position to ensure it's visible within the viewport
    */
   const handleAddReaction = () => {
+    rememberFocus();
     const position = calculateEmojiPickerPosition();
     setEmojiPickerPosition(position);
     setShowEmojiPicker(true);
@@ -247,6 +484,7 @@ export const ChatMessage = ({
   const handleEmojiSelect = (emoji: string) => {
     onReactionAdd?.(message, emoji);
     setShowEmojiPicker(false);
+    restoreFocus();
   };
 
   // Update emoji picker position when window is resized
@@ -267,14 +505,21 @@ export const ChatMessage = ({
   /**
    * Toggles a reaction on a message when clicking an existing reaction
    * If the user has already reacted with this emoji, it removes the reaction
-   * Otherwise, it adds the reaction
+   * Otherwise, it adds the reaction, which replaces the user's other reaction for `Unique` reactions
+   * For `Multiple` reactions, clicking always adds another reaction
    *
    * @param emoji - The emoji to toggle
    */
   const handleReactionClick = (emoji: string) => {
     if (!clientId) return;
-    const distinct = message.reactions.distinct;
-    const hasUserReacted = distinct[emoji]?.clientIds.includes(clientId);
+    if (messageReactionType === MessageReactionType.Multiple) {
+      onReactionAdd?.(message, emoji);
+      return;
+    }
+    const reaction = getReactionCounts(message.reactions, messageReactionType).find(
+      (r) => r.emoji === emoji
+    );
+    const hasUserReacted = reaction?.clientIds.includes(clientId);
 
     if (hasUserReacted) {
       onReactionRemove?.(message, emoji);
@@ -361,62 +606,142 @@ export const ChatMessage = ({
     };
   };
 
+  const actionProps: MessageActionsProps = {
+    isOwn,
+    onReactionButtonClicked: handleAddReaction,
+    onEditButtonClicked: handleEdit,
+    onDeleteButtonClicked: handleDelete,
+    onReplyButtonClicked: onReply
+      ? () => {
+          onReply(message);
+        }
+      : undefined,
+    onThreadButtonClicked: onOpenThread
+      ? () => {
+          onOpenThread(message);
+        }
+      : undefined,
+    onPinButtonClicked: onPinToggle
+      ? () => {
+          onPinToggle(message);
+        }
+      : undefined,
+    isPinned,
+    onViewEditsButtonClicked:
+      previousVersions && message.action === ChatMessageAction.MessageUpdate
+        ? () => {
+            rememberFocus();
+            setShowEditHistory(true);
+          }
+        : undefined,
+    customActions: getAvailableMessageActions(messageActions, message, {
+      currentClientId: clientId,
+      isOwn,
+      settings,
+    }).map((action) => ({
+      id: action.id,
+      label: action.label,
+      icon: action.icon,
+      onClick: () => {
+        action.onSelect(message);
+      },
+    })),
+  };
+  const showActions = !isEditing && !isDeleted;
+
+  /**
+   * Runs keyboard shortcuts for the message's actions while the message itself is focused
+   *
+   * @param e - The keyboard event
+   */
+  const handleMessageKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.target !== e.currentTarget || e.ctrlKey || e.metaKey || e.altKey || !showActions) {
+      return;
+    }
+    const actionId = KEYBOARD_SHORTCUTS.get(e.key);
+    const action =
+      actionId && getMessageActionItems(actionProps, settings).find((a) => a.id === actionId);
+    if (!action) return;
+    e.preventDefault();
+    action.onClick();
+  };
+
   return (
     <div
       ref={messageRef}
       className={clsx(
-        'relative flex items-start gap-2 mb-4',
+        'relative flex items-start gap-2 mb-4 rounded-lg outline-none focus-visible:ring-2 focus-visible:ring-blue-500',
         isOwn ? 'flex-row-reverse' : 'flex-row',
         className
       )}
+      tabIndex={tabIndex}
+      onKeyDown={handleMessageKeyDown}
+      onFocus={() => {
+        setHasFocus(true);
+      }}
+      onBlur={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget)) {
+          setHasFocus(false);
+        }
+      }}
       role="article"
-      aria-label={`Message from ${message.clientId}${message.action === ChatMessageAction.MessageDelete ? ' (deleted)' : ''}${message.action === ChatMessageAction.MessageUpdate ? ' (edited)' : ''}`}
+      aria-label={`Message from ${message.clientId}${mentionsMe ? ' (mentions you)' : ''}${message.action === ChatMessageAction.MessageDelete ? ' (deleted)' : ''}${message.action === ChatMessageAction.MessageUpdate ? ' (edited)' : ''}`}
     >
-      {/* Avatar with hover tooltip functionality */}
-      <div className="relative">
-        <div
-          ref={avatarRef}
-          className={`relative`}
-          onMouseEnter={handleAvatarMouseEnter}
-          onMouseLeave={handleAvatarMouseLeave}
-          aria-label={`Avatar for ${message.clientId}`}
-          tabIndex={isOwn ? 0 : undefined}
-        >
-          <Avatar
-            alt={userAvatar?.displayName}
-            src={userAvatar?.src}
-            color={userAvatar?.color}
-            size="sm"
-            initials={userAvatar?.initials}
-          />
-        </div>
+      {/* Avatar with hover tooltip functionality, or a spacer keeping grouped messages aligned */}
+      {isGrouped ? (
+        <div className="w-8 shrink-0" aria-hidden="true" />
+      ) : (
+        <div className="relative">
+          <div
+            ref={avatarRef}
+            className={`relative`}
+            onMouseEnter={handleAvatarMouseEnter}
+            onMouseLeave={handleAvatarMouseLeave}
+            aria-label={`Avatar for ${message.clientId}`}
+            tabIndex={isOwn ? 0 : undefined}
+          >
+            <Avatar
+              alt={userAvatar?.displayName}
+              src={userAvatar?.src}
+              color={userAvatar?.color}
+              size="sm"
+              initials={userAvatar?.initials}
+            />
+          </div>
 
-        {/* Avatar Hover Tooltip */}
-        {showAvatarTooltip &&
-          (() => {
-            const coords = calculateTooltipPosition();
-
-            if (!coords) return;
-
-            return createPortal(
-              <Tooltip
-                position={tooltipPosition}
-                className="fixed transform -translate-x-1/2"
-                style={{ top: coords.top, left: coords.left }}
-                spacing="none"
-                role="tooltip"
-                aria-live="polite"
-              >
-                <div className="text-center text-sm px-2 py-1">{message.clientId}</div>
-              </Tooltip>,
-              document.body
-            );
-          })()}
-      </div>
+          {/* Avatar Hover Tooltip */}
+          {showAvatarTooltip &&
+            (() => {
+              const coords = calculateTooltipPosition();
+
+              if (!coords) return;
+
+              return createPortal(
+                <Tooltip
+                  position={tooltipPosition}
+                  className="fixed transform -translate-x-1/2"
+                  style={{ top: coords.top, left: coords.left }}
+                  spacing="none"
+                  role="tooltip"
+                  aria-live="polite"
+                >
+                  <div className="text-center text-sm px-2 py-1">{message.clientId}</div>
+                </Tooltip>,
+                document.body
+              );
+            })()}
+        </div>
+      )}
 
       <div
         className={`flex flex-col max-w-[85%] md:max-w-[80%] lg:max-w-[75%] ${isOwn ? 'items-end' : 'items-start'}`}
       >
+        {isPinned && !isDeleted && (
+          <span className="flex items-center gap-1 mb-1 px-2 text-xs font-medium text-blue-600 dark:text-blue-400">
+            <Icon name="pin" size="sm" aria-hidden={true} />
+            Pinned
+          </span>
+        )}
         <div
           className="relative"
           onMouseEnter={() => {
@@ -426,92 +751,188 @@ export const ChatMessage = ({
             setIsHovered(false);
           }}
         >
-          <div
-            ref={messageBubbleRef}
-            className={`relative px-4 py-2 rounded-2xl ${
-              isOwn
-                ? 'bg-gray-900 text-white rounded-br-md'
-                : 'bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-gray-100 rounded-bl-md'
-            }`}
-            aria-live={message.action === ChatMessageAction.MessageUpdate ? 'polite' : 'off'}
-          >
-            {isEditing ? (
-              <div className="min-w-[200px]">
-                <TextInput
-                  value={editText}
-                  onChange={(e) => {
-                    setEditText(e.target.value);
-                  }}
-                  onKeyDown={handleKeyPress}
-                  placeholder="Edit message..."
-                  className="text-sm mb-2"
-                  autoFocus
-                  aria-label="Edit message text"
-                />
-                <div className="flex gap-2">
-                  <Button
-                    variant="primary"
-                    size="sm"
-                    onClick={handleSaveEdit}
-                    disabled={!editText.trim()}
-                  >
-                    Save
-                  </Button>
-                  <Button variant="secondary" size="sm" onClick={handleCancelEdit}>
-                    Cancel
-                  </Button>
-                </div>
-              </div>
-            ) : (
-              <div>
-                {message.action === ChatMessageAction.MessageDelete ? (
-                  <p className="text-sm leading-relaxed break-words break-all whitespace-pre-wrap italic text-gray-500 dark:text-gray-400">
-                    Message deleted
-                  </p>
+          <DropdownMenu
+            openOn="contextmenu"
+            align={isOwn ? 'right' : 'left'}
+            items={showActions ? getMessageActionItems(actionProps, settings) : []}
+            trigger={
+              <div
+                ref={messageBubbleRef}
+                className={`relative px-4 py-2 rounded-2xl ${
+                  isOwn
+                    ? 'bg-gray-900 text-white rounded-br-md'
+                    : mentionsMe
+                      ? 'bg-amber-50 dark:bg-amber-900/30 ring-2 ring-amber-400 text-gray-900 dark:text-gray-100 rounded-bl-md'
+                      : 'bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-gray-100 rounded-bl-md'
+                }`}
+                aria-live={message.action === ChatMessageAction.MessageUpdate ? 'polite' : 'off'}
+                title={isGrouped ? formatTime(message.timestamp.getTime()) : undefined}
+              >
+                {isEditing ? (
+                  <div className="min-w-[200px]">
+                    <TextInput
+                      ref={editInputRef}
+                      value={editText}
+                      onChange={(e) => {
+                        setEditText(e.target.value);
+                      }}
+                      onKeyDown={handleKeyPress}
+                      placeholder="Edit message..."
+                      className="text-sm mb-2"
+                      aria-label="Edit message text"
+                    />
+                    {enableMarkdown && editText.trim() && (
+                      <div
+                        className="text-sm leading-relaxed break-words mb-2 p-2 rounded-md border border-gray-500/30"
+                        aria-label="Edit preview"
+                      >
+                        <Markdown
+                          text={editText}
+                          linkPolicy={linkPolicy}
+                          mentions={mentions}
+                          currentClientId={clientId}
+                        />
+                      </div>
+                    )}
+                    <div className="flex gap-2">
+                      <Button
+                        variant="primary"
+                        size="sm"
+                        onClick={handleSaveEdit}
+                        disabled={!editText.trim()}
+                      >
+                        Save
+                      </Button>
+                      <Button variant="secondary" size="sm" onClick={handleCancelEdit}>
+                        Cancel
+                      </Button>
+                    </div>
+                  </div>
                 ) : (
-                  <p className="text-sm leading-relaxed break-words break-all whitespace-pre-wrap">
-                    {message.text || ''}
-                    {message.action === ChatMessageAction.MessageUpdate && (
-                      <span className="text-xs opacity-60 ml-2">(edited)</span>
+                  <div>
+                    {reply && !isDeleted && (
+                      <MessageQuote
+                        clientId={reply.clientId}
+                        text={reply.text}
+                        onClick={
+                          onQuoteClick
+                            ? () => {
+                                onQuoteClick(reply.serial);
+                              }
+                            : undefined
+                        }
+                        className="mb-1"
+                      />
+                    )}
+                    {message.action === ChatMessageAction.MessageDelete ? (
+                      <p className="text-sm leading-relaxed break-words break-all whitespace-pre-wrap italic text-gray-500 dark:text-gray-400">
+                        Message deleted
+                      </p>
+                    ) : (
+                      hasText &&
+                      (enableMarkdown ? (
+                        <div
+                          className={clsx('text-sm leading-relaxed break-words', emote && 'italic')}
+                        >
+                          <Markdown
+                            text={message.text || ''}
+                            linkPolicy={linkPolicy}
+                            mentions={mentions}
+                            currentClientId={clientId}
+                          />
+                          {isEdited && <span className="text-xs opacity-60">(edited)</span>}
+                        </div>
+                      ) : (
+                        <div
+                          className={clsx('text-sm leading-relaxed space-y-2', emote && 'italic')}
+                        >
+                          {plainSegments.map((segment, i) =>
+                            segment.type === 'codeBlock' ? (
+                              <CodeBlock key={i} code={segment.code} language={segment.language} />
+                            ) : (
+                              <p key={i} className="break-words break-all whitespace-pre-wrap">
+                                <LinkifiedText
+                                  text={segment.text}
+                                  linkPolicy={linkPolicy}
+                                  mentions={mentions}
+                                  currentClientId={clientId}
+                                />
+                                {isEdited && i === plainSegments.length - 1 && (
+                                  <span className="text-xs opacity-60 ml-2">(edited)</span>
+                                )}
+                              </p>
+                            )
+                          )}
+                          {/* A code block can't hold the marker, so it goes on its own line */}
+                          {isEdited && plainSegments.at(-1)?.type !== 'text' && (
+                            <span className="text-xs opacity-60">(edited)</span>
+                          )}
+                        </div>
+                      ))
                     )}
-                  </p>
+                    {!isDeleted && (
+                      <MessageAttachments
+                        attachments={attachments}
+                        className={hasText ? 'mt-2' : undefined}
+                      />
+                    )}
+                  </div>
                 )}
               </div>
-            )}
-          </div>
+            }
+          />
 
           {/* Message Actions to update/delete/react */}
-          {isHovered && !isEditing && message.action !== ChatMessageAction.MessageDelete && (
-            <MessageActions
-              isOwn={isOwn}
-              onReactionButtonClicked={handleAddReaction}
-              onEditButtonClicked={handleEdit}
-              onDeleteButtonClicked={handleDelete}
-            />
-          )}
+          {(isHovered || hasFocus) && showActions && <MessageActions {...actionProps} />}
         </div>
 
+        {linkPreviews.length > 0 && (
+          <div className="flex flex-col gap-1 mt-1">
+            {linkPreviews.map((preview) => (
+              <LinkPreviewCard key={preview.url} preview={preview} />
+            ))}
+          </div>
+        )}
+
+        {onOpenThread && threadReplyCount > 0 && (
+          <button
+            type="button"
+            className="mt-1 px-2 text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline"
+            onClick={() => {
+              onOpenThread(message);
+            }}
+          >
+            {threadReplyCount === 1 ? '1 reply' : `${String(threadReplyCount)} replies`}
+          </button>
+        )}
+
         {/* Reactions will be rendered below the relevant message */}
         {message.action !== ChatMessageAction.MessageDelete &&
-          Object.keys(message.reactions.distinct).length > 0 &&
+          getReactionCounts(message.reactions, messageReactionType).length > 0 &&
           clientId && (
             <MessageReactions
               message={message}
+              reactionType={messageReactionType}
               onReactionClick={handleReactionClick}
+              onReactionRemove={(emoji) => {
+                onReactionRemove?.(message, emoji);
+              }}
               currentClientId={clientId}
             />
           )}
 
-        <div className="flex items-center gap-2 mt-1 px-2">
-          <span className="text-xs text-gray-500">
-            {formatTime(message.timestamp.getTime())}
-            {message.action === ChatMessageAction.MessageUpdate && (
-              <span className="ml-1">
-                • edited {formatTime(message.version.timestamp.getTime())}
-              </span>
-            )}
-          </span>
-        </div>
+        {!isGrouped && (
+          <div className="flex items-center gap-2 mt-1 px-2">
+            <span className="text-xs text-gray-500">
+              {formatTime(message.timestamp.getTime())}
+              {message.action === ChatMessageAction.MessageUpdate && (
+                <span className="ml-1">
+                  • edited {formatTime(message.version.timestamp.getTime())}
+                </span>
+              )}
+            </span>
+          </div>
+        )}
       </div>
 
       {/* Emoji Picker */}
@@ -519,6 +940,7 @@ export const ChatMessage = ({
         <EmojiPicker
           onClose={() => {
             setShowEmojiPicker(false);
+            restoreFocus();
           }}
           onEmojiSelect={handleEmojiSelect}
           position={emojiPickerPosition}
@@ -530,6 +952,7 @@ export const ChatMessage = ({
         isOpen={showDeleteConfirm}
         onClose={() => {
           setShowDeleteConfirm(false);
+          restoreFocus();
         }}
         onConfirm={handleConfirmDelete}
         title="Delete Message"
@@ -539,6 +962,19 @@ export const ChatMessage = ({
         confirmVariant="danger"
         icon={<Icon name="delete" size="lg" />}
       />
+
+      {/* Edit History Dialog */}
+      {previousVersions && (
+        <EditHistoryDialog
+          isOpen={showEditHistory}
+          onClose={() => {
+            setShowEditHistory(false);
+            restoreFocus();
+          }}
+          message={message}
+          previousVersions={previousVersions}
+        />
+      )}
     </div>
   );
 };
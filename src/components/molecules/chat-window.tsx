@@ -1,13 +1,36 @@
-import { ErrorInfo, Message, MessageReactionType } from '@ably/chat';
-import { useMessages, usePresence } from '@ably/chat/react';
+import { ChatMessageAction, ChatMessageEvent, ErrorInfo, Message } from '@ably/chat';
+import { useChatClient, useMessages, usePresence } from '@ably/chat/react';
 import { clsx } from 'clsx';
-import React, { useCallback } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 
-import { useMessageWindow } from '../../hooks/use-message-window.tsx';
+import { useAttachmentUploads } from '../../hooks/use-attachment-uploads.tsx';
+import { useChatSettings } from '../../hooks/use-chat-settings.tsx';
+import { JumpToMessageFailure, useMessageWindow } from '../../hooks/use-message-window.tsx';
+import { useOutbox } from '../../hooks/use-outbox.tsx';
+import { usePinnedMessages } from '../../hooks/use-pinned-messages.tsx';
+import { useUnreadMessages } from '../../hooks/use-unread-messages.tsx';
+import { AttachmentUploader } from '../../utils/attachments.ts';
+import { LinkPreviewResolver } from '../../utils/link-preview.ts';
+import { LinkPolicy } from '../../utils/links.ts';
+import { canEditMessage, MessageAction } from '../../utils/message-actions.ts';
+import { MessageCache } from '../../utils/message-cache.ts';
+import { MessageRenderer } from '../../utils/message-renderers.ts';
+import { defaultOutboxStore, OutboxStore } from '../../utils/outbox.ts';
+import { defaultPinStore, PinStore } from '../../utils/pins.ts';
+import { defaultReadMarkerStore, ReadMarkerStore } from '../../utils/read-markers.ts';
+import { EphemeralResponse, SlashCommandRegistry } from '../../utils/slash-commands.ts';
+import { countThreadReplies, getThreadParentSerial } from '../../utils/threads.ts';
 import { ChatMessageList } from './chat-message-list.tsx';
 import { ChatWindowFooter } from './chat-window-footer.tsx';
 import { ChatWindowHeader } from './chat-window-header.tsx';
 import { MessageInput } from './message-input.tsx';
+import { PinnedMessagesBar } from './pinned-messages-bar.tsx';
+import { ThreadPanel } from './thread-panel.tsx';
+
+/** How long a message stays highlighted after jumping to it */
+const HIGHLIGHT_DURATION_MS = 2000;
+
+const NO_EPHEMERAL_RESPONSES: EphemeralResponse[] = [];
 
 /**
  * Props for the ChatWindow component
@@ -89,6 +112,156 @@ export interface ChatWindowProps {
    */
   windowSize?: number;
 
+  /**
+   * Optional cache used to display the room's recent messages instantly,
+   * before history has been fetched. Cached messages are reconciled with history
+   * and live events once they arrive. Should be a stable instance shared across rooms.
+   *
+   * No cache is used when omitted, so nothing is persisted and each room starts empty until
+   * its history loads. `App` passes an `IndexedDBMessageCache` by default; when rendering
+   * `ChatWindow` directly, pass one yourself to keep messages across reloads and while offline.
+   *
+   * @example
+   * const messageCache = new IndexedDBMessageCache();
+   * <ChatWindow roomName="general" messageCache={messageCache} />
+   */
+  messageCache?: MessageCache;
+
+  /**
+   * Maximum number of messages kept in memory for the room. Messages furthest from the
+   * current scroll position are evicted and fetched again from history when needed.
+   * Useful for long-lived sessions in busy rooms. Unbounded by default.
+   *
+   * @example
+   * maxStoredMessages={2000}
+   */
+  maxStoredMessages?: number;
+
+  /**
+   * Store used to remember the last message read in each room. Messages viewed in the list
+   * advance the room's read marker, and a "New messages" divider is shown above the first
+   * message that was unread when the room was opened.
+   * Pass the same instance to `useUnreadMessages` to read the room's unread count elsewhere.
+   *
+   * @default the shared default store, persisted to localStorage
+   */
+  readMarkerStore?: ReadMarkerStore;
+
+  /**
+   * Store holding messages that have not been sent yet, e.g. while offline.
+   * Queued messages are persisted across reloads and sent in order once connected.
+   *
+   * @default the shared default store, persisted to localStorage
+   */
+  outboxStore?: OutboxStore;
+
+  /**
+   * Store holding the room's pinned messages, listed in the header above the messages.
+   * Pinning is offered to users whose chat settings have `allowMessagePins` enabled.
+   * Implement `PinStore` to share pins between users through your own service.
+   * Pass the same instance to `usePinnedMessages` to read the room's pins elsewhere.
+   *
+   * @default the shared default store, persisted to localStorage on this device
+   */
+  pinStore?: PinStore;
+
+  /**
+   * Serial of a message to jump to, e.g. from a deep link or search result.
+   * Whenever this changes, history is paged back until the message is found, then the list
+   * scrolls to it and briefly highlights it.
+   *
+   * @example
+   * <ChatWindow roomName="general" jumpToMessageSerial={searchParams.get('message')} />
+   */
+  jumpToMessageSerial?: string;
+
+  /**
+   * Allow and deny lists controlling which URLs in messages become links.
+   * By default every http(s) URL is linked.
+   *
+   * @example
+   * <ChatWindow roomName="general" linkPolicy={{ deniedDomains: ['bit.ly'] }} />
+   */
+  linkPolicy?: LinkPolicy;
+
+  /**
+   * Resolver used to show title, description and image cards for links in messages.
+   * Results are cached per URL. No previews are shown when omitted.
+   *
+   * @example
+   * const resolver = {
+   *   resolve: (url) => fetch(`/api/unfurl?url=${encodeURIComponent(url)}`).then((r) => r.json()),
+   * };
+   * <ChatWindow roomName="general" linkPreviewResolver={resolver} />
+   */
+  linkPreviewResolver?: LinkPreviewResolver;
+
+  /**
+   * Custom renderers for messages that should not look like chat bubbles, such as bot cards
+   * or system notices. Renderers are checked in order, and messages no renderer matches are
+   * shown as standard chat messages. Should be a stable array.
+   *
+   * @example
+   * const messageRenderers = [
+   *   {
+   *     match: matchHeader('type', 'order-update'),
+   *     render: (message) => <OrderUpdateCard message={message} />,
+   *   },
+   * ];
+   * <ChatWindow roomName="orders" messageRenderers={messageRenderers} />
+   */
+  messageRenderers?: readonly MessageRenderer[];
+
+  /**
+   * Custom actions offered on messages alongside react, reply, edit and delete, such as copy
+   * text, report or create ticket. Each action can decide whether it applies to a message and
+   * whether the current user may use it. Actions appear in the "More actions" menu of the
+   * message toolbar, and in the context menu opened by right-clicking or long-pressing a message.
+   *
+   * @example
+   * const messageActions = [
+   *   {
+   *     id: 'copy-text',
+   *     label: 'Copy text',
+   *     onSelect: (message) => void navigator.clipboard.writeText(message.text),
+   *   },
+   *   {
+   *     id: 'report',
+   *     label: 'Report',
+   *     isPermitted: (message, { isOwn }) => !isOwn,
+   *     onSelect: (message) => reportMessage(message),
+   *   },
+   * ];
+   * <ChatWindow roomName="support" messageActions={messageActions} />
+   */
+  messageActions?: readonly MessageAction[];
+
+  /**
+   * Uploader used to attach files to messages. When provided, files can be attached with the
+   * attach button in the message input, or by dropping or pasting them onto the chat window.
+   * Uploaded files are sent as attachment descriptors in the message metadata.
+   *
+   * @example
+   * <ChatWindow roomName="general" attachmentUploader={new MockAttachmentUploader()} />
+   */
+  attachmentUploader?: AttachmentUploader;
+
+  /**
+   * Slash commands offered in the message input, run by typing `/` and the command name at the
+   * start of a message. Commands can send a message, run a local action in the app, or respond
+   * with text shown in the message list only to the current user.
+   *
+   * @example
+   * const slashCommands = new SlashCommandRegistry([
+   *   shrugCommand,
+   *   meCommand,
+   *   createGiphyCommand(searchGifs),
+   *   createTopicCommand((topic) => setRoomTopic(roomName, topic)),
+   * ]);
+   * <ChatWindow roomName="general" slashCommands={slashCommands} />
+   */
+  slashCommands?: SlashCommandRegistry;
+
   /**
    * Additional CSS class names to apply to the root container.
    * Useful for custom styling, layout adjustments, theme variations,
@@ -169,11 +342,47 @@ export interface ChatWindowProps {
     /**
      * Called when sending a message fails.
      * Provides the error object and the text that failed to send.
+     * The message stays in the list with Retry and Discard actions.
      *
      * @param error - The error that occurred during message sending
      * @param text - The text that failed to send
      */
     onMessageSendError?: (error: ErrorInfo, text: string) => void;
+
+    /**
+     * Called when a message being jumped to could not be shown.
+     *
+     * @param serial - The serial of the message that could not be shown
+     * @param failure - Why: not in the room's history, beyond the page limit, or a failed fetch
+     */
+    onJumpToMessageError?: (serial: string, failure: JumpToMessageFailure) => void;
+
+    /**
+     * Called when pinning or unpinning a message fails.
+     * Provides the error thrown by the pin store and the serial of the message.
+     *
+     * @param error - The error that occurred while updating the pins
+     * @param serial - The serial of the message that failed to be pinned or unpinned
+     */
+    onPinMessageError?: (error: unknown, serial: string) => void;
+
+    /**
+     * Called when uploading an attached file fails.
+     * The file stays attached with a failed status until the user removes it.
+     *
+     * @param error - The error thrown by the uploader
+     * @param file - The file that failed to upload
+     */
+    onAttachmentUploadError?: (error: unknown, file: File) => void;
+
+    /**
+     * Called when a slash command fails.
+     * The command stays in the message input, so it can be retried.
+     *
+     * @param error - The error thrown by the command's handler
+     * @param command - The command as typed
+     */
+    onSlashCommandError?: (error: unknown, command: string) => void;
   };
 }
 
@@ -183,11 +392,24 @@ export interface ChatWindowProps {
  * Features:
  * - Message display with history loading
  * - Message editing, deletion, and reactions
+ * - Up in the empty input to edit the last message you sent
  * - Typing indicators and presence
  * - Custom header and footer content
  * - Discontinuity recovery on reconnection
  * - Active chat window management to control which messages are rendered in the UI.
  * - History loading with infinite scroll support
+ * - Read markers with a "New messages" divider
+ * - Jumping to any message, fetching history as needed
+ * - Optimistic sending, with Retry and Discard for failed messages
+ * - Messages sent while offline are queued, persisted and sent on reconnect
+ * - Clickable links with optional previews
+ * - Replies that quote the original message, jumping to it when the quote is clicked
+ * - Threads, shown in a side panel and kept out of the main timeline
+ * - Pinned messages listed in the header, for users allowed to pin
+ * - Custom renderers for messages matching headers or metadata
+ * - Custom message actions, also offered from a right-click or long-press context menu
+ * - File attachments from the attach button, drag and drop, or paste
+ * - Slash commands, with responses only the current user can see
  * - Custom error handling for all chat operations
  *
  * The enableTypingIndicators prop controls both the display of typing indicators in the
@@ -265,6 +487,18 @@ export const ChatWindow = ({
   customHeaderContent,
   customFooterContent,
   windowSize = 200,
+  messageCache,
+  maxStoredMessages,
+  readMarkerStore = defaultReadMarkerStore,
+  outboxStore = defaultOutboxStore,
+  pinStore = defaultPinStore,
+  jumpToMessageSerial,
+  linkPolicy,
+  linkPreviewResolver,
+  messageRenderers,
+  messageActions,
+  attachmentUploader,
+  slashCommands,
   enableTypingIndicators = true,
   autoEnterPresence = true,
   className,
@@ -273,17 +507,330 @@ export const ChatWindow = ({
   // Initialize presence for the room,
   usePresence({ autoEnterLeave: autoEnterPresence });
 
-  const { deleteMessage, updateMessage, sendReaction, deleteReaction } = useMessages();
+  const { clientId } = useChatClient();
+
+  // Live messages can arrive outside the rendered window, but still count as unread
+  const handleMessageEvent = useCallback(
+    ({ message }: ChatMessageEvent) => {
+      if (getThreadParentSerial(message)) return;
+      readMarkerStore.updateMessages(roomName, [message], clientId);
+    },
+    [readMarkerStore, roomName, clientId]
+  );
+
+  const { deleteMessage, updateMessage, sendReaction, deleteReaction } = useMessages({
+    listener: handleMessageEvent,
+  });
 
   const {
     activeMessages,
     updateMessages,
     showLatestMessages,
     showMessagesAroundSerial,
+    jumpToMessage,
     loadMoreHistory,
     hasMoreHistory,
     loading,
-  } = useMessageWindow({ windowSize });
+    threadReplies,
+    editHistory,
+  } = useMessageWindow({
+    windowSize,
+    cache: messageCache,
+    maxStoredMessages,
+  });
+
+  const { lastReadSerial, markAsRead } = useUnreadMessages({
+    roomName,
+    store: readMarkerStore,
+  });
+
+  // The divider stays where the read marker was when the room was opened,
+  // rather than following the marker as the user reads
+  const [divider, setDivider] = useState({ roomName, serial: lastReadSerial });
+  if (divider.roomName !== roomName) {
+    setDivider({ roomName, serial: lastReadSerial });
+  }
+
+  useEffect(() => {
+    readMarkerStore.updateMessages(roomName, activeMessages, clientId);
+  }, [readMarkerStore, roomName, activeMessages, clientId]);
+
+  const handleMessageInView = useCallback(
+    (serial: string) => {
+      showMessagesAroundSerial(serial);
+    },
+    [showMessagesAroundSerial]
+  );
+
+  const handleLastMessageInView = useCallback(
+    (serial: string) => {
+      markAsRead(serial);
+    },
+    [markAsRead]
+  );
+
+  const handleViewLatest = useCallback(() => {
+    showLatestMessages();
+    // The list reports before the store has seen the newest messages, so pass the serial directly
+    markAsRead(activeMessages.at(-1)?.serial);
+  }, [showLatestMessages, markAsRead, activeMessages]);
+
+  // The message being replied to belongs to the room it was chosen in
+  const [reply, setReply] = useState<{ roomName: string; message?: Message }>({ roomName });
+  const replyTo = reply.roomName === roomName ? reply.message : undefined;
+
+  const handleReply = useCallback(
+    (message: Message) => {
+      setReply({ roomName, message });
+    },
+    [roomName]
+  );
+
+  const handleClearReply = useCallback(() => {
+    setReply({ roomName });
+  }, [roomName]);
+
+  // Slash command responses belong to the room the command was run in
+  const [ephemeral, setEphemeral] = useState<{
+    roomName: string;
+    responses: EphemeralResponse[];
+  }>({ roomName, responses: NO_EPHEMERAL_RESPONSES });
+  const ephemeralResponses =
+    ephemeral.roomName === roomName ? ephemeral.responses : NO_EPHEMERAL_RESPONSES;
+
+  const handleEphemeralResponse = useCallback(
+    (response: EphemeralResponse) => {
+      setEphemeral((prev) => ({
+        roomName,
+        responses: [...(prev.roomName === roomName ? prev.responses : []), response],
+      }));
+    },
+    [roomName]
+  );
+
+  const handleDismissEphemeral = useCallback((id: string) => {
+    setEphemeral((prev) => ({
+      ...prev,
+      responses: prev.responses.filter((response) => response.id !== id),
+    }));
+  }, []);
+
+  // The open thread belongs to the room it was opened in
+  const [thread, setThread] = useState<{ roomName: string; parent?: Message }>({ roomName });
+  const openParent = thread.roomName === roomName ? thread.parent : undefined;
+  // Prefer the live copy of the parent, so edits and reactions show in the panel
+  const threadParent = openParent
+    ? (activeMessages.find((m) => m.serial === openParent.serial) ?? openParent)
+    : undefined;
+
+  const threadReplyCounts = useMemo(
+    () =>
+      Object.fromEntries(
+        [...threadReplies].map(([serial, replies]) => [serial, countThreadReplies(replies)])
+      ),
+    [threadReplies]
+  );
+
+  // A thread to open once its parent is in the window, after jumping to one of its replies
+  const [threadToOpen, setThreadToOpen] = useState<{ roomName: string; parentSerial?: string }>({
+    roomName,
+  });
+  useEffect(() => {
+    if (threadToOpen.roomName !== roomName || !threadToOpen.parentSerial) return;
+    const parent = activeMessages.find((m) => m.serial === threadToOpen.parentSerial);
+    if (!parent) return;
+    setThread({ roomName, parent });
+    setThreadToOpen({ roomName });
+  }, [activeMessages, roomName, threadToOpen]);
+
+  const handleOpenThread = useCallback(
+    (message: Message) => {
+      setThread({ roomName, parent: message });
+    },
+    [roomName]
+  );
+
+  const handleCloseThread = useCallback(() => {
+    setThread({ roomName });
+  }, [roomName]);
+
+  const { getEffectiveSettings } = useChatSettings();
+  const settings = getEffectiveSettings(roomName);
+  const { allowMessagePins, messageReactionType } = settings;
+  const { pins, pinnedSerials, pin, unpin } = usePinnedMessages({ roomName, store: pinStore });
+
+  const handlePinError = useCallback(
+    (error: unknown, serial: string) => {
+      if (onError?.onPinMessageError) {
+        onError.onPinMessageError(error, serial);
+      } else {
+        console.error('Failed to update pinned messages:', error);
+      }
+    },
+    [onError]
+  );
+
+  const handlePinToggle = useCallback(
+    (msg: Message) => {
+      const update = pinnedSerials.has(msg.serial) ? unpin(msg.serial) : pin(msg, clientId);
+      update.catch((error: unknown) => {
+        handlePinError(error, msg.serial);
+      });
+    },
+    [pinnedSerials, pin, unpin, clientId, handlePinError]
+  );
+
+  const handleUnpin = useCallback(
+    (serial: string) => {
+      unpin(serial).catch((error: unknown) => {
+        handlePinError(error, serial);
+      });
+    },
+    [unpin, handlePinError]
+  );
+
+  const attachmentUploads = useAttachmentUploads({
+    uploader: attachmentUploader,
+    onUploadError: onError?.onAttachmentUploadError,
+  });
+  const { addFiles, clear: clearAttachments } = attachmentUploads;
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+
+  // Attachments belong to the message being composed in the room they were added in
+  useEffect(() => clearAttachments, [roomName, clearAttachments]);
+
+  const handleDragOver = useCallback(
+    (e: React.DragEvent<HTMLDivElement>) => {
+      if (!attachmentUploader || !e.dataTransfer.types.includes('Files')) return;
+      e.preventDefault();
+      setIsDraggingFiles(true);
+    },
+    [attachmentUploader]
+  );
+
+  const handleDragLeave = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+    // Ignore moves between children of the window
+    if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+    setIsDraggingFiles(false);
+  }, []);
+
+  const handleDrop = useCallback(
+    (e: React.DragEvent<HTMLDivElement>) => {
+      setIsDraggingFiles(false);
+      if (!attachmentUploader) return;
+      const files = [...e.dataTransfer.files];
+      if (files.length === 0) return;
+      e.preventDefault();
+      addFiles(files);
+    },
+    [attachmentUploader, addFiles]
+  );
+
+  const handlePaste = useCallback(
+    (e: React.ClipboardEvent<HTMLDivElement>) => {
+      // The message input attaches files pasted into it itself
+      if (!attachmentUploader || e.defaultPrevented) return;
+      const files = [...e.clipboardData.files];
+      if (files.length === 0) return;
+      e.preventDefault();
+      addFiles(files);
+    },
+    [attachmentUploader, addFiles]
+  );
+
+  const [highlightedSerial, setHighlightedSerial] = useState<string | undefined>();
+  const jumpControllerRef = useRef<AbortController | undefined>(undefined);
+  const lastJumpSerialRef = useRef<string | undefined>(undefined);
+
+  const handleJumpToMessage = useCallback(
+    (serial: string) => {
+      // Only the most recent jump should land
+      jumpControllerRef.current?.abort();
+      const controller = new AbortController();
+      jumpControllerRef.current = controller;
+
+      const land = async () => {
+        let target = serial;
+        let result = await jumpToMessage(target, { signal: controller.signal });
+        // Replies are shown in their thread, so show the parent and open its thread
+        const threadParentSerial = result.status === 'in-thread' ? result.threadParentSerial : '';
+        if (threadParentSerial) {
+          target = threadParentSerial;
+          result = await jumpToMessage(target, { signal: controller.signal });
+        }
+        if (controller.signal.aborted || result.status === 'cancelled') return;
+
+        if (result.status === 'found') {
+          setHighlightedSerial(target);
+          if (threadParentSerial) setThreadToOpen({ roomName, parentSerial: threadParentSerial });
+          return;
+        }
+        const failure = result.status === 'in-thread' ? { status: 'not-found' as const } : result;
+        if (onError?.onJumpToMessageError) {
+          onError.onJumpToMessageError(serial, failure);
+        } else {
+          console.error('Failed to jump to message:', serial, failure);
+        }
+      };
+      void land();
+    },
+    [jumpToMessage, onError, roomName]
+  );
+
+  useEffect(() => {
+    if (!jumpToMessageSerial) {
+      lastJumpSerialRef.current = undefined;
+      return;
+    }
+    if (jumpToMessageSerial === lastJumpSerialRef.current) return;
+    lastJumpSerialRef.current = jumpToMessageSerial;
+    handleJumpToMessage(jumpToMessageSerial);
+  }, [jumpToMessageSerial, handleJumpToMessage]);
+
+  useEffect(() => {
+    return () => {
+      jumpControllerRef.current?.abort();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!highlightedSerial) return;
+    const timer = setTimeout(() => {
+      setHighlightedSerial(undefined);
+    }, HIGHLIGHT_DURATION_MS);
+    return () => {
+      clearTimeout(timer);
+    };
+  }, [highlightedSerial]);
+
+  const handleMessageSent = useCallback(
+    (msg: Message) => {
+      updateMessages([msg]);
+      markAsRead(msg.serial);
+    },
+    [updateMessages, markAsRead]
+  );
+
+  const { pendingMessages, send, retry, discard } = useOutbox({
+    roomName,
+    store: outboxStore,
+    onSent: handleMessageSent,
+    onSendError: onError?.onMessageSendError,
+  });
+  // Thread replies share the room's outbox, so they stay in order with the main timeline,
+  // but are shown as pending in their thread
+  const pendingTimelineMessages = useMemo(
+    () => pendingMessages.filter((m) => !getThreadParentSerial(m)),
+    [pendingMessages]
+  );
+  const threadParentSerial = threadParent?.serial;
+  const pendingThreadReplies = useMemo(
+    () =>
+      threadParentSerial
+        ? pendingMessages.filter((m) => getThreadParentSerial(m) === threadParentSerial)
+        : [],
+    [pendingMessages, threadParentSerial]
+  );
 
   const handleRESTMessageUpdate = useCallback(
     (updated: Message) => {
@@ -309,6 +856,28 @@ export const ChatWindow = ({
     [updateMessage, handleRESTMessageUpdate, onError]
   );
 
+  // The message being edited from the input belongs to the room it was chosen in
+  const [editing, setEditing] = useState<{ roomName: string; serial?: string }>({ roomName });
+  const editingSerial = editing.roomName === roomName ? editing.serial : undefined;
+
+  const handleEditingChange = useCallback(
+    (serial: string | undefined) => {
+      setEditing({ roomName, serial });
+    },
+    [roomName]
+  );
+
+  // Gated like the edit action on the message itself, so the shortcut and the button agree
+  const canEditOwnMessages = canEditMessage(true, settings);
+
+  const handleEditLastMessage = useCallback(() => {
+    if (!canEditOwnMessages) return;
+    const lastOwn = [...activeMessages]
+      .reverse()
+      .find((m) => m.clientId === clientId && m.action !== ChatMessageAction.MessageDelete);
+    if (lastOwn) setEditing({ roomName, serial: lastOwn.serial });
+  }, [canEditOwnMessages, activeMessages, clientId, roomName]);
+
   const handleMessageDelete = useCallback(
     (msg: Message) => {
       deleteMessage(msg.serial, { description: 'deleted by user' })
@@ -326,7 +895,7 @@ export const ChatWindow = ({
 
   const handleReactionAdd = useCallback(
     (msg: Message, emoji: string) => {
-      sendReaction(msg.serial, { type: MessageReactionType.Distinct, name: emoji }).catch(
+      sendReaction(msg.serial, { type: messageReactionType, name: emoji }).catch(
         (error: unknown) => {
           if (onError?.onSendReactionError) {
             onError.onSendReactionError(error as ErrorInfo, msg, emoji);
@@ -336,12 +905,12 @@ export const ChatWindow = ({
         }
       );
     },
-    [sendReaction, onError]
+    [sendReaction, messageReactionType, onError]
   );
 
   const handleReactionRemove = useCallback(
     (msg: Message, emoji: string) => {
-      deleteReaction(msg.serial, { type: MessageReactionType.Distinct, name: emoji }).catch(
+      deleteReaction(msg.serial, { type: messageReactionType, name: emoji }).catch(
         (error: unknown) => {
           if (onError?.onRemoveReactionError) {
             onError.onRemoveReactionError(error as ErrorInfo, msg, emoji);
@@ -351,50 +920,120 @@ export const ChatWindow = ({
         }
       );
     },
-    [deleteReaction, onError]
+    [deleteReaction, messageReactionType, onError]
   );
 
   return (
     <div
-      className={clsx('flex flex-col h-full bg-white dark:bg-gray-900 flex-1', className)}
+      className={clsx('relative flex h-full bg-white dark:bg-gray-900 flex-1', className)}
       role="main"
       aria-label={`Chat room: ${roomName}`}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+      onPaste={handlePaste}
     >
-      {/* Header */}
-      {customHeaderContent && <ChatWindowHeader>{customHeaderContent}</ChatWindowHeader>}
-
-      {/* Messages */}
-      <ChatMessageList
-        messages={activeMessages}
-        isLoading={loading}
-        onLoadMoreHistory={() => {
-          void loadMoreHistory();
-        }}
-        hasMoreHistory={hasMoreHistory}
-        enableTypingIndicators={enableTypingIndicators}
-        onEdit={handleMessageUpdate}
-        onDelete={handleMessageDelete}
-        onReactionAdd={handleReactionAdd}
-        onReactionRemove={handleReactionRemove}
-        onMessageInView={showMessagesAroundSerial}
-        onViewLatest={showLatestMessages}
-      ></ChatMessageList>
-
-      {/* Footer */}
-      <ChatWindowFooter>
-        <div className="flex-1">
-          <MessageInput
-            onSent={(msg) => {
-              updateMessages([msg]);
-            }}
-            placeholder={`Message ${roomName}...`}
-            aria-label={`Send message to ${roomName}`}
-            onSendError={onError?.onMessageSendError}
-            enableTyping={enableTypingIndicators}
-          />
+      {/* Drop target shown while files are dragged over the window */}
+      {isDraggingFiles && (
+        <div className="absolute inset-0 z-30 flex items-center justify-center m-2 rounded-xl border-2 border-dashed border-blue-400 bg-blue-50/90 dark:bg-blue-900/80 pointer-events-none">
+          <p className="text-sm font-medium text-blue-700 dark:text-blue-200">
+            Drop files to attach
+          </p>
         </div>
-        {customFooterContent}
-      </ChatWindowFooter>
+      )}
+
+      <div className="flex flex-col flex-1 min-w-0 h-full">
+        {/* Header */}
+        {(customHeaderContent || pins.length > 0) && (
+          <ChatWindowHeader>
+            {customHeaderContent}
+            <PinnedMessagesBar
+              pins={pins}
+              onSelect={handleJumpToMessage}
+              onUnpin={allowMessagePins ? handleUnpin : undefined}
+              className={customHeaderContent ? 'mt-3' : undefined}
+            />
+          </ChatWindowHeader>
+        )}
+
+        {/* Messages */}
+        <ChatMessageList
+          messages={activeMessages}
+          isLoading={loading}
+          onLoadMoreHistory={() => {
+            void loadMoreHistory();
+          }}
+          hasMoreHistory={hasMoreHistory}
+          enableTypingIndicators={enableTypingIndicators}
+          onEdit={handleMessageUpdate}
+          onDelete={handleMessageDelete}
+          onReactionAdd={handleReactionAdd}
+          onReactionRemove={handleReactionRemove}
+          onReply={handleReply}
+          onQuoteClick={handleJumpToMessage}
+          onOpenThread={handleOpenThread}
+          threadReplyCounts={threadReplyCounts}
+          pinnedSerials={pinnedSerials}
+          onPinToggle={allowMessagePins ? handlePinToggle : undefined}
+          editHistory={editHistory}
+          linkPolicy={linkPolicy}
+          linkPreviewResolver={linkPreviewResolver}
+          messageRenderers={messageRenderers}
+          messageActions={messageActions}
+          onMessageInView={handleMessageInView}
+          onLastMessageInView={handleLastMessageInView}
+          onViewLatest={handleViewLatest}
+          lastReadSerial={divider.serial}
+          highlightedSerial={highlightedSerial}
+          editingSerial={editingSerial}
+          onEditingChange={handleEditingChange}
+          pendingMessages={pendingTimelineMessages}
+          onRetryPending={retry}
+          onDiscardPending={discard}
+          ephemeralResponses={ephemeralResponses}
+          onDismissEphemeral={handleDismissEphemeral}
+        ></ChatMessageList>
+
+        {/* Footer */}
+        <ChatWindowFooter>
+          <div className="flex-1">
+            <MessageInput
+              onSend={send}
+              placeholder={`Message ${roomName}...`}
+              aria-label={`Send message to ${roomName}`}
+              enableTyping={enableTypingIndicators}
+              replyTo={replyTo}
+              onClearReply={handleClearReply}
+              onEditLastMessage={handleEditLastMessage}
+              slashCommands={slashCommands}
+              onEphemeralResponse={handleEphemeralResponse}
+              onCommandError={onError?.onSlashCommandError}
+              attachmentUploads={attachmentUploader ? attachmentUploads : undefined}
+            />
+          </div>
+          {customFooterContent}
+        </ChatWindowFooter>
+      </div>
+
+      {/* Thread */}
+      {threadParent && (
+        <ThreadPanel
+          parent={threadParent}
+          replies={threadReplies.get(threadParent.serial) ?? []}
+          onClose={handleCloseThread}
+          onSend={send}
+          pendingReplies={pendingThreadReplies}
+          onRetryPending={retry}
+          onDiscardPending={discard}
+          onEdit={handleMessageUpdate}
+          onDelete={handleMessageDelete}
+          onReactionAdd={handleReactionAdd}
+          onReactionRemove={handleReactionRemove}
+          linkPolicy={linkPolicy}
+          linkPreviewResolver={linkPreviewResolver}
+          messageActions={messageActions}
+        />
+      )}
     </div>
   );
 };
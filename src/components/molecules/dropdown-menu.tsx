@@ -1,4 +1,4 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useId, useRef, useState } from 'react';
 
 /**
  * Interface for dropdown menu items
@@ -21,7 +21,7 @@ export interface DropdownMenuItem {
    * Can be an emoji, Unicode character, or React component.
    * Will be rendered with gray color styling.
    */
-  icon?: string;
+  icon?: React.ReactNode;
 
   /**
    * Callback function triggered when the menu item is clicked.
@@ -69,11 +69,28 @@ export interface DropdownMenuProps {
    * - `left`: Dropdown aligns to the left edge of the trigger
    * - `right`: Dropdown aligns to the right edge of the trigger
    *
+   * Context menus open beside the pointer instead, extending to its right for `left`
+   * and to its left for `right`.
+   *
    * @default "right"
    */
   align?: 'left' | 'right';
+
+  /**
+   * How the dropdown is opened.
+   * - `click`: Clicking the trigger, or pressing Enter or Space on it, toggles the dropdown
+   * - `contextmenu`: Right-clicking or long-pressing the trigger opens the dropdown at the pointer,
+   *   in place of the browser's context menu. The trigger is left as it is, so it can still be
+   *   clicked or selected normally.
+   *
+   * @default "click"
+   */
+  openOn?: 'click' | 'contextmenu';
 }
 
+/** How long a touch must be held to open a context menu, in milliseconds */
+const LONG_PRESS_MS = 500;
+
 /**
  * DropdownMenu component displays a toggleable menu with customizable items
  *
@@ -81,6 +98,7 @@ export interface DropdownMenuProps {
  * - Custom trigger element (button, icon, etc.)
  * - Configurable alignment (left or right)
  * - Support for icons in menu items
+ * - Context menu mode, opened by right-click or long press at the pointer
  * - Automatically closes when clicking outside
  * - Accessible keyboard navigation
  * - Escape key support
@@ -147,10 +165,36 @@ export interface DropdownMenuProps {
  *     { id: 'logout', label: 'Sign Out', onClick: () => handleLogout() },
  *   ]}
  * />
+ *
+ * @example
+ * // Context menu for a message, opened by right-click or long press
+ * <DropdownMenu
+ *   openOn="contextmenu"
+ *   trigger={<MessageBubble message={message} />}
+ *   items={[{ id: 'copy', label: 'Copy text', onClick: () => copyText(message) }]}
+ * />
  */
-export const DropdownMenu = ({ trigger, items, align = 'right' }: DropdownMenuProps) => {
+export const DropdownMenu = ({
+  trigger,
+  items,
+  align = 'right',
+  openOn = 'click',
+}: DropdownMenuProps) => {
   const [isOpen, setIsOpen] = useState(false);
+  // Where a context menu was opened, as offsets from the trigger's top, left and right edges
+  const [menuPosition, setMenuPosition] = useState<
+    { top: number; left: number; right: number } | undefined
+  >();
   const dropdownRef = useRef<HTMLDivElement>(null);
+  const longPressTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const menuId = useId();
+
+  useEffect(
+    () => () => {
+      clearTimeout(longPressTimerRef.current);
+    },
+    []
+  );
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -179,26 +223,69 @@ export const DropdownMenu = ({ trigger, items, align = 'right' }: DropdownMenuPr
     setIsOpen(false);
   };
 
+  /**
+   * Opens a context menu at a point on the screen
+   */
+  const openAt = (clientX: number, clientY: number) => {
+    const rect = dropdownRef.current?.getBoundingClientRect();
+    setMenuPosition({
+      top: clientY - (rect?.top ?? 0),
+      left: clientX - (rect?.left ?? 0),
+      right: (rect?.right ?? 0) - clientX,
+    });
+    setIsOpen(true);
+  };
+
+  const cancelLongPress = () => {
+    clearTimeout(longPressTimerRef.current);
+  };
+
   return (
     <div className="relative" ref={dropdownRef}>
-      <div
-        onClick={() => {
-          setIsOpen(!isOpen);
-        }}
-        role="button"
-        aria-haspopup="true"
-        aria-expanded={isOpen}
-        aria-controls="dropdown-menu"
-        tabIndex={0}
-        onKeyDown={(e) => {
-          if (e.key === 'Enter' || e.key === ' ') {
+      {openOn === 'contextmenu' ? (
+        <div
+          onContextMenu={(e) => {
+            // Leave the browser's menu in place when there is nothing to show
+            if (items.length === 0) return;
             e.preventDefault();
+            cancelLongPress();
+            openAt(e.clientX, e.clientY);
+          }}
+          onTouchStart={(e) => {
+            const touch = e.touches[0];
+            if (items.length === 0 || !touch) return;
+            const { clientX, clientY } = touch;
+            cancelLongPress();
+            longPressTimerRef.current = setTimeout(() => {
+              openAt(clientX, clientY);
+            }, LONG_PRESS_MS);
+          }}
+          onTouchMove={cancelLongPress}
+          onTouchEnd={cancelLongPress}
+          onTouchCancel={cancelLongPress}
+        >
+          {trigger}
+        </div>
+      ) : (
+        <div
+          onClick={() => {
             setIsOpen(!isOpen);
-          }
-        }}
-      >
-        {trigger}
-      </div>
+          }}
+          role="button"
+          aria-haspopup="true"
+          aria-expanded={isOpen}
+          aria-controls={menuId}
+          tabIndex={0}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' || e.key === ' ') {
+              e.preventDefault();
+              setIsOpen(!isOpen);
+            }
+          }}
+        >
+          {trigger}
+        </div>
+      )}
 
       {isOpen && (
         <>
@@ -213,12 +300,21 @@ export const DropdownMenu = ({ trigger, items, align = 'right' }: DropdownMenuPr
 
           {/* Dropdown Menu */}
           <div
-            id="dropdown-menu"
+            id={menuId}
             role="menu"
             aria-orientation="vertical"
-            className={`absolute top-full mt-2 w-48 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 rounded-lg shadow-lg z-50 ${
-              align === 'right' ? 'right-0' : 'left-0'
+            className={`absolute w-48 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 rounded-lg shadow-lg z-50 ${
+              openOn === 'contextmenu'
+                ? ''
+                : `top-full mt-2 ${align === 'right' ? 'right-0' : 'left-0'}`
             }`}
+            style={
+              openOn === 'contextmenu' && menuPosition
+                ? align === 'right'
+                  ? { top: menuPosition.top, right: menuPosition.right }
+                  : { top: menuPosition.top, left: menuPosition.left }
+                : undefined
+            }
           >
             <div className="py-1">
               {items.map((item) => (
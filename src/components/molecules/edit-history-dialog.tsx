@@ -0,0 +1,191 @@
+import { ChatMessageAction, Message } from '@ably/chat';
+import React, { useEffect, useMemo } from 'react';
+
+import { diffWords } from '../../utils/text-diff.ts';
+import { Icon } from '../atoms/icon.tsx';
+
+/**
+ * Props for the EditHistoryDialog component
+ */
+export interface EditHistoryDialogProps {
+  /**
+   * Whether the dialog is currently open and visible to the user.
+   */
+  isOpen: boolean;
+
+  /**
+   * Callback function triggered when the dialog should be closed.
+   * Called on backdrop click, escape key press, or close button click.
+   */
+  onClose: () => void;
+
+  /**
+   * The latest version of the message.
+   */
+  message: Message;
+
+  /**
+   * Earlier versions of the message, oldest first, as kept by `useMessageWindow`.
+   */
+  previousVersions: Message[];
+}
+
+/**
+ * Formats when a version was created, e.g. "2 Jan 2025, 12:34"
+ */
+const formatVersionTime = (date: Date) =>
+  date.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+
+/**
+ * Shows a version's text, marking the words changed since the version before it
+ */
+const VersionText = ({ text, previousText }: { text: string; previousText?: string }) => {
+  const segments = useMemo(
+    () =>
+      previousText === undefined
+        ? [{ type: 'equal' as const, text }]
+        : diffWords(previousText, text),
+    [text, previousText]
+  );
+
+  return (
+    <p className="text-sm leading-relaxed break-words whitespace-pre-wrap text-gray-800 dark:text-gray-200">
+      {segments.map((segment, i) => {
+        switch (segment.type) {
+          case 'added': {
+            return (
+              <ins
+                key={i}
+                className="no-underline rounded-sm bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300"
+              >
+                {segment.text}
+              </ins>
+            );
+          }
+          case 'removed': {
+            return (
+              <del
+                key={i}
+                className="rounded-sm bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300"
+              >
+                {segment.text}
+              </del>
+            );
+          }
+          default: {
+            return <React.Fragment key={i}>{segment.text}</React.Fragment>;
+          }
+        }
+      })}
+    </p>
+  );
+};
+
+/**
+ * EditHistoryDialog component lists the versions of an edited message
+ *
+ * Features:
+ * - Versions listed newest first, with who made each change and when
+ * - Words added and removed by each edit highlighted inline
+ * - Notes when versions from before the room was opened are unavailable
+ * - Escape key and backdrop click to close
+ * - Support for light/dark theming
+ *
+ * @example
+ * <EditHistoryDialog
+ *   isOpen={showEdits}
+ *   onClose={() => setShowEdits(false)}
+ *   message={message}
+ *   previousVersions={editHistory.get(message.serial) ?? []}
+ * />
+ */
+export const EditHistoryDialog = ({
+  isOpen,
+  onClose,
+  message,
+  previousVersions,
+}: EditHistoryDialogProps) => {
+  // Handle escape key press to close the dialog
+  useEffect(() => {
+    const handleEscapeKey = (e: KeyboardEvent) => {
+      if (isOpen && e.key === 'Escape') {
+        onClose();
+      }
+    };
+    document.addEventListener('keydown', handleEscapeKey);
+    return () => {
+      document.removeEventListener('keydown', handleEscapeKey);
+    };
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return;
+
+  const versions = [...previousVersions, message];
+  const earliest = versions[0];
+  const hasOriginal = earliest?.action === ChatMessageAction.MessageCreate;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-lg max-h-[80vh] flex flex-col"
+        onClick={(e) => {
+          e.stopPropagation();
+        }}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="edit-history-dialog-title"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <h2
+            id="edit-history-dialog-title"
+            className="text-xl font-semibold text-gray-900 dark:text-gray-100"
+          >
+            Edit history
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+            aria-label="Close dialog"
+          >
+            <Icon name="close" size="md" />
+          </button>
+        </div>
+
+        {/* Versions, newest first */}
+        <ol className="p-6 overflow-y-auto flex flex-col gap-4" aria-label="Message versions">
+          {versions
+            .map((version, i) => {
+              const isOriginal = version.action === ChatMessageAction.MessageCreate;
+              const author = isOriginal
+                ? version.clientId
+                : (version.version.clientId ?? version.clientId);
+              const time = isOriginal ? version.timestamp : version.version.timestamp;
+              return (
+                <li key={version.version.serial} className="flex flex-col gap-1">
+                  <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                    <span className="font-medium text-gray-700 dark:text-gray-300">
+                      {isOriginal ? `Sent by ${author}` : `Edited by ${author}`}
+                    </span>
+                    <time dateTime={time.toISOString()}>{formatVersionTime(time)}</time>
+                    {i === versions.length - 1 && <span>(current)</span>}
+                  </div>
+                  <VersionText text={version.text} previousText={versions[i - 1]?.text} />
+                </li>
+              );
+            })
+            .reverse()}
+        </ol>
+
+        {!hasOriginal && (
+          <p className="px-6 pb-6 text-xs text-gray-500 dark:text-gray-400">
+            Versions from before the room was opened are not available.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,73 @@
+import { clsx } from 'clsx';
+import React from 'react';
+
+import { EphemeralResponse } from '../../utils/slash-commands.ts';
+import { Button } from '../atoms/button.tsx';
+import { Icon } from '../atoms/icon.tsx';
+
+/**
+ * Props for the EphemeralMessage component
+ */
+export interface EphemeralMessageProps {
+  /**
+   * The response to display.
+   */
+  response: EphemeralResponse;
+
+  /**
+   * Callback triggered when the user dismisses the response.
+   * The dismiss button is hidden when omitted.
+   * @param id - Local ID of the response
+   */
+  onDismiss?: (id: string) => void;
+
+  /**
+   * Additional CSS class names to apply to the message container
+   */
+  className?: string;
+}
+
+/**
+ * EphemeralMessage displays a response to a slash command that only the current user can see
+ *
+ * Features:
+ * - The command that was run, above the response text
+ * - "Only visible to you" label, as the response is never sent to the room
+ * - Dismiss action to remove the response
+ *
+ * @example
+ * <EphemeralMessage response={response} onDismiss={dismiss} />
+ */
+export const EphemeralMessage = ({ response, onDismiss, className }: EphemeralMessageProps) => (
+  <div
+    className={clsx('flex items-start gap-2 mb-4', className)}
+    role="article"
+    aria-label="Response only visible to you"
+  >
+    <div className="flex-1 min-w-0 px-4 py-2 rounded-2xl border border-dashed border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-800/50">
+      <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{response.command}</p>
+      <p className="text-sm leading-relaxed break-words whitespace-pre-wrap text-gray-900 dark:text-gray-100">
+        {response.text}
+      </p>
+      <div className="flex items-center gap-2 mt-1">
+        <span className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+          <Icon name="info" size="sm" aria-hidden={true} />
+          Only visible to you
+        </span>
+        {onDismiss && (
+          <Button
+            variant="ghost"
+            size="xs"
+            onClick={() => {
+              onDismiss(response.id);
+            }}
+          >
+            Dismiss
+          </Button>
+        )}
+      </div>
+    </div>
+  </div>
+);
+
+EphemeralMessage.displayName = 'EphemeralMessage';
@@ -7,14 +7,26 @@ export { ChatWindowHeader, type ChatWindowHeaderProps } from './chat-window-head
 export { ConfirmDialog, type ConfirmDialogProps } from './confirm-dialog.tsx';
 export { CreateRoomModal, type CreateRoomModalProps } from './create-room-modal.tsx';
 export { DropdownMenu, type DropdownMenuItem, type DropdownMenuProps } from './dropdown-menu.tsx';
+export { EditHistoryDialog, type EditHistoryDialogProps } from './edit-history-dialog.tsx';
 export { EmojiBurst, type EmojiBurstProps } from './emoji-burst.tsx';
 export { EmojiPicker, type EmojiPickerProps } from './emoji-picker.tsx';
 export { EmojiWheel, type EmojiWheelProps } from './emoji-wheel.tsx';
-export { MessageActions, type MessageActionsProps } from './message-actions.tsx';
+export { EphemeralMessage, type EphemeralMessageProps } from './ephemeral-message.tsx';
+export { LinkPreviewCard, type LinkPreviewCardProps } from './link-preview-card.tsx';
+export { MentionSuggestions, type MentionSuggestionsProps } from './mention-suggestions.tsx';
+export {
+  getMessageActionItems,
+  MessageActions,
+  type MessageActionsProps,
+} from './message-actions.tsx';
+export { MessageAttachments, type MessageAttachmentsProps } from './message-attachments.tsx';
 export { MessageInput, type MessageInputProps } from './message-input.tsx';
+export { MessageQuote, type MessageQuoteProps } from './message-quote.tsx';
 export { MessageReactions, type MessageReactionsProps } from './message-reactions.tsx';
 export { Participant, type ParticipantProps } from './participant.tsx';
 export { ParticipantList, type ParticipantListProps } from './participant-list.tsx';
+export { PendingMessage, type PendingMessageProps } from './pending-message.tsx';
+export { PinnedMessagesBar, type PinnedMessagesBarProps } from './pinned-messages-bar.tsx';
 export { PresenceCount, type PresenceCountProps } from './presence-count.tsx';
 export { PresenceIndicators, type PresenceIndicatorsProps } from './presence-indicators.tsx';
 export { PresenceList, type PresenceListProps } from './presence-list.tsx';
@@ -23,4 +35,9 @@ export { RoomList, type RoomListProps } from './room-list.tsx';
 export { RoomListItem, type RoomListItemProps } from './room-list-item.tsx';
 export { RoomReaction, type RoomReactionProps } from './room-reaction.tsx';
 export { Sidebar, type SidebarProps } from './sidebar.tsx';
+export {
+  SlashCommandSuggestions,
+  type SlashCommandSuggestionsProps,
+} from './slash-command-suggestions.tsx';
+export { ThreadPanel, type ThreadPanelProps } from './thread-panel.tsx';
 export { TypingIndicators, type TypingIndicatorsProps } from './typing-indicators.tsx';
@@ -0,0 +1,85 @@
+import { clsx } from 'clsx';
+import React, { useState } from 'react';
+
+import { LinkPreview, sanitizeLinkPreview } from '../../utils/link-preview.ts';
+
+/**
+ * Props for the LinkPreviewCard component
+ */
+export interface LinkPreviewCardProps {
+  /**
+   * The preview to display
+   */
+  preview: LinkPreview;
+
+  /**
+   * Additional CSS classes for the card
+   */
+  className?: string;
+}
+
+/**
+ * Returns the hostname of a URL without a leading `www.`, for display
+ */
+const displayHost = (url: string) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+};
+
+/**
+ * LinkPreviewCard component shows the title, description and image of a linked page
+ *
+ * The whole card links to the page and opens it in a new tab. Images that fail to load are
+ * hidden, leaving the text. Nothing is shown for pages that are not http(s).
+ *
+ * @example
+ * <LinkPreviewCard preview={{ url: 'https://ably.com', title: 'Ably' }} />
+ */
+export const LinkPreviewCard = ({ preview: unsafePreview, className }: LinkPreviewCardProps) => {
+  const [imageFailed, setImageFailed] = useState(false);
+  const preview = sanitizeLinkPreview(unsafePreview);
+  if (!preview) return;
+  const host = displayHost(preview.url);
+
+  return (
+    <a
+      href={preview.url}
+      target="_blank"
+      rel="noopener noreferrer"
+      className={clsx(
+        'flex w-72 max-w-full overflow-hidden rounded-lg border border-gray-200 dark:border-gray-700',
+        'bg-white dark:bg-gray-900 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors',
+        className
+      )}
+      aria-label={preview.title ? `${preview.title} (${host})` : host}
+    >
+      {preview.image && !imageFailed && (
+        <img
+          src={preview.image}
+          alt=""
+          loading="lazy"
+          className="w-20 shrink-0 object-cover"
+          onError={() => {
+            setImageFailed(true);
+          }}
+        />
+      )}
+      <div className="min-w-0 px-3 py-2">
+        <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{host}</p>
+        {preview.title && (
+          <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+            {preview.title}
+          </p>
+        )}
+        {preview.description && (
+          <p className="text-xs text-gray-600 dark:text-gray-300 line-clamp-2">
+            {preview.description}
+          </p>
+        )}
+      </div>
+    </a>
+  );
+};
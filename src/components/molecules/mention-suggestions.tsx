@@ -0,0 +1,116 @@
+import { clsx } from 'clsx';
+import React from 'react';
+
+import { MentionCandidate } from '../../hooks/use-mention-candidates.tsx';
+import { Avatar } from '../atoms/avatar.tsx';
+
+/**
+ * Props for the MentionSuggestions component
+ */
+export interface MentionSuggestionsProps {
+  /**
+   * ID of the listbox, referenced by the input's `aria-controls`
+   */
+  id: string;
+
+  /**
+   * Users matching what has been typed after `@`
+   */
+  candidates: MentionCandidate[];
+
+  /**
+   * Index of the highlighted candidate, moved with the arrow keys
+   */
+  activeIndex: number;
+
+  /**
+   * Callback triggered when a candidate is chosen
+   * @param candidate - The chosen user
+   */
+  onSelect: (candidate: MentionCandidate) => void;
+
+  /**
+   * Additional CSS classes for the list
+   */
+  className?: string;
+}
+
+/**
+ * Returns the DOM ID of a suggestion, for the input's `aria-activedescendant`
+ */
+export const getMentionOptionId = (listId: string, index: number) =>
+  `${listId}-option-${String(index)}`;
+
+/**
+ * MentionSuggestions component lists users to mention while typing `@` in a message
+ *
+ * Keyboard handling stays with the input, which moves `activeIndex` and selects on Enter or
+ * Tab, so focus never leaves the text being typed.
+ *
+ * @example
+ * <MentionSuggestions
+ *   id="mentions"
+ *   candidates={matches}
+ *   activeIndex={activeIndex}
+ *   onSelect={insertMention}
+ * />
+ */
+export const MentionSuggestions = ({
+  id,
+  candidates,
+  activeIndex,
+  onSelect,
+  className,
+}: MentionSuggestionsProps) => (
+  <ul
+    id={id}
+    role="listbox"
+    aria-label="Mention suggestions"
+    className={clsx(
+      'max-h-60 overflow-y-auto py-1 rounded-lg shadow-lg',
+      'bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700',
+      className
+    )}
+  >
+    {candidates.map((candidate, i) => (
+      <li
+        key={candidate.clientId}
+        id={getMentionOptionId(id, i)}
+        role="option"
+        aria-selected={i === activeIndex}
+        className={clsx(
+          'flex items-center gap-2 px-3 py-1.5 cursor-pointer text-sm text-gray-900 dark:text-gray-100',
+          i === activeIndex
+            ? 'bg-gray-100 dark:bg-gray-700'
+            : 'hover:bg-gray-50 dark:hover:bg-gray-700/50'
+        )}
+        onMouseDown={(e) => {
+          // Keep focus in the input
+          e.preventDefault();
+          onSelect(candidate);
+        }}
+      >
+        <Avatar
+          alt={candidate.displayName}
+          src={candidate.avatar?.src}
+          color={candidate.avatar?.color}
+          initials={candidate.avatar?.initials}
+          size="sm"
+        />
+        <span className="truncate">{candidate.displayName}</span>
+        {candidate.displayName !== candidate.clientId && (
+          <span className="truncate text-xs text-gray-500 dark:text-gray-400">
+            {candidate.clientId}
+          </span>
+        )}
+        {candidate.isOnline && (
+          <span
+            className="ml-auto w-2 h-2 shrink-0 rounded-full bg-green-500"
+            aria-label="Online"
+            role="img"
+          />
+        )}
+      </li>
+    ))}
+  </ul>
+);
@@ -1,9 +1,12 @@
 import { useRoom } from '@ably/chat/react';
 import React from 'react';
 
+import { ChatSettings } from '../../context/chat-settings-context.tsx';
 import { useChatSettings } from '../../hooks/use-chat-settings.tsx';
+import { canDeleteMessage, canEditMessage } from '../../utils/message-actions.ts';
 import { Button } from '../atoms/button.tsx';
-import { Icon } from '../atoms/icon.tsx';
+import { Icon, IconProps } from '../atoms/icon.tsx';
+import { DropdownMenu, DropdownMenuItem } from './dropdown-menu.tsx';
 
 /**
  * Props for the MessageActions component
@@ -25,6 +28,70 @@ export interface MessageActionsProps {
    */
   onReactionButtonClicked?: () => void;
 
+  /**
+   * Callback function triggered when the reply button is clicked.
+   * Should start composing a reply that quotes the message.
+   * Displayed whenever the callback is provided.
+   *
+   * @example
+   * ```tsx
+   * onReplyButtonClicked={() => {
+   *   setReplyTo(message);
+   * }}
+   * ```
+   */
+  onReplyButtonClicked?: () => void;
+
+  /**
+   * Callback function triggered when the thread button is clicked.
+   * Should open the thread started by the message.
+   * Displayed whenever the callback is provided.
+   *
+   * @example
+   * ```tsx
+   * onThreadButtonClicked={() => {
+   *   openThread(message);
+   * }}
+   * ```
+   */
+  onThreadButtonClicked?: () => void;
+
+  /**
+   * Callback function triggered when the pin button is clicked.
+   * Should pin the message, or unpin it when `isPinned` is true.
+   * Displayed when:
+   * - allowMessagePins is true
+   *
+   * @example
+   * ```tsx
+   * onPinButtonClicked={() => {
+   *   togglePin(message);
+   * }}
+   * ```
+   */
+  onPinButtonClicked?: () => void;
+
+  /**
+   * Whether the message is currently pinned.
+   * Switches the pin button to unpin the message.
+   * @defaultValue false
+   */
+  isPinned?: boolean;
+
+  /**
+   * Callback function triggered when the view edits button is clicked.
+   * Should open the edit history of the message.
+   * Displayed whenever the callback is provided, typically only for edited messages.
+   *
+   * @example
+   * ```tsx
+   * onViewEditsButtonClicked={() => {
+   *   setShowEditHistory(true);
+   * }}
+   * ```
+   */
+  onViewEditsButtonClicked?: () => void;
+
   /**
    * Callback function triggered when the edit button is clicked.
    * Should initiate edit mode for the message, typically replacing the message
@@ -59,6 +126,23 @@ export interface MessageActionsProps {
    */
   onDeleteButtonClicked?: () => void;
 
+  /**
+   * Additional actions for the message, such as those registered with `messageActions` on
+   * `ChatWindow`, shown in a "More actions" menu at the end of the toolbar.
+   * Each item's `onClick` should already be bound to the message.
+   *
+   * @example
+   * ```tsx
+   * customActions={getAvailableMessageActions(messageActions, message, context).map((action) => ({
+   *   id: action.id,
+   *   label: action.label,
+   *   icon: action.icon,
+   *   onClick: () => action.onSelect(message),
+   * }))}
+   * ```
+   */
+  customActions?: DropdownMenuItem[];
+
   /**
    * Whether the message belongs to the current user.
    * Used in combination with chat settings to determine if edit and delete buttons are shown.
@@ -72,12 +156,147 @@ export interface MessageActionsProps {
   isOwn: boolean;
 }
 
+/**
+ * A built-in action shown as a toolbar button
+ */
+interface BuiltInAction {
+  id: string;
+  label: string;
+  iconName: IconProps['name'];
+  className: string;
+  onClick: () => void;
+}
+
+const DEFAULT_BUTTON_CLASS =
+  'text-gray-600 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200';
+
+/**
+ * Lists the built-in actions available for a message, based on chat settings and permissions
+ */
+const getBuiltInActions = (
+  {
+    onReactionButtonClicked,
+    onReplyButtonClicked,
+    onThreadButtonClicked,
+    onPinButtonClicked,
+    isPinned = false,
+    onViewEditsButtonClicked,
+    onEditButtonClicked,
+    onDeleteButtonClicked,
+    isOwn,
+  }: MessageActionsProps,
+  settings: ChatSettings
+): BuiltInAction[] => {
+  const { allowMessageReactions, allowMessagePins } = settings;
+
+  // Can edit or delete if:
+  // - User owns the message AND can edit or delete own messages, OR
+  // - User can edit or delete any message
+  const canEdit = canEditMessage(isOwn, settings);
+  const canDelete = canDeleteMessage(isOwn, settings);
+
+  const actions: BuiltInAction[] = [];
+  if (allowMessageReactions && onReactionButtonClicked) {
+    actions.push({
+      id: 'react',
+      label: 'Add reaction',
+      iconName: 'emoji',
+      className: DEFAULT_BUTTON_CLASS,
+      onClick: onReactionButtonClicked,
+    });
+  }
+  if (onReplyButtonClicked) {
+    actions.push({
+      id: 'reply',
+      label: 'Reply to message',
+      iconName: 'reply',
+      className: DEFAULT_BUTTON_CLASS,
+      onClick: onReplyButtonClicked,
+    });
+  }
+  if (onThreadButtonClicked) {
+    actions.push({
+      id: 'thread',
+      label: 'Reply in thread',
+      iconName: 'thread',
+      className: DEFAULT_BUTTON_CLASS,
+      onClick: onThreadButtonClicked,
+    });
+  }
+  if (allowMessagePins && onPinButtonClicked) {
+    actions.push({
+      id: 'pin',
+      label: isPinned ? 'Unpin message' : 'Pin message',
+      iconName: 'pin',
+      className: isPinned
+        ? 'text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300'
+        : DEFAULT_BUTTON_CLASS,
+      onClick: onPinButtonClicked,
+    });
+  }
+  if (onViewEditsButtonClicked) {
+    actions.push({
+      id: 'view-edits',
+      label: 'View edits',
+      iconName: 'history',
+      className: DEFAULT_BUTTON_CLASS,
+      onClick: onViewEditsButtonClicked,
+    });
+  }
+  if (canEdit && onEditButtonClicked) {
+    actions.push({
+      id: 'edit',
+      label: 'Edit message',
+      iconName: 'edit',
+      className: DEFAULT_BUTTON_CLASS,
+      onClick: onEditButtonClicked,
+    });
+  }
+  if (canDelete && onDeleteButtonClicked) {
+    actions.push({
+      id: 'delete',
+      label: 'Delete message',
+      iconName: 'delete',
+      className: 'text-gray-600 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400',
+      onClick: onDeleteButtonClicked,
+    });
+  }
+  return actions;
+};
+
+/**
+ * Lists every action available for a message as menu items: the built-in actions allowed by
+ * the chat settings, followed by the custom actions. Used to build the message context menu,
+ * so it offers the same actions as the toolbar.
+ *
+ * @param props - The same props given to `MessageActions`
+ * @param settings - The chat settings in effect for the room
+ * @returns The menu items, in toolbar order
+ */
+export const getMessageActionItems = (
+  props: MessageActionsProps,
+  settings: ChatSettings
+): DropdownMenuItem[] => [
+  ...getBuiltInActions(props, settings).map(({ id, label, iconName, onClick }) => ({
+    id,
+    label,
+    icon: <Icon name={iconName} size="sm" aria-hidden={true} />,
+    onClick,
+  })),
+  ...(props.customActions ?? []),
+];
+
 /**
  * MessageActions component displays a toolbar of action buttons for a chat message
  *
  * Features:
  * - Reaction button for adding emoji reactions to messages
+ * - Reply button for answering the message with a quote
+ * - Thread button for replying in a side conversation
+ * - Pin button for users allowed to pin messages
+ * - View edits button for edited messages
  * - Edit and delete buttons for the message owner
+ * - "More actions" menu for custom actions
  * - Positioned relative to the message bubble
  * - Accessible toolbar with proper ARIA attributes
  * - Responsive to theme changes (light/dark)
@@ -107,12 +326,7 @@ export interface MessageActionsProps {
  *
  *
  */
-export const MessageActions = ({
-  onReactionButtonClicked,
-  onEditButtonClicked,
-  onDeleteButtonClicked,
-  isOwn,
-}: MessageActionsProps) => {
+export const MessageActions = (props: MessageActionsProps) => {
   // Get the current room name
   const { roomName } = useRoom();
 
@@ -120,31 +334,11 @@ export const MessageActions = ({
   const { getEffectiveSettings } = useChatSettings();
   const settings = getEffectiveSettings(roomName);
 
-  const {
-    allowMessageUpdatesOwn,
-    allowMessageUpdatesAny,
-    allowMessageDeletesOwn,
-    allowMessageDeletesAny,
-    allowMessageReactions,
-  } = settings;
-
-  // Check if there are any actions to display based on settings and permissions
-  const hasReactionAction = allowMessageReactions && onReactionButtonClicked !== undefined;
-
-  // Can edit if:
-  // - User owns the message AND can edit own messages, OR
-  // - User can edit any message
-  const canEdit = (isOwn && allowMessageUpdatesOwn) || allowMessageUpdatesAny;
-  const hasEditAction = canEdit && onEditButtonClicked !== undefined;
-
-  // Can delete if:
-  // - User owns the message AND can delete own messages, OR
-  // - User can delete any message
-  const canDelete = (isOwn && allowMessageDeletesOwn) || allowMessageDeletesAny;
-  const hasDeleteAction = canDelete && onDeleteButtonClicked !== undefined;
+  const actions = getBuiltInActions(props, settings);
+  const customActions = props.customActions ?? [];
 
   // If no actions are available, don't render anything
-  if (!hasReactionAction && !hasEditAction && !hasDeleteAction) {
+  if (actions.length === 0 && customActions.length === 0) {
     return;
   }
 
@@ -154,40 +348,37 @@ export const MessageActions = ({
       role="toolbar"
       aria-label="Message actions"
     >
-      {hasReactionAction && (
+      {actions.map((action) => (
         <Button
+          key={action.id}
           variant="ghost"
           size="sm"
-          className="text-gray-600 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200"
-          onClick={onReactionButtonClicked}
-          aria-label="Add reaction"
+          className={action.className}
+          onClick={action.onClick}
+          aria-label={action.label}
         >
-          <Icon name="emoji" size="md" aria-hidden={true} />
+          <Icon
+            name={action.iconName}
+            size={action.id === 'react' ? 'md' : 'sm'}
+            aria-hidden={true}
+          />
         </Button>
-      )}
+      ))}
 
-      {hasEditAction && (
-        <Button
-          variant="ghost"
-          size="sm"
-          className="text-gray-600 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200"
-          onClick={onEditButtonClicked}
-          aria-label="Edit message"
-        >
-          <Icon name="edit" size="sm" aria-hidden={true} />
-        </Button>
-      )}
-
-      {hasDeleteAction && (
-        <Button
-          variant="ghost"
-          size="sm"
-          className="text-gray-600 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400"
-          onClick={onDeleteButtonClicked}
-          aria-label="Delete message"
-        >
-          <Icon name="delete" size="sm" aria-hidden={true} />
-        </Button>
+      {customActions.length > 0 && (
+        <DropdownMenu
+          trigger={
+            <Button
+              variant="ghost"
+              size="sm"
+              className={DEFAULT_BUTTON_CLASS}
+              aria-label="More actions"
+            >
+              <Icon name="more" size="sm" aria-hidden={true} />
+            </Button>
+          }
+          items={customActions}
+        />
       )}
     </div>
   );
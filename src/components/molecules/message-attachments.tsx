@@ -0,0 +1,85 @@
+import { clsx } from 'clsx';
+import React from 'react';
+
+import { Attachment, formatFileSize, getAttachmentKind } from '../../utils/attachments.ts';
+import { Icon } from '../atoms/icon.tsx';
+
+/**
+ * Props for the MessageAttachments component
+ */
+export interface MessageAttachmentsProps {
+  /**
+   * The message's attachments, as read by `getAttachments`.
+   */
+  attachments: Attachment[];
+
+  /**
+   * Additional CSS classes for the attachment list
+   */
+  className?: string;
+}
+
+/**
+ * MessageAttachments component shows the files attached to a message
+ *
+ * Features:
+ * - Images shown inline, opening the full image in a new tab when clicked
+ * - Videos shown inline with playback controls
+ * - Other files shown as download links with their name and size
+ *
+ * @example
+ * <MessageAttachments attachments={getAttachments(message.metadata)} />
+ */
+export const MessageAttachments = ({ attachments, className }: MessageAttachmentsProps) => {
+  if (attachments.length === 0) return;
+
+  return (
+    <ul className={clsx('flex flex-col gap-2', className)} aria-label="Attachments">
+      {attachments.map((attachment, index) => {
+        const kind = getAttachmentKind(attachment);
+        return (
+          <li key={`${attachment.url}-${String(index)}`} className="max-w-full">
+            {kind === 'image' && (
+              <a href={attachment.url} target="_blank" rel="noopener noreferrer">
+                <img
+                  src={attachment.url}
+                  alt={attachment.name}
+                  width={attachment.width}
+                  height={attachment.height}
+                  loading="lazy"
+                  className="block max-w-full max-h-64 w-auto h-auto rounded-lg"
+                />
+              </a>
+            )}
+            {kind === 'video' && (
+              <video
+                src={attachment.url}
+                width={attachment.width}
+                height={attachment.height}
+                controls
+                preload="metadata"
+                aria-label={attachment.name}
+                className="block max-w-full max-h-64 rounded-lg"
+              />
+            )}
+            {kind === 'file' && (
+              <a
+                href={attachment.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                download={attachment.name}
+                className="flex items-center gap-2 px-3 py-2 rounded-lg border border-gray-500/30 hover:bg-gray-500/10 transition-colors"
+              >
+                <Icon name="file" size="md" className="shrink-0" aria-hidden={true} />
+                <span className="flex flex-col min-w-0">
+                  <span className="text-sm font-medium truncate">{attachment.name}</span>
+                  <span className="text-xs opacity-70">{formatFileSize(attachment.size)}</span>
+                </span>
+              </a>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
@@ -1,11 +1,46 @@
-import { ErrorInfo, Message } from '@ably/chat';
+import { ErrorInfo, Message, MessageHeaders, MessageMetadata } from '@ably/chat';
 import { useMessages, useTyping } from '@ably/chat/react';
-import React, { ChangeEvent, KeyboardEvent, useCallback, useRef, useState } from 'react';
+import { clsx } from 'clsx';
+import React, {
+  ChangeEvent,
+  ClipboardEvent,
+  KeyboardEvent,
+  useCallback,
+  useEffect,
+  useId,
+  useRef,
+  useState,
+} from 'react';
 
+import { UseAttachmentUploadsReturn } from '../../hooks/use-attachment-uploads.tsx';
+import { MentionCandidate, useMentionCandidates } from '../../hooks/use-mention-candidates.tsx';
+import { createAttachmentsMetadata } from '../../utils/attachments.ts';
+import {
+  createMentionsMetadata,
+  findMentionQuery,
+  Mention,
+  MentionQuery,
+} from '../../utils/mentions.ts';
+import { createReplyMetadata, createSnippet } from '../../utils/replies.ts';
+import {
+  createEphemeralResponse,
+  EphemeralResponse,
+  findSlashCommandQuery,
+  parseSlashCommand,
+  SlashCommand,
+  SlashCommandRegistry,
+  SlashCommandResult,
+} from '../../utils/slash-commands.ts';
 import { Button } from '../atoms/button.tsx';
 import { Icon } from '../atoms/icon.tsx';
 import { TextInput } from '../atoms/text-input.tsx';
 import { EmojiPicker } from './emoji-picker.tsx';
+import { getMentionOptionId, MentionSuggestions } from './mention-suggestions.tsx';
+import { MessageQuote } from './message-quote.tsx';
+import { getSlashCommandOptionId, SlashCommandSuggestions } from './slash-command-suggestions.tsx';
+
+/** Maximum number of users suggested while typing a mention */
+const MAX_MENTION_SUGGESTIONS = 8;
 
 /**
  * Props for the MessageInput component
@@ -32,6 +67,25 @@ export interface MessageInputProps {
    */
   onSent?: (message: Message) => void;
 
+  /**
+   * Callback function that takes over sending, e.g. to queue the message in an optimistic outbox.
+   * When provided, the input is cleared and handed the text immediately, and stays usable
+   * while the message is delivered. `onSent` and `onSendError` are not called.
+   *
+   * @param text - The trimmed text to send
+   * @param metadata - Metadata to send with the message, e.g. the users mentioned in it or the
+   *                   message being replied to
+   * @param headers - The `headers` prop, if set
+   *
+   * @example
+   * ```tsx
+   * const { send } = useOutbox({ onSent: handleSent });
+   *
+   * <MessageInput onSend={send} />
+   * ```
+   */
+  onSend?: (text: string, metadata?: MessageMetadata, headers?: MessageHeaders) => void;
+
   /**
    * Placeholder text displayed in the input field when empty.
    * Provides context about the input's purpose to users.
@@ -88,6 +142,100 @@ export interface MessageInputProps {
    * ```
    */
   enableTyping?: boolean;
+
+  /**
+   * Whether typing `@` suggests users to mention, from the room's present members and users
+   * with known avatars. Chosen mentions are sent in the message metadata.
+   *
+   * @default true
+   */
+  enableMentions?: boolean;
+
+  /**
+   * The message being replied to. When set, a quote of it is shown above the input and the
+   * next message sent is marked as a reply to it in the message metadata.
+   *
+   * @example
+   * ```tsx
+   * const [replyTo, setReplyTo] = useState<Message | undefined>();
+   *
+   * <MessageInput
+   *   replyTo={replyTo}
+   *   onClearReply={() => {
+   *     setReplyTo(undefined);
+   *   }}
+   * />
+   * ```
+   */
+  replyTo?: Message;
+
+  /**
+   * Callback function triggered when the reply is sent or cancelled, and `replyTo` should be
+   * cleared. Pressing Escape or the close button on the quote cancels the reply.
+   */
+  onClearReply?: () => void;
+
+  /**
+   * Callback function triggered when Up is pressed in the empty input, to edit the user's most
+   * recent message, as in most chat apps. Up moves the cursor as usual when omitted.
+   */
+  onEditLastMessage?: () => void;
+
+  /**
+   * Commands run by typing `/` and a command name at the start of a message, e.g. `/shrug`.
+   * Typing `/` lists the matching commands. Messages that don't start with a registered command
+   * are sent as typed, as are all messages when omitted.
+   *
+   * @example
+   * ```tsx
+   * const commands = new SlashCommandRegistry([shrugCommand, meCommand]);
+   *
+   * <MessageInput slashCommands={commands} onEphemeralResponse={showResponse} />
+   * ```
+   */
+  slashCommands?: SlashCommandRegistry;
+
+  /**
+   * Callback function triggered when a slash command responds with text only the current user
+   * should see, e.g. to show it in ChatMessageList. Such responses are dropped when omitted.
+   *
+   * @param response - The response to show
+   */
+  onEphemeralResponse?: (response: EphemeralResponse) => void;
+
+  /**
+   * Callback function triggered when a slash command fails. The command stays in the input, so
+   * it can be retried. Falls back to console.error when omitted.
+   *
+   * @param error - The error thrown by the command's handler
+   * @param command - The command as typed
+   */
+  onCommandError?: (error: unknown, command: string) => void;
+
+  /**
+   * Headers sent with every message, e.g. to post messages into a thread.
+   *
+   * @example
+   * ```tsx
+   * <MessageInput headers={createThreadHeaders(parent.serial)} />
+   * ```
+   */
+  headers?: MessageHeaders;
+
+  /**
+   * Files attached to the message being composed, from `useAttachmentUploads`.
+   * When provided, an attach button is shown, pasted files are attached, and uploaded
+   * attachments are sent in the message metadata. Messages cannot be sent while files are
+   * still uploading, and may be sent without text when they have attachments.
+   *
+   * @example
+   * ```tsx
+   * const attachmentUploads = useAttachmentUploads({ uploader });
+   *
+   * <MessageInput attachmentUploads={attachmentUploads} />
+   * ```
+   */
+  attachmentUploads?: UseAttachmentUploadsReturn;
 }
 
 /**
@@ -98,6 +246,11 @@ export interface MessageInputProps {
  * - Enter key to send (Shift+Enter for new line)
  * - Integrated emoji picker with cursor position insertion
  * - Typing indicators to alert others when composing messages
+ * - `@` mentions with autocomplete from present members and known users
+ * - Replies, with a quote of the message being replied to above the input
+ * - Up in the empty input to edit the user's last message
+ * - Slash commands with autocomplete, which can send, run a local action or respond privately
+ * - File attachments from an attach button or pasted files, with upload progress
  * - Automatic input cleanup and focus management
  * - Accessible form controls with proper ARIA attributes
  * - Theme-aware styling (light/dark mode support)
@@ -106,6 +259,10 @@ export interface MessageInputProps {
  * - Triggered on each keystroke when content is present
  * - Automatically stopped when input is cleared or message is sent
  *
+ * Mentions:
+ * - Typing `@` opens a list of matching users; arrow keys move, Enter or Tab selects
+ * - Selected mentions are sent in the message metadata, so they survive edits
+ *
  * Emoji Integration:
  * - Picker positioned above the emoji button
  * - Smart cursor position handling for emoji insertion
@@ -134,9 +291,19 @@ export interface MessageInputProps {
 
 export const MessageInput = ({
   onSent,
+  onSend,
   placeholder = 'Type a message...',
   onSendError,
   enableTyping = true,
+  enableMentions = true,
+  replyTo,
+  onClearReply,
+  onEditLastMessage,
+  slashCommands,
+  onEphemeralResponse,
+  onCommandError,
+  headers,
+  attachmentUploads,
 }: MessageInputProps) => {
   const [message, setMessage] = useState('');
   const messageRef = useRef('');
@@ -149,52 +316,198 @@ export const MessageInput = ({
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
   const [emojiPickerPosition, setEmojiPickerPosition] = useState({ top: 0, left: 0 });
   const inputRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const { keystroke, stop } = useTyping();
   const { sendMessage } = useMessages();
 
+  // Mentions chosen while composing; pruned to those still in the text when sending
+  const mentionsRef = useRef<Mention[]>([]);
+  const [mentionQuery, setMentionQuery] = useState<MentionQuery | undefined>();
+  const [activeMentionIndex, setActiveMentionIndex] = useState(0);
+  const mentionListId = useId();
+  const candidates = useMentionCandidates();
+  const mentionMatches = mentionQuery
+    ? candidates
+        .filter(({ clientId, displayName }) => {
+          const query = mentionQuery.query.toLowerCase();
+          return (
+            displayName.toLowerCase().startsWith(query) || clientId.toLowerCase().startsWith(query)
+          );
+        })
+        .slice(0, MAX_MENTION_SUGGESTIONS)
+    : [];
+  const showMentions = mentionMatches.length > 0;
+
+  // Slash command being typed at the start of the message
+  const [commandQuery, setCommandQuery] = useState<string | undefined>();
+  const [activeCommandIndex, setActiveCommandIndex] = useState(0);
+  const commandListId = useId();
+  const commandMatches =
+    slashCommands && commandQuery !== undefined ? slashCommands.search(commandQuery) : [];
+  const showCommands = commandMatches.length > 0;
+
+  // Move focus to the input when a reply is started, so the user can type straight away
+  useEffect(() => {
+    if (replyTo) inputRef.current?.focus();
+  }, [replyTo]);
+
   /**
-   * Handles sending the message, clearing the input, and stopping typing indicators
+   * Clears the input and the mentions chosen in it, and stops typing indicators
+   */
+  const clearInput = useCallback(() => {
+    setMessage('');
+    messageRef.current = '';
+    mentionsRef.current = [];
+    if (enableTyping) {
+      stop().catch((error: unknown) => {
+        console.warn('Stop typing failed:', error);
+      });
+    }
+  }, [enableTyping, stop]);
+
+  /**
+   * Sends text with the mentions, reply and attachments being composed, clearing the input once
+   * sent unless the user has started composing a new message
+   *
+   * @param text - The text to send
+   * @param typed - The trimmed input that produced the text, e.g. a slash command
+   * @param extra - Metadata and headers to send as well, e.g. from a slash command
+   */
+  const sendText = useCallback(
+    (
+      text: string,
+      typed: string,
+      extra?: { metadata?: MessageMetadata; headers?: MessageHeaders }
+    ) => {
+      const attachments = attachmentUploads?.attachments ?? [];
+      const metadata = {
+        ...createMentionsMetadata(text, mentionsRef.current),
+        ...(replyTo && createReplyMetadata(replyTo)),
+        ...createAttachmentsMetadata(attachments),
+        ...extra?.metadata,
+      };
+      const hasMetadata = Object.keys(metadata).length > 0;
+      const allHeaders = extra?.headers ? { ...headers, ...extra.headers } : headers;
+
+      if (onSend) {
+        clearInput();
+        onSend(text, hasMetadata ? metadata : undefined, allHeaders);
+        if (replyTo) onClearReply?.();
+        attachmentUploads?.clear();
+        return;
+      }
+
+      isSendingRef.current = true;
+      setIsSending(true);
+      // Close any open emoji picker so the user cannot mutate the locked
+      // input while the request is in flight.
+      setShowEmojiPicker(false);
+
+      sendMessage({ text, metadata: hasMetadata ? metadata : undefined, headers: allHeaders })
+        .then((sentMessage) => {
+          onSent?.(sentMessage);
+          if (replyTo) onClearReply?.();
+          if (attachments.length > 0) attachmentUploads?.clear();
+          // Only clear the input if the user hasn't started composing a
+          // new message while we were waiting.
+          if (messageRef.current.trim() === typed) clearInput();
+        })
+        .catch((error: unknown) => {
+          if (onSendError) {
+            onSendError(error as ErrorInfo, text);
+          } else {
+            console.error('Failed to send message:', error);
+          }
+        })
+        .finally(() => {
+          isSendingRef.current = false;
+          setIsSending(false);
+        });
+    },
+    [
+      sendMessage,
+      clearInput,
+      onSent,
+      onSend,
+      onSendError,
+      replyTo,
+      onClearReply,
+      headers,
+      attachmentUploads,
+    ]
+  );
+
+  /**
+   * Runs a slash command, then sends its message, shows its ephemeral response or just clears
+   * the input. The input is locked while the command runs, and keeps the command if it fails.
+   *
+   * @param command - The command to run
+   * @param args - Text typed after the command name
+   * @param typed - The command as typed
+   */
+  const runCommand = useCallback(
+    (command: SlashCommand, args: string, typed: string) => {
+      const release = () => {
+        isSendingRef.current = false;
+        setIsSending(false);
+      };
+      isSendingRef.current = true;
+      setIsSending(true);
+      setShowEmojiPicker(false);
+
+      // Run the handler inside an async function, so a handler that throws is reported like a
+      // rejection rather than leaving the input locked
+      const run = async (): Promise<SlashCommandResult | undefined> =>
+        (await command.handler(args)) ?? undefined;
+
+      run()
+        .then((result) => {
+          release();
+          if (result?.type === 'send') {
+            sendText(result.text, typed, result);
+            return;
+          }
+          if (result?.type === 'ephemeral') {
+            onEphemeralResponse?.(createEphemeralResponse(typed, result.text));
+          }
+          if (messageRef.current.trim() === typed) clearInput();
+        })
+        .catch((error: unknown) => {
+          release();
+          if (onCommandError) {
+            onCommandError(error, typed);
+          } else {
+            console.error('Slash command failed:', error);
+          }
+        });
+    },
+    [sendText, clearInput, onEphemeralResponse, onCommandError]
+  );
+
+  /**
+   * Handles sending the message, or running it as a slash command
    */
   const handleSend = useCallback(() => {
     // Block re-entry while a send is in flight so rapid Enter presses
     // don't fire a second request for the same text.
     if (isSendingRef.current) return;
+    // Wait for attachments to finish uploading, so none are silently left out
+    if (attachmentUploads?.isUploading) return;
     const trimmedMessage = messageRef.current.trim();
-    if (!trimmedMessage) return;
+    if (!trimmedMessage && (attachmentUploads?.attachments ?? []).length === 0) return;
+    setMentionQuery(undefined);
+    setCommandQuery(undefined);
 
-    isSendingRef.current = true;
-    setIsSending(true);
-    // Close any open emoji picker so the user cannot mutate the locked
-    // input while the request is in flight.
-    setShowEmojiPicker(false);
+    // Text starting with an unregistered command, such as a file path, is sent as typed
+    const parsed = slashCommands && parseSlashCommand(trimmedMessage);
+    const command = parsed && slashCommands.get(parsed.name);
+    if (parsed && command) {
+      runCommand(command, parsed.args, trimmedMessage);
+      return;
+    }
 
-    sendMessage({ text: trimmedMessage })
-      .then((sentMessage) => {
-        onSent?.(sentMessage);
-        // Only clear the input if the user hasn't started composing a
-        // new message while we were waiting.
-        if (messageRef.current.trim() === trimmedMessage) {
-          setMessage('');
-          messageRef.current = '';
-          if (enableTyping) {
-            stop().catch((error: unknown) => {
-              console.warn('Stop typing failed:', error);
-            });
-          }
-        }
-      })
-      .catch((error: unknown) => {
-        if (onSendError) {
-          onSendError(error as ErrorInfo, trimmedMessage);
-        } else {
-          console.error('Failed to send message:', error);
-        }
-      })
-      .finally(() => {
-        isSendingRef.current = false;
-        setIsSending(false);
-      });
-  }, [sendMessage, stop, onSent, onSendError, enableTyping]);
+    sendText(trimmedMessage, trimmedMessage);
+  }, [attachmentUploads, slashCommands, runCommand, sendText]);
 
   /**
    * Handles changes to the input field
@@ -207,6 +520,16 @@ export const MessageInput = ({
     setMessage(newValue);
     messageRef.current = newValue;
 
+    if (enableMentions) {
+      setMentionQuery(findMentionQuery(newValue, e.target.selectionStart ?? newValue.length));
+      setActiveMentionIndex(0);
+    }
+
+    if (slashCommands) {
+      setCommandQuery(findSlashCommandQuery(newValue, e.target.selectionStart ?? newValue.length));
+      setActiveCommandIndex(0);
+    }
+
     if (enableTyping) {
       // Call keystroke on each keypress when there's content
       if (newValue.trim()) {
@@ -222,19 +545,155 @@ export const MessageInput = ({
     }
   };
 
+  /**
+   * Replaces the mention being typed with the chosen user's name
+   *
+   * @param candidate - The user to mention
+   */
+  const handleMentionSelect = (candidate: MentionCandidate) => {
+    if (!mentionQuery) return;
+    const current = messageRef.current;
+    const label = candidate.displayName;
+    const before = current.slice(0, mentionQuery.start) + `@${label} `;
+    const newMessage = before + current.slice(mentionQuery.start + mentionQuery.query.length + 1);
+
+    setMessage(newMessage);
+    messageRef.current = newMessage;
+    mentionsRef.current = [...mentionsRef.current, { clientId: candidate.clientId, label }];
+    setMentionQuery(undefined);
+
+    const input = inputRef.current;
+    if (input) {
+      setTimeout(() => {
+        input.focus();
+        input.setSelectionRange(before.length, before.length);
+      }, 0);
+    }
+  };
+
+  /**
+   * Replaces the command name being typed with the chosen command, ready for its arguments
+   *
+   * @param command - The command to run
+   */
+  const handleCommandSelect = (command: SlashCommand) => {
+    if (commandQuery === undefined) return;
+    const current = messageRef.current;
+    const before = `/${command.name} `;
+    const newMessage = before + current.slice(commandQuery.length + 1).trimStart();
+
+    setMessage(newMessage);
+    messageRef.current = newMessage;
+    setCommandQuery(undefined);
+
+    const input = inputRef.current;
+    if (input) {
+      setTimeout(() => {
+        input.focus();
+        input.setSelectionRange(before.length, before.length);
+      }, 0);
+    }
+  };
+
   /**
    * Handles keyboard events in the input field
-   * Sends the message when Enter is pressed (without Shift)
+   * Navigates command or mention suggestions while they are open, otherwise sends the message when
+   * Enter is pressed (without Shift), and edits the last message when Up is pressed while empty
    *
    * @param e - The keyboard event
    */
   const handleKeyPress = (e: KeyboardEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    if (showCommands) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setActiveCommandIndex((i) => (i + step + commandMatches.length) % commandMatches.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        const command = commandMatches[activeCommandIndex] ?? commandMatches[0];
+        if (command) handleCommandSelect(command);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setCommandQuery(undefined);
+        return;
+      }
+    }
+
+    if (showMentions) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setActiveMentionIndex((i) => (i + step + mentionMatches.length) % mentionMatches.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        const candidate = mentionMatches[activeMentionIndex] ?? mentionMatches[0];
+        if (candidate) handleMentionSelect(candidate);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setMentionQuery(undefined);
+        return;
+      }
+    }
+
+    if (
+      e.key === 'ArrowUp' &&
+      onEditLastMessage &&
+      !message &&
+      !e.shiftKey &&
+      !e.altKey &&
+      !e.ctrlKey &&
+      !e.metaKey
+    ) {
+      e.preventDefault();
+      onEditLastMessage();
+      return;
+    }
+
+    if (e.key === 'Escape' && replyTo) {
+      e.preventDefault();
+      onClearReply?.();
+      return;
+    }
+
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSend();
     }
   };
 
+  /**
+   * Attaches files pasted into the input, leaving pasted text to the default behavior
+   *
+   * @param e - The paste event
+   */
+  const handlePaste = (e: ClipboardEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    if (!attachmentUploads) return;
+    const files = [...e.clipboardData.files];
+    if (files.length === 0) return;
+    e.preventDefault();
+    attachmentUploads.addFiles(files);
+  };
+
+  /**
+   * Attaches the files chosen with the attach button
+   *
+   * @param e - The file input change event
+   */
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const files = [...(e.target.files ?? [])];
+    if (files.length > 0) attachmentUploads?.addFiles(files);
+    // Reset so choosing the same file again still fires a change
+    e.target.value = '';
+  };
+
   /**
    * Opens the emoji picker and positions it relative to the emoji button
    */
@@ -300,9 +759,132 @@ export const MessageInput = ({
   };
 
   return (
-    <div className="p-4 bg-white dark:bg-gray-900" role="form" aria-label="Message input">
+    <div className="relative p-4 bg-white dark:bg-gray-900" role="form" aria-label="Message input">
+      {/* Slash Command Suggestions */}
+      {showCommands && (
+        <SlashCommandSuggestions
+          id={commandListId}
+          commands={commandMatches}
+          activeIndex={activeCommandIndex}
+          onSelect={handleCommandSelect}
+          className="absolute bottom-full left-4 w-72 max-w-[calc(100%-2rem)] z-50"
+        />
+      )}
+
+      {/* Mention Suggestions */}
+      {showMentions && (
+        <MentionSuggestions
+          id={mentionListId}
+          candidates={mentionMatches}
+          activeIndex={activeMentionIndex}
+          onSelect={handleMentionSelect}
+          className="absolute bottom-full left-4 w-72 max-w-[calc(100%-2rem)] z-50"
+        />
+      )}
+
       <div className="border border-gray-300 dark:border-gray-600 rounded-2xl p-2">
+        {/* Quote of the message being replied to */}
+        {replyTo && (
+          <div className="flex items-center gap-2 mb-2" role="group" aria-label="Replying to">
+            <MessageQuote
+              clientId={replyTo.clientId}
+              text={createSnippet(replyTo.text)}
+              className="flex-1 text-gray-700 dark:text-gray-300"
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+              onClick={onClearReply}
+              aria-label="Cancel reply"
+            >
+              <Icon name="close" size="sm" aria-hidden={true} />
+            </Button>
+          </div>
+        )}
+
+        {/* Attached files */}
+        {attachmentUploads && attachmentUploads.uploads.length > 0 && (
+          <ul className="flex flex-wrap gap-2 mb-2" aria-label="Attachments">
+            {attachmentUploads.uploads.map((upload) => (
+              <li
+                key={upload.id}
+                className={clsx(
+                  'flex items-center gap-2 max-w-[16rem] pl-2 rounded-lg text-xs',
+                  upload.status === 'failed'
+                    ? 'bg-red-50 text-red-700 dark:bg-red-900/30 dark:text-red-300'
+                    : 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300'
+                )}
+              >
+                <Icon name="file" size="sm" className="shrink-0" aria-hidden={true} />
+                <span className="flex flex-col flex-1 min-w-0 py-1">
+                  <span className="truncate">{upload.file.name}</span>
+                  {upload.status === 'uploading' && (
+                    <span
+                      className="block h-1 mt-1 rounded bg-gray-300 dark:bg-gray-600 overflow-hidden"
+                      role="progressbar"
+                      aria-label={`Uploading ${upload.file.name}`}
+                      aria-valuemin={0}
+                      aria-valuemax={100}
+                      aria-valuenow={Math.round(upload.progress * 100)}
+                    >
+                      <span
+                        className="block h-full bg-blue-500"
+                        style={{ width: `${String(Math.round(upload.progress * 100))}%` }}
+                      />
+                    </span>
+                  )}
+                  {upload.status === 'failed' && <span>Upload failed</span>}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="shrink-0 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+                  onClick={() => {
+                    attachmentUploads.remove(upload.id);
+                  }}
+                  aria-label={
+                    upload.status === 'uploading'
+                      ? `Cancel upload of ${upload.file.name}`
+                      : `Remove ${upload.file.name}`
+                  }
+                >
+                  <Icon name="close" size="sm" aria-hidden={true} />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
         <div className="flex items-end gap-3">
+          {/* Attach Button */}
+          {attachmentUploads && (
+            <>
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                className="hidden"
+                onChange={handleFileChange}
+                aria-hidden={true}
+                tabIndex={-1}
+                data-testid="attachment-file-input"
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 self-end mb-1"
+                onClick={() => {
+                  fileInputRef.current?.click();
+                }}
+                aria-label="Attach files"
+                disabled={isSending}
+              >
+                <Icon name="paperclip" size="md" aria-hidden={true} />
+              </Button>
+            </>
+          )}
+
           {/* Text Input */}
           <TextInput
             ref={inputRef as React.Ref<HTMLTextAreaElement>}
@@ -312,9 +894,22 @@ export const MessageInput = ({
             value={message}
             onChange={handleInputChange}
             onKeyDown={handleKeyPress}
+            onPaste={handlePaste}
             placeholder={placeholder}
             className="flex-1"
             aria-label="Message text"
+            aria-autocomplete={enableMentions || slashCommands ? 'list' : undefined}
+            aria-controls={showCommands ? commandListId : showMentions ? mentionListId : undefined}
+            aria-expanded={
+              enableMentions || slashCommands ? showCommands || showMentions : undefined
+            }
+            aria-activedescendant={
+              showCommands
+                ? getSlashCommandOptionId(commandListId, activeCommandIndex)
+                : showMentions
+                  ? getMentionOptionId(mentionListId, activeMentionIndex)
+                  : undefined
+            }
             disabled={isSending}
             aria-busy={isSending}
           />
@@ -0,0 +1,71 @@
+import { clsx } from 'clsx';
+import React from 'react';
+
+import { useUserAvatar } from '../../hooks/use-user-avatar.tsx';
+
+/**
+ * Props for the MessageQuote component
+ */
+export interface MessageQuoteProps {
+  /**
+   * Client ID of the quoted message's sender
+   */
+  clientId: string;
+
+  /**
+   * Snippet of the quoted message's text
+   */
+  text: string;
+
+  /**
+   * Callback triggered when the quote is clicked, e.g. to jump to the quoted message.
+   * The quote is only interactive when this is provided.
+   */
+  onClick?: () => void;
+
+  /**
+   * Additional CSS classes for the quote
+   */
+  className?: string;
+}
+
+/**
+ * MessageQuote component shows the sender and a snippet of a message being replied to
+ *
+ * Used above a reply's text, and above the message input while composing a reply.
+ *
+ * @example
+ * <MessageQuote
+ *   clientId={reply.clientId}
+ *   text={reply.text}
+ *   onClick={() => jumpToMessage(reply.serial)}
+ * />
+ */
+export const MessageQuote = ({ clientId, text, onClick, className }: MessageQuoteProps) => {
+  const { userAvatar } = useUserAvatar({ clientId });
+  const name = userAvatar?.displayName ?? clientId;
+
+  const content = (
+    <>
+      <span className="block text-xs font-semibold truncate">{name}</span>
+      <span className="block text-xs opacity-80 truncate">{text || 'Message'}</span>
+    </>
+  );
+  const classes = clsx(
+    'block w-full min-w-0 text-left pl-2 py-1 pr-2 border-l-4 border-gray-400/70 rounded-r bg-gray-500/10',
+    className
+  );
+
+  return onClick ? (
+    <button
+      type="button"
+      className={clsx(classes, 'hover:bg-gray-500/20 transition-colors')}
+      onClick={onClick}
+      aria-label={`Go to the message from ${name}: ${text}`}
+    >
+      {content}
+    </button>
+  ) : (
+    <div className={classes}>{content}</div>
+  );
+};
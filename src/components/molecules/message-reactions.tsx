@@ -1,5 +1,16 @@
-import { Message } from '@ably/chat';
-import React from 'react';
+import { Message, MessageReactionType } from '@ably/chat';
+import React, { useEffect, useId, useRef, useState } from 'react';
+
+import { useUserAvatar } from '../../hooks/use-user-avatar.tsx';
+import { getReactionCounts, getUserReactionCount, ReactionCount } from '../../utils/reactions.ts';
+import { Avatar } from '../atoms/avatar.tsx';
+import { Tooltip } from '../atoms/tooltip.tsx';
+
+/** Number of reactors listed by name before the rest are summarised as "and N others" */
+const MAX_REACTORS_SHOWN = 5;
+
+/** How long a chip must be pressed on touch screens to show who reacted, in milliseconds */
+const LONG_PRESS_MS = 500;
 
 /**
  * Props for the MessageReactions component
@@ -7,11 +18,18 @@ import React from 'react';
 export interface MessageReactionsProps {
   /**
    * The Chat Message object containing reaction data.
-   * Access reactions via `message.reactions.distinct` which provides a map of emoji to reaction details.
+   * Reactions are read from the summary matching `reactionType`, e.g. `message.reactions.distinct`.
    * Only renders when the message has existing reactions.
    */
   message: Message;
 
+  /**
+   * The reaction type used in the room, which decides which summary is shown.
+   * With `Multiple`, each user's count is shown and clicking a reaction adds another.
+   * @default MessageReactionType.Distinct
+   */
+  reactionType?: MessageReactionType;
+
   /**
    * Optional callback function triggered when a reaction button is clicked.
    * Receives the emoji character as a parameter for handling reaction add/remove logic.
@@ -39,6 +57,15 @@ export interface MessageReactionsProps {
    */
   onReactionClick?: (emoji: string) => void;
 
+  /**
+   * Optional callback function triggered when the current user removes their reactions with an
+   * emoji. Only used with `Multiple` reactions, where clicking a reaction adds another, so a
+   * remove button is shown on reactions the user has added.
+   *
+   * @param emoji - The emoji whose reactions should be removed
+   */
+  onReactionRemove?: (emoji: string) => void;
+
   /**
    * Client ID of the current Ably Connection for the room.
    * Used to determine which reactions the current user has added for visual highlighting.
@@ -47,6 +74,191 @@ export interface MessageReactionsProps {
   currentClientId: string;
 }
 
+/**
+ * A user who reacted, shown with their avatar and display name
+ */
+const Reactor = ({
+  clientId,
+  isCurrentUser,
+  count,
+}: {
+  clientId: string;
+  isCurrentUser: boolean;
+  count?: number;
+}) => {
+  const { userAvatar } = useUserAvatar({ clientId });
+
+  return (
+    <li className="flex items-center gap-2 min-w-0">
+      <Avatar
+        src={userAvatar?.src}
+        color={userAvatar?.color}
+        initials={userAvatar?.initials}
+        alt={userAvatar?.displayName ?? clientId}
+        size="sm"
+      />
+      <span className="truncate">
+        {isCurrentUser ? 'You' : (userAvatar?.displayName ?? clientId)}
+      </span>
+      {count !== undefined && <span className="ml-auto opacity-70">×{count}</span>}
+    </li>
+  );
+};
+
+/**
+ * Props for a single reaction chip
+ */
+interface ReactionChipProps {
+  reaction: ReactionCount;
+  currentClientId: string;
+  onClick: () => void;
+  onRemove?: () => void;
+}
+
+/**
+ * A reaction chip that shows who reacted on hover, focus or long press
+ */
+const ReactionChip = ({ reaction, currentClientId, onClick, onRemove }: ReactionChipProps) => {
+  const [showReactors, setShowReactors] = useState(false);
+  const longPressTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  /** Set when a long press opened the reactors, so the click that ends it doesn't toggle */
+  const longPressedRef = useRef(false);
+  const tooltipId = useId();
+
+  useEffect(
+    () => () => {
+      clearTimeout(longPressTimerRef.current);
+    },
+    []
+  );
+
+  const { emoji, total, clientIds, counts } = reaction;
+  const userCount = getUserReactionCount(reaction, currentClientId);
+  const hasUserReacted = userCount > 0;
+  // List the current user first, as "You"
+  const reactors = hasUserReacted
+    ? [currentClientId, ...clientIds.filter((id) => id !== currentClientId)]
+    : clientIds;
+  const shown = reactors.slice(0, MAX_REACTORS_SHOWN);
+  const others = Math.max(0, reaction.reactorCount - shown.length);
+
+  let label: string;
+  if (counts) {
+    const you = hasUserReacted
+      ? ` (you reacted ${userCount === 1 ? 'once' : `${String(userCount)} times`})`
+      : '';
+    label = `${emoji} reaction${you}, ${String(total)} ${total === 1 ? 'reaction' : 'reactions'}`;
+  } else {
+    const you = hasUserReacted ? ' (you reacted)' : '';
+    label = `${emoji} reaction${you}, ${String(total)} ${total === 1 ? 'person' : 'people'}`;
+  }
+
+  const cancelLongPress = () => {
+    clearTimeout(longPressTimerRef.current);
+  };
+
+  return (
+    <div
+      className="relative flex items-center"
+      onMouseEnter={() => {
+        setShowReactors(true);
+      }}
+      onMouseLeave={() => {
+        setShowReactors(false);
+      }}
+    >
+      <button
+        className={`flex items-center gap-1 px-2 py-1 rounded-full text-xs border transition-colors ${
+          hasUserReacted
+            ? 'bg-blue-100 border-blue-300 text-blue-700 dark:bg-blue-900/30 dark:border-blue-600 dark:text-blue-300'
+            : 'bg-gray-100 border-gray-300 text-gray-700 hover:bg-gray-200 dark:bg-gray-800 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700'
+        }`}
+        onClick={() => {
+          if (longPressedRef.current) {
+            longPressedRef.current = false;
+            return;
+          }
+          onClick();
+        }}
+        onFocus={() => {
+          setShowReactors(true);
+        }}
+        onBlur={() => {
+          setShowReactors(false);
+        }}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') setShowReactors(false);
+        }}
+        onTouchStart={() => {
+          longPressedRef.current = false;
+          cancelLongPress();
+          longPressTimerRef.current = setTimeout(() => {
+            longPressedRef.current = true;
+            setShowReactors(true);
+          }, LONG_PRESS_MS);
+        }}
+        onTouchEnd={cancelLongPress}
+        onTouchMove={cancelLongPress}
+        onContextMenu={(e) => {
+          // Long presses open the reactors instead of the browser's context menu
+          if (longPressedRef.current) e.preventDefault();
+        }}
+        aria-label={label}
+        // Clicking a Multiple reaction adds another rather than toggling it
+        aria-pressed={counts ? undefined : hasUserReacted}
+        aria-describedby={showReactors ? tooltipId : undefined}
+        type="button"
+      >
+        <span aria-hidden="true">{emoji}</span>
+        <span className="font-medium" aria-hidden="true">
+          {total}
+        </span>
+      </button>
+
+      {onRemove && hasUserReacted && (
+        <button
+          type="button"
+          className="ml-0.5 w-5 h-5 flex items-center justify-center rounded-full text-xs text-gray-500 hover:bg-gray-200 hover:text-gray-700 dark:text-gray-400 dark:hover:bg-gray-700 dark:hover:text-gray-200 transition-colors"
+          onClick={onRemove}
+          aria-label={`Remove your ${emoji} reactions`}
+        >
+          <span aria-hidden="true">−</span>
+        </button>
+      )}
+
+      {showReactors && (
+        <Tooltip
+          id={tooltipId}
+          position="above"
+          variant="light"
+          size="sm"
+          wrap="nowrap"
+          className="min-w-32"
+        >
+          <p className="mb-1 font-medium">Reacted with {emoji}</p>
+          <ul className="flex flex-col gap-1">
+            {shown.map((clientId) => (
+              <Reactor
+                key={clientId}
+                clientId={clientId}
+                isCurrentUser={clientId === currentClientId}
+                count={counts?.[clientId]}
+              />
+            ))}
+          </ul>
+          {others > 0 && (
+            <p className="mt-1 opacity-70">
+              {shown.length > 0
+                ? `and ${String(others)} ${others === 1 ? 'other' : 'others'}`
+                : `${String(others)} ${others === 1 ? 'person' : 'people'}`}
+            </p>
+          )}
+        </Tooltip>
+      )}
+    </div>
+  );
+};
+
 /**
  * MessageReactions component displays emoji reactions for a chat message with interactive toggle functionality
  *
@@ -54,15 +266,17 @@ export interface MessageReactionsProps {
  * - Displays all emoji reactions with their total counts
  * - Visual highlighting for reactions added by the current user (blue styling)
  * - Click-to-toggle reactions (add/remove based on current user's participation)
+ * - Who reacted, with avatars, shown on hover, keyboard focus or long press
  * - Responsive flexbox layout that wraps on smaller screens
  * - Accessibility with ARIA attributes
  * - Theme-aware styling supporting both light and dark modes
  * - Graceful handling of missing or empty reaction data
  *
  * Data Structure:
- * The component expects `message.reactions.distinct` to contain a map where:
- * - Keys are emoji characters (e.g., "👍", "❤️", "😂")
- * - Values contain `total` (number) and `clientIds` (string array)
+ * The component reads the summary matching `reactionType` (`distinct`, `unique` or `multiple`)
+ * from `message.reactions`, which maps emoji characters (e.g., "👍", "❤️", "😂") to the
+ * reaction totals and the users who reacted. With `Multiple` reactions, each user's count is
+ * shown in the list of who reacted.
  *
  * Styling:
  * • Pill-shaped buttons with rounded corners
@@ -72,9 +286,10 @@ export interface MessageReactionsProps {
  *
  * @example
  * // Basic usage within ChatMessage component
- * {message.reactions && Object.keys(message.reactions.distinct || {}).length > 0 && (
+ * {getReactionCounts(message.reactions, reactionType).length > 0 && (
  *   <MessageReactions
  *     message={message}
+ *     reactionType={reactionType}
  *     onReactionClick={handleReactionToggle}
  *     currentClientId={currentClientId}
  *   />
@@ -113,43 +328,32 @@ export interface MessageReactionsProps {
  */
 export const MessageReactions = ({
   message,
+  reactionType = MessageReactionType.Distinct,
   onReactionClick,
+  onReactionRemove,
   currentClientId,
 }: MessageReactionsProps) => {
-  const distinct = message.reactions.distinct;
-
-  // Get all emoji names that have reactions
-  const emojiNames = Object.keys(distinct);
+  const reactions = getReactionCounts(message.reactions, reactionType);
 
-  if (emojiNames.length === 0) return;
+  if (reactions.length === 0) return;
 
   return (
     <div className="flex flex-wrap gap-1 mt-2" role="group" aria-label="Message reactions">
-      {emojiNames.map((emoji) => {
-        const reaction = distinct[emoji];
-        if (!reaction) return;
-        const hasUserReacted = reaction.clientIds.includes(currentClientId);
-        const count = reaction.total;
-        return (
-          <button
-            key={emoji}
-            className={`flex items-center gap-1 px-2 py-1 rounded-full text-xs border transition-colors ${
-              hasUserReacted
-                ? 'bg-blue-100 border-blue-300 text-blue-700 dark:bg-blue-900/30 dark:border-blue-600 dark:text-blue-300'
-                : 'bg-gray-100 border-gray-300 text-gray-700 hover:bg-gray-200 dark:bg-gray-800 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700'
-            }`}
-            onClick={() => onReactionClick?.(emoji)}
-            aria-label={`${emoji} reaction${hasUserReacted ? ' (you reacted)' : ''}, ${String(count)} ${count === 1 ? 'person' : 'people'}`}
-            aria-pressed={hasUserReacted}
-            type="button"
-          >
-            <span aria-hidden="true">{emoji}</span>
-            <span className="font-medium" aria-hidden="true">
-              {count}
-            </span>
-          </button>
-        );
-      })}
+      {reactions.map((reaction) => (
+        <ReactionChip
+          key={reaction.emoji}
+          reaction={reaction}
+          currentClientId={currentClientId}
+          onClick={() => onReactionClick?.(reaction.emoji)}
+          onRemove={
+            reactionType === MessageReactionType.Multiple && onReactionRemove
+              ? () => {
+                  onReactionRemove(reaction.emoji);
+                }
+              : undefined
+          }
+        />
+      ))}
     </div>
   );
 };
@@ -0,0 +1,118 @@
+import { clsx } from 'clsx';
+import React from 'react';
+
+import { OutboxMessage } from '../../utils/outbox.ts';
+import { Button } from '../atoms/button.tsx';
+
+/**
+ * Props for the PendingMessage component
+ */
+export interface PendingMessageProps {
+  /**
+   * The outbox entry to display.
+   */
+  message: OutboxMessage;
+
+  /**
+   * Callback triggered when the user retries a failed message.
+   * @param id - Outbox ID of the message
+   */
+  onRetry?: (id: string) => void;
+
+  /**
+   * Callback triggered when the user discards a queued or failed message.
+   * @param id - Outbox ID of the message
+   */
+  onDiscard?: (id: string) => void;
+
+  /**
+   * Additional CSS class names to apply to the message container
+   */
+  className?: string;
+}
+
+/**
+ * PendingMessage displays one of the current user's messages that has not yet been confirmed
+ * by the server
+ *
+ * Features:
+ * - Dimmed bubble with a "Sending…" status while the send is in flight
+ * - "Waiting to send…" status while queued, e.g. offline, with a Discard action
+ * - Error styling with Retry and Discard actions once the send fails
+ * - Laid out like the user's own messages, so it is replaced seamlessly when confirmed
+ *
+ * @example
+ * <PendingMessage message={entry} onRetry={retry} onDiscard={discard} />
+ */
+export const PendingMessage = ({ message, onRetry, onDiscard, className }: PendingMessageProps) => {
+  const isFailed = message.status === 'failed';
+  const isQueued = message.status === 'queued';
+
+  const discardButton = (
+    <Button
+      variant="ghost"
+      size="xs"
+      onClick={() => {
+        onDiscard?.(message.id);
+      }}
+    >
+      Discard
+    </Button>
+  );
+
+  return (
+    <div
+      className={clsx('flex flex-row-reverse items-start gap-2 mb-4', className)}
+      role="article"
+      aria-label={
+        isFailed ? 'Message failed to send' : isQueued ? 'Message queued' : 'Sending message'
+      }
+      aria-busy={message.status === 'sending'}
+    >
+      {/* Keeps the bubble aligned with the user's avatar on sent messages */}
+      <div className="w-8 shrink-0" aria-hidden="true" />
+
+      <div className="flex flex-col items-end max-w-[85%] md:max-w-[80%] lg:max-w-[75%]">
+        <div
+          className={clsx(
+            'px-4 py-2 rounded-2xl rounded-br-md bg-gray-900 text-white',
+            isFailed ? 'ring-2 ring-red-500' : 'opacity-60'
+          )}
+        >
+          <p className="text-sm leading-relaxed break-words break-all whitespace-pre-wrap">
+            {message.text}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2 mt-1 px-2">
+          {isFailed ? (
+            <>
+              <span className="text-xs text-red-600 dark:text-red-400" role="alert">
+                Failed to send
+              </span>
+              <Button
+                variant="ghost"
+                size="xs"
+                onClick={() => {
+                  onRetry?.(message.id);
+                }}
+              >
+                Retry
+              </Button>
+              {discardButton}
+            </>
+          ) : isQueued ? (
+            <>
+              <span className="text-xs text-gray-500">Waiting to send…</span>
+              {discardButton}
+            </>
+          ) : (
+            <span className="text-xs text-gray-500">Sending…</span>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+PendingMessage.displayName = 'PendingMessage';
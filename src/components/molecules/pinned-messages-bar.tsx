@@ -0,0 +1,133 @@
+import { clsx } from 'clsx';
+import React, { useState } from 'react';
+
+import { PinnedMessage } from '../../utils/pins.ts';
+import { Button } from '../atoms/button.tsx';
+import { Icon } from '../atoms/icon.tsx';
+import { MessageQuote } from './message-quote.tsx';
+
+/**
+ * Props for the PinnedMessagesBar component
+ */
+export interface PinnedMessagesBarProps {
+  /**
+   * The room's pinned messages, most recently pinned first.
+   * Nothing is rendered when empty.
+   */
+  pins: PinnedMessage[];
+
+  /**
+   * Callback triggered when a pinned message is chosen from the list.
+   * Typically scrolls the chat to the message.
+   * @param serial - Serial of the chosen message
+   */
+  onSelect: (serial: string) => void;
+
+  /**
+   * Callback triggered when a message is unpinned from the list.
+   * Unpin buttons are only shown when this is provided.
+   * @param serial - Serial of the message to unpin
+   */
+  onUnpin?: (serial: string) => void;
+
+  /**
+   * Additional CSS classes for the bar
+   */
+  className?: string;
+}
+
+/**
+ * PinnedMessagesBar component lists a room's pinned messages in a collapsible bar
+ *
+ * Features:
+ * - Collapsed, shows the number of pins and the most recent one
+ * - Expanded, lists every pin; choosing one jumps to it and collapses the list
+ * - Optional unpin buttons for users allowed to manage pins
+ *
+ * @example
+ * <ChatWindowHeader>
+ *   <PinnedMessagesBar
+ *     pins={pins}
+ *     onSelect={jumpToMessage}
+ *     onUnpin={canPin ? unpin : undefined}
+ *   />
+ * </ChatWindowHeader>
+ */
+export const PinnedMessagesBar = ({
+  pins,
+  onSelect,
+  onUnpin,
+  className,
+}: PinnedMessagesBarProps) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const latest = pins[0];
+  if (!latest) return;
+
+  return (
+    <div
+      className={clsx('text-gray-900 dark:text-gray-100', className)}
+      role="region"
+      aria-label="Pinned messages"
+    >
+      <button
+        type="button"
+        className="flex items-center gap-2 w-full min-w-0 text-left text-sm"
+        onClick={() => {
+          setIsExpanded((prev) => !prev);
+        }}
+        aria-expanded={isExpanded}
+      >
+        <Icon
+          name="pin"
+          size="sm"
+          className="shrink-0 text-blue-600 dark:text-blue-400"
+          aria-hidden={true}
+        />
+        <span className="shrink-0 font-medium">
+          {pins.length === 1 ? '1 pinned message' : `${String(pins.length)} pinned messages`}
+        </span>
+        <span className="flex-1 min-w-0 truncate text-gray-500 dark:text-gray-400">
+          {latest.text || 'Message'}
+        </span>
+        <Icon
+          name="chevronright"
+          size="sm"
+          className={clsx('shrink-0 transition-transform', isExpanded && 'rotate-90')}
+          aria-hidden={true}
+        />
+      </button>
+
+      {isExpanded && (
+        <ul className="mt-2 flex flex-col gap-2 max-h-60 overflow-y-auto">
+          {pins.map((pin) => (
+            <li key={pin.serial} className="flex items-center gap-2">
+              <MessageQuote
+                clientId={pin.clientId}
+                text={pin.text}
+                onClick={() => {
+                  setIsExpanded(false);
+                  onSelect(pin.serial);
+                }}
+                className="flex-1"
+              />
+              {onUnpin && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="shrink-0 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+                  onClick={() => {
+                    onUnpin(pin.serial);
+                  }}
+                  aria-label="Unpin message"
+                >
+                  <Icon name="close" size="sm" aria-hidden={true} />
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
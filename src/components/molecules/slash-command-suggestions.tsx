@@ -0,0 +1,107 @@
+import { clsx } from 'clsx';
+import React from 'react';
+
+import { SlashCommand } from '../../utils/slash-commands.ts';
+
+/**
+ * Props for the SlashCommandSuggestions component
+ */
+export interface SlashCommandSuggestionsProps {
+  /**
+   * ID of the listbox, referenced by the input's `aria-controls`
+   */
+  id: string;
+
+  /**
+   * Commands matching what has been typed after `/`
+   */
+  commands: SlashCommand[];
+
+  /**
+   * Index of the highlighted command, moved with the arrow keys
+   */
+  activeIndex: number;
+
+  /**
+   * Callback triggered when a command is chosen
+   * @param command - The chosen command
+   */
+  onSelect: (command: SlashCommand) => void;
+
+  /**
+   * Additional CSS classes for the list
+   */
+  className?: string;
+}
+
+/**
+ * Returns the DOM ID of a suggestion, for the input's `aria-activedescendant`
+ */
+export const getSlashCommandOptionId = (listId: string, index: number) =>
+  `${listId}-option-${String(index)}`;
+
+/**
+ * SlashCommandSuggestions component lists commands while typing `/` at the start of a message
+ *
+ * Keyboard handling stays with the input, which moves `activeIndex` and selects on Enter or
+ * Tab, so focus never leaves the text being typed.
+ *
+ * @example
+ * <SlashCommandSuggestions
+ *   id="commands"
+ *   commands={matches}
+ *   activeIndex={activeIndex}
+ *   onSelect={insertCommand}
+ * />
+ */
+export const SlashCommandSuggestions = ({
+  id,
+  commands,
+  activeIndex,
+  onSelect,
+  className,
+}: SlashCommandSuggestionsProps) => (
+  <ul
+    id={id}
+    role="listbox"
+    aria-label="Commands"
+    className={clsx(
+      'max-h-60 overflow-y-auto py-1 rounded-lg shadow-lg',
+      'bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700',
+      className
+    )}
+  >
+    {commands.map((command, i) => (
+      <li
+        key={command.name}
+        id={getSlashCommandOptionId(id, i)}
+        role="option"
+        aria-selected={i === activeIndex}
+        className={clsx(
+          'flex flex-col px-3 py-1.5 cursor-pointer text-sm text-gray-900 dark:text-gray-100',
+          i === activeIndex
+            ? 'bg-gray-100 dark:bg-gray-700'
+            : 'hover:bg-gray-50 dark:hover:bg-gray-700/50'
+        )}
+        onMouseDown={(e) => {
+          // Keep focus in the input
+          e.preventDefault();
+          onSelect(command);
+        }}
+      >
+        <span className="truncate">
+          <span className="font-medium">/{command.name}</span>
+          {command.argsHint && (
+            <>
+              {' '}
+              <span className="text-gray-500 dark:text-gray-400">{command.argsHint}</span>
+            </>
+          )}
+        </span>
+        <span className="truncate text-xs text-gray-500 dark:text-gray-400">
+          {command.description}
+        </span>
+      </li>
+    ))}
+  </ul>
+);
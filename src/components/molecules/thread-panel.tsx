@@ -0,0 +1,241 @@
+import { ErrorInfo, Message, MessageHeaders, MessageMetadata } from '@ably/chat';
+import { clsx } from 'clsx';
+import React, { useMemo } from 'react';
+
+import { LinkPreviewResolver } from '../../utils/link-preview.ts';
+import { LinkPolicy } from '../../utils/links.ts';
+import { MessageAction } from '../../utils/message-actions.ts';
+import { OutboxMessage } from '../../utils/outbox.ts';
+import { countThreadReplies, createThreadHeaders } from '../../utils/threads.ts';
+import { Button } from '../atoms/button.tsx';
+import { Icon } from '../atoms/icon.tsx';
+import { ChatMessage } from './chat-message.tsx';
+import { ChatMessageList } from './chat-message-list.tsx';
+import { ChatWindowFooter } from './chat-window-footer.tsx';
+import { ChatWindowHeader } from './chat-window-header.tsx';
+import { MessageInput } from './message-input.tsx';
+
+/**
+ * Props for the ThreadPanel component
+ */
+export interface ThreadPanelProps {
+  /**
+   * The message that started the thread, shown above the replies.
+   */
+  parent: Message;
+
+  /**
+   * Replies in the thread, oldest first.
+   */
+  replies: Message[];
+
+  /**
+   * Callback triggered when the close button is clicked.
+   */
+  onClose: () => void;
+
+  /**
+   * Callback that takes over sending replies, e.g. the `send` function of the room's
+   * `useOutbox`, so replies typed while offline are queued rather than lost. The thread
+   * header is passed in `headers`.
+   * @param text - Text of the reply
+   * @param metadata - Metadata to send with the reply, if any
+   * @param headers - Headers posting the reply into the thread
+   */
+  onSend?: (text: string, metadata?: MessageMetadata, headers?: MessageHeaders) => void;
+
+  /**
+   * Replies in this thread that are waiting in the outbox, shown after the sent replies.
+   */
+  pendingReplies?: OutboxMessage[];
+
+  /**
+   * Callback triggered when the user retries a failed pending reply.
+   * @param id - Outbox ID of the reply
+   */
+  onRetryPending?: (id: string) => void;
+
+  /**
+   * Callback triggered when the user discards a failed pending reply.
+   * @param id - Outbox ID of the reply
+   */
+  onDiscardPending?: (id: string) => void;
+
+  /**
+   * Callback triggered when a reply sent from the panel is acknowledged by the server.
+   * Typically adds the reply to the thread straight away, before the realtime event arrives.
+   * Not called when `onSend` is provided.
+   * @param message - The sent reply
+   */
+  onReplySent?: (message: Message) => void;
+
+  /**
+   * Callback triggered when sending a reply fails. Not called when `onSend` is provided.
+   * If not provided, errors will be logged to console.
+   * @param error - The error that occurred
+   * @param text - The text that failed to send
+   */
+  onSendError?: (error: ErrorInfo, text: string) => void;
+
+  /**
+   * Callback triggered when the user saves an edited message.
+   * Passed through to the parent and reply ChatMessage components.
+   */
+  onEdit?: (message: Message, newText: string) => void;
+
+  /**
+   * Callback triggered when the user confirms message deletion.
+   * Passed through to the parent and reply ChatMessage components.
+   */
+  onDelete?: (message: Message) => void;
+
+  /**
+   * Callback triggered when a user adds an emoji reaction to a message.
+   * Passed through to the parent and reply ChatMessage components.
+   */
+  onReactionAdd?: (message: Message, emoji: string) => void;
+
+  /**
+   * Callback triggered when a user removes their emoji reaction from a message.
+   * Passed through to the parent and reply ChatMessage components.
+   */
+  onReactionRemove?: (message: Message, emoji: string) => void;
+
+  /**
+   * Allow and deny lists controlling which URLs in messages become links.
+   */
+  linkPolicy?: LinkPolicy;
+
+  /**
+   * Resolver used to show preview cards for links in messages.
+   */
+  linkPreviewResolver?: LinkPreviewResolver;
+
+  /**
+   * Custom actions offered on messages, such as copy text or report.
+   */
+  messageActions?: readonly MessageAction[];
+
+  /**
+   * Additional CSS classes to apply to the panel.
+   */
+  className?: string;
+}
+
+/**
+ * ThreadPanel component shows a side conversation started from a message
+ *
+ * Features:
+ * - The message that started the thread, with its reply count
+ * - Its own scrollable list of replies
+ * - A message input that posts into the thread, keeping replies out of the main timeline
+ * - Replies can be queued in the room's outbox while offline, shown as pending until sent
+ * - Covers the chat on small screens, and sits beside it on wider ones
+ *
+ * Must be used within a `ChatRoomProvider`, as replies are sent to the room with a thread header.
+ *
+ * @example
+ * <ThreadPanel
+ *   parent={threadParent}
+ *   replies={threadReplies.get(threadParent.serial) ?? []}
+ *   onClose={closeThread}
+ *   onSend={send}
+ *   pendingReplies={pendingMessages.filter((m) => getThreadParentSerial(m) === threadParent.serial)}
+ * />
+ */
+export const ThreadPanel = ({
+  parent,
+  replies,
+  onClose,
+  onSend,
+  pendingReplies,
+  onRetryPending,
+  onDiscardPending,
+  onReplySent,
+  onSendError,
+  onEdit,
+  onDelete,
+  onReactionAdd,
+  onReactionRemove,
+  linkPolicy,
+  linkPreviewResolver,
+  messageActions,
+  className,
+}: ThreadPanelProps) => {
+  const headers = useMemo(() => createThreadHeaders(parent.serial), [parent.serial]);
+  const replyCount = countThreadReplies(replies);
+
+  return (
+    <aside
+      className={clsx(
+        'absolute inset-0 z-20 md:static md:z-auto md:w-96 shrink-0 flex flex-col h-full',
+        'bg-white dark:bg-gray-900 border-l border-gray-200 dark:border-gray-700',
+        className
+      )}
+      aria-label="Thread"
+    >
+      <ChatWindowHeader className="flex items-center justify-between" aria-label="Thread header">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Thread</h2>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+          onClick={onClose}
+          aria-label="Close thread"
+        >
+          <Icon name="close" size="sm" aria-hidden={true} />
+        </Button>
+      </ChatWindowHeader>
+
+      <div className="px-4 pt-4 border-b border-gray-200 dark:border-gray-700">
+        <ChatMessage
+          message={parent}
+          onEdit={onEdit}
+          onDelete={onDelete}
+          onReactionAdd={onReactionAdd}
+          onReactionRemove={onReactionRemove}
+          linkPolicy={linkPolicy}
+          linkPreviewResolver={linkPreviewResolver}
+          messageActions={messageActions}
+          className="mb-2"
+        />
+        <p className="pb-2 text-xs text-gray-500 dark:text-gray-400">
+          {replyCount === 0
+            ? 'No replies yet'
+            : replyCount === 1
+              ? '1 reply'
+              : `${String(replyCount)} replies`}
+        </p>
+      </div>
+
+      <ChatMessageList
+        messages={replies}
+        enableTypingIndicators={false}
+        onEdit={onEdit}
+        onDelete={onDelete}
+        onReactionAdd={onReactionAdd}
+        onReactionRemove={onReactionRemove}
+        linkPolicy={linkPolicy}
+        linkPreviewResolver={linkPreviewResolver}
+        messageActions={messageActions}
+        pendingMessages={pendingReplies}
+        onRetryPending={onRetryPending}
+        onDiscardPending={onDiscardPending}
+        aria-label="Thread replies"
+      />
+
+      <ChatWindowFooter aria-label="Thread footer">
+        <div className="flex-1">
+          <MessageInput
+            headers={headers}
+            placeholder="Reply in thread..."
+            enableTyping={false}
+            onSend={onSend}
+            onSent={onReplySent}
+            onSendError={onSendError}
+          />
+        </div>
+      </ChatWindowFooter>
+    </aside>
+  );
+};
@@ -1,3 +1,4 @@
+import { MessageReactionType } from '@ably/chat';
 import { createContext } from 'react';
 
 /**
@@ -14,6 +15,20 @@ export interface ChatSettings {
   allowMessageDeletesAny: boolean;
   /** Whether users can add reactions to messages */
   allowMessageReactions: boolean;
+  /**
+   * How message reactions are counted:
+   * - `Distinct`: each user can add each emoji once, and clicking a reaction toggles it
+   * - `Unique`: each user can add one reaction, which replaces any previous one
+   * - `Multiple`: users can add the same emoji repeatedly, and counts are shown per user
+   */
+  messageReactionType: MessageReactionType;
+  /** Whether users can pin and unpin messages, typically only moderators */
+  allowMessagePins: boolean;
+  /**
+   * Whether message text is rendered as Markdown: bold, italic, strikethrough, inline code,
+   * fenced code blocks, lists, blockquotes and links. Plain text is shown when disabled.
+   */
+  enableMarkdown: boolean;
 }
 
 /**
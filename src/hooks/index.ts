@@ -1,5 +1,20 @@
+export {
+  type AttachmentUpload,
+  type AttachmentUploadStatus,
+  useAttachmentUploads,
+  type UseAttachmentUploadsProps,
+  type UseAttachmentUploadsReturn,
+} from './use-attachment-uploads.tsx';
 export { useAvatar } from './use-avatar.tsx';
 export { useChatSettings } from './use-chat-settings.tsx';
+export { useLinkPreviews, type UseLinkPreviewsProps } from './use-link-previews.tsx';
+export { type MentionCandidate, useMentionCandidates } from './use-mention-candidates.tsx';
+export { useOutbox, type UseOutboxProps, type UseOutboxReturn } from './use-outbox.tsx';
+export {
+  usePinnedMessages,
+  type UsePinnedMessagesProps,
+  type UsePinnedMessagesReturn,
+} from './use-pinned-messages.tsx';
 export {
   useRoomAvatar,
   type UseRoomAvatarProps,
@@ -7,6 +22,11 @@ export {
 } from './use-room-avatar.tsx';
 export { useTheme } from './use-theme.tsx';
 export { useThrottle } from './use-throttle.tsx';
+export {
+  useUnreadMessages,
+  type UseUnreadMessagesProps,
+  type UseUnreadMessagesReturn,
+} from './use-unread-messages.tsx';
 export {
   useUserAvatar,
   type UseUserAvatarProps,
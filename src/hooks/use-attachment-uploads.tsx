@@ -0,0 +1,181 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+import { Attachment, AttachmentUploader } from '../utils/attachments.ts';
+
+/**
+ * Status of a file being attached
+ */
+export type AttachmentUploadStatus = 'uploading' | 'uploaded' | 'failed';
+
+/**
+ * A file being attached to the message being composed
+ */
+export interface AttachmentUpload {
+  /** Local ID of the upload */
+  id: string;
+  /** The file being uploaded */
+  file: File;
+  /** Fraction of the file uploaded, from 0 to 1 */
+  progress: number;
+  /** Current status of the upload */
+  status: AttachmentUploadStatus;
+  /** The uploaded attachment, once the upload completes */
+  attachment?: Attachment;
+  /** The error from the last attempt, if it failed */
+  error?: unknown;
+}
+
+/**
+ * Props for the useAttachmentUploads hook
+ */
+export interface UseAttachmentUploadsProps {
+  /** Uploader used for attached files. Files are ignored when omitted. */
+  uploader?: AttachmentUploader;
+
+  /**
+   * Called when an upload fails. Cancelled uploads are not reported.
+   * If not provided, errors will be logged to console.
+   * @param error - The error that occurred
+   * @param file - The file that failed to upload
+   */
+  onUploadError?: (error: unknown, file: File) => void;
+}
+
+/**
+ * Return type for the useAttachmentUploads hook
+ */
+export interface UseAttachmentUploadsReturn {
+  /** Files attached to the message being composed, in the order they were added */
+  uploads: AttachmentUpload[];
+  /** Attachments whose uploads have completed, ready to send */
+  attachments: Attachment[];
+  /** Whether any upload is still in progress */
+  isUploading: boolean;
+  /**
+   * Starts uploading files.
+   * @param files - The files to attach
+   */
+  addFiles: (files: File[]) => void;
+  /**
+   * Removes an attached file, cancelling its upload if still in progress.
+   * @param id - Local ID of the upload
+   */
+  remove: (id: string) => void;
+  /** Removes every attached file, e.g. once the message has been sent. */
+  clear: () => void;
+}
+
+/**
+ * Generates an ID for an upload
+ */
+const createUploadId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Hook tracking the files attached to a message being composed.
+ *
+ * Each file is uploaded with the given {@link AttachmentUploader} as soon as it is added,
+ * and its progress and status are tracked until it is removed or the attachments are
+ * cleared. Removing a file, clearing, or unmounting cancels uploads still in progress.
+ *
+ * @example
+ * ```tsx
+ * const { uploads, attachments, addFiles, clear } = useAttachmentUploads({ uploader });
+ * const handleSend = () => {
+ *   send(text, createAttachmentsMetadata(attachments));
+ *   clear();
+ * };
+ * ```
+ *
+ * @param props - The uploader and an optional error handler
+ * @returns The attached files and functions to add and remove them
+ *
+ * @public
+ */
+export const useAttachmentUploads = ({
+  uploader,
+  onUploadError,
+}: UseAttachmentUploadsProps = {}): UseAttachmentUploadsReturn => {
+  const [uploads, setUploads] = useState<AttachmentUpload[]>([]);
+  const controllersRef = useRef(new Map<string, AbortController>());
+
+  // Keep the latest error handler without restarting uploads when it changes
+  const onUploadErrorRef = useRef(onUploadError);
+  useEffect(() => {
+    onUploadErrorRef.current = onUploadError;
+  }, [onUploadError]);
+
+  const updateUpload = useCallback((id: string, changes: Partial<AttachmentUpload>) => {
+    setUploads((prev) => prev.map((u) => (u.id === id ? { ...u, ...changes } : u)));
+  }, []);
+
+  const addFiles = useCallback(
+    (files: File[]) => {
+      if (!uploader) return;
+
+      for (const file of files) {
+        const id = createUploadId();
+        const controller = new AbortController();
+        controllersRef.current.set(id, controller);
+        setUploads((prev) => [...prev, { id, file, progress: 0, status: 'uploading' }]);
+
+        uploader
+          .upload(file, {
+            signal: controller.signal,
+            onProgress: (progress) => {
+              if (!controller.signal.aborted) updateUpload(id, { progress });
+            },
+          })
+          .then((attachment) => {
+            if (controller.signal.aborted) return;
+            updateUpload(id, { progress: 1, status: 'uploaded', attachment });
+          })
+          .catch((error: unknown) => {
+            if (controller.signal.aborted) return;
+            updateUpload(id, { status: 'failed', error });
+            if (onUploadErrorRef.current) {
+              onUploadErrorRef.current(error, file);
+            } else {
+              console.error('Failed to upload attachment:', error);
+            }
+          })
+          .finally(() => {
+            controllersRef.current.delete(id);
+          });
+      }
+    },
+    [uploader, updateUpload]
+  );
+
+  const remove = useCallback((id: string) => {
+    controllersRef.current.get(id)?.abort();
+    controllersRef.current.delete(id);
+    setUploads((prev) => prev.filter((u) => u.id !== id));
+  }, []);
+
+  const clear = useCallback(() => {
+    for (const controller of controllersRef.current.values()) {
+      controller.abort();
+    }
+    controllersRef.current.clear();
+    setUploads([]);
+  }, []);
+
+  // Cancel uploads still in progress when the component unmounts
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => {
+      for (const controller of controllers.values()) {
+        controller.abort();
+      }
+    };
+  }, []);
+
+  const attachments = useMemo(
+    () => uploads.flatMap((u) => (u.status === 'uploaded' && u.attachment ? [u.attachment] : [])),
+    [uploads]
+  );
+  const isUploading = uploads.some((u) => u.status === 'uploading');
+
+  return { uploads, attachments, isUploading, addFiles, remove, clear };
+};
@@ -0,0 +1,78 @@
+import { useCallback, useEffect, useMemo, useSyncExternalStore } from 'react';
+
+import { LinkPreview, LinkPreviewCache, LinkPreviewResolver } from '../utils/link-preview.ts';
+
+/** Props for the useLinkPreviews hook */
+export interface UseLinkPreviewsProps {
+  /** URLs to show previews for, in display order */
+  urls: string[];
+
+  /**
+   * Resolver used to look up previews. No previews are loaded when omitted.
+   */
+  resolver?: LinkPreviewResolver;
+}
+
+/** One cache per resolver, shared by every message using it */
+const caches = new WeakMap<LinkPreviewResolver, LinkPreviewCache>();
+
+const getCache = (resolver: LinkPreviewResolver) => {
+  let cache = caches.get(resolver);
+  if (!cache) {
+    cache = new LinkPreviewCache(resolver);
+    caches.set(resolver, cache);
+  }
+  return cache;
+};
+
+/**
+ * Hook that resolves previews for a set of URLs.
+ *
+ * Results are cached per resolver and URL, so each link is only resolved once, and messages
+ * that are unmounted and remounted (e.g. by list virtualization) show their previews
+ * immediately.
+ *
+ * @example
+ * ```tsx
+ * const previews = useLinkPreviews({ urls: extractLinks(message.text), resolver });
+ * ```
+ *
+ * @param props - The URLs and the resolver to use
+ * @returns The previews that have loaded, in the order of `urls`
+ *
+ * @public
+ */
+export const useLinkPreviews = ({ urls, resolver }: UseLinkPreviewsProps): LinkPreview[] => {
+  const cache = useMemo(() => resolver && getCache(resolver), [resolver]);
+
+  const subscribe = useCallback(
+    (listener: () => void) =>
+      cache
+        ? cache.subscribe(listener)
+        : () => {
+            // Nothing to unsubscribe from without a resolver
+          },
+    [cache]
+  );
+  const getVersion = useCallback(() => cache?.getVersion() ?? 0, [cache]);
+  const version = useSyncExternalStore(subscribe, getVersion, getVersion);
+
+  // Join the URLs so callers don't need to memoize the array
+  const urlsKey = urls.join('\n');
+
+  useEffect(() => {
+    if (!cache || !urlsKey) return;
+    for (const url of urlsKey.split('\n')) {
+      cache.load(url);
+    }
+  }, [cache, urlsKey]);
+
+  return useMemo(() => {
+    if (!cache || !urlsKey) return [];
+    return urlsKey
+      .split('\n')
+      .map((url) => cache.get(url))
+      .filter((preview): preview is LinkPreview => !!preview);
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- version changes when lookups settle
+  }, [cache, urlsKey, version]);
+};
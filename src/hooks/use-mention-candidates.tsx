@@ -0,0 +1,62 @@
+import { useChatClient, usePresenceListener } from '@ably/chat/react';
+import { useMemo } from 'react';
+
+import { AvatarData } from '../components/atoms/avatar.tsx';
+import { useAvatar } from './use-avatar.tsx';
+
+/** A user who can be mentioned */
+export interface MentionCandidate {
+  /** The user's client ID */
+  clientId: string;
+  /** Name inserted after `@` when the user is mentioned */
+  displayName: string;
+  /** The user's avatar, if one is known */
+  avatar?: AvatarData;
+  /** Whether the user is currently present in the room */
+  isOnline: boolean;
+}
+
+/**
+ * Hook listing the users who can be mentioned in the current room: members present in the
+ * room first, followed by other users with known avatars, excluding the current user.
+ *
+ * - Must be used within a `ChatRoomProvider` and an `AvatarProvider`.
+ *
+ * @example
+ * ```tsx
+ * const candidates = useMentionCandidates();
+ * const matches = candidates.filter((c) => c.displayName.startsWith(query));
+ * ```
+ *
+ * @returns The candidates, present members first, each group sorted by name
+ *
+ * @public
+ */
+export const useMentionCandidates = (): MentionCandidate[] => {
+  const { clientId } = useChatClient();
+  const { presenceData } = usePresenceListener();
+  // getUserAvatars changes identity whenever any user avatar changes
+  const { getUserAvatars } = useAvatar();
+
+  return useMemo(() => {
+    const avatars = getUserAvatars();
+    const online = new Set(presenceData.map((member) => member.clientId));
+    const ids = new Set([...online, ...Object.keys(avatars)]);
+    ids.delete(clientId ?? '');
+
+    return [...ids]
+      .map((id) => {
+        const avatar = avatars[id];
+        return {
+          clientId: id,
+          displayName: avatar?.displayName ?? id,
+          avatar,
+          isOnline: online.has(id),
+        };
+      })
+      .sort(
+        (a, b) =>
+          Number(b.isOnline) - Number(a.isOnline) || a.displayName.localeCompare(b.displayName)
+      );
+  }, [clientId, presenceData, getUserAvatars]);
+};
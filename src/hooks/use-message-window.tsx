@@ -1,7 +1,68 @@
-import { ChatMessageEvent, ChatMessageEventType, Message, PaginatedResult } from '@ably/chat';
+import {
+  ChatMessageAction,
+  ChatMessageEvent,
+  ChatMessageEventType,
+  Message,
+  OrderBy,
+  PaginatedResult,
+} from '@ably/chat';
 import { useMessages, useRoom } from '@ably/chat/react';
 import { useCallback, useEffect, useRef, useState } from 'react';
 
+import { MessageCache } from '../utils/message-cache.ts';
+import { getThreadParentSerial } from '../utils/threads.ts';
+
+/** Delay before loaded messages are written to the cache, so bursts of updates are batched */
+const CACHE_SAVE_DELAY_MS = 500;
+
+/** Default number of history pages `jumpToMessage` will fetch before giving up */
+const DEFAULT_JUMP_MAX_PAGES = 10;
+
+/** History pages fetched to bridge a discontinuity before falling back to a full reload */
+const DISCONTINUITY_MAX_PAGES = 5;
+
+/** Fraction of `maxStoredMessages` kept after an eviction, so evictions happen in batches */
+const EVICTION_TARGET_RATIO = 0.9;
+
+/**
+ * Creates a promise along with the function that resolves it
+ */
+const createDeferred = () => {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => {
+    resolve = r;
+  });
+  return { promise, resolve };
+};
+
+/** Options for {@link UseMessageWindowResponse.jumpToMessage} */
+export interface JumpToMessageOptions {
+  /** Maximum number of history pages to fetch while searching. Defaults to 10 */
+  maxPages?: number;
+  /** Aborts the search; the returned promise then resolves with a `cancelled` status */
+  signal?: AbortSignal;
+}
+
+/** Why {@link UseMessageWindowResponse.jumpToMessage} could not show a message */
+export type JumpToMessageFailure =
+  | { status: 'not-found' | 'page-limit' }
+  | { status: 'error'; error: unknown };
+
+/**
+ * Outcome of {@link UseMessageWindowResponse.jumpToMessage}:
+ * - `found`: the message is in the window
+ * - `in-thread`: the message is a thread reply, so it is shown in its parent's thread
+ * - `cancelled`: a newer jump, a room change or the signal cancelled the search
+ * - `not-found`: the message does not exist in the room's history
+ * - `page-limit`: the message was not found within `maxPages` pages
+ * - `error`: fetching history or the message failed
+ */
+export type JumpToMessageResult =
+  | { status: 'found' }
+  | { status: 'in-thread'; threadParentSerial: string }
+  | { status: 'cancelled' }
+  | JumpToMessageFailure;
+
 /** Props for the useMessageWindow hook */
 export interface UseMessageWindowProps {
   /** Number of rows kept mounted (ex‑overscan). Defaults to 200 */
@@ -10,6 +71,20 @@ export interface UseMessageWindowProps {
   overscan?: number;
   /** historyBatchSize - Number of messages to fetch in a single history request. Defaults to 300 */
   historyBatchSize?: number;
+  /**
+   * Optional cache used to show a room's messages instantly while history is fetched.
+   * Cached messages are reconciled with history and live events once they arrive.
+   * Use an `IndexedDBMessageCache` to persist across reloads, or an `InMemoryMessageCache`
+   * in tests.
+   * The instance should be stable across renders, as changing it resets the window.
+   */
+  cache?: MessageCache;
+  /**
+   * Maximum number of messages held in memory. When exceeded, the messages furthest from the
+   * current anchor are evicted, and fetched again from history when scrolled back into view.
+   * Never less than the window size plus overscan. Defaults to unbounded.
+   */
+  maxStoredMessages?: number;
 }
 
 /** Response interface for the useMessageWindow hook */
@@ -24,12 +99,35 @@ export interface UseMessageWindowResponse {
   scrollBy: (delta: number) => void;
   /** Centre the window on a specific message serial */
   showMessagesAroundSerial: (serial: string) => void;
+  /**
+   * Centre the window on a message, paging back through history until it is found.
+   * Starting a new jump, or switching rooms, cancels any jump in progress.
+   * Thread replies are not shown in the window, so jumping to one resolves with the serial of
+   * its parent instead. Resolves with a `found` status once the message is in the window.
+   */
+  jumpToMessage: (serial: string, options?: JumpToMessageOptions) => Promise<JumpToMessageResult>;
   /** `true` while a history query is running */
   loading: boolean;
   /** `true` if their are more messages that can be fetched from history*/
   hasMoreHistory: boolean;
   /** Triggers another history fetch from the point of the earliest message*/
   loadMoreHistory: () => Promise<void>;
+  /**
+   * `true` if messages newer than those held have been evicted. They are fetched again
+   * when the window returns to the latest messages.
+   */
+  hasNewerMessages: boolean;
+  /**
+   * Replies posted in threads, keyed by the serial of the message that started each thread and
+   * sorted oldest first. Thread replies are kept out of `activeMessages`.
+   */
+  threadReplies: ReadonlyMap<string, Message[]>;
+  /**
+   * Earlier versions of edited messages, keyed by message serial and sorted oldest first.
+   * History only returns the latest version of each message, so only versions seen since the
+   * room was opened are known. Versions are dropped when their message is evicted.
+   */
+  editHistory: ReadonlyMap<string, Message[]>;
 }
 
 /**
@@ -45,8 +143,14 @@ export interface UseMessageWindowResponse {
  * - *Virtualized Windowing*: Exposes a subset of the total messages in memory for efficient rendering
  * - *Realtime updates*: Automatically handles new messages, edits, deletions, and reactions.
  * - *History Pagination*: Loads older messages on demand with configurable batch sizes.
- * - *Discontinuity Recovery*: Automatically recovers missing messages after network disruptions.
- * - *Navigation Controls*: Jump to latest, scroll by delta, or center on specific messages
+ * - *Discontinuity Recovery*: Fetches only the messages missed during network disruptions,
+ *   keeping the current position and older history.
+ * - *Offline Cache*: Optionally hydrates the window from a {@link MessageCache} on room switch.
+ * - *Bounded Memory*: Optionally evicts messages far from the anchor, re-fetching them on demand.
+ * - *Navigation Controls*: Jump to latest, scroll by delta, center on specific messages,
+ *   or jump to any message, fetching history until it is found
+ * - *Threads*: Messages with a thread header are grouped by thread instead of shown in the window
+ * - *Edit History*: Keeps the versions of a message replaced by edits while the room is open
  *
  * @param opts - Configuration options for the message window
  * @returns Hook interface with message data and control methods
@@ -111,12 +215,39 @@ export const useMessageWindow = ({
   windowSize = 200,
   overscan = 20,
   historyBatchSize = 300,
+  cache,
+  maxStoredMessages,
 }: UseMessageWindowProps = {}): UseMessageWindowResponse => {
   const nextPageRef = useRef<undefined | (() => Promise<PaginatedResult<Message> | null>)>(
     undefined
   );
   const serialSetRef = useRef<Set<string>>(new Set());
   const initialHistoryLoadedRef = useRef<boolean>(false);
+  /** Serials of messages hydrated from the cache that have not yet been confirmed by the server */
+  const hydratedSerialsRef = useRef<Set<string>>(new Set());
+  /** Whether there are changes that have not yet been written to the cache */
+  const pendingCacheSaveRef = useRef<boolean>(false);
+  /** Resolves once the initial history load for the current room has settled */
+  const initialHistoryRef = useRef(createDeferred());
+  /** Incremented to cancel any in-flight jump */
+  const jumpIdRef = useRef(0);
+  /** Serial to centre on once a page fetched by a jump has been applied */
+  const pendingJumpSerialRef = useRef<string | undefined>(undefined);
+  /** Whether messages newer than the newest held have been evicted */
+  const newerEvictedRef = useRef<boolean>(false);
+  /** Continues the current query for evicted newer messages, if one is in progress */
+  const newerPageRef = useRef<undefined | (() => Promise<PaginatedResult<Message> | null>)>(
+    undefined
+  );
+  /** Live events for messages newer than those held, applied once the gap has been re-fetched */
+  const liveBufferRef = useRef<Message[]>([]);
+  /** Set when the live buffer overflowed, so the gap must be re-fetched from scratch */
+  const liveBufferOverflowedRef = useRef<boolean>(false);
+  const loadingNewerRef = useRef<boolean>(false);
+  /** Incremented whenever newer eviction state is reset, so in-flight fetches can be discarded */
+  const newerEpochRef = useRef(0);
+  /** Incremented to cancel any in-flight discontinuity recovery */
+  const recoveryIdRef = useRef(0);
 
   /** Entire message history, should not be used for UI display */
   const allMessagesRef = useRef<Message[]>([]);
@@ -124,15 +255,38 @@ export const useMessageWindow = ({
   const [version, setVersion] = useState(0);
   /** Slice to render in UI, typically a couple 100 messages */
   const [activeMessages, setActiveMessages] = useState<Message[]>([]);
+  /** The rendered slice, for callbacks that outlive the render */
+  const activeMessagesRef = useRef<Message[]>([]);
   /** Anchor row, used to maintain the window position (‑1==latest) */
   const [anchorIdx, setAnchorIdx] = useState<number>(-1);
 
   /** Loading state for history queries */
   const [loading, setLoading] = useState<boolean>(false);
 
+  /** Whether messages newer than the newest held have been evicted */
+  const [hasNewerMessages, setHasNewerMessages] = useState<boolean>(false);
+
+  /** Thread replies by parent serial, held apart from the main timeline */
+  const [threadReplies, setThreadReplies] = useState<ReadonlyMap<string, Message[]>>(
+    () => new Map()
+  );
+
+  /** Earlier versions of edited messages by serial, oldest first */
+  const [editHistory, setEditHistory] = useState<ReadonlyMap<string, Message[]>>(() => new Map());
+
   /** Access the current room context so we can reset state correctly when it changes */
   const { roomName } = useRoom();
 
+  /** Forgets any evicted newer messages, e.g. because the store is being reset */
+  const resetNewerEviction = useCallback(() => {
+    newerEvictedRef.current = false;
+    newerPageRef.current = undefined;
+    newerEpochRef.current += 1;
+    liveBufferRef.current = [];
+    liveBufferOverflowedRef.current = false;
+    setHasNewerMessages(false);
+  }, []);
+
   // Reset state when room changes.
   useEffect(() => {
     // Reset all state when we load a new room
@@ -140,20 +294,51 @@ export const useMessageWindow = ({
     serialSetRef.current = new Set();
     nextPageRef.current = undefined;
     initialHistoryLoadedRef.current = false;
+    hydratedSerialsRef.current = new Set();
+    initialHistoryRef.current = createDeferred();
+    jumpIdRef.current += 1;
+    recoveryIdRef.current += 1;
+    pendingJumpSerialRef.current = undefined;
+    resetNewerEviction();
 
     setVersion(0);
     setActiveMessages([]);
     setAnchorIdx(-1);
-  }, [roomName]);
+    setThreadReplies(new Map());
+    setEditHistory(new Map());
+
+    if (!cache) return;
+
+    let cancelled = false;
+    cache
+      .load(roomName)
+      .then((cached) => {
+        // If history has already arrived, the cache has nothing to add
+        if (cancelled || cached.length === 0 || allMessagesRef.current.length > 0) return;
+
+        const sorted = [...cached].sort((a, b) => (a.serial < b.serial ? -1 : 1));
+        allMessagesRef.current = sorted;
+        serialSetRef.current = new Set(sorted.map((m) => m.serial));
+        hydratedSerialsRef.current = new Set(serialSetRef.current);
+        setVersion((prevVersion) => prevVersion + 1);
+      })
+      .catch((error: unknown) => {
+        console.error('Message cache load failed', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [roomName, cache, resetNewerEviction]);
 
-  const { historyBeforeSubscribe } = useMessages({
+  const { historyBeforeSubscribe, history, getMessage } = useMessages({
     listener: (event: ChatMessageEvent) => {
       const { message, type } = event;
       switch (type) {
         case ChatMessageEventType.Created:
         case ChatMessageEventType.Updated:
         case ChatMessageEventType.Deleted: {
-          updateMessages([message]);
+          applyLiveMessage(message);
           break;
         }
         default: {
@@ -162,6 +347,19 @@ export const useMessageWindow = ({
       }
     },
     reactionsListener: (event) => {
+      setThreadReplies((prev) => {
+        for (const [parentSerial, replies] of prev) {
+          const idx = replies.findIndex((m) => m.serial === event.messageSerial);
+          const reply = replies[idx];
+          if (!reply) continue;
+          const merged = reply.with(event);
+          if (merged === reply) return prev;
+          const updated = [...replies];
+          updated[idx] = merged;
+          return new Map(prev).set(parentSerial, updated);
+        }
+        return prev;
+      });
       setVersion((prevVersion) => {
         const messageSerial = event.messageSerial;
         let changed = false;
@@ -261,15 +459,84 @@ export const useMessageWindow = ({
     return left;
   }, []);
 
+  /**
+   * Adds or updates thread replies, keeping each thread sorted by serial
+   *
+   * @param replies - Messages carrying a thread header
+   */
+  const updateThreadReplies = useCallback((replies: Message[]) => {
+    setThreadReplies((prev) => {
+      let next: Map<string, Message[]> | undefined;
+      for (const m of replies) {
+        const parentSerial = getThreadParentSerial(m);
+        if (!parentSerial) continue;
+        const thread = (next ?? prev).get(parentSerial) ?? [];
+        const idx = thread.findIndex((r) => r.serial === m.serial);
+        const existing = thread[idx];
+        let updated: Message[];
+        if (existing) {
+          const merged = existing.with(m);
+          if (merged === existing) continue;
+          updated = [...thread];
+          updated[idx] = merged;
+        } else {
+          updated = [...thread, m].sort((a, b) => (a.serial < b.serial ? -1 : 1));
+        }
+        next ??= new Map(prev);
+        next.set(parentSerial, updated);
+      }
+      return next ?? prev;
+    });
+  }, []);
+
+  /**
+   * Keeps the versions of held messages that the given edits are about to replace.
+   *
+   * @param msgs - Incoming messages for the main timeline
+   */
+  const recordEdits = useCallback(
+    (msgs: Message[]) => {
+      const replaced: Message[] = [];
+      for (const m of msgs) {
+        if (m.action !== ChatMessageAction.MessageUpdate || !serialSetRef.current.has(m.serial)) {
+          continue;
+        }
+        const existing = allMessagesRef.current[findMessageIndex(allMessagesRef.current, m.serial)];
+        if (existing && existing.version.serial < m.version.serial) replaced.push(existing);
+      }
+      if (replaced.length === 0) return;
+
+      setEditHistory((prev) => {
+        let next: Map<string, Message[]> | undefined;
+        for (const old of replaced) {
+          const versions = (next ?? prev).get(old.serial) ?? [];
+          if (versions.some((v) => v.version.serial === old.version.serial)) continue;
+          next ??= new Map(prev);
+          next.set(
+            old.serial,
+            [...versions, old].sort((a, b) => (a.version.serial < b.version.serial ? -1 : 1))
+          );
+        }
+        return next ?? prev;
+      });
+    },
+    [findMessageIndex]
+  );
+
   // TODO: More optimizations may be needed here, but further load testing is required to determine.
   const updateMessages = useCallback(
-    (msgs: Message[], prepend = false) => {
+    (allMsgs: Message[], prepend = false) => {
+      const replies = allMsgs.filter((m) => getThreadParentSerial(m));
+      if (replies.length > 0) updateThreadReplies(replies);
+      const msgs = replies.length > 0 ? allMsgs.filter((m) => !getThreadParentSerial(m)) : allMsgs;
       if (msgs.length === 0) return;
+      recordEdits(msgs);
       setVersion((prevVersion) => {
         if (prevVersion === 0 && allMessagesRef.current.length > 0) {
           // If this is the first update and we already have messages, we need to reset the state
           allMessagesRef.current = [];
           serialSetRef.current.clear();
+          hydratedSerialsRef.current.clear();
         }
         let changed = false;
         let insertedBeforeAnchor = 0;
@@ -279,7 +546,14 @@ export const useMessageWindow = ({
           if (serialSetRef.current.has(m.serial)) {
             const idx = findMessageIndex(allMessages, m.serial);
             const existingMessage = allMessagesRef.current[idx];
-            const merged = existingMessage?.with(m);
+            // A cached copy is a stale snapshot, so the first server copy replaces it outright,
+            // which also refreshes its reaction summary
+            const merged =
+              hydratedSerialsRef.current.delete(m.serial) &&
+              existingMessage &&
+              m.version.serial >= existingMessage.version.serial
+                ? m
+                : existingMessage?.with(m);
 
             if (merged && merged !== existingMessage) {
               allMessagesRef.current[idx] = merged;
@@ -322,9 +596,75 @@ export const useMessageWindow = ({
         return changed ? prevVersion + 1 : prevVersion;
       });
     },
-    [anchorIdx, findInsertionIndex, findMessageIndex]
+    [anchorIdx, findInsertionIndex, findMessageIndex, recordEdits, updateThreadReplies]
+  );
+
+  /**
+   * Applies a live message event, unless it falls in a range of messages that isn't held.
+   *
+   * @param message - The message from the event
+   */
+  const applyLiveMessage = useCallback(
+    (message: Message) => {
+      const allMessages = allMessagesRef.current;
+      const newest = allMessages.at(-1);
+      const oldest = allMessages[0];
+
+      // Newer messages have been evicted, so hold on to this until the gap has been re-fetched
+      if (newerEvictedRef.current && newest && message.serial > newest.serial) {
+        liveBufferRef.current.push(message);
+        const limit = Math.max(maxStoredMessages ?? 0, windowSize + overscan * 2);
+        if (liveBufferRef.current.length > limit) {
+          liveBufferRef.current = [];
+          liveBufferOverflowedRef.current = true;
+        }
+        return;
+      }
+
+      // Older than anything held while older history exists; it will be fetched if needed
+      if (nextPageRef.current && oldest && message.serial < oldest.serial) return;
+
+      updateMessages([message]);
+    },
+    [updateMessages, maxStoredMessages, windowSize, overscan]
   );
 
+  /**
+   * Drops cached messages that cannot be joined up with the given history page.
+   * If the page is older-bounded (has more history) and none of its messages overlap
+   * the cache, keeping the cached messages would leave a silent gap in the timeline.
+   *
+   * @param page - The most recent history page
+   */
+  const dropDisconnectedCachedMessages = useCallback((page: PaginatedResult<Message>) => {
+    if (hydratedSerialsRef.current.size === 0 || !page.hasNext() || page.items.length === 0) {
+      return;
+    }
+
+    let oldestPageSerial = page.items[0]?.serial ?? '';
+    for (const m of page.items) {
+      if (m.serial < oldestPageSerial) oldestPageSerial = m.serial;
+    }
+
+    setVersion((prevVersion) => {
+      const allMessages = allMessagesRef.current;
+      const newestCached = [...hydratedSerialsRef.current].sort().at(-1);
+      if (!newestCached || newestCached >= oldestPageSerial) return prevVersion;
+
+      const keepFrom = allMessages.findIndex((m) => m.serial >= oldestPageSerial);
+      const removed = keepFrom === -1 ? allMessages.length : keepFrom;
+      if (removed === 0) return prevVersion;
+
+      for (const m of allMessages.slice(0, removed)) {
+        serialSetRef.current.delete(m.serial);
+        hydratedSerialsRef.current.delete(m.serial);
+      }
+      allMessagesRef.current = allMessages.slice(removed);
+      setAnchorIdx((a) => (a === -1 ? a : Math.max(0, a - removed)));
+      return prevVersion + 1;
+    });
+  }, []);
+
   /**
    * Common history loading logic shared between initial load and discontinuity handling
    */
@@ -332,6 +672,8 @@ export const useMessageWindow = ({
     async (limit: number, cancelledRef?: { current: boolean }) => {
       if (!historyBeforeSubscribe) return;
 
+      // A room change replaces the deferred, so only settle the one for this load's room
+      const initialHistory = initialHistoryRef.current;
       setLoading(true);
 
       try {
@@ -341,6 +683,7 @@ export const useMessageWindow = ({
           return;
         }
         updateMessages(page.items, true);
+        dropDisconnectedCachedMessages(page);
         nextPageRef.current = page.hasNext() ? () => page.next() : undefined;
         setHasMoreHistory(page.hasNext());
       } catch (error: unknown) {
@@ -352,16 +695,156 @@ export const useMessageWindow = ({
         if (!cancelledRef?.current) {
           setLoading(false);
         }
+        initialHistory.resolve();
       }
     },
-    [historyBeforeSubscribe, updateMessages]
+    [historyBeforeSubscribe, updateMessages, dropDisconnectedCachedMessages]
   );
 
+  /** Latest updateMessages, so pages fetched during a jump or recovery use the current anchor */
+  const updateMessagesRef = useRef(updateMessages);
+  useEffect(() => {
+    updateMessagesRef.current = updateMessages;
+  }, [updateMessages]);
+
+  /**
+   * Re-fetches held messages so that edits, deletions and reactions missed during a
+   * discontinuity are applied. The server's copies replace the held ones outright.
+   *
+   * @param messages - Held messages, oldest first
+   * @param isStale - Returns true once the refresh should be abandoned
+   */
+  const refreshHeldMessages = useCallback(
+    async (messages: Message[], isStale: () => boolean) => {
+      const first = messages[0];
+      const last = messages.at(-1);
+      if (!first || !last) return;
+
+      const marked = messages
+        .map((m) => m.serial)
+        .filter((serial) => !hydratedSerialsRef.current.has(serial));
+      for (const serial of marked) hydratedSerialsRef.current.add(serial);
+
+      try {
+        // `end` is exclusive, so nudge it to include the newest message
+        let page = await history({
+          start: first.timestamp.getTime(),
+          end: last.timestamp.getTime() + 1,
+          orderBy: OrderBy.OldestFirst,
+          limit: historyBatchSize,
+        });
+        for (let pages = 1; ; pages++) {
+          if (isStale()) return;
+          updateMessagesRef.current(page.items);
+          if (!page.hasNext() || pages >= DISCONTINUITY_MAX_PAGES) return;
+          const next = await page.next();
+          if (!next) return;
+          page = next;
+        }
+      } finally {
+        // Queued behind the fetched copies, so only marks they didn't consume are cleared
+        setVersion((prevVersion) => {
+          for (const serial of marked) hydratedSerialsRef.current.delete(serial);
+          return prevVersion;
+        });
+      }
+    },
+    [history, historyBatchSize]
+  );
+
+  /**
+   * Recovers from a discontinuity by fetching only the messages missed since the newest one held,
+   * keeping the anchor and older history, then refreshing the messages in the window. Falls back
+   * to a full reload when the gap cannot be bridged within {@link DISCONTINUITY_MAX_PAGES} pages,
+   * or when recovery fails.
+   */
   const handleDiscontinuity = useCallback(() => {
-    // Set message version back to zero, this will clear message states and trigger a full reload
-    setVersion(0);
-    void loadHistoryAndUpdateState(historyBatchSize);
-  }, [loadHistoryAndUpdateState, historyBatchSize]);
+    const recoveryId = ++recoveryIdRef.current;
+    const isStale = () => recoveryIdRef.current !== recoveryId;
+
+    const clearMessages = () => {
+      allMessagesRef.current = [];
+      serialSetRef.current = new Set();
+      hydratedSerialsRef.current = new Set();
+      jumpIdRef.current += 1;
+      pendingJumpSerialRef.current = undefined;
+      resetNewerEviction();
+      setAnchorIdx(-1);
+      setVersion((prevVersion) => prevVersion + 1);
+    };
+
+    const reloadLatest = () => {
+      clearMessages();
+      void loadHistoryAndUpdateState(historyBatchSize);
+    };
+
+    const newest = allMessagesRef.current.at(-1);
+    if (!newest || !historyBeforeSubscribe) {
+      reloadLatest();
+      return;
+    }
+    const shown = activeMessagesRef.current;
+
+    /** Fetches the messages missed since the newest held, returning false if they were replaced */
+    const fillGap = async (): Promise<boolean> => {
+      // Newer messages were evicted, so the held messages end before the gap and there is nothing
+      // to bridge here. They are re-fetched on returning to the latest, and live events may have
+      // been missed, so make that re-fetch query history instead of trusting the buffer.
+      if (newerEvictedRef.current) {
+        liveBufferRef.current = [];
+        liveBufferOverflowedRef.current = true;
+        return true;
+      }
+
+      const missed: Message[] = [];
+      let page = await historyBeforeSubscribe({ limit: historyBatchSize });
+      for (let pages = 1; ; pages++) {
+        if (isStale()) return true;
+        missed.push(...page.items);
+
+        // Reached a message we already hold, so the gap is closed
+        if (page.items.some((m) => m.serial <= newest.serial)) {
+          updateMessagesRef.current(missed);
+          return true;
+        }
+
+        if (!page.hasNext() || pages >= DISCONTINUITY_MAX_PAGES) break;
+        const next = await page.next();
+        if (isStale()) return true;
+        if (!next) break;
+        page = next;
+      }
+
+      // The gap cannot be bridged, so replace everything with the latest messages fetched
+      const lastPage = page;
+      clearMessages();
+      updateMessagesRef.current(missed, true);
+      nextPageRef.current = lastPage.hasNext() ? () => lastPage.next() : undefined;
+      setHasMoreHistory(lastPage.hasNext());
+      return false;
+    };
+
+    const recover = async () => {
+      const bridged = await fillGap();
+      if (bridged && !isStale()) await refreshHeldMessages(shown, isStale);
+    };
+
+    setLoading(true);
+    recover()
+      .then(() => {
+        if (!isStale()) setLoading(false);
+      })
+      .catch((error: unknown) => {
+        console.error('Discontinuity recovery failed', error);
+        if (!isStale()) reloadLatest();
+      });
+  }, [
+    historyBeforeSubscribe,
+    historyBatchSize,
+    loadHistoryAndUpdateState,
+    refreshHeldMessages,
+    resetNewerEviction,
+  ]);
 
   /* Reset initial load state when historyBeforeSubscribe changes */
   useEffect(() => {
@@ -386,26 +869,189 @@ export const useMessageWindow = ({
     };
   }, [historyBeforeSubscribe, overscan, windowSize, loadHistoryAndUpdateState]);
 
+  /**
+   * Fetches the next page of history and records where to continue from.
+   *
+   * @param beforeApply - Called with the page before its messages are applied
+   * @returns The page, or undefined if there is no more history
+   */
+  const fetchNextPage = useCallback(
+    async (
+      beforeApply?: (page: PaginatedResult<Message>) => void
+    ): Promise<PaginatedResult<Message> | undefined> => {
+      if (!nextPageRef.current) return;
+      const page = await nextPageRef.current();
+      if (!page) {
+        nextPageRef.current = undefined;
+        setHasMoreHistory(false);
+        return;
+      }
+      beforeApply?.(page);
+      updateMessagesRef.current(page.items, true);
+      nextPageRef.current = page.hasNext() ? () => page.next() : undefined;
+      setHasMoreHistory(page.hasNext());
+      return page;
+    },
+    []
+  );
+
   /* Load more history on demand */
   const loadMoreHistory = useCallback(async () => {
     if (loading || !hasMoreHistory || !nextPageRef.current) return;
     setLoading(true);
     try {
-      const page = await nextPageRef.current();
+      await fetchNextPage();
+    } catch (error) {
+      console.error('History load failed', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [loading, hasMoreHistory, fetchNextPage]);
+
+  /**
+   * Fetches the next page of messages that were evicted from the newer end of the store.
+   * Once the gap is closed, buffered live messages are applied and live updates resume.
+   *
+   * @param beforeApply - Called with the page before its messages are applied
+   * @returns The page, or undefined if there was nothing to fetch
+   */
+  const fetchNewerPage = useCallback(
+    async (
+      beforeApply?: (page: PaginatedResult<Message>) => void
+    ): Promise<PaginatedResult<Message> | undefined> => {
+      const newest = allMessagesRef.current.at(-1);
+      if (!newerEvictedRef.current || !newest) return;
+      const epoch = newerEpochRef.current;
+
+      if (!newerPageRef.current) {
+        // A fresh query may miss live messages from before this point, so start buffering anew
+        liveBufferOverflowedRef.current = false;
+      }
+      const page = newerPageRef.current
+        ? await newerPageRef.current()
+        : await history({
+            start: newest.timestamp.getTime(),
+            orderBy: OrderBy.OldestFirst,
+            limit: historyBatchSize,
+          });
+      if (epoch !== newerEpochRef.current) return;
+
       if (page) {
-        updateMessages(page.items, true);
-        nextPageRef.current = page.hasNext() ? () => page.next() : undefined;
-        setHasMoreHistory(page.hasNext());
-      } else {
-        nextPageRef.current = undefined;
-        setHasMoreHistory(false);
+        beforeApply?.(page);
+        updateMessagesRef.current(page.items);
+      }
+      if (page?.hasNext()) {
+        newerPageRef.current = () => page.next();
+        return page;
+      }
+
+      newerPageRef.current = undefined;
+      if (liveBufferOverflowedRef.current) {
+        // Live messages were dropped while fetching, so query again from the newest held
+        liveBufferOverflowedRef.current = false;
+        return page ?? undefined;
       }
+      const buffered = liveBufferRef.current;
+      resetNewerEviction();
+      updateMessagesRef.current(buffered);
+      return page ?? undefined;
+    },
+    [history, historyBatchSize, resetNewerEviction]
+  );
+
+  /** Re-fetch evicted newer messages while keeping the window where it is */
+  const loadNewerMessages = useCallback(async () => {
+    if (loadingNewerRef.current || !newerEvictedRef.current) return;
+    loadingNewerRef.current = true;
+    setLoading(true);
+    try {
+      await fetchNewerPage(() => {
+        // Stop following the tail, so the window doesn't skip over the fetched messages
+        const lastIdx = allMessagesRef.current.length - 1;
+        setAnchorIdx((a) => (a === -1 ? lastIdx : a));
+      });
     } catch (error) {
       console.error('History load failed', error);
     } finally {
+      loadingNewerRef.current = false;
       setLoading(false);
     }
-  }, [loading, hasMoreHistory, updateMessages]);
+  }, [fetchNewerPage]);
+
+  /* Returning to the latest messages re-fetches any that were evicted */
+  useEffect(() => {
+    if (anchorIdx === -1 && hasNewerMessages) void loadNewerMessages();
+  }, [anchorIdx, hasNewerMessages, version, loadNewerMessages]);
+
+  /* Evict the messages furthest from the anchor once the store grows beyond its limit */
+  useEffect(() => {
+    if (maxStoredMessages === undefined) return;
+    const limit = Math.max(maxStoredMessages, windowSize + overscan * 2);
+    const allMessages = allMessagesRef.current;
+    if (allMessages.length <= limit) return;
+
+    const keep = Math.max(windowSize + overscan * 2, Math.floor(limit * EVICTION_TARGET_RATIO));
+    const anchor = anchorIdx === -1 ? allMessages.length - 1 : anchorIdx;
+    // When following the latest messages, only the oldest are evicted
+    const end =
+      anchorIdx === -1
+        ? allMessages.length
+        : Math.min(allMessages.length, Math.max(anchor + Math.ceil(keep / 2), keep));
+    const start = Math.max(0, end - keep);
+
+    const oldestKept = allMessages[start];
+    const newestKept = allMessages[end - 1];
+    if (!oldestKept || !newestKept) return;
+    for (const m of [...allMessages.slice(0, start), ...allMessages.slice(end)]) {
+      serialSetRef.current.delete(m.serial);
+      hydratedSerialsRef.current.delete(m.serial);
+    }
+
+    if (end < allMessages.length) {
+      newerEvictedRef.current = true;
+      newerPageRef.current = undefined;
+      setHasNewerMessages(true);
+    }
+    if (start > 0) {
+      // `end` is exclusive, so nudge it to include messages sharing the boundary timestamp
+      nextPageRef.current = () =>
+        history({
+          end: oldestKept.timestamp.getTime() + 1,
+          orderBy: OrderBy.NewestFirst,
+          limit: historyBatchSize,
+        });
+      setHasMoreHistory(true);
+      setAnchorIdx((a) => (a === -1 ? a : Math.max(0, a - start)));
+    }
+
+    // Threads go with their parent; replies to evicted parents are kept while within the held range
+    const isHeld = (serial: string) => serial >= oldestKept.serial && serial <= newestKept.serial;
+    setThreadReplies((prev) => {
+      let next: Map<string, Message[]> | undefined;
+      for (const [parentSerial, replies] of prev) {
+        if (isHeld(parentSerial)) continue;
+        const kept = replies.filter((r) => isHeld(r.serial));
+        if (kept.length === replies.length) continue;
+        next ??= new Map(prev);
+        if (kept.length > 0) next.set(parentSerial, kept);
+        else next.delete(parentSerial);
+      }
+      return next ?? prev;
+    });
+
+    setEditHistory((prev) => {
+      let next: Map<string, Message[]> | undefined;
+      for (const serial of prev.keys()) {
+        if (serialSetRef.current.has(serial)) continue;
+        next ??= new Map(prev);
+        next.delete(serial);
+      }
+      return next ?? prev;
+    });
+
+    allMessagesRef.current = allMessages.slice(start, end);
+    setVersion((prevVersion) => prevVersion + 1);
+  }, [version, anchorIdx, maxStoredMessages, windowSize, overscan, history, historyBatchSize]);
 
   const computeWindow = useCallback(
     (arr: Message[], anchor: number): Message[] => {
@@ -423,9 +1069,51 @@ export const useMessageWindow = ({
 
   // Effects depend on version instead of allMessages
   useEffect(() => {
-    setActiveMessages(computeWindow(allMessagesRef.current, anchorIdx));
+    const active = computeWindow(allMessagesRef.current, anchorIdx);
+    activeMessagesRef.current = active;
+    setActiveMessages(active);
   }, [version, anchorIdx, computeWindow]);
 
+  /* Centre on a message fetched by a jump once its page has been applied */
+  useEffect(() => {
+    const serial = pendingJumpSerialRef.current;
+    if (!serial) return;
+    const idx = findMessageIndex(allMessagesRef.current, serial);
+    if (idx === -1) return;
+    pendingJumpSerialRef.current = undefined;
+    setAnchorIdx(idx);
+  }, [version, findMessageIndex]);
+
+  /* Write loaded messages to the cache once updates settle */
+  useEffect(() => {
+    if (!cache || version === 0) return;
+
+    pendingCacheSaveRef.current = true;
+    const timer = setTimeout(() => {
+      pendingCacheSaveRef.current = false;
+      if (allMessagesRef.current.length === 0) return;
+      cache.save(roomName, allMessagesRef.current).catch((error: unknown) => {
+        console.error('Message cache save failed', error);
+      });
+    }, CACHE_SAVE_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+    };
+  }, [cache, roomName, version]);
+
+  /* Flush any pending cache write before switching rooms or unmounting */
+  useEffect(() => {
+    return () => {
+      if (!cache || !pendingCacheSaveRef.current) return;
+      pendingCacheSaveRef.current = false;
+      if (allMessagesRef.current.length === 0) return;
+      cache.save(roomName, allMessagesRef.current).catch((error: unknown) => {
+        console.error('Message cache save failed', error);
+      });
+    };
+  }, [cache, roomName]);
+
   const showLatestMessages = useCallback(() => {
     setAnchorIdx(-1);
   }, []);
@@ -450,14 +1138,112 @@ export const useMessageWindow = ({
     [findMessageIndex]
   );
 
+  /** Latest thread replies, so a jump can look up replies without restarting */
+  const threadRepliesRef = useRef(threadReplies);
+  useEffect(() => {
+    threadRepliesRef.current = threadReplies;
+  }, [threadReplies]);
+
+  const jumpToMessage = useCallback(
+    async (
+      serial: string,
+      { maxPages = DEFAULT_JUMP_MAX_PAGES, signal }: JumpToMessageOptions = {}
+    ): Promise<JumpToMessageResult> => {
+      jumpIdRef.current += 1;
+      const jumpId = jumpIdRef.current;
+      pendingJumpSerialRef.current = undefined;
+      const isCancelled = () => signal?.aborted === true || jumpIdRef.current !== jumpId;
+
+      await initialHistoryRef.current.promise;
+      if (isCancelled()) return { status: 'cancelled' };
+
+      if (serialSetRef.current.has(serial)) {
+        setAnchorIdx(findMessageIndex(allMessagesRef.current, serial));
+        return { status: 'found' };
+      }
+      for (const [threadParentSerial, replies] of threadRepliesRef.current) {
+        if (replies.some((m) => m.serial === serial))
+          return { status: 'in-thread', threadParentSerial };
+      }
+
+      // Search forwards through evicted newer messages, or backwards through older history.
+      // Anything else between our oldest and newest messages would already be held, unless it
+      // is a reply to a thread we haven't seen, so look it up directly.
+      const oldest = allMessagesRef.current[0];
+      const newest = allMessagesRef.current.at(-1);
+      const forwards = newerEvictedRef.current && !!newest && serial > newest.serial;
+      if (!forwards && oldest && serial > oldest.serial) {
+        setLoading(true);
+        try {
+          const message = await getMessage(serial);
+          if (isCancelled()) return { status: 'cancelled' };
+          const threadParentSerial = getThreadParentSerial(message);
+          if (!threadParentSerial) return { status: 'not-found' };
+          updateThreadReplies([message]);
+          return { status: 'in-thread', threadParentSerial };
+        } catch (error) {
+          if (isCancelled()) return { status: 'cancelled' };
+          if ((error as { statusCode?: number } | undefined)?.statusCode === 404) {
+            return { status: 'not-found' };
+          }
+          console.error('Message lookup failed', error);
+          return { status: 'error', error };
+        } finally {
+          if (jumpIdRef.current === jumpId) setLoading(false);
+        }
+      }
+
+      const hasMorePages = () => (forwards ? newerEvictedRef.current : !!nextPageRef.current);
+      const findTarget = (fetched: PaginatedResult<Message>) =>
+        fetched.items.find((m) => m.serial === serial);
+      const markIfFound = (fetched: PaginatedResult<Message>) => {
+        const target = findTarget(fetched);
+        if (!isCancelled() && target && !getThreadParentSerial(target)) {
+          pendingJumpSerialRef.current = serial;
+        }
+      };
+
+      setLoading(true);
+      try {
+        for (let pages = 0; pages < maxPages && hasMorePages(); pages++) {
+          const page = await (forwards ? fetchNewerPage(markIfFound) : fetchNextPage(markIfFound));
+          if (isCancelled()) return { status: 'cancelled' };
+          if (!page) return { status: 'not-found' };
+          const target = findTarget(page);
+          if (target) {
+            const threadParentSerial = getThreadParentSerial(target);
+            return threadParentSerial
+              ? { status: 'in-thread', threadParentSerial }
+              : { status: 'found' };
+          }
+          // Once we've paged past the serial, the message no longer exists
+          if (page.items.some((m) => (forwards ? m.serial > serial : m.serial < serial))) {
+            return { status: 'not-found' };
+          }
+        }
+        return hasMorePages() ? { status: 'page-limit' } : { status: 'not-found' };
+      } catch (error) {
+        console.error('History load failed', error);
+        return isCancelled() ? { status: 'cancelled' } : { status: 'error', error };
+      } finally {
+        if (jumpIdRef.current === jumpId) setLoading(false);
+      }
+    },
+    [fetchNextPage, fetchNewerPage, findMessageIndex, getMessage, updateThreadReplies]
+  );
+
   return {
     activeMessages,
     updateMessages,
     showLatestMessages,
     scrollBy,
     showMessagesAroundSerial,
+    jumpToMessage,
     loading,
     hasMoreHistory,
     loadMoreHistory,
+    hasNewerMessages,
+    threadReplies,
+    editHistory,
   };
 };
@@ -0,0 +1,200 @@
+import { ConnectionStatus, ErrorInfo, Message, MessageHeaders, MessageMetadata } from '@ably/chat';
+import { useChatConnection, useMessages } from '@ably/chat/react';
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+
+import { defaultOutboxStore, OutboxMessage, OutboxStore } from '../utils/outbox.ts';
+
+/** Generic error code used when a send fails with something other than an `ErrorInfo` */
+const UNKNOWN_SEND_ERROR_CODE = 50000;
+
+const isErrorInfo = (error: unknown): error is ErrorInfo =>
+  error instanceof Error &&
+  typeof (error as Partial<ErrorInfo>).code === 'number' &&
+  typeof (error as Partial<ErrorInfo>).statusCode === 'number';
+
+/**
+ * Returns the error a send failed with as an `ErrorInfo`, wrapping anything else, e.g. an
+ * error thrown by a mocked or wrapped `sendMessage`.
+ */
+const toErrorInfo = (error: unknown): ErrorInfo => {
+  if (isErrorInfo(error)) return error;
+  const cause = error instanceof Error ? error : String(error);
+  return Object.assign(new Error(error instanceof Error ? error.message : String(error)), {
+    code: UNKNOWN_SEND_ERROR_CODE,
+    statusCode: 500,
+    cause,
+  });
+};
+
+/** Props for the useOutbox hook */
+export interface UseOutboxProps {
+  /** The room messages are sent to */
+  roomName: string;
+
+  /**
+   * Store holding unsent messages. Only one mounted `useOutbox` should drive each room.
+   * @defaultValue the shared default store, persisted to localStorage
+   */
+  store?: OutboxStore;
+
+  /**
+   * Called with the server's message once a send succeeds. The outbox entry is removed at
+   * the same time, so the message should be added to the list in this callback.
+   * @param message - The message as stored by the server
+   */
+  onSent?: (message: Message) => void;
+
+  /**
+   * Called when a send fails while connected. The message stays in the outbox with a
+   * `failed` status. Sends interrupted by a connection drop are queued again instead.
+   * @param error - The error that occurred
+   * @param text - Text of the message that failed to send
+   */
+  onSendError?: (error: ErrorInfo, text: string) => void;
+}
+
+/** Return type for the useOutbox hook */
+export interface UseOutboxReturn {
+  /** The room's unsent messages, oldest first */
+  pendingMessages: OutboxMessage[];
+  /**
+   * Adds a message to the outbox. It is sent straight away when connected, otherwise
+   * once the connection is restored.
+   * @param text - Text of the message to send
+   * @param metadata - Metadata to send with the message, if any
+   * @param headers - Headers to send with the message, if any
+   */
+  send: (text: string, metadata?: MessageMetadata, headers?: MessageHeaders) => void;
+  /**
+   * Queues a failed message to be sent again.
+   * @param id - Outbox ID of the message
+   */
+  retry: (id: string) => void;
+  /**
+   * Removes a queued or failed message from the outbox without sending it.
+   * @param id - Outbox ID of the message
+   */
+  discard: (id: string) => void;
+}
+
+/**
+ * Hook providing optimistic, offline-tolerant message sending.
+ *
+ * Messages are shown as pending as soon as they are submitted and sent one at a time, in
+ * order, whenever the connection is available. While disconnected they wait in an
+ * {@link OutboxStore}, which persists them across reloads. Failed sends stay in the outbox,
+ * holding back the messages after them, until the user retries or discards them. Successful
+ * sends are handed to `onSent` so the pending entry can be replaced by the real message,
+ * which is matched to live events by its serial.
+ *
+ * - Must be used within a `ChatRoomProvider` component.
+ *
+ * @example
+ * ```tsx
+ * const { pendingMessages, send, retry, discard } = useOutbox({
+ *   roomName: 'general',
+ *   onSent: (message) => updateMessages([message]),
+ * });
+ * ```
+ *
+ * @param props - The room, optional store and callbacks for send results
+ * @returns Pending messages and functions to send, retry and discard them
+ *
+ * @public
+ */
+export const useOutbox = ({
+  roomName,
+  store = defaultOutboxStore,
+  onSent,
+  onSendError,
+}: UseOutboxProps): UseOutboxReturn => {
+  const { sendMessage } = useMessages();
+  const { currentStatus } = useChatConnection();
+  // eslint-disable-next-line @typescript-eslint/no-unsafe-enum-comparison
+  const isConnected = currentStatus === ConnectionStatus.Connected;
+  const isConnectedRef = useRef(isConnected);
+  isConnectedRef.current = isConnected;
+  const flushingRef = useRef(false);
+
+  // Read through a function, as the connection can drop while a send is awaited
+  const checkConnected = useCallback(() => isConnectedRef.current, []);
+
+  const subscribe = useCallback((listener: () => void) => store.subscribe(listener), [store]);
+  const getSnapshot = useCallback(() => store.getMessages(roomName), [store, roomName]);
+  const pendingMessages = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+  /**
+   * Sends queued messages one at a time, until the queue is empty, the connection drops or a
+   * message fails. Messages behind a failed one wait for it to be retried or discarded, so the
+   * room receives them in the order they were written.
+   */
+  const flush = useCallback(async () => {
+    if (flushingRef.current) return;
+    flushingRef.current = true;
+
+    const nextQueued = () => {
+      const [oldest] = store.getMessages(roomName);
+      return oldest?.status === 'queued' ? oldest : undefined;
+    };
+
+    try {
+      let next = nextQueued();
+      while (next && checkConnected()) {
+        const { id, text, metadata, headers } = next;
+        store.setStatus(roomName, id, 'sending');
+        try {
+          const sent = await sendMessage({ text, metadata, headers });
+          store.remove(roomName, id);
+          onSent?.(sent);
+        } catch (error: unknown) {
+          if (!checkConnected()) {
+            store.setStatus(roomName, id, 'queued');
+            break;
+          }
+          const errorInfo = toErrorInfo(error);
+          store.setStatus(roomName, id, 'failed', errorInfo);
+          if (onSendError) {
+            onSendError(errorInfo, text);
+          } else {
+            console.error('Failed to send message:', error);
+          }
+        }
+        next = nextQueued();
+      }
+    } finally {
+      flushingRef.current = false;
+    }
+  }, [store, roomName, sendMessage, onSent, onSendError, checkConnected]);
+
+  // Flush whenever there is something queued and the connection is available
+  useEffect(() => {
+    if (isConnected && pendingMessages.some((m) => m.status === 'queued')) {
+      void flush();
+    }
+  }, [isConnected, pendingMessages, flush]);
+
+  const send = useCallback(
+    (text: string, metadata?: MessageMetadata, headers?: MessageHeaders) => {
+      store.enqueue(roomName, text, metadata, headers);
+    },
+    [store, roomName]
+  );
+
+  const retry = useCallback(
+    (id: string) => {
+      if (store.getMessages(roomName).find((m) => m.id === id)?.status !== 'failed') return;
+      store.setStatus(roomName, id, 'queued');
+    },
+    [store, roomName]
+  );
+
+  const discard = useCallback(
+    (id: string) => {
+      if (store.getMessages(roomName).find((m) => m.id === id)?.status === 'sending') return;
+      store.remove(roomName, id);
+    },
+    [store, roomName]
+  );
+
+  return { pendingMessages, send, retry, discard };
+};
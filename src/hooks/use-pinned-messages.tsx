@@ -0,0 +1,76 @@
+import { Message } from '@ably/chat';
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+
+import { createPinnedMessage, defaultPinStore, PinnedMessage, PinStore } from '../utils/pins.ts';
+
+/**
+ * Props for the usePinnedMessages hook
+ */
+export interface UsePinnedMessagesProps {
+  /** The room whose pins to observe */
+  roomName: string;
+  /**
+   * Store holding pins. Must be the same instance given to the room's `ChatWindow`.
+   * @defaultValue the shared default store
+   */
+  store?: PinStore;
+}
+
+/**
+ * Return type for the usePinnedMessages hook
+ */
+export interface UsePinnedMessagesReturn {
+  /** The room's pinned messages, most recently pinned first */
+  pins: PinnedMessage[];
+  /** Serials of the room's pinned messages */
+  pinnedSerials: ReadonlySet<string>;
+  /**
+   * Pins a message.
+   * @param message - The message to pin
+   * @param pinnedBy - Client ID of the user pinning it
+   */
+  pin: (message: Message, pinnedBy?: string) => Promise<void>;
+  /**
+   * Unpins a message.
+   * @param serial - Serial of the message to unpin
+   */
+  unpin: (serial: string) => Promise<void>;
+}
+
+/**
+ * Hook to observe and update a room's pinned messages.
+ *
+ * Works anywhere in the tree, not just inside the room's `ChatRoomProvider`. Whether the
+ * current user may pin is up to the caller, typically via the `allowMessagePins` setting.
+ *
+ * @example
+ * ```tsx
+ * const { pins, pin, unpin } = usePinnedMessages({ roomName: 'general' });
+ * return <span>{pins.length} pinned</span>;
+ * ```
+ *
+ * @param props - The room and optional store
+ * @returns The room's pins and functions to pin and unpin messages
+ *
+ * @public
+ */
+export const usePinnedMessages = ({
+  roomName,
+  store = defaultPinStore,
+}: UsePinnedMessagesProps): UsePinnedMessagesReturn => {
+  const subscribe = useCallback((listener: () => void) => store.subscribe(listener), [store]);
+  const getSnapshot = useCallback(() => store.getPins(roomName), [store, roomName]);
+  const pins = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+  const pinnedSerials = useMemo(() => new Set(pins.map((pin) => pin.serial)), [pins]);
+
+  const pin = useCallback(
+    (message: Message, pinnedBy?: string) =>
+      store.pin(roomName, createPinnedMessage(message, pinnedBy)),
+    [store, roomName]
+  );
+
+  const unpin = useCallback((serial: string) => store.unpin(roomName, serial), [store, roomName]);
+
+  return { pins, pinnedSerials, pin, unpin };
+};
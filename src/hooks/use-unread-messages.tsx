@@ -0,0 +1,71 @@
+import { useCallback, useSyncExternalStore } from 'react';
+
+import { defaultReadMarkerStore, ReadMarkerStore } from '../utils/read-markers.ts';
+
+/**
+ * Props for the useUnreadMessages hook
+ */
+export interface UseUnreadMessagesProps {
+  /** The room to track read state for */
+  roomName: string;
+  /**
+   * Store holding read markers. Must be the same instance given to the room's `ChatWindow`.
+   * @defaultValue the shared default store
+   */
+  store?: ReadMarkerStore;
+}
+
+/**
+ * Return type for the useUnreadMessages hook
+ */
+export interface UseUnreadMessagesReturn {
+  /** Number of messages from other users seen since the read marker, loaded or not */
+  unreadCount: number;
+  /** Serial of the newest message the user has read, if any */
+  lastReadSerial?: string;
+  /**
+   * Advances the read marker. Markers never move backwards.
+   * @param serial - The newest read serial. Defaults to the newest known message in the room.
+   */
+  markAsRead: (serial?: string) => void;
+}
+
+/**
+ * Hook to observe and update a room's read state.
+ *
+ * Works anywhere in the tree, not just inside the room's `ChatRoomProvider`, so it can
+ * drive unread badges in room lists. Counts are kept up to date while a `ChatWindow`
+ * for the room is mounted.
+ *
+ * @example
+ * ```tsx
+ * const { unreadCount, markAsRead } = useUnreadMessages({ roomName: 'general' });
+ * return unreadCount > 0 && <button onClick={() => markAsRead()}>{unreadCount} new</button>;
+ * ```
+ *
+ * @param props - The room and optional store
+ * @returns The room's unread count, read marker and a function to advance it
+ *
+ * @public
+ */
+export const useUnreadMessages = ({
+  roomName,
+  store = defaultReadMarkerStore,
+}: UseUnreadMessagesProps): UseUnreadMessagesReturn => {
+  const subscribe = useCallback((listener: () => void) => store.subscribe(listener), [store]);
+  const getSnapshot = useCallback(() => store.getPosition(roomName), [store, roomName]);
+  const position = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+  const markAsRead = useCallback(
+    (serial?: string) => {
+      store.markAsRead(roomName, serial);
+    },
+    [store, roomName]
+  );
+
+  return {
+    unreadCount: position.unreadCount,
+    lastReadSerial: position.lastReadSerial,
+    markAsRead,
+  };
+};
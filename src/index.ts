@@ -8,4 +8,5 @@ export * from './components/molecules/index.js';
 export * from './context/index.js';
 export * from './hooks/index.js';
 export * from './providers/index.js';
+export * from './utils/index.js';
 import './style.css';
@@ -1,3 +1,4 @@
+import { MessageReactionType } from '@ably/chat';
 import React, { ReactNode } from 'react';
 
 import {
@@ -12,6 +13,9 @@ export const DEFAULT_SETTINGS: ChatSettings = {
   allowMessageDeletesOwn: true,
   allowMessageDeletesAny: false,
   allowMessageReactions: true,
+  messageReactionType: MessageReactionType.Distinct,
+  allowMessagePins: false,
+  enableMarkdown: false,
 };
 
 /**
@@ -49,7 +53,10 @@ export interface ChatSettingsProviderProps {
  *   allowMessageUpdatesAny: false,
  *   allowMessageDeletesOwn: true,
  *   allowMessageDeletesAny: false,
- *   allowMessageReactions: true
+ *   allowMessageReactions: true,
+ *   messageReactionType: MessageReactionType.Distinct,
+ *   allowMessagePins: false,
+ *   enableMarkdown: false
  * };
  *
  * const roomSettings = {
@@ -57,11 +64,18 @@ export interface ChatSettingsProviderProps {
  *     allowMessageUpdatesOwn: true,
  *     allowMessageUpdatesAny: true // Allow user to update any message in general room
  *   },
+ *   'engineering': {
+ *     enableMarkdown: true // Render code snippets and lists in the engineering room
+ *   },
+ *   'polls': {
+ *     messageReactionType: MessageReactionType.Unique // One vote per user in the polls room
+ *   },
  *   'announcements': {
  *     allowMessageUpdatesOwn: false,
  *     allowMessageUpdatesAny: false,
  *     allowMessageDeletesOwn: false,
- *     allowMessageDeletesAny: true // Allow user to delete any messages in announcements
+ *     allowMessageDeletesAny: true, // Allow user to delete any messages in announcements
+ *     allowMessagePins: true // Allow user to pin the rules and key updates in announcements
  *   }
  * };
  *
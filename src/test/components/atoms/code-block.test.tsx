@@ -0,0 +1,65 @@
+import '@testing-library/jest-dom';
+
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import React from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { CodeBlock } from '../../../components/atoms/code-block.tsx';
+
+describe('CodeBlock Component', () => {
+  const writeText = vi.fn<(text: string) => Promise<void>>();
+
+  beforeEach(() => {
+    writeText.mockReset().mockResolvedValue();
+    Object.defineProperty(navigator, 'clipboard', { value: { writeText }, configurable: true });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('renders highlighted code in a scrollable block labelled with its language', () => {
+    const { container } = render(<CodeBlock language="ts" code={'const a = "x";'} />);
+
+    const pre = container.querySelector('pre');
+    expect(pre).toHaveClass('overflow-x-auto', 'font-mono');
+    expect(pre).toHaveTextContent('const a = "x";');
+    expect(screen.getByText('const')).toHaveClass('text-purple-700', 'dark:text-purple-300');
+    expect(screen.getByText('"x"')).toHaveClass('text-green-700');
+    expect(screen.getByText('ts')).toBeInTheDocument();
+  });
+
+  it('copies the code to the clipboard and briefly confirms it', async () => {
+    vi.useFakeTimers();
+    render(<CodeBlock code={'npm install\nnpm test'} />);
+
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: 'Copy code' }));
+      await Promise.resolve();
+    });
+
+    expect(writeText).toHaveBeenCalledWith('npm install\nnpm test');
+    expect(screen.getByRole('button', { name: 'Code copied' })).toHaveTextContent('Copied');
+
+    act(() => {
+      vi.advanceTimersByTime(2000);
+    });
+
+    expect(screen.getByRole('button', { name: 'Copy code' })).toBeInTheDocument();
+  });
+
+  it('logs an error when the clipboard is unavailable', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    writeText.mockRejectedValue(new Error('denied'));
+    render(<CodeBlock code="x" />);
+
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: 'Copy code' }));
+      await Promise.resolve();
+    });
+
+    expect(consoleError).toHaveBeenCalledWith('Failed to copy code:', expect.any(Error));
+    expect(screen.getByRole('button', { name: 'Copy code' })).toBeInTheDocument();
+    consoleError.mockRestore();
+  });
+});
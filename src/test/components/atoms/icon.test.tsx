@@ -71,6 +71,14 @@ describe('Icon Component', () => {
       'thumbsup',
       'edit',
       'delete',
+      'reply',
+      'thread',
+      'pin',
+      'paperclip',
+      'file',
+      'copy',
+      'check',
+      'history',
       'close',
       'chevronleft',
       'chevronright',
@@ -0,0 +1,30 @@
+import '@testing-library/jest-dom';
+
+import { render, screen } from '@testing-library/react';
+import React from 'react';
+import { describe, expect, it } from 'vitest';
+
+import { LinkifiedText } from '../../../components/atoms/linkified-text.tsx';
+
+describe('LinkifiedText Component', () => {
+  it('turns URLs into links that open safely in a new tab', () => {
+    render(<LinkifiedText text="Read https://ably.com/docs now" />);
+
+    const link = screen.getByRole('link', { name: 'https://ably.com/docs' });
+    expect(link).toHaveAttribute('href', 'https://ably.com/docs');
+    expect(link).toHaveAttribute('target', '_blank');
+    expect(link).toHaveAttribute('rel', 'noopener noreferrer');
+  });
+
+  it('leaves URLs outside the allow list as text', () => {
+    const { container } = render(
+      <LinkifiedText
+        text="https://ably.com and https://example.com"
+        linkPolicy={{ allowedDomains: ['ably.com'] }}
+      />
+    );
+
+    expect(screen.getAllByRole('link')).toHaveLength(1);
+    expect(container).toHaveTextContent('https://ably.com and https://example.com');
+  });
+});
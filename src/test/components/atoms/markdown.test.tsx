@@ -0,0 +1,50 @@
+import '@testing-library/jest-dom';
+
+import { render, screen } from '@testing-library/react';
+import React from 'react';
+import { describe, expect, it } from 'vitest';
+
+import { Markdown } from '../../../components/atoms/markdown.tsx';
+
+describe('Markdown Component', () => {
+  it('renders formatting as elements', () => {
+    const { container } = render(
+      <Markdown text={'**bold** and `code`\n\n- item\n\n```\nblock\n```'} />
+    );
+
+    expect(screen.getByText('bold').tagName).toBe('STRONG');
+    expect(screen.getByText('code').tagName).toBe('CODE');
+    expect(screen.getByRole('listitem')).toHaveTextContent('item');
+    expect(container.querySelector('pre')).toHaveTextContent('block');
+  });
+
+  it('opens links in a new tab without exposing the opener', () => {
+    render(<Markdown text="[docs](https://ably.com/docs)" />);
+
+    const link = screen.getByRole('link', { name: 'docs' });
+    expect(link).toHaveAttribute('href', 'https://ably.com/docs');
+    expect(link).toHaveAttribute('target', '_blank');
+    expect(link).toHaveAttribute('rel', 'noopener noreferrer');
+  });
+
+  it('links bare URLs and applies the link policy to Markdown links', () => {
+    render(
+      <Markdown
+        text="**See https://ably.com** or [this](https://bit.ly/x)"
+        linkPolicy={{ deniedDomains: ['bit.ly'] }}
+      />
+    );
+
+    expect(screen.getByRole('link', { name: 'https://ably.com' })).toBeInTheDocument();
+    expect(screen.queryByRole('link', { name: 'this' })).not.toBeInTheDocument();
+    expect(screen.getByText(/this/)).toBeInTheDocument();
+  });
+
+  it('never injects HTML from the source', () => {
+    const { container } = render(<Markdown text="<img src=x onerror=alert(1)> <b>hi</b>" />);
+
+    expect(container.querySelector('img')).toBeNull();
+    expect(container.querySelector('b')).toBeNull();
+    expect(container).toHaveTextContent('<img src=x onerror=alert(1)> <b>hi</b>');
+  });
+});
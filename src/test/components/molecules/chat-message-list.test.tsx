@@ -1,4 +1,4 @@
-import { fireEvent, render, screen } from '@testing-library/react';
+import { act, fireEvent, render, screen } from '@testing-library/react';
 import React from 'react';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
@@ -6,6 +6,7 @@ import { createMockMessage } from '../../../../.storybook/mocks/mock-ably-chat.t
 import { ChatMessageProps } from '../../../components/molecules/chat-message.tsx';
 import { ChatMessageList } from '../../../components/molecules/chat-message-list.tsx';
 import { TypingIndicatorsProps } from '../../../components/molecules/typing-indicators.tsx';
+import { MessageRenderer } from '../../../utils/message-renderers.ts';
 
 // Mock the ChatMessage component
 vi.mock('../../../components/molecules/chat-message', () => ({
@@ -15,8 +16,16 @@ vi.mock('../../../components/molecules/chat-message', () => ({
     onDelete,
     onReactionAdd,
     onReactionRemove,
+    isGrouped,
+    tabIndex,
   }: ChatMessageProps) => (
-    <div data-testid={`chat-message-${message.serial}`} data-message-id={message.serial}>
+    <div
+      role="article"
+      tabIndex={tabIndex}
+      data-testid={`chat-message-${message.serial}`}
+      data-message-id={message.serial}
+      data-grouped={isGrouped}
+    >
       <div data-testid="message-text">{message.text}</div>
       <div data-testid="message-client-id">{message.clientId}</div>
       {onEdit && (
@@ -139,6 +148,85 @@ describe('ChatMessageList', () => {
     expect(screen.getByText('No more messages')).toBeInTheDocument();
   });
 
+  it('shows a "New messages" divider above the first unread message', () => {
+    render(<ChatMessageList messages={mockMessages} lastReadSerial="msg1" />);
+
+    const divider = screen.getByRole('separator', { name: 'New messages' });
+    expect(divider.nextElementSibling).toContainElement(screen.getByTestId('chat-message-msg2'));
+  });
+
+  it('does not show a divider when everything is read or there is no read marker', () => {
+    const { rerender } = render(<ChatMessageList messages={mockMessages} lastReadSerial="msg3" />);
+    expect(screen.queryByRole('separator', { name: 'New messages' })).not.toBeInTheDocument();
+
+    rerender(<ChatMessageList messages={mockMessages} />);
+    expect(screen.queryByRole('separator', { name: 'New messages' })).not.toBeInTheDocument();
+  });
+
+  it('shows a separator above the first message of each day', () => {
+    const now = new Date();
+    const yesterday = new Date(now);
+    yesterday.setDate(now.getDate() - 1);
+    const lastYear = new Date(2023, 0, 2, 12);
+    render(
+      <ChatMessageList
+        messages={[
+          createMockMessage({ serial: 'd1', timestamp: lastYear }),
+          createMockMessage({ serial: 'd2', timestamp: yesterday }),
+          createMockMessage({ serial: 'd3', timestamp: yesterday }),
+          createMockMessage({ serial: 'd4', timestamp: now }),
+        ]}
+      />
+    );
+
+    const fullDate = lastYear.toLocaleDateString([], {
+      weekday: 'long',
+      month: 'long',
+      day: 'numeric',
+      year: 'numeric',
+    });
+    expect(screen.getAllByRole('separator').map((el) => el.getAttribute('aria-label'))).toEqual([
+      fullDate,
+      'Yesterday',
+      'Today',
+    ]);
+  });
+
+  it('groups consecutive messages from the same sender within the grouping interval', () => {
+    const start = new Date();
+    start.setHours(12, 0, 0, 0);
+    const at = (minutes: number) => new Date(start.getTime() + minutes * 60_000);
+    render(
+      <ChatMessageList
+        messages={[
+          createMockMessage({ serial: 'g1', clientId: 'user1', timestamp: at(0) }),
+          createMockMessage({ serial: 'g2', clientId: 'user1', timestamp: at(1) }),
+          createMockMessage({ serial: 'g3', clientId: 'user2', timestamp: at(2) }),
+          createMockMessage({ serial: 'g4', clientId: 'user2', timestamp: at(10) }),
+        ]}
+        groupingInterval={5 * 60_000}
+      />
+    );
+
+    expect(screen.getByTestId('chat-message-g1')).toHaveAttribute('data-grouped', 'false');
+    expect(screen.getByTestId('chat-message-g2')).toHaveAttribute('data-grouped', 'true');
+    expect(screen.getByTestId('chat-message-g3')).toHaveAttribute('data-grouped', 'false');
+    expect(screen.getByTestId('chat-message-g4')).toHaveAttribute('data-grouped', 'false');
+  });
+
+  it('scrolls to and highlights the highlighted message', () => {
+    const scrollIntoView = vi.fn();
+    Element.prototype.scrollIntoView = scrollIntoView;
+
+    render(<ChatMessageList messages={mockMessages} highlightedSerial="msg2" />);
+
+    const row = screen.getByTestId('chat-message-msg2').parentElement;
+    expect(row).toHaveClass('bg-yellow-100');
+    expect(scrollIntoView).toHaveBeenCalledTimes(1);
+    expect(scrollIntoView).toHaveBeenCalledWith({ block: 'center' });
+    expect(screen.getByTestId('chat-message-msg1').parentElement).not.toHaveClass('bg-yellow-100');
+  });
+
   it('renders typing indicators when enableTypingIndicators is true', () => {
     render(<ChatMessageList messages={mockMessages} enableTypingIndicators={true} />);
 
@@ -183,6 +271,88 @@ describe('ChatMessageList', () => {
     expect(mockOnReactionRemove).toHaveBeenCalledWith(mockMessages[0], '👍');
   });
 
+  it('renders messages matched by a custom renderer, falling back to ChatMessage', () => {
+    const messages = [
+      createMockMessage({ serial: 'msg1', text: 'Hello' }),
+      createMockMessage({
+        serial: 'msg2',
+        text: 'Order shipped',
+        headers: { type: 'order-update' },
+      }),
+    ];
+    const renderers: MessageRenderer[] = [
+      {
+        match: (message) => message.headers.type === 'order-update',
+        render: (message, { addReaction, renderDefault }) => (
+          <div data-testid="order-card">
+            {message.text}
+            <button
+              onClick={() => {
+                addReaction?.('📦');
+              }}
+            >
+              React
+            </button>
+            {renderDefault()}
+          </div>
+        ),
+      },
+    ];
+
+    render(
+      <ChatMessageList
+        messages={messages}
+        messageRenderers={renderers}
+        onReactionAdd={mockOnReactionAdd}
+      />
+    );
+
+    expect(screen.getByTestId('chat-message-msg1')).toBeInTheDocument();
+    const card = screen.getByTestId('order-card');
+    expect(card).toHaveTextContent('Order shipped');
+    expect(card).toContainElement(screen.getByTestId('chat-message-msg2'));
+
+    fireEvent.click(screen.getByRole('button', { name: 'React' }));
+    expect(mockOnReactionAdd).toHaveBeenCalledWith(messages[1], '📦');
+  });
+
+  it('uses the first matching renderer', () => {
+    const renderers: MessageRenderer[] = [
+      { match: () => false, render: () => <div>Never</div> },
+      { match: (message) => message.serial === 'msg1', render: () => <div>First</div> },
+      { match: () => true, render: () => <div>Second</div> },
+    ];
+
+    render(<ChatMessageList messages={mockMessages} messageRenderers={renderers} />);
+
+    expect(screen.getByText('First')).toBeInTheDocument();
+    expect(screen.getAllByText('Second')).toHaveLength(mockMessages.length - 1);
+    expect(screen.queryByText('Never')).not.toBeInTheDocument();
+  });
+
+  it('shows slash command responses after the messages until dismissed', () => {
+    const onDismissEphemeral = vi.fn();
+    render(
+      <ChatMessageList
+        messages={mockMessages}
+        ephemeralResponses={[
+          { id: 'r1', command: '/giphy zzz', text: 'No GIFs found', timestamp: new Date() },
+        ]}
+        onDismissEphemeral={onDismissEphemeral}
+      />
+    );
+
+    const response = screen.getByRole('article', { name: 'Response only visible to you' });
+    expect(response).toHaveTextContent('No GIFs found');
+    expect(
+      screen.getByTestId('chat-message-msg3').compareDocumentPosition(response) &
+        Node.DOCUMENT_POSITION_FOLLOWING
+    ).toBeTruthy();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Dismiss' }));
+    expect(onDismissEphemeral).toHaveBeenCalledWith('r1');
+  });
+
   it('calls onLoadMoreHistory when scrolled to top', () => {
     render(
       <ChatMessageList
@@ -206,47 +376,47 @@ describe('ChatMessageList', () => {
     expect(mockOnLoadMoreHistory).toHaveBeenCalled();
   });
 
-  it('calls onMessageInView when a message comes into view', () => {
-    render(<ChatMessageList messages={mockMessages} onMessageInView={mockOnMessageInView} />);
+  it('calls onMessageInView with the message at the viewport centre', () => {
+    render(
+      <ChatMessageList
+        messages={mockMessages}
+        onMessageInView={mockOnMessageInView}
+        estimatedRowHeight={100}
+      />
+    );
 
     const container = screen.getByRole('log');
-    const messageElement = screen.getByTestId('chat-message-msg1');
 
-    // Mock container dimensions - positioned so viewport center is at y=200
-    vi.spyOn(container, 'getBoundingClientRect').mockReturnValue({
-      top: 0,
-      height: 400,
-      bottom: 400,
-      left: 0,
-      right: 800,
-      width: 800,
-      x: 0,
-      y: 0,
-      toJSON: () => {},
-    });
+    // Viewport centre is at y=150, inside the second 100px row
+    Object.defineProperty(container, 'scrollTop', { value: 0, writable: true });
+    Object.defineProperty(container, 'scrollHeight', { value: 1000 });
+    Object.defineProperty(container, 'clientHeight', { value: 300 });
 
-    // Mock message element positioned near viewport center (y=200)
-    vi.spyOn(messageElement, 'getBoundingClientRect').mockReturnValue({
-      top: 180,
-      bottom: 220,
-      height: 40,
-      left: 0,
-      right: 800,
-      width: 800,
-      x: 0,
-      y: 0,
-      toJSON: () => {},
-    });
+    fireEvent.scroll(container);
 
-    // Mock that user is NOT at bottom (so onViewLatest won't be called instead)
-    Object.defineProperty(container, 'scrollTop', { value: 100, writable: true });
+    expect(mockOnMessageInView).toHaveBeenCalledWith('msg2');
+  });
+
+  it('calls onLastMessageInView with the newest fully visible message', () => {
+    const onLastMessageInView = vi.fn();
+    render(
+      <ChatMessageList
+        messages={mockMessages}
+        onLastMessageInView={onLastMessageInView}
+        estimatedRowHeight={100}
+      />
+    );
+
+    const container = screen.getByRole('log');
+
+    // The viewport ends at y=250, partway through the third 100px row
+    Object.defineProperty(container, 'scrollTop', { value: 0, writable: true });
     Object.defineProperty(container, 'scrollHeight', { value: 1000 });
-    Object.defineProperty(container, 'clientHeight', { value: 400 });
+    Object.defineProperty(container, 'clientHeight', { value: 250 });
 
-    // Trigger scroll to invoke reportMessageInView
     fireEvent.scroll(container);
 
-    expect(mockOnMessageInView).toHaveBeenCalledWith('msg1');
+    expect(onLastMessageInView).toHaveBeenCalledWith('msg2');
   });
 
   it('calls onViewLatest when user scrolls to bottom', () => {
@@ -329,4 +499,182 @@ describe('ChatMessageList', () => {
     expect(container).toHaveAttribute('aria-label', 'Chat messages');
     expect(container).toHaveAttribute('aria-live', 'polite');
   });
+
+  describe('keyboard navigation', () => {
+    it('makes only the newest message a tab stop', () => {
+      render(<ChatMessageList messages={mockMessages} />);
+
+      expect(screen.getByTestId('chat-message-msg3')).toHaveAttribute('tabindex', '0');
+      expect(screen.getByTestId('chat-message-msg1')).toHaveAttribute('tabindex', '-1');
+      expect(screen.getByTestId('chat-message-msg2')).toHaveAttribute('tabindex', '-1');
+    });
+
+    it('moves focus between messages with the arrow and Home/End keys', () => {
+      render(<ChatMessageList messages={mockMessages} onEdit={mockOnEdit} />);
+      const newest = screen.getByTestId('chat-message-msg3');
+      act(() => {
+        newest.focus();
+      });
+
+      fireEvent.keyDown(newest, { key: 'ArrowUp' });
+      expect(screen.getByTestId('chat-message-msg2')).toHaveFocus();
+      expect(screen.getByTestId('chat-message-msg2')).toHaveAttribute('tabindex', '0');
+      expect(newest).toHaveAttribute('tabindex', '-1');
+
+      fireEvent.keyDown(screen.getByTestId('chat-message-msg2'), { key: 'Home' });
+      expect(screen.getByTestId('chat-message-msg1')).toHaveFocus();
+
+      fireEvent.keyDown(screen.getByTestId('chat-message-msg1'), { key: 'End' });
+      expect(newest).toHaveFocus();
+
+      // Keys pressed inside a message, e.g. in its edit input, are left alone
+      fireEvent.keyDown(screen.getByTestId('edit-button-msg3'), { key: 'Home' });
+      expect(newest).toHaveFocus();
+    });
+
+    it('loads more history when moving up from the oldest message', () => {
+      render(
+        <ChatMessageList
+          messages={mockMessages}
+          onLoadMoreHistory={mockOnLoadMoreHistory}
+          hasMoreHistory={true}
+        />
+      );
+      const oldest = screen.getByTestId('chat-message-msg1');
+      act(() => {
+        oldest.focus();
+      });
+
+      fireEvent.keyDown(oldest, { key: 'ArrowUp' });
+      expect(mockOnLoadMoreHistory).toHaveBeenCalledTimes(1);
+      expect(oldest).toHaveFocus();
+    });
+
+    it('pages through messages, mounting the ones focused', () => {
+      const manyMessages = Array.from({ length: 200 }, (_, i) =>
+        createMockMessage({ serial: `m${String(i).padStart(3, '0')}` })
+      );
+      render(
+        <ChatMessageList messages={manyMessages} estimatedRowHeight={100} overscanPixels={200} />
+      );
+      const first = screen.getByTestId('chat-message-m000');
+      act(() => {
+        first.focus();
+      });
+
+      // jsdom reports no viewport height, so a page is the window height of 768px
+      fireEvent.keyDown(first, { key: 'PageDown' });
+      expect(screen.getByTestId('chat-message-m007')).toHaveFocus();
+
+      fireEvent.keyDown(screen.getByTestId('chat-message-m007'), { key: 'PageUp' });
+      expect(first).toHaveFocus();
+
+      fireEvent.keyDown(first, { key: 'End' });
+      expect(screen.getByTestId('chat-message-m199')).toHaveFocus();
+    });
+
+    it('makes messages shown by a custom renderer focusable', () => {
+      const renderers: MessageRenderer[] = [
+        { match: (message) => message.serial === 'msg3', render: () => <div>Custom</div> },
+      ];
+      render(<ChatMessageList messages={mockMessages} messageRenderers={renderers} />);
+
+      const custom = screen.getByRole('article', { name: 'Message from user1' });
+      expect(custom).toHaveTextContent('Custom');
+      expect(custom).toHaveAttribute('tabindex', '0');
+      act(() => {
+        custom.focus();
+      });
+
+      fireEvent.keyDown(custom, { key: 'ArrowUp' });
+      expect(screen.getByTestId('chat-message-msg2')).toHaveFocus();
+    });
+  });
+
+  describe('virtualization', () => {
+    const manyMessages = Array.from({ length: 200 }, (_, i) =>
+      createMockMessage({ serial: `m${String(i).padStart(3, '0')}`, text: `Message ${String(i)}` })
+    );
+
+    it('only mounts messages near the viewport', () => {
+      render(
+        <ChatMessageList messages={manyMessages} estimatedRowHeight={100} overscanPixels={200} />
+      );
+
+      expect(screen.getByTestId('chat-message-m000')).toBeInTheDocument();
+      expect(screen.queryByTestId('chat-message-m199')).not.toBeInTheDocument();
+      expect(screen.getAllByTestId(/^chat-message-m/).length).toBeLessThan(20);
+    });
+
+    it('mounts the messages that are scrolled into view', () => {
+      render(
+        <ChatMessageList messages={manyMessages} estimatedRowHeight={100} overscanPixels={200} />
+      );
+
+      const container = screen.getByRole('log');
+      Object.defineProperty(container, 'scrollTop', { value: 10_000, writable: true });
+      Object.defineProperty(container, 'clientHeight', { value: 500 });
+      fireEvent.scroll(container);
+
+      expect(screen.getByTestId('chat-message-m100')).toBeInTheDocument();
+      expect(screen.queryByTestId('chat-message-m000')).not.toBeInTheDocument();
+    });
+
+    it('shows the day being scrolled through in a sticky header', () => {
+      render(
+        <ChatMessageList messages={manyMessages} estimatedRowHeight={100} overscanPixels={200} />
+      );
+      expect(screen.getAllByText('Today')).toHaveLength(1);
+
+      const container = screen.getByRole('log');
+      Object.defineProperty(container, 'scrollTop', { value: 10_000, writable: true });
+      Object.defineProperty(container, 'clientHeight', { value: 500 });
+      fireEvent.scroll(container);
+
+      expect(screen.getByText('Today').parentElement).toHaveClass('sticky');
+    });
+
+    it('keeps visible content still when a message above the viewport grows', () => {
+      const observers: { callback: ResizeObserverCallback; targets: Element[] }[] = [];
+      globalThis.ResizeObserver = class {
+        private readonly _entry: { callback: ResizeObserverCallback; targets: Element[] };
+        constructor(callback: ResizeObserverCallback) {
+          this._entry = { callback, targets: [] };
+          observers.push(this._entry);
+        }
+        observe(target: Element) {
+          this._entry.targets.push(target);
+        }
+        unobserve() {}
+        disconnect() {}
+      };
+
+      render(
+        <ChatMessageList messages={manyMessages} estimatedRowHeight={100} overscanPixels={500} />
+      );
+
+      const container = screen.getByRole('log');
+      Object.defineProperty(container, 'scrollTop', { value: 5000, writable: true });
+      Object.defineProperty(container, 'scrollHeight', { value: 20_000 });
+      Object.defineProperty(container, 'clientHeight', { value: 500 });
+      fireEvent.scroll(container);
+
+      // Row 47 spans 4700-4800, entirely above the viewport
+      const row = screen.getByTestId('chat-message-m047').closest<HTMLElement>('[data-serial]');
+      expect(row).not.toBeNull();
+      if (!row) return;
+      Object.defineProperty(row, 'offsetHeight', { value: 150 });
+
+      const rowObserver = [...observers].reverse().find((o) => o.targets.includes(row));
+      expect(rowObserver).toBeDefined();
+      act(() => {
+        rowObserver?.callback(
+          [{ target: row } as unknown as ResizeObserverEntry],
+          {} as ResizeObserver
+        );
+      });
+
+      expect(container.scrollTop).toBe(5050);
+    });
+  });
 });
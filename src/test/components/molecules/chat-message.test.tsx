@@ -1,6 +1,6 @@
-import { ChatMessageAction } from '@ably/chat';
+import { ChatMessageAction, MessageReactionType } from '@ably/chat';
 import { useChatClient, type UseRoomResponse } from '@ably/chat/react';
-import { fireEvent, render, screen } from '@testing-library/react';
+import { act, fireEvent, render, screen } from '@testing-library/react';
 import React from 'react';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
@@ -9,6 +9,7 @@ import { ChatMessage } from '../../../components/molecules/chat-message.tsx';
 import { ChatSettingsContextType } from '../../../context/chat-settings-context.tsx';
 import { useChatSettings } from '../../../hooks/use-chat-settings.tsx';
 import { UseUserAvatarReturn } from '../../../hooks/use-user-avatar.tsx';
+import { StaticLinkPreviewResolver } from '../../../utils/link-preview.ts';
 
 vi.mock('@ably/chat/react', () => ({
   useChatClient: vi.fn(),
@@ -80,6 +81,7 @@ const createMockUseSettings = (
       allowMessageDeletesOwn: true,
       allowMessageDeletesAny: false,
       allowMessageReactions: true,
+      messageReactionType: MessageReactionType.Distinct,
     }),
     ...settings,
   } as ChatSettingsContextType;
@@ -109,6 +111,20 @@ describe('ChatMessage', () => {
     expect(screen.getByLabelText(/Avatar for user1/i)).toBeInTheDocument();
   });
 
+  it('omits the avatar and timestamp when grouped with the previous message', () => {
+    const message = createMockMessage({
+      clientId: 'user1',
+      text: 'Hello again',
+      timestamp: new Date(2024, 0, 1, 9, 30),
+    });
+
+    render(<ChatMessage message={message} isGrouped />);
+
+    expect(screen.getByText('Hello again')).toBeInTheDocument();
+    expect(screen.queryByLabelText(/Avatar for user1/i)).not.toBeInTheDocument();
+    expect(screen.queryByText(/09:30|9:30/)).not.toBeInTheDocument();
+  });
+
   it('shows edit/delete options for own messages when hovered', () => {
     (useChatClient as unknown as ReturnType<typeof vi.fn>).mockReturnValue({
       clientId: 'user1',
@@ -256,6 +272,422 @@ describe('ChatMessage', () => {
     vi.mocked(useChatClient).mockReset();
   });
 
+  it('renders Markdown and previews edits when enabled for the room', () => {
+    vi.mocked(useChatSettings).mockReturnValue(
+      createMockUseSettings({
+        getEffectiveSettings: vi.fn().mockReturnValue({
+          allowMessageUpdatesOwn: true,
+          allowMessageUpdatesAny: false,
+          allowMessageDeletesOwn: true,
+          allowMessageDeletesAny: false,
+          allowMessageReactions: true,
+          enableMarkdown: true,
+        }),
+      })
+    );
+
+    const message = createMockMessage({
+      clientId: 'user1',
+      text: 'Ship **it** <b>now</b>',
+    });
+
+    render(<ChatMessage message={message} onEdit={vi.fn()} />);
+
+    expect(screen.getByText('it').tagName).toBe('STRONG');
+    expect(screen.getByText(/<b>now<\/b>/)).toBeInTheDocument();
+
+    const messageBubble = screen.getByText('it').closest('.rounded-2xl');
+    if (messageBubble) {
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      fireEvent.mouseEnter(messageBubble.parentElement!);
+    }
+    fireEvent.click(screen.getByLabelText(/edit message/i));
+    fireEvent.change(screen.getByLabelText(/edit message text/i), {
+      target: { value: 'Now _with_ `code`' },
+    });
+
+    const preview = screen.getByLabelText('Edit preview');
+    expect(preview.querySelector('em')).toHaveTextContent('with');
+    expect(preview.querySelector('code')).toHaveTextContent('code');
+  });
+
+  it('renders Markdown syntax as plain text when disabled', () => {
+    const message = createMockMessage({
+      clientId: 'user1',
+      text: 'Ship **it**',
+    });
+
+    render(<ChatMessage message={message} />);
+
+    expect(screen.getByText('Ship **it**')).toBeInTheDocument();
+  });
+
+  it('shows emotes sent with /me in italics', () => {
+    const { rerender } = render(
+      <ChatMessage message={createMockMessage({ text: 'waves', metadata: { emote: true } })} />
+    );
+    expect(screen.getByText('waves').closest('.italic')).not.toBeNull();
+
+    rerender(<ChatMessage message={createMockMessage({ text: 'hello' })} />);
+    expect(screen.getByText('hello').closest('.italic')).toBeNull();
+  });
+
+  it('shows fenced code as a code block even without Markdown', () => {
+    const message = createMockMessage({
+      clientId: 'user1',
+      text: 'Try:\n```js\nconst veryLongIdentifier = 1;\n```',
+    });
+
+    const { container } = render(<ChatMessage message={message} />);
+
+    expect(screen.getByText('Try:')).toBeInTheDocument();
+    expect(container.querySelector('pre')).toHaveTextContent('const veryLongIdentifier = 1;');
+    expect(container.querySelector('pre')).not.toHaveClass('break-all');
+    expect(screen.getByRole('button', { name: 'Copy code' })).toBeInTheDocument();
+  });
+
+  it('shows the edited marker inline after the text, or below a trailing code block', () => {
+    const { container, rerender } = render(
+      <ChatMessage
+        message={createMockMessage({ text: 'Fixed typo', action: ChatMessageAction.MessageUpdate })}
+      />
+    );
+    expect(screen.getByText('(edited)').parentElement).toHaveTextContent('Fixed typo(edited)');
+
+    rerender(
+      <ChatMessage
+        message={createMockMessage({
+          text: 'Try:\n```js\nconst a = 1;\n```',
+          action: ChatMessageAction.MessageUpdate,
+        })}
+      />
+    );
+    expect(screen.getByText('(edited)').previousElementSibling).toBe(
+      container.querySelector('pre')?.parentElement
+    );
+  });
+
+  it('renders URLs as links and shows previews when a resolver is given', async () => {
+    const resolver = new StaticLinkPreviewResolver({
+      'https://ably.com/docs': { title: 'Ably Docs', description: 'Build realtime apps' },
+    });
+    const message = createMockMessage({
+      clientId: 'user1',
+      text: 'Docs: https://ably.com/docs, mirror https://blocked.example/docs',
+    });
+
+    render(
+      <ChatMessage
+        message={message}
+        linkPolicy={{ deniedDomains: ['blocked.example'] }}
+        linkPreviewResolver={resolver}
+      />
+    );
+
+    expect(screen.getByRole('link', { name: 'https://ably.com/docs' })).toHaveAttribute(
+      'rel',
+      'noopener noreferrer'
+    );
+    expect(screen.queryByRole('link', { name: /blocked/ })).not.toBeInTheDocument();
+    expect(await screen.findByRole('link', { name: 'Ably Docs (ably.com)' })).toBeInTheDocument();
+  });
+
+  it('renders mentions as chips and emphasizes messages mentioning the current user', () => {
+    const message = createMockMessage({
+      clientId: 'user2',
+      text: 'Thanks @Me and @Alice',
+      metadata: {
+        mentions: [
+          { clientId: 'user1', label: 'Me' },
+          { clientId: 'alice', label: 'Alice' },
+        ],
+      },
+    });
+
+    render(<ChatMessage message={message} />);
+
+    expect(screen.getByText('@Me')).toHaveAttribute('data-mention', 'user1');
+    expect(screen.getByText('@Alice')).toHaveAttribute('data-mention', 'alice');
+    expect(screen.getByRole('article')).toHaveAttribute(
+      'aria-label',
+      'Message from user2 (mentions you)'
+    );
+  });
+
+  it('does not emphasize a message once the mention is edited out', () => {
+    const message = createMockMessage({
+      clientId: 'user2',
+      text: 'Thanks everyone',
+      action: ChatMessageAction.MessageUpdate,
+      metadata: { mentions: [{ clientId: 'user1', label: 'Me' }] },
+    });
+
+    render(<ChatMessage message={message} />);
+
+    expect(screen.getByRole('article')).toHaveAttribute(
+      'aria-label',
+      'Message from user2 (edited)'
+    );
+  });
+
+  it('quotes the parent of a reply and jumps to it when clicked', () => {
+    const onQuoteClick = vi.fn();
+    const message = createMockMessage({
+      clientId: 'user2',
+      text: 'Agreed',
+      metadata: { replyTo: { serial: 'parent-1', clientId: 'alice', text: 'Ship it?' } },
+    });
+
+    render(<ChatMessage message={message} onQuoteClick={onQuoteClick} />);
+
+    fireEvent.click(
+      screen.getByRole('button', { name: 'Go to the message from Test User: Ship it?' })
+    );
+
+    expect(onQuoteClick).toHaveBeenCalledWith('parent-1');
+    expect(screen.getByText('Agreed')).toBeInTheDocument();
+  });
+
+  it('offers a reply action when onReply is provided', () => {
+    const onReply = vi.fn();
+    const message = createMockMessage({ clientId: 'user2', text: 'Question?' });
+
+    render(<ChatMessage message={message} onReply={onReply} />);
+
+    const bubble = screen.getByText('Question?').closest('div');
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    fireEvent.mouseEnter(bubble!.parentElement!);
+    fireEvent.click(screen.getByLabelText('Reply to message'));
+
+    expect(onReply).toHaveBeenCalledWith(message);
+  });
+
+  it('opens the edit history of edited messages when versions are provided', () => {
+    const original = createMockMessage({ serial: 'msg-1', clientId: 'user2', text: 'Helo' });
+    const edited = createMockMessage({
+      serial: 'msg-1',
+      clientId: 'user2',
+      text: 'Hello',
+      action: ChatMessageAction.MessageUpdate,
+      version: { serial: 'msg-1-edit', timestamp: new Date() },
+    });
+
+    const { rerender } = render(<ChatMessage message={edited} />);
+    const bubble = screen.getByText('Hello').closest('div');
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    fireEvent.mouseEnter(bubble!.parentElement!);
+    expect(screen.queryByLabelText('View edits')).not.toBeInTheDocument();
+
+    rerender(<ChatMessage message={edited} previousVersions={[original]} />);
+    fireEvent.click(screen.getByLabelText('View edits'));
+
+    const dialog = screen.getByRole('dialog', { name: 'Edit history' });
+    expect(dialog).toHaveTextContent('Helo');
+  });
+
+  it('offers message actions from a context menu', () => {
+    const onReply = vi.fn();
+    const onCopy = vi.fn();
+    const message = createMockMessage({ clientId: 'user2', text: 'Right-click me' });
+
+    render(
+      <ChatMessage
+        message={message}
+        onReply={onReply}
+        messageActions={[
+          { id: 'copy-text', label: 'Copy text', onSelect: onCopy },
+          { id: 'hidden', label: 'Hidden', isVisible: () => false, onSelect: vi.fn() },
+          {
+            id: 'moderate',
+            label: 'Moderate',
+            isPermitted: (_message, { isOwn }) => isOwn,
+            onSelect: vi.fn(),
+          },
+        ]}
+      />
+    );
+
+    fireEvent.contextMenu(screen.getByText('Right-click me'));
+    expect(screen.getAllByRole('menuitem').map((item) => item.textContent)).toEqual([
+      'Add reaction',
+      'Reply to message',
+      'Copy text',
+    ]);
+
+    fireEvent.click(screen.getByRole('menuitem', { name: 'Copy text' }));
+    expect(onCopy).toHaveBeenCalledWith(message);
+
+    fireEvent.contextMenu(screen.getByText('Right-click me'));
+    fireEvent.click(screen.getByRole('menuitem', { name: 'Reply to message' }));
+    expect(onReply).toHaveBeenCalledWith(message);
+  });
+
+  it('shows actions and runs keyboard shortcuts on the focused message', () => {
+    const message = createMockMessage({ clientId: 'user1', text: 'Focus me' });
+
+    render(<ChatMessage message={message} onDelete={vi.fn()} tabIndex={0} />);
+    const article = screen.getByRole('article');
+    expect(screen.queryByRole('toolbar')).not.toBeInTheDocument();
+
+    act(() => {
+      article.focus();
+    });
+    expect(screen.getByRole('toolbar', { name: 'Message actions' })).toBeInTheDocument();
+
+    // Shortcuts only apply to the message itself, not to elements inside it
+    fireEvent.keyDown(screen.getByLabelText('Add reaction'), { key: 'e' });
+    expect(screen.queryByLabelText('Edit message text')).not.toBeInTheDocument();
+
+    fireEvent.keyDown(article, { key: 'e' });
+    expect(screen.getByLabelText('Edit message text')).toHaveFocus();
+    fireEvent.keyDown(screen.getByLabelText('Edit message text'), { key: 'Escape' });
+    expect(article).toHaveFocus();
+
+    fireEvent.keyDown(article, { key: 'r' });
+    expect(screen.getByTestId('emoji-picker')).toBeInTheDocument();
+    fireEvent.click(screen.getByTestId('close-emoji-picker'));
+    expect(article).toHaveFocus();
+
+    fireEvent.keyDown(article, { key: 'Delete' });
+    expect(screen.getByRole('dialog', { name: 'Delete Message' })).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+    expect(article).toHaveFocus();
+  });
+
+  it('returns focus to the action button after a dialog closes', () => {
+    const message = createMockMessage({ clientId: 'user1', text: 'Delete me' });
+
+    render(<ChatMessage message={message} onDelete={vi.fn()} tabIndex={0} />);
+    act(() => {
+      screen.getByRole('article').focus();
+    });
+    const deleteButton = screen.getByLabelText('Delete message');
+    act(() => {
+      deleteButton.focus();
+    });
+    fireEvent.click(deleteButton);
+
+    fireEvent.keyDown(document, { key: 'Escape' });
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    expect(screen.getByLabelText('Delete message')).toHaveFocus();
+  });
+
+  it('ignores shortcuts for actions the user may not take', () => {
+    const message = createMockMessage({ clientId: 'user2', text: 'Not mine' });
+
+    render(<ChatMessage message={message} onDelete={vi.fn()} tabIndex={0} />);
+    const article = screen.getByRole('article');
+    act(() => {
+      article.focus();
+    });
+
+    fireEvent.keyDown(article, { key: 'e' });
+    fireEvent.keyDown(article, { key: 'Delete' });
+    expect(screen.queryByLabelText('Edit message text')).not.toBeInTheDocument();
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  });
+
+  it('enters edit mode from outside and returns focus when the edit ends', () => {
+    const message = createMockMessage({ clientId: 'user1', text: 'Original text' });
+    const onEdit = vi.fn();
+    const onEditingChange = vi.fn();
+    const Composer = () => {
+      const [isEditing, setIsEditing] = React.useState(false);
+      return (
+        <>
+          <input
+            aria-label="Composer"
+            onKeyDown={(e) => {
+              if (e.key === 'ArrowUp') setIsEditing(true);
+            }}
+          />
+          <ChatMessage
+            message={message}
+            onEdit={onEdit}
+            isEditing={isEditing}
+            onEditingChange={(editing) => {
+              onEditingChange(editing);
+              setIsEditing(editing);
+            }}
+          />
+        </>
+      );
+    };
+
+    render(<Composer />);
+    const composer = screen.getByLabelText('Composer');
+    act(() => {
+      composer.focus();
+    });
+
+    fireEvent.keyDown(composer, { key: 'ArrowUp' });
+    const editInput = screen.getByLabelText('Edit message text');
+    expect(editInput).toHaveFocus();
+
+    fireEvent.keyDown(editInput, { key: 'Escape' });
+    expect(onEditingChange).toHaveBeenLastCalledWith(false);
+    expect(screen.queryByLabelText('Edit message text')).not.toBeInTheDocument();
+    expect(composer).toHaveFocus();
+
+    fireEvent.keyDown(composer, { key: 'ArrowUp' });
+    fireEvent.change(screen.getByLabelText('Edit message text'), {
+      target: { value: 'Updated text' },
+    });
+    fireEvent.keyDown(screen.getByLabelText('Edit message text'), { key: 'Enter' });
+    expect(onEdit).toHaveBeenCalledWith(message, 'Updated text');
+    expect(composer).toHaveFocus();
+  });
+
+  it('shows the thread reply count and opens the thread when clicked', () => {
+    const onOpenThread = vi.fn();
+    const message = createMockMessage({ clientId: 'user2', text: 'Thread starter' });
+
+    const { rerender } = render(
+      <ChatMessage message={message} onOpenThread={onOpenThread} threadReplyCount={1} />
+    );
+    expect(screen.getByRole('button', { name: '1 reply' })).toBeInTheDocument();
+
+    rerender(<ChatMessage message={message} onOpenThread={onOpenThread} threadReplyCount={3} />);
+    fireEvent.click(screen.getByRole('button', { name: '3 replies' }));
+
+    expect(onOpenThread).toHaveBeenCalledWith(message);
+  });
+
+  it('does not show a reply count for messages without thread replies', () => {
+    const message = createMockMessage({ clientId: 'user2', text: 'No thread' });
+
+    render(<ChatMessage message={message} onOpenThread={vi.fn()} />);
+
+    expect(screen.queryByRole('button', { name: /repl/ })).not.toBeInTheDocument();
+  });
+
+  it('shows attachments, omitting the text of attachment-only messages', () => {
+    const attachments = [
+      {
+        url: 'https://cdn.example.com/cat.png',
+        name: 'cat.png',
+        mimeType: 'image/png',
+        size: 2048,
+      },
+    ];
+    const message = createMockMessage({ clientId: 'user2', text: '', metadata: { attachments } });
+
+    const { container } = render(<ChatMessage message={message} />);
+
+    expect(screen.getByRole('img', { name: 'cat.png' })).toBeInTheDocument();
+    expect(container.querySelector('p')).not.toBeInTheDocument();
+  });
+
+  it('labels pinned messages', () => {
+    const message = createMockMessage({ clientId: 'user2', text: 'House rules' });
+
+    const { rerender } = render(<ChatMessage message={message} />);
+    expect(screen.queryByText('Pinned')).not.toBeInTheDocument();
+
+    rerender(<ChatMessage message={message} isPinned={true} />);
+    expect(screen.getByText('Pinned')).toBeInTheDocument();
+  });
+
   it('shows deleted message state', () => {
     const message = createMockMessage({
       clientId: 'user1',
@@ -358,4 +790,53 @@ describe('ChatMessage', () => {
     // Reset the mock
     vi.mocked(useChatClient).mockReset();
   });
+
+  it('adds another reaction when clicking a multiple reaction the user already added', () => {
+    vi.mocked(useChatSettings).mockReturnValue(
+      createMockUseSettings({
+        getEffectiveSettings: vi.fn().mockReturnValue({
+          allowMessageReactions: true,
+          messageReactionType: MessageReactionType.Multiple,
+        }),
+      })
+    );
+
+    const message = createMockMessage({
+      clientId: 'user2',
+      text: 'Message with reactions',
+      reactions: {
+        distinct: {},
+        unique: {},
+        multiple: {
+          '👏': {
+            total: 2,
+            clientIds: { user1: 2 },
+            totalUnidentified: 0,
+            clipped: false,
+            totalClientIds: 1,
+          },
+        },
+      },
+    });
+
+    const handleReactionAdd = vi.fn();
+    const handleReactionRemove = vi.fn();
+
+    render(
+      <ChatMessage
+        message={message}
+        onReactionAdd={handleReactionAdd}
+        onReactionRemove={handleReactionRemove}
+      />
+    );
+
+    fireEvent.click(
+      screen.getByRole('button', { name: '👏 reaction (you reacted 2 times), 2 reactions' })
+    );
+    expect(handleReactionAdd).toHaveBeenCalledWith(message, '👏');
+    expect(handleReactionRemove).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Remove your 👏 reactions' }));
+    expect(handleReactionRemove).toHaveBeenCalledWith(message, '👏');
+  });
 });
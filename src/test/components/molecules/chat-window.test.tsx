@@ -1,6 +1,11 @@
-import { MessageReactionType } from '@ably/chat';
-import { type UseMessagesResponse, usePresence } from '@ably/chat/react';
-import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import {
+  ChatMessageEvent,
+  ChatMessageEventType,
+  ConnectionStatus,
+  MessageReactionType,
+} from '@ably/chat';
+import { type UseMessagesParams, type UseMessagesResponse, usePresence } from '@ably/chat/react';
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react';
 import { ErrorInfo } from 'ably';
 import React from 'react';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
@@ -11,6 +16,21 @@ import { ChatWindow } from '../../../components/molecules/chat-window.tsx';
 import { ChatWindowFooterProps } from '../../../components/molecules/chat-window-footer.tsx';
 import { ChatWindowHeaderProps } from '../../../components/molecules/chat-window-header.tsx';
 import { MessageInputProps } from '../../../components/molecules/message-input.tsx';
+import { PinnedMessagesBarProps } from '../../../components/molecules/pinned-messages-bar.tsx';
+import { ThreadPanelProps } from '../../../components/molecules/thread-panel.tsx';
+import { JumpToMessageOptions, JumpToMessageResult } from '../../../hooks/use-message-window.tsx';
+import { DEFAULT_SETTINGS } from '../../../providers/chat-settings-provider.tsx';
+import { MockAttachmentUploader } from '../../../utils/attachments.ts';
+import { OutboxStore } from '../../../utils/outbox.ts';
+import { LocalPinStore } from '../../../utils/pins.ts';
+import { ReadMarkerStore } from '../../../utils/read-markers.ts';
+import {
+  createEphemeralResponse,
+  shrugCommand,
+  SlashCommand,
+  SlashCommandRegistry,
+  SlashCommandResult,
+} from '../../../utils/slash-commands.ts';
 
 const mockSendMessage = vi.fn().mockResolvedValue({});
 const mockDeleteMessage = vi.fn().mockResolvedValue({});
@@ -18,20 +38,39 @@ const mockUpdateMessage = vi.fn().mockResolvedValue({});
 const mockSendReaction = vi.fn().mockResolvedValue({});
 const mockDeleteReaction = vi.fn().mockResolvedValue({});
 
+const mockClient = { clientId: 'test-user' };
+let mockMessagesListener: ((event: ChatMessageEvent) => void) | undefined;
+
 // Mock the Ably Chat hooks
 vi.mock('@ably/chat/react', () => ({
-  useChatClient: () => ({ clientId: 'test-user' }),
-  useMessages: (): Partial<UseMessagesResponse> => ({
-    sendMessage: mockSendMessage,
-    deleteMessage: mockDeleteMessage,
-    updateMessage: mockUpdateMessage,
-    sendReaction: mockSendReaction,
-    deleteReaction: mockDeleteReaction,
-  }),
+  useChatClient: () => mockClient,
+  useChatConnection: () => ({ currentStatus: ConnectionStatus.Connected }),
+  useMessages: (params?: UseMessagesParams): Partial<UseMessagesResponse> => {
+    if (params?.listener) mockMessagesListener = params.listener;
+    return {
+      sendMessage: mockSendMessage,
+      deleteMessage: mockDeleteMessage,
+      updateMessage: mockUpdateMessage,
+      sendReaction: mockSendReaction,
+      deleteReaction: mockDeleteReaction,
+    };
+  },
   usePresence: vi.fn(),
 }));
 
+const mockSettings = { ...DEFAULT_SETTINGS };
+vi.mock('../../../hooks/use-chat-settings', () => ({
+  useChatSettings: () => ({
+    globalSettings: mockSettings,
+    roomSettings: {},
+    getEffectiveSettings: () => mockSettings,
+  }),
+}));
+
 const mockUpdateMessages = vi.fn();
+const mockJumpToMessage = vi
+  .fn<(serial: string, options?: JumpToMessageOptions) => Promise<JumpToMessageResult>>()
+  .mockResolvedValue({ status: 'found' });
 // Mocks the useMessageWindow hook
 vi.mock('../../../hooks/use-message-window', () => ({
   useMessageWindow: () => ({
@@ -43,9 +82,23 @@ vi.mock('../../../hooks/use-message-window', () => ({
     updateMessages: mockUpdateMessages,
     showLatestMessages: vi.fn(),
     showMessagesAroundSerial: vi.fn(),
+    jumpToMessage: mockJumpToMessage,
     loadMoreHistory: vi.fn(),
     hasMoreHistory: true,
     loading: false,
+    threadReplies: new Map([
+      [
+        'msg1',
+        [
+          createMockMessage({
+            serial: 'reply1',
+            clientId: 'user2',
+            text: 'In a thread',
+            headers: { threadParent: 'msg1' },
+          }),
+        ],
+      ],
+    ]),
   }),
 }));
 
@@ -61,8 +114,24 @@ vi.mock('../../../components/molecules/chat-message-list', () => ({
     onDelete,
     onReactionAdd,
     onReactionRemove,
+    onReply,
+    onQuoteClick,
+    onOpenThread,
+    threadReplyCounts,
+    pinnedSerials,
+    onPinToggle,
     onMessageInView,
+    onLastMessageInView,
     onViewLatest,
+    lastReadSerial,
+    highlightedSerial,
+    editingSerial,
+    onEditingChange,
+    pendingMessages,
+    ephemeralResponses,
+    onDismissEphemeral,
+    onRetryPending,
+    onDiscardPending,
     children,
   }: ChatMessageListProps) => {
     const mockMessage = messages[0];
@@ -75,6 +144,49 @@ vi.mock('../../../components/molecules/chat-message-list', () => ({
         <div>Loading: {isLoading ? 'true' : 'false'}</div>
         <div>Has More History: {hasMoreHistory ? 'true' : 'false'}</div>
         <div>Enable Typing Indicators: {enableTypingIndicators ? 'true' : 'false'}</div>
+        <div>Last Read: {lastReadSerial ?? 'none'}</div>
+        <div>Highlighted: {highlightedSerial ?? 'none'}</div>
+        <div>Editing: {editingSerial ?? 'none'}</div>
+        <button
+          onClick={() => {
+            onEditingChange?.(undefined);
+          }}
+        >
+          Finish Edit
+        </button>
+        <div>Thread Replies: {JSON.stringify(threadReplyCounts)}</div>
+        <div>Pinned: {[...(pinnedSerials ?? [])].join(',') || 'none'}</div>
+        {pendingMessages?.map((pending) => (
+          <div key={pending.id} data-testid="pending-message">
+            {pending.text}: {pending.status}
+            <button
+              onClick={() => {
+                onRetryPending?.(pending.id);
+              }}
+            >
+              Retry
+            </button>
+            <button
+              onClick={() => {
+                onDiscardPending?.(pending.id);
+              }}
+            >
+              Discard
+            </button>
+          </div>
+        ))}
+        {ephemeralResponses?.map((response) => (
+          <div key={response.id} data-testid="ephemeral-response">
+            {response.command}: {response.text}
+            <button
+              onClick={() => {
+                onDismissEphemeral?.(response.id);
+              }}
+            >
+              Dismiss
+            </button>
+          </div>
+        ))}
         {onEdit && (
           <button
             data-testid="edit-message-button"
@@ -115,6 +227,42 @@ vi.mock('../../../components/molecules/chat-message-list', () => ({
             Remove Reaction
           </button>
         )}
+        {onReply && (
+          <button
+            onClick={() => {
+              onReply(mockMessage);
+            }}
+          >
+            Reply
+          </button>
+        )}
+        {onQuoteClick && (
+          <button
+            onClick={() => {
+              onQuoteClick('msg2');
+            }}
+          >
+            Quote
+          </button>
+        )}
+        {onOpenThread && (
+          <button
+            onClick={() => {
+              onOpenThread(mockMessage);
+            }}
+          >
+            Open Thread
+          </button>
+        )}
+        {onPinToggle && (
+          <button
+            onClick={() => {
+              onPinToggle(mockMessage);
+            }}
+          >
+            Toggle Pin
+          </button>
+        )}
         {onLoadMoreHistory && (
           <button data-testid="load-more-history-button" onClick={onLoadMoreHistory}>
             Load More History
@@ -130,6 +278,16 @@ vi.mock('../../../components/molecules/chat-message-list', () => ({
             Message In View
           </button>
         )}
+        {onLastMessageInView && (
+          <button
+            data-testid="last-message-in-view-button"
+            onClick={() => {
+              onLastMessageInView('msg2');
+            }}
+          >
+            Last Message In View
+          </button>
+        )}
         {onViewLatest && (
           <button data-testid="view-latest-button" onClick={onViewLatest}>
             View Latest
@@ -153,41 +311,116 @@ vi.mock('../../../components/molecules/chat-window-footer', () => ({
   ),
 }));
 
-vi.mock('../../../components/molecules/message-input', () => ({
-  MessageInput: ({ onSent, placeholder, onSendError, enableTyping }: MessageInputProps) => (
-    <div data-testid="message-input">
-      <input data-testid="message-input-field" placeholder={placeholder} />
-      <div data-testid="enable-typing-status">Enable Typing: {enableTyping ? 'true' : 'false'}</div>
+vi.mock('../../../components/molecules/thread-panel', () => ({
+  ThreadPanel: ({ parent, replies, onClose, onSend, pendingReplies }: ThreadPanelProps) => (
+    <div data-testid="thread-panel">
+      <div>Thread Parent: {parent.serial}</div>
+      <div>Thread Reply Count: {replies.length}</div>
+      <div>Pending Thread Replies: {pendingReplies?.map((m) => m.text).join(',') || 'none'}</div>
       <button
-        data-testid="send-message-button"
         onClick={() => {
-          // Create a mock message that would be returned from the send function
-          const mockMessage = createMockMessage({
-            text: 'New message',
-            clientId: 'test-user',
-            serial: 'test-serial-123',
-          });
-
-          // Call onSent with the mock message (handle optional prop)
-          onSent?.(mockMessage);
+          onSend?.('Thread reply', undefined, { threadParent: parent.serial });
         }}
       >
-        Send
+        Send Thread Reply
       </button>
-      {onSendError && (
+      <button onClick={onClose}>Close Thread</button>
+    </div>
+  ),
+}));
+
+vi.mock('../../../components/molecules/pinned-messages-bar', () => ({
+  PinnedMessagesBar: ({ pins, onSelect, onUnpin }: PinnedMessagesBarProps) => (
+    <div data-testid="pinned-messages-bar">
+      <div>
+        Pins: {pins.map((pin) => `${pin.serial} by ${pin.pinnedBy ?? 'unknown'}`).join(',')}
+      </div>
+      {pins[0] && (
+        <button
+          onClick={() => {
+            onSelect(pins[0]?.serial ?? '');
+          }}
+        >
+          Select Pin
+        </button>
+      )}
+      {onUnpin && pins[0] && (
         <button
-          data-testid="trigger-send-error-button"
           onClick={() => {
-            onSendError(new ErrorInfo('Failed to send message', 50000, 500), 'Failed message text');
+            onUnpin(pins[0]?.serial ?? '');
           }}
         >
-          Trigger Send Error
+          Unpin
         </button>
       )}
     </div>
   ),
 }));
 
+vi.mock('../../../components/molecules/message-input', () => ({
+  MessageInput: ({
+    onSend,
+    placeholder,
+    enableTyping,
+    replyTo,
+    onClearReply,
+    onEditLastMessage,
+    slashCommands,
+    onEphemeralResponse,
+    onCommandError,
+    attachmentUploads,
+  }: MessageInputProps) => (
+    <div data-testid="message-input">
+      <div>
+        Attachments:{' '}
+        {attachmentUploads
+          ? attachmentUploads.uploads.map((u) => `${u.file.name} ${u.status}`).join(',') || 'none'
+          : 'disabled'}
+      </div>
+      <div>Replying To: {replyTo?.serial ?? 'none'}</div>
+      <button onClick={onClearReply}>Cancel Reply</button>
+      <button onClick={onEditLastMessage}>Edit Last Message</button>
+      <div>Slash Commands: {slashCommands ? 'enabled' : 'disabled'}</div>
+      <button
+        onClick={() => {
+          onEphemeralResponse?.(createEphemeralResponse('/giphy zzz', 'No GIFs found'));
+        }}
+      >
+        Run Command
+      </button>
+      <button
+        onClick={() => {
+          onCommandError?.(new Error('Command failed'), '/topic');
+        }}
+      >
+        Fail Command
+      </button>
+      <button
+        onClick={() => {
+          void slashCommands
+            ?.get('poll')
+            ?.handler('Lunch?')
+            .then((result) => {
+              if (result?.type === 'send') onSend?.(result.text, result.metadata, result.headers);
+            });
+        }}
+      >
+        Run Poll Command
+      </button>
+      <input data-testid="message-input-field" placeholder={placeholder} />
+      <div data-testid="enable-typing-status">Enable Typing: {enableTyping ? 'true' : 'false'}</div>
+      <button
+        data-testid="send-message-button"
+        onClick={() => {
+          onSend?.('New message');
+        }}
+      >
+        Send
+      </button>
+    </div>
+  ),
+}));
+
 describe('ChatWindow', () => {
   // Mock console.error to prevent test output pollution
   const originalConsoleError = console.error;
@@ -195,6 +428,11 @@ describe('ChatWindow', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     console.error = vi.fn();
+    mockClient.clientId = 'test-user';
+    mockSettings.allowMessagePins = false;
+    mockSettings.allowMessageUpdatesOwn = true;
+    mockSettings.allowMessageUpdatesAny = false;
+    mockSettings.messageReactionType = MessageReactionType.Distinct;
   });
 
   afterEach(() => {
@@ -261,12 +499,29 @@ describe('ChatWindow', () => {
     expect(screen.getByText('Enable Typing: false')).toBeInTheDocument();
   });
 
-  it('updates the message state when the send button is clicked', () => {
-    render(<ChatWindow roomName="general" />);
+  it('shows a sent message as pending until it is confirmed', async () => {
+    let resolveSend: (message: unknown) => void = () => {};
+    mockSendMessage.mockReturnValueOnce(
+      new Promise((resolve) => {
+        resolveSend = resolve;
+      })
+    );
+    render(<ChatWindow roomName="general" outboxStore={new OutboxStore({ persist: false })} />);
 
-    // Click the send button
     fireEvent.click(screen.getByTestId('send-message-button'));
 
+    await waitFor(() => {
+      expect(mockSendMessage).toHaveBeenCalledWith({ text: 'New message' });
+    });
+    expect(screen.getByTestId('pending-message')).toHaveTextContent('New message: sending');
+
+    resolveSend(
+      createMockMessage({ text: 'New message', clientId: 'test-user', serial: 'test-serial-123' })
+    );
+
+    await waitFor(() => {
+      expect(screen.queryByTestId('pending-message')).not.toBeInTheDocument();
+    });
     expect(mockUpdateMessages).toHaveBeenCalledWith([
       expect.objectContaining({
         text: 'New message',
@@ -276,6 +531,28 @@ describe('ChatWindow', () => {
     ]);
   });
 
+  it('keeps failed messages for retry or discard', async () => {
+    mockSendMessage.mockRejectedValueOnce(new ErrorInfo('Failed to send message', 50000, 500));
+    render(<ChatWindow roomName="general" outboxStore={new OutboxStore({ persist: false })} />);
+
+    fireEvent.click(screen.getByTestId('send-message-button'));
+    await waitFor(() => {
+      expect(screen.getByTestId('pending-message')).toHaveTextContent('New message: failed');
+    });
+
+    mockSendMessage.mockRejectedValueOnce(new ErrorInfo('Failed to send message', 50000, 500));
+    fireEvent.click(screen.getByText('Retry'));
+    await waitFor(() => {
+      expect(mockSendMessage).toHaveBeenCalledTimes(2);
+    });
+    await waitFor(() => {
+      expect(screen.getByTestId('pending-message')).toHaveTextContent('New message: failed');
+    });
+
+    fireEvent.click(screen.getByText('Discard'));
+    expect(screen.queryByTestId('pending-message')).not.toBeInTheDocument();
+  });
+
   it('edits a message when edit button is clicked', () => {
     render(<ChatWindow roomName="general" />);
 
@@ -322,6 +599,23 @@ describe('ChatWindow', () => {
     });
   });
 
+  it('uses the reaction type from the room settings', () => {
+    mockSettings.messageReactionType = MessageReactionType.Multiple;
+    render(<ChatWindow roomName="general" />);
+
+    fireEvent.click(screen.getByTestId('add-reaction-button'));
+    fireEvent.click(screen.getByTestId('remove-reaction-button'));
+
+    expect(mockSendReaction).toHaveBeenCalledWith('msg1', {
+      type: MessageReactionType.Multiple,
+      name: '👍',
+    });
+    expect(mockDeleteReaction).toHaveBeenCalledWith('msg1', {
+      type: MessageReactionType.Multiple,
+      name: '👍',
+    });
+  });
+
   it('applies custom className to container', () => {
     render(<ChatWindow roomName="general" className="custom-class" />);
 
@@ -336,6 +630,448 @@ describe('ChatWindow', () => {
     expect(container).toHaveAttribute('aria-label', 'Chat room: general');
   });
 
+  describe('read markers', () => {
+    it('passes the read marker from when the room was opened to ChatMessageList', () => {
+      const store = new ReadMarkerStore({ persist: false });
+      store.markAsRead('general', 'msg1');
+
+      render(<ChatWindow roomName="general" readMarkerStore={store} />);
+      fireEvent.click(screen.getByTestId('view-latest-button'));
+
+      expect(store.getPosition('general').lastReadSerial).toBe('msg3');
+      expect(screen.getByText('Last Read: msg1')).toBeInTheDocument();
+    });
+
+    it('advances the read marker to the last message fully in view', () => {
+      const store = new ReadMarkerStore({ persist: false });
+
+      render(<ChatWindow roomName="general" readMarkerStore={store} />);
+      fireEvent.click(screen.getByTestId('message-in-view-button'));
+      expect(store.getPosition('general').lastReadSerial).toBeUndefined();
+
+      fireEvent.click(screen.getByTestId('last-message-in-view-button'));
+      expect(store.getPosition('general').lastReadSerial).toBe('msg2');
+    });
+
+    it('counts live messages that arrive outside the rendered window', () => {
+      const store = new ReadMarkerStore({ persist: false });
+      store.markAsRead('general', 'msg1');
+
+      render(<ChatWindow roomName="general" readMarkerStore={store} />);
+      act(() => {
+        mockMessagesListener?.({
+          type: ChatMessageEventType.Created,
+          message: createMockMessage({ serial: 'msg9', clientId: 'user2' }),
+        });
+        mockMessagesListener?.({
+          type: ChatMessageEventType.Created,
+          message: createMockMessage({
+            serial: 'msg8',
+            clientId: 'user2',
+            headers: { threadParent: 'msg1' },
+          }),
+        });
+      });
+
+      expect(store.getPosition('general').unreadCount).toBe(3);
+    });
+
+    it('counts unread messages from other users', () => {
+      const store = new ReadMarkerStore({ persist: false });
+      store.markAsRead('general', 'msg1');
+
+      render(<ChatWindow roomName="general" readMarkerStore={store} />);
+
+      expect(store.getPosition('general').unreadCount).toBe(2);
+    });
+  });
+
+  describe('jumpToMessageSerial prop', () => {
+    it('jumps to and highlights the message', async () => {
+      render(<ChatWindow roomName="general" jumpToMessageSerial="msg2" />);
+
+      expect(mockJumpToMessage).toHaveBeenCalledTimes(1);
+      expect(mockJumpToMessage.mock.lastCall?.[0]).toBe('msg2');
+      await waitFor(() => {
+        expect(screen.getByText('Highlighted: msg2')).toBeInTheDocument();
+      });
+    });
+
+    it('calls onJumpToMessageError when the message cannot be found', async () => {
+      mockJumpToMessage.mockResolvedValueOnce({ status: 'not-found' });
+      const onJumpToMessageError = vi.fn();
+
+      render(
+        <ChatWindow
+          roomName="general"
+          jumpToMessageSerial="missing"
+          onError={{ onJumpToMessageError }}
+        />
+      );
+
+      await waitFor(() => {
+        expect(onJumpToMessageError).toHaveBeenCalledWith('missing', { status: 'not-found' });
+      });
+      expect(screen.getByText('Highlighted: none')).toBeInTheDocument();
+    });
+
+    it('opens the thread of a reply, highlighting its parent', async () => {
+      mockJumpToMessage.mockResolvedValueOnce({ status: 'in-thread', threadParentSerial: 'msg1' });
+
+      render(<ChatWindow roomName="general" jumpToMessageSerial="reply1" />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Thread Parent: msg1')).toBeInTheDocument();
+      });
+      expect(mockJumpToMessage.mock.calls.map(([serial]) => serial)).toEqual(['reply1', 'msg1']);
+      expect(screen.getByText('Highlighted: msg1')).toBeInTheDocument();
+    });
+
+    it('only jumps again when the serial changes', () => {
+      const { rerender } = render(<ChatWindow roomName="general" jumpToMessageSerial="msg2" />);
+      rerender(<ChatWindow roomName="general" jumpToMessageSerial="msg2" />);
+      expect(mockJumpToMessage).toHaveBeenCalledTimes(1);
+
+      rerender(<ChatWindow roomName="general" jumpToMessageSerial="msg1" />);
+      expect(mockJumpToMessage).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('Replies', () => {
+    it('passes the message being replied to to MessageInput until the reply is cleared', () => {
+      render(<ChatWindow roomName="general" />);
+      expect(screen.getByText('Replying To: none')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByText('Reply'));
+      expect(screen.getByText('Replying To: msg1')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByText('Cancel Reply'));
+      expect(screen.getByText('Replying To: none')).toBeInTheDocument();
+    });
+
+    it('drops the reply when the room changes', () => {
+      const { rerender } = render(<ChatWindow roomName="general" />);
+      fireEvent.click(screen.getByText('Reply'));
+
+      rerender(<ChatWindow roomName="random" />);
+      expect(screen.getByText('Replying To: none')).toBeInTheDocument();
+    });
+
+    it('jumps to and highlights the quoted message when a quote is clicked', async () => {
+      render(<ChatWindow roomName="general" />);
+
+      fireEvent.click(screen.getByText('Quote'));
+
+      expect(mockJumpToMessage.mock.lastCall?.[0]).toBe('msg2');
+      await waitFor(() => {
+        expect(screen.getByText('Highlighted: msg2')).toBeInTheDocument();
+      });
+    });
+  });
+
+  describe('Editing the last message', () => {
+    it("edits the user's most recent message until the edit is finished", () => {
+      mockClient.clientId = 'user1';
+      render(<ChatWindow roomName="general" />);
+      expect(screen.getByText('Editing: none')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByText('Edit Last Message'));
+      expect(screen.getByText('Editing: msg3')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByText('Finish Edit'));
+      expect(screen.getByText('Editing: none')).toBeInTheDocument();
+    });
+
+    it('does nothing when the user has no messages', () => {
+      render(<ChatWindow roomName="general" />);
+      fireEvent.click(screen.getByText('Edit Last Message'));
+      expect(screen.getByText('Editing: none')).toBeInTheDocument();
+    });
+
+    it('follows the same permissions as the edit action on the message', () => {
+      mockClient.clientId = 'user2';
+      mockSettings.allowMessageUpdatesOwn = false;
+      mockSettings.allowMessageUpdatesAny = false;
+      const { rerender } = render(<ChatWindow roomName="general" />);
+      fireEvent.click(screen.getByText('Edit Last Message'));
+      expect(screen.getByText('Editing: none')).toBeInTheDocument();
+
+      // Users who may edit any message may also edit their own
+      mockSettings.allowMessageUpdatesAny = true;
+      rerender(<ChatWindow roomName="general" />);
+      fireEvent.click(screen.getByText('Edit Last Message'));
+      expect(screen.getByText('Editing: msg2')).toBeInTheDocument();
+    });
+
+    it('stops editing when the room changes', () => {
+      mockClient.clientId = 'user2';
+      const { rerender } = render(<ChatWindow roomName="general" />);
+      fireEvent.click(screen.getByText('Edit Last Message'));
+      expect(screen.getByText('Editing: msg2')).toBeInTheDocument();
+
+      rerender(<ChatWindow roomName="random" />);
+      expect(screen.getByText('Editing: none')).toBeInTheDocument();
+    });
+  });
+
+  describe('Slash commands', () => {
+    it('passes the slash commands to MessageInput', () => {
+      const { rerender } = render(<ChatWindow roomName="general" />);
+      expect(screen.getByText('Slash Commands: disabled')).toBeInTheDocument();
+
+      rerender(
+        <ChatWindow roomName="general" slashCommands={new SlashCommandRegistry([shrugCommand])} />
+      );
+      expect(screen.getByText('Slash Commands: enabled')).toBeInTheDocument();
+    });
+
+    it('shows command responses in the list until dismissed', () => {
+      render(<ChatWindow roomName="general" />);
+
+      fireEvent.click(screen.getByText('Run Command'));
+      fireEvent.click(screen.getByText('Run Command'));
+      expect(screen.getAllByTestId('ephemeral-response')).toHaveLength(2);
+      expect(screen.getAllByTestId('ephemeral-response')[0]).toHaveTextContent(
+        '/giphy zzz: No GIFs found'
+      );
+
+      const [firstDismiss] = screen.getAllByText('Dismiss');
+      if (firstDismiss) fireEvent.click(firstDismiss);
+      expect(screen.getAllByTestId('ephemeral-response')).toHaveLength(1);
+    });
+
+    it('drops command responses when the room changes', () => {
+      const { rerender } = render(<ChatWindow roomName="general" />);
+      fireEvent.click(screen.getByText('Run Command'));
+
+      rerender(<ChatWindow roomName="random" />);
+      expect(screen.queryByTestId('ephemeral-response')).not.toBeInTheDocument();
+    });
+
+    it('sends the headers returned by a command', async () => {
+      const pollCommand: SlashCommand = {
+        name: 'poll',
+        description: 'Starts a poll',
+        handler: (args) =>
+          Promise.resolve<SlashCommandResult>({
+            type: 'send',
+            text: args,
+            headers: { 'x-message-type': 'poll' },
+          }),
+      };
+      render(
+        <ChatWindow
+          roomName="general"
+          outboxStore={new OutboxStore({ persist: false })}
+          slashCommands={new SlashCommandRegistry([pollCommand])}
+        />
+      );
+
+      fireEvent.click(screen.getByText('Run Poll Command'));
+
+      await waitFor(() => {
+        expect(mockSendMessage).toHaveBeenCalledWith({
+          text: 'Lunch?',
+          headers: { 'x-message-type': 'poll' },
+        });
+      });
+    });
+
+    it('calls onSlashCommandError when a command fails', () => {
+      const onSlashCommandError = vi.fn();
+      render(<ChatWindow roomName="general" onError={{ onSlashCommandError }} />);
+
+      fireEvent.click(screen.getByText('Fail Command'));
+      expect(onSlashCommandError).toHaveBeenCalledWith(new Error('Command failed'), '/topic');
+    });
+  });
+
+  describe('Threads', () => {
+    it('passes thread reply counts to ChatMessageList', () => {
+      render(<ChatWindow roomName="general" />);
+
+      expect(screen.getByText('Thread Replies: {"msg1":1}')).toBeInTheDocument();
+    });
+
+    it('opens the thread panel with the thread replies and closes it', () => {
+      render(<ChatWindow roomName="general" />);
+      expect(screen.queryByTestId('thread-panel')).not.toBeInTheDocument();
+
+      fireEvent.click(screen.getByText('Open Thread'));
+      expect(screen.getByText('Thread Parent: msg1')).toBeInTheDocument();
+      expect(screen.getByText('Thread Reply Count: 1')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByText('Close Thread'));
+      expect(screen.queryByTestId('thread-panel')).not.toBeInTheDocument();
+    });
+
+    it('sends thread replies through the outbox, pending in the thread only', async () => {
+      mockSendMessage.mockReturnValueOnce(new Promise(() => {}));
+      render(<ChatWindow roomName="general" outboxStore={new OutboxStore({ persist: false })} />);
+      fireEvent.click(screen.getByText('Open Thread'));
+
+      fireEvent.click(screen.getByText('Send Thread Reply'));
+
+      await waitFor(() => {
+        expect(mockSendMessage).toHaveBeenCalledWith({
+          text: 'Thread reply',
+          headers: { threadParent: 'msg1' },
+        });
+      });
+      expect(screen.getByText('Pending Thread Replies: Thread reply')).toBeInTheDocument();
+      expect(screen.queryByTestId('pending-message')).not.toBeInTheDocument();
+    });
+
+    it('closes the thread when the room changes', () => {
+      const { rerender } = render(<ChatWindow roomName="general" />);
+      fireEvent.click(screen.getByText('Open Thread'));
+
+      rerender(<ChatWindow roomName="random" />);
+      expect(screen.queryByTestId('thread-panel')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Pinned messages', () => {
+    it('does not offer pinning unless allowMessagePins is enabled', () => {
+      render(<ChatWindow roomName="general" pinStore={new LocalPinStore({ persist: false })} />);
+
+      expect(screen.queryByText('Toggle Pin')).not.toBeInTheDocument();
+      expect(screen.queryByTestId('chat-window-header')).not.toBeInTheDocument();
+    });
+
+    it('pins and unpins messages, listing pins in the header', async () => {
+      mockSettings.allowMessagePins = true;
+      render(<ChatWindow roomName="general" pinStore={new LocalPinStore({ persist: false })} />);
+
+      fireEvent.click(screen.getByText('Toggle Pin'));
+      await waitFor(() => {
+        expect(screen.getByText('Pinned: msg1')).toBeInTheDocument();
+      });
+      expect(screen.getByTestId('chat-window-header')).toBeInTheDocument();
+      expect(screen.getByText('Pins: msg1 by test-user')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByText('Toggle Pin'));
+      await waitFor(() => {
+        expect(screen.getByText('Pinned: none')).toBeInTheDocument();
+      });
+      expect(screen.queryByTestId('chat-window-header')).not.toBeInTheDocument();
+    });
+
+    it('shows pins to users who cannot pin, without unpin buttons', async () => {
+      const pinStore = new LocalPinStore({ persist: false });
+      await pinStore.pin('general', {
+        serial: 'msg2',
+        clientId: 'user2',
+        text: 'How are you?',
+        pinnedAt: new Date(),
+      });
+      render(<ChatWindow roomName="general" pinStore={pinStore} />);
+
+      expect(screen.getByText('Pins: msg2 by unknown')).toBeInTheDocument();
+      expect(screen.queryByText('Unpin')).not.toBeInTheDocument();
+    });
+
+    it('jumps to a pinned message when it is selected', async () => {
+      const pinStore = new LocalPinStore({ persist: false });
+      await pinStore.pin('general', {
+        serial: 'msg2',
+        clientId: 'user2',
+        text: 'How are you?',
+        pinnedAt: new Date(),
+      });
+      render(<ChatWindow roomName="general" pinStore={pinStore} />);
+
+      fireEvent.click(screen.getByText('Select Pin'));
+
+      expect(mockJumpToMessage.mock.lastCall?.[0]).toBe('msg2');
+      await waitFor(() => {
+        expect(screen.getByText('Highlighted: msg2')).toBeInTheDocument();
+      });
+    });
+
+    it('calls onPinMessageError when the pin store fails', async () => {
+      mockSettings.allowMessagePins = true;
+      const pinStore = new LocalPinStore({ persist: false });
+      const error = new Error('Pin service unavailable');
+      vi.spyOn(pinStore, 'pin').mockRejectedValue(error);
+      const onPinMessageError = vi.fn();
+      render(<ChatWindow roomName="general" pinStore={pinStore} onError={{ onPinMessageError }} />);
+
+      fireEvent.click(screen.getByText('Toggle Pin'));
+
+      await waitFor(() => {
+        expect(onPinMessageError).toHaveBeenCalledWith(error, 'msg1');
+      });
+    });
+  });
+
+  describe('Attachments', () => {
+    const file = new File(['hello'], 'notes.txt', { type: 'text/plain' });
+
+    it('does not accept attachments without an uploader', () => {
+      render(<ChatWindow roomName="general" />);
+
+      expect(screen.getByText('Attachments: disabled')).toBeInTheDocument();
+    });
+
+    it('uploads files dropped onto the window', async () => {
+      render(<ChatWindow roomName="general" attachmentUploader={new MockAttachmentUploader()} />);
+      const chatWindow = screen.getByRole('main');
+
+      fireEvent.dragOver(chatWindow, { dataTransfer: { types: ['Files'], files: [] } });
+      expect(screen.getByText('Drop files to attach')).toBeInTheDocument();
+
+      fireEvent.drop(chatWindow, { dataTransfer: { types: ['Files'], files: [file] } });
+      expect(screen.queryByText('Drop files to attach')).not.toBeInTheDocument();
+      await waitFor(() => {
+        expect(screen.getByText('Attachments: notes.txt uploaded')).toBeInTheDocument();
+      });
+    });
+
+    it('uploads files pasted onto the window', async () => {
+      render(<ChatWindow roomName="general" attachmentUploader={new MockAttachmentUploader()} />);
+
+      fireEvent.paste(screen.getByRole('main'), { clipboardData: { files: [file] } });
+
+      await waitFor(() => {
+        expect(screen.getByText('Attachments: notes.txt uploaded')).toBeInTheDocument();
+      });
+    });
+
+    it('calls onAttachmentUploadError when an upload fails', async () => {
+      const error = new Error('Storage unavailable');
+      const onAttachmentUploadError = vi.fn();
+      render(
+        <ChatWindow
+          roomName="general"
+          attachmentUploader={{ upload: () => Promise.reject(error) }}
+          onError={{ onAttachmentUploadError }}
+        />
+      );
+
+      fireEvent.paste(screen.getByRole('main'), { clipboardData: { files: [file] } });
+
+      await waitFor(() => {
+        expect(onAttachmentUploadError).toHaveBeenCalledWith(error, file);
+      });
+    });
+
+    it('drops attachments when the room changes', async () => {
+      const attachmentUploader = new MockAttachmentUploader();
+      const { rerender } = render(
+        <ChatWindow roomName="general" attachmentUploader={attachmentUploader} />
+      );
+      fireEvent.paste(screen.getByRole('main'), { clipboardData: { files: [file] } });
+      await waitFor(() => {
+        expect(screen.getByText('Attachments: notes.txt uploaded')).toBeInTheDocument();
+      });
+
+      rerender(<ChatWindow roomName="random" attachmentUploader={attachmentUploader} />);
+
+      expect(screen.getByText('Attachments: none')).toBeInTheDocument();
+    });
+  });
+
   describe('autoEnterPresence prop', () => {
     it('enters presence by default when autoEnterPresence is not specified', () => {
       render(<ChatWindow roomName="general" />);
@@ -475,23 +1211,25 @@ describe('ChatWindow', () => {
       });
     });
 
-    it('passes onMessageSendError to MessageInput component', async () => {
+    it('calls onMessageSendError when sending a message fails', async () => {
       let errorInfo: ErrorInfo | undefined;
+      let failedText: string | undefined;
+      mockSendMessage.mockRejectedValueOnce(new ErrorInfo('Failed to send message', 50000, 500));
 
       render(
         <ChatWindow
           roomName="general"
+          outboxStore={new OutboxStore({ persist: false })}
           onError={{
-            onMessageSendError: () => {
-              errorInfo = new ErrorInfo('Failed to send message', 50000, 500);
+            onMessageSendError: (error, text) => {
+              errorInfo = error;
+              failedText = text;
             },
           }}
         />
       );
 
-      expect(screen.getByTestId('trigger-send-error-button')).toBeInTheDocument();
-
-      fireEvent.click(screen.getByTestId('trigger-send-error-button'));
+      fireEvent.click(screen.getByTestId('send-message-button'));
 
       await waitFor(() => {
         expect(errorInfo).toBeDefined();
@@ -500,6 +1238,7 @@ describe('ChatWindow', () => {
           message: 'Failed to send message',
         });
       });
+      expect(failedText).toBe('New message');
     });
   });
 });
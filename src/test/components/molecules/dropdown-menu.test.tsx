@@ -1,4 +1,4 @@
-import { fireEvent, render, screen } from '@testing-library/react';
+import { act, fireEvent, render, screen } from '@testing-library/react';
 import React from 'react';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
@@ -272,4 +272,56 @@ describe('DropdownMenu', () => {
       expect(item).toHaveAttribute('tabIndex', '-1');
     }
   });
+
+  describe('as a context menu', () => {
+    it('opens on right-click in place of the browser menu', () => {
+      render(<DropdownMenu openOn="contextmenu" trigger={<p>Message</p>} items={mockItems} />);
+
+      // The trigger is not turned into a button
+      expect(screen.queryByRole('button')).not.toBeInTheDocument();
+      fireEvent.click(screen.getByText('Message'));
+      expect(screen.queryByRole('menu')).not.toBeInTheDocument();
+
+      const event = new MouseEvent('contextmenu', { bubbles: true, cancelable: true });
+      fireEvent(screen.getByText('Message'), event);
+
+      expect(event.defaultPrevented).toBe(true);
+      expect(screen.getByRole('menu')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole('menuitem', { name: 'Edit' }));
+      expect(mockItems[0]?.onClick).toHaveBeenCalledTimes(1);
+      expect(screen.queryByRole('menu')).not.toBeInTheDocument();
+    });
+
+    it('opens on long press', () => {
+      vi.useFakeTimers();
+      render(<DropdownMenu openOn="contextmenu" trigger={<p>Message</p>} items={mockItems} />);
+      const trigger = screen.getByText('Message');
+
+      // A short tap does not open the menu
+      fireEvent.touchStart(trigger, { touches: [{ clientX: 10, clientY: 10 }] });
+      fireEvent.touchEnd(trigger);
+      act(() => {
+        vi.advanceTimersByTime(500);
+      });
+      expect(screen.queryByRole('menu')).not.toBeInTheDocument();
+
+      fireEvent.touchStart(trigger, { touches: [{ clientX: 10, clientY: 10 }] });
+      act(() => {
+        vi.advanceTimersByTime(500);
+      });
+      expect(screen.getByRole('menu')).toBeInTheDocument();
+      vi.useRealTimers();
+    });
+
+    it('keeps the browser menu when there are no items', () => {
+      render(<DropdownMenu openOn="contextmenu" trigger={<p>Message</p>} items={[]} />);
+
+      const event = new MouseEvent('contextmenu', { bubbles: true, cancelable: true });
+      fireEvent(screen.getByText('Message'), event);
+
+      expect(event.defaultPrevented).toBe(false);
+      expect(screen.queryByRole('menu')).not.toBeInTheDocument();
+    });
+  });
 });
@@ -0,0 +1,89 @@
+import '@testing-library/jest-dom';
+
+import { ChatMessageAction } from '@ably/chat';
+import { fireEvent, render, screen, within } from '@testing-library/react';
+import React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+
+import { createMockMessage } from '../../../../.storybook/mocks/mock-ably-chat.ts';
+import { EditHistoryDialog } from '../../../components/molecules/edit-history-dialog.tsx';
+
+const sentAt = new Date('2025-01-02T12:00:00Z');
+const original = createMockMessage({
+  serial: 'msg-1',
+  clientId: 'alice',
+  text: 'Meet at 3pm',
+  timestamp: sentAt,
+  version: { serial: 'v1', timestamp: sentAt },
+});
+const edited = createMockMessage({
+  serial: 'msg-1',
+  clientId: 'alice',
+  text: 'Meet at 4pm',
+  timestamp: sentAt,
+  action: ChatMessageAction.MessageUpdate,
+  version: { serial: 'v2', timestamp: new Date('2025-01-02T12:05:00Z'), clientId: 'bob' },
+});
+
+describe('EditHistoryDialog', () => {
+  it('renders nothing when closed', () => {
+    render(
+      <EditHistoryDialog
+        isOpen={false}
+        onClose={vi.fn()}
+        message={edited}
+        previousVersions={[original]}
+      />
+    );
+
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  });
+
+  it('lists versions newest first with their authors and the words each edit changed', () => {
+    render(
+      <EditHistoryDialog isOpen onClose={vi.fn()} message={edited} previousVersions={[original]} />
+    );
+
+    const versions = within(screen.getByRole('list', { name: 'Message versions' })).getAllByRole(
+      'listitem'
+    );
+    expect(versions).toHaveLength(2);
+    expect(versions[0]).toHaveTextContent('Edited by bob');
+    expect(versions[0]).toHaveTextContent('(current)');
+    expect(versions[1]).toHaveTextContent('Sent by alice');
+    expect(versions[1]).toHaveTextContent('Meet at 3pm');
+
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    const latest = versions[0]!;
+    expect(latest.querySelector('del')).toHaveTextContent('3pm');
+    expect(latest.querySelector('ins')).toHaveTextContent('4pm');
+    expect(
+      screen.queryByText('Versions from before the room was opened are not available.')
+    ).not.toBeInTheDocument();
+  });
+
+  it('notes when the original version is not known', () => {
+    render(<EditHistoryDialog isOpen onClose={vi.fn()} message={edited} previousVersions={[]} />);
+
+    expect(screen.getAllByRole('listitem')).toHaveLength(1);
+    expect(
+      screen.getByText('Versions from before the room was opened are not available.')
+    ).toBeInTheDocument();
+  });
+
+  it('closes from the close button, the backdrop and the escape key', () => {
+    const onClose = vi.fn();
+    const { container } = render(
+      <EditHistoryDialog isOpen onClose={onClose} message={edited} previousVersions={[original]} />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Close dialog' }));
+    fireEvent.click(screen.getByRole('dialog'));
+    expect(onClose).toHaveBeenCalledTimes(1);
+
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    fireEvent.click(container.firstElementChild!);
+    fireEvent.keyDown(document, { key: 'Escape' });
+    expect(onClose).toHaveBeenCalledTimes(3);
+  });
+});
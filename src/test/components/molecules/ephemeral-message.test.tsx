@@ -0,0 +1,33 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+
+import { EphemeralMessage } from '../../../components/molecules/ephemeral-message.tsx';
+import { EphemeralResponse } from '../../../utils/slash-commands.ts';
+
+describe('EphemeralMessage', () => {
+  const response: EphemeralResponse = {
+    id: 'response-1',
+    command: '/giphy zzz',
+    text: 'No GIFs found for "zzz"',
+    timestamp: new Date(),
+  };
+
+  it('shows the command and its response as only visible to the user', () => {
+    render(<EphemeralMessage response={response} />);
+
+    const article = screen.getByRole('article', { name: 'Response only visible to you' });
+    expect(article).toHaveTextContent('/giphy zzz');
+    expect(article).toHaveTextContent('No GIFs found for "zzz"');
+    expect(screen.getByText('Only visible to you')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Dismiss' })).not.toBeInTheDocument();
+  });
+
+  it('can be dismissed', () => {
+    const onDismiss = vi.fn();
+    render(<EphemeralMessage response={response} onDismiss={onDismiss} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Dismiss' }));
+    expect(onDismiss).toHaveBeenCalledWith('response-1');
+  });
+});
@@ -0,0 +1,55 @@
+import '@testing-library/jest-dom';
+
+import { fireEvent, render, screen } from '@testing-library/react';
+import React from 'react';
+import { describe, expect, it } from 'vitest';
+
+import { LinkPreviewCard } from '../../../components/molecules/link-preview-card.tsx';
+
+describe('LinkPreviewCard', () => {
+  it('renders the title, description, host and image as a link to the page', () => {
+    const { container } = render(
+      <LinkPreviewCard
+        preview={{
+          url: 'https://www.ably.com/docs',
+          title: 'Ably Docs',
+          description: 'Build realtime apps',
+          image: 'https://ably.com/og.png',
+        }}
+      />
+    );
+
+    const card = screen.getByRole('link', { name: 'Ably Docs (ably.com)' });
+    expect(card).toHaveAttribute('href', 'https://www.ably.com/docs');
+    expect(card).toHaveAttribute('rel', 'noopener noreferrer');
+    expect(screen.getByText('Build realtime apps')).toBeInTheDocument();
+    expect(container.querySelector('img')).toHaveAttribute('src', 'https://ably.com/og.png');
+  });
+
+  it('renders nothing for pages that are not http(s), and skips unsafe images', () => {
+    const { container, rerender } = render(
+      <LinkPreviewCard preview={{ url: 'javascript:alert(1)', title: 'Click me' }} />
+    );
+    expect(container).toBeEmptyDOMElement();
+
+    rerender(
+      <LinkPreviewCard preview={{ url: 'https://ably.com', image: 'javascript:alert(1)' }} />
+    );
+    expect(screen.getByRole('link', { name: 'ably.com' })).toBeInTheDocument();
+    expect(container.querySelector('img')).toBeNull();
+  });
+
+  it('hides images that fail to load', () => {
+    const { container } = render(
+      <LinkPreviewCard
+        preview={{ url: 'https://ably.com', image: 'https://ably.com/broken.png' }}
+      />
+    );
+
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    fireEvent.error(container.querySelector('img')!);
+
+    expect(container.querySelector('img')).toBeNull();
+    expect(screen.getByRole('link', { name: 'ably.com' })).toBeInTheDocument();
+  });
+});
@@ -1,3 +1,4 @@
+import { MessageReactionType } from '@ably/chat';
 import { type UseRoomResponse } from '@ably/chat/react';
 import { fireEvent, render, screen } from '@testing-library/react';
 import React from 'react';
@@ -5,7 +6,10 @@ import { beforeEach, describe, expect, it, vi } from 'vitest';
 
 import { ButtonProps } from '../../../components/atoms/button.tsx';
 import { IconProps } from '../../../components/atoms/icon.tsx';
-import { MessageActions } from '../../../components/molecules/message-actions.tsx';
+import {
+  getMessageActionItems,
+  MessageActions,
+} from '../../../components/molecules/message-actions.tsx';
 import { ChatSettings, ChatSettingsContextType } from '../../../context/chat-settings-context.tsx';
 import { useChatSettings } from '../../../hooks/use-chat-settings.tsx';
 
@@ -60,6 +64,7 @@ const createMockUseSettings = (
       allowMessageDeletesOwn: true,
       allowMessageDeletesAny: false,
       allowMessageReactions: true,
+      messageReactionType: MessageReactionType.Distinct,
     }),
     ...settings,
   } as ChatSettingsContextType;
@@ -72,6 +77,9 @@ describe('MessageActions', () => {
     allowMessageDeletesOwn: true,
     allowMessageDeletesAny: false,
     allowMessageReactions: true,
+    messageReactionType: MessageReactionType.Distinct,
+    allowMessagePins: false,
+    enableMarkdown: false,
   };
 
   beforeEach(() => {
@@ -196,6 +204,9 @@ describe('MessageActions', () => {
       allowMessageDeletesOwn: false,
       allowMessageDeletesAny: false,
       allowMessageReactions: true,
+      messageReactionType: MessageReactionType.Distinct,
+      allowMessagePins: false,
+      enableMarkdown: false,
     };
 
     vi.mocked(useChatSettings).mockReturnValue({
@@ -234,6 +245,55 @@ describe('MessageActions', () => {
     expect(handleReaction).toHaveBeenCalledTimes(1);
   });
 
+  it('renders a reply button for any message when onReplyButtonClicked is provided', () => {
+    const handleReply = vi.fn();
+
+    render(<MessageActions isOwn={false} onReplyButtonClicked={handleReply} />);
+
+    fireEvent.click(screen.getByLabelText('Reply to message'));
+
+    expect(handleReply).toHaveBeenCalledTimes(1);
+  });
+
+  it('renders a thread button when onThreadButtonClicked is provided', () => {
+    const handleThread = vi.fn();
+
+    render(<MessageActions isOwn={false} onThreadButtonClicked={handleThread} />);
+
+    fireEvent.click(screen.getByLabelText('Reply in thread'));
+
+    expect(handleThread).toHaveBeenCalledTimes(1);
+  });
+
+  it('only renders a pin button when allowMessagePins is enabled', () => {
+    const handlePin = vi.fn();
+    const { rerender } = render(<MessageActions isOwn={false} onPinButtonClicked={handlePin} />);
+    expect(screen.queryByRole('toolbar')).not.toBeInTheDocument();
+
+    const pinSettings: ChatSettings = { ...defaultSettings, allowMessagePins: true };
+    vi.mocked(useChatSettings).mockReturnValue({
+      globalSettings: pinSettings,
+      roomSettings: {},
+      getEffectiveSettings: () => pinSettings,
+    });
+    rerender(<MessageActions isOwn={false} onPinButtonClicked={handlePin} />);
+    fireEvent.click(screen.getByLabelText('Pin message'));
+    expect(handlePin).toHaveBeenCalledTimes(1);
+
+    rerender(<MessageActions isOwn={false} onPinButtonClicked={handlePin} isPinned={true} />);
+    expect(screen.getByLabelText('Unpin message')).toBeInTheDocument();
+  });
+
+  it('renders a view edits button when onViewEditsButtonClicked is provided', () => {
+    const handleViewEdits = vi.fn();
+
+    render(<MessageActions isOwn={false} onViewEditsButtonClicked={handleViewEdits} />);
+
+    fireEvent.click(screen.getByLabelText('View edits'));
+
+    expect(handleViewEdits).toHaveBeenCalledTimes(1);
+  });
+
   it('calls onEditButtonClicked when edit button is clicked', () => {
     const handleEdit = vi.fn();
 
@@ -297,4 +357,57 @@ describe('MessageActions', () => {
     expect(toolbar).toHaveClass('shadow-md');
     expect(toolbar).toHaveClass('p-1');
   });
+
+  it('shows custom actions in a more actions menu', () => {
+    const onSelect = vi.fn();
+    render(
+      <MessageActions
+        isOwn={false}
+        customActions={[{ id: 'report', label: 'Report', onClick: onSelect }]}
+      />
+    );
+
+    expect(screen.queryByRole('menu')).not.toBeInTheDocument();
+    fireEvent.click(screen.getByLabelText('More actions'));
+    fireEvent.click(screen.getByRole('menuitem', { name: 'Report' }));
+
+    expect(onSelect).toHaveBeenCalledTimes(1);
+    expect(screen.queryByRole('menu')).not.toBeInTheDocument();
+  });
+});
+
+describe('getMessageActionItems', () => {
+  const settings = {
+    allowMessageUpdatesOwn: true,
+    allowMessageUpdatesAny: false,
+    allowMessageDeletesOwn: true,
+    allowMessageDeletesAny: false,
+    allowMessageReactions: true,
+    allowMessagePins: false,
+  } as ChatSettings;
+
+  it('lists the permitted built-in actions followed by custom actions', () => {
+    const items = getMessageActionItems(
+      {
+        isOwn: false,
+        onReactionButtonClicked: vi.fn(),
+        onReplyButtonClicked: vi.fn(),
+        onPinButtonClicked: vi.fn(),
+        onEditButtonClicked: vi.fn(),
+        onDeleteButtonClicked: vi.fn(),
+        customActions: [{ id: 'report', label: 'Report', onClick: vi.fn() }],
+      },
+      settings
+    );
+
+    expect(items.map((item) => item.label)).toEqual(['Add reaction', 'Reply to message', 'Report']);
+  });
+
+  it('calls the action handler when an item is chosen', () => {
+    const onEdit = vi.fn();
+    const [edit] = getMessageActionItems({ isOwn: true, onEditButtonClicked: onEdit }, settings);
+
+    edit?.onClick();
+    expect(onEdit).toHaveBeenCalledTimes(1);
+  });
 });
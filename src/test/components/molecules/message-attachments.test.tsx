@@ -0,0 +1,50 @@
+import { render, screen } from '@testing-library/react';
+import React from 'react';
+import { describe, expect, it } from 'vitest';
+
+import { MessageAttachments } from '../../../components/molecules/message-attachments.tsx';
+
+describe('MessageAttachments', () => {
+  it('renders images and videos inline and other files as download links', () => {
+    render(
+      <MessageAttachments
+        attachments={[
+          {
+            url: 'https://cdn.example.com/cat.png',
+            name: 'cat.png',
+            mimeType: 'image/png',
+            size: 2048,
+          },
+          {
+            url: 'https://cdn.example.com/clip.mp4',
+            name: 'clip.mp4',
+            mimeType: 'video/mp4',
+            size: 4096,
+          },
+          {
+            url: 'https://cdn.example.com/report.pdf',
+            name: 'report.pdf',
+            mimeType: 'application/pdf',
+            size: 1536,
+          },
+        ]}
+      />
+    );
+
+    expect(screen.getByRole('img', { name: 'cat.png' })).toHaveAttribute(
+      'src',
+      'https://cdn.example.com/cat.png'
+    );
+    expect(screen.getByLabelText('clip.mp4').tagName).toBe('VIDEO');
+    const download = screen.getByRole('link', { name: /report\.pdf/ });
+    expect(download).toHaveAttribute('href', 'https://cdn.example.com/report.pdf');
+    expect(download).toHaveAttribute('download', 'report.pdf');
+    expect(download).toHaveTextContent('1.5 KB');
+  });
+
+  it('renders nothing without attachments', () => {
+    const { container } = render(<MessageAttachments attachments={[]} />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
@@ -3,11 +3,21 @@ import { cleanup, fireEvent, render, screen, waitFor } from '@testing-library/re
 import React from 'react';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
+import { createMockMessage } from '../../../../.storybook/mocks/mock-ably-chat.ts';
 import { ButtonProps } from '../../../components/atoms/button.tsx';
 import { IconProps } from '../../../components/atoms/icon.tsx';
 import { TextInputProps } from '../../../components/atoms/text-input.tsx';
 import { EmojiPickerProps } from '../../../components/molecules/emoji-picker.tsx';
 import { MessageInput } from '../../../components/molecules/message-input.tsx';
+import { UseAttachmentUploadsReturn } from '../../../hooks/use-attachment-uploads.tsx';
+import { MentionCandidate } from '../../../hooks/use-mention-candidates.tsx';
+import { UseUserAvatarReturn } from '../../../hooks/use-user-avatar.tsx';
+import {
+  meCommand,
+  shrugCommand,
+  SlashCommand,
+  SlashCommandRegistry,
+} from '../../../utils/slash-commands.ts';
 
 // Mocks the useTyping hook
 const mockSendMessage = vi.fn().mockResolvedValue({});
@@ -30,6 +40,21 @@ vi.mock('@ably/chat/react', () => ({
   }),
 }));
 
+const mockCandidates: MentionCandidate[] = [
+  { clientId: 'alice-1', displayName: 'Alice', isOnline: true },
+  { clientId: 'bob-1', displayName: 'Bob', isOnline: false },
+];
+
+vi.mock('../../../hooks/use-mention-candidates', () => ({
+  useMentionCandidates: () => mockCandidates,
+}));
+
+vi.mock('../../../hooks/use-user-avatar', () => ({
+  useUserAvatar: (): Partial<UseUserAvatarReturn> => ({
+    userAvatar: { displayName: 'Alice', initials: 'A' },
+  }),
+}));
+
 // Mocks the Button component
 vi.mock('../../../components/atoms/button', () => ({
   Button: ({
@@ -75,6 +100,7 @@ vi.mock('../../../components/atoms/text-input', () => {
         value,
         onChange,
         onKeyDown,
+        onPaste,
         placeholder,
         variant,
         multiline,
@@ -92,6 +118,7 @@ vi.mock('../../../components/atoms/text-input', () => {
         value={value}
         onChange={onChange}
         onKeyDown={onKeyDown}
+        onPaste={onPaste}
         placeholder={placeholder}
         className={className}
         aria-label={ariaLabel}
@@ -271,6 +298,454 @@ describe('MessageInput', () => {
     });
   });
 
+  it('hands the text to onSend and stays usable when sending is delegated', () => {
+    const onSend = vi.fn();
+    render(<MessageInput onSend={onSend} onSent={mockOnSent} />);
+
+    const input = screen.getByTestId('text-input');
+    fireEvent.change(input, { target: { value: '  Hello, world!  ' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    expect(onSend).toHaveBeenCalledWith('Hello, world!', undefined, undefined);
+    expect(mockSendMessage).not.toHaveBeenCalled();
+    expect(input).toHaveValue('');
+    expect(input).not.toBeDisabled();
+
+    fireEvent.change(input, { target: { value: 'Second message' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+    expect(onSend).toHaveBeenLastCalledWith('Second message', undefined, undefined);
+  });
+
+  it('suggests users after @ and sends the chosen mention in metadata', () => {
+    const onSend = vi.fn();
+    render(<MessageInput onSend={onSend} />);
+    const input = screen.getByTestId('text-input');
+
+    fireEvent.change(input, { target: { value: 'Hi @al' } });
+    expect(screen.getByRole('option', { name: /Alice/ })).toBeInTheDocument();
+    expect(screen.queryByRole('option', { name: /Bob/ })).not.toBeInTheDocument();
+
+    fireEvent.keyDown(input, { key: 'Enter' });
+    expect(input).toHaveValue('Hi @Alice ');
+    expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+    expect(onSend).not.toHaveBeenCalled();
+
+    fireEvent.change(input, { target: { value: 'Hi @Alice, lunch?' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    expect(onSend).toHaveBeenCalledWith(
+      'Hi @Alice, lunch?',
+      {
+        mentions: [{ clientId: 'alice-1', label: 'Alice' }],
+      },
+      undefined
+    );
+  });
+
+  it('moves through suggestions with the arrow keys and closes them with Escape', () => {
+    const onSend = vi.fn();
+    render(<MessageInput onSend={onSend} />);
+    const input = screen.getByTestId('text-input');
+
+    fireEvent.change(input, { target: { value: '@' } });
+    fireEvent.keyDown(input, { key: 'ArrowDown' });
+    expect(screen.getByRole('option', { name: /Bob/ })).toHaveAttribute('aria-selected', 'true');
+
+    fireEvent.keyDown(input, { key: 'Escape' });
+    expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+  });
+
+  it('does not send mentions that were removed before sending', () => {
+    const onSend = vi.fn();
+    render(<MessageInput onSend={onSend} />);
+    const input = screen.getByTestId('text-input');
+
+    fireEvent.change(input, { target: { value: '@Bo' } });
+    fireEvent.mouseDown(screen.getByRole('option', { name: /Bob/ }));
+    fireEvent.change(input, { target: { value: 'never mind' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    expect(onSend).toHaveBeenCalledWith('never mind', undefined, undefined);
+  });
+
+  it('quotes the message being replied to and sends the reply in metadata', () => {
+    const onSend = vi.fn();
+    const onClearReply = vi.fn();
+    const replyTo = createMockMessage({ serial: 'parent-1', clientId: 'alice-1', text: 'Lunch?' });
+    render(<MessageInput onSend={onSend} replyTo={replyTo} onClearReply={onClearReply} />);
+
+    expect(screen.getByRole('group', { name: 'Replying to' })).toHaveTextContent('AliceLunch?');
+
+    const input = screen.getByTestId('text-input');
+    fireEvent.change(input, { target: { value: 'Yes @Alice' } });
+    // Escape closes open mention suggestions before cancelling the reply
+    fireEvent.keyDown(input, { key: 'Escape' });
+    expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+    expect(onClearReply).not.toHaveBeenCalled();
+    fireEvent.keyDown(input, { key: 'Escape' });
+    expect(onClearReply).toHaveBeenCalledTimes(1);
+
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    expect(onSend).toHaveBeenCalledWith(
+      'Yes @Alice',
+      {
+        replyTo: { serial: 'parent-1', clientId: 'alice-1', text: 'Lunch?' },
+      },
+      undefined
+    );
+    expect(onClearReply).toHaveBeenCalledTimes(2);
+  });
+
+  it('cancels a reply with the close button', () => {
+    const onClearReply = vi.fn();
+    const replyTo = createMockMessage({ clientId: 'alice-1', text: 'Lunch?' });
+    render(<MessageInput onSend={vi.fn()} replyTo={replyTo} onClearReply={onClearReply} />);
+
+    fireEvent.click(screen.getByLabelText('Cancel reply'));
+
+    expect(onClearReply).toHaveBeenCalledTimes(1);
+  });
+
+  it('clears the reply only once a direct send succeeds', async () => {
+    const onClearReply = vi.fn();
+    const replyTo = createMockMessage({ serial: 'parent-1', clientId: 'alice-1', text: 'Lunch?' });
+    render(<MessageInput replyTo={replyTo} onClearReply={onClearReply} />);
+
+    const input = screen.getByTestId('text-input');
+    fireEvent.change(input, { target: { value: 'Yes' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    expect(mockSendMessage).toHaveBeenCalledWith({
+      text: 'Yes',
+      metadata: { replyTo: { serial: 'parent-1', clientId: 'alice-1', text: 'Lunch?' } },
+    });
+    await waitFor(() => {
+      expect(onClearReply).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it('asks to edit the last message when Up is pressed in the empty input', () => {
+    const onEditLastMessage = vi.fn();
+    render(<MessageInput onSend={vi.fn()} onEditLastMessage={onEditLastMessage} />);
+    const input = screen.getByTestId('text-input');
+
+    fireEvent.keyDown(input, { key: 'ArrowUp', shiftKey: true });
+    expect(onEditLastMessage).not.toHaveBeenCalled();
+
+    fireEvent.keyDown(input, { key: 'ArrowUp' });
+    expect(onEditLastMessage).toHaveBeenCalledTimes(1);
+
+    // Up moves the cursor as usual once there is text
+    fireEvent.change(input, { target: { value: 'Draft' } });
+    fireEvent.keyDown(input, { key: 'ArrowUp' });
+    expect(onEditLastMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends the headers with each message', () => {
+    render(<MessageInput headers={{ threadParent: 'parent-1' }} />);
+
+    const input = screen.getByTestId('text-input');
+    fireEvent.change(input, { target: { value: 'In the thread' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    expect(mockSendMessage).toHaveBeenCalledWith({
+      text: 'In the thread',
+      metadata: undefined,
+      headers: { threadParent: 'parent-1' },
+    });
+  });
+
+  describe('slash commands', () => {
+    const topicHandler = vi.fn<SlashCommand['handler']>();
+    const topicCommand: SlashCommand = {
+      name: 'topic',
+      description: 'Sets the room topic',
+      argsHint: '<topic>',
+      handler: topicHandler,
+    };
+    const createRegistry = () => new SlashCommandRegistry([shrugCommand, meCommand, topicCommand]);
+
+    it('suggests commands after / and completes the chosen one', () => {
+      render(<MessageInput onSend={vi.fn()} slashCommands={createRegistry()} />);
+      const input = screen.getByTestId('text-input');
+
+      fireEvent.change(input, { target: { value: '/' } });
+      const options = screen.getAllByRole('option');
+      expect(options.map((option) => option.textContent)).toEqual([
+        '/me <action>Describes what you are doing',
+        String.raw`/shrug [message]Appends ¯\_(ツ)_/¯ to your message`,
+        '/topic <topic>Sets the room topic',
+      ]);
+
+      fireEvent.change(input, { target: { value: '/t' } });
+      expect(screen.getAllByRole('option')).toHaveLength(1);
+      fireEvent.keyDown(input, { key: 'Enter' });
+
+      expect(input).toHaveValue('/topic ');
+      expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+    });
+
+    it('moves through commands with the arrow keys and closes them with Escape', () => {
+      render(<MessageInput onSend={vi.fn()} slashCommands={createRegistry()} />);
+      const input = screen.getByTestId('text-input');
+
+      fireEvent.change(input, { target: { value: '/' } });
+      fireEvent.keyDown(input, { key: 'ArrowDown' });
+      expect(screen.getByRole('option', { name: /shrug/ })).toHaveAttribute(
+        'aria-selected',
+        'true'
+      );
+
+      fireEvent.keyDown(input, { key: 'Escape' });
+      expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+    });
+
+    it('sends the message a command transforms the input into', async () => {
+      const onSend = vi.fn();
+      render(<MessageInput onSend={onSend} slashCommands={createRegistry()} />);
+      const input = screen.getByTestId('text-input');
+
+      fireEvent.change(input, { target: { value: '/me waves' } });
+      fireEvent.keyDown(input, { key: 'Enter' });
+
+      await waitFor(() => {
+        expect(onSend).toHaveBeenCalledWith('waves', { emote: true }, undefined);
+      });
+      expect(input).toHaveValue('');
+    });
+
+    it('sends command messages through the room when not delegated', async () => {
+      render(<MessageInput onSent={mockOnSent} slashCommands={createRegistry()} />);
+      const input = screen.getByTestId('text-input');
+
+      fireEvent.change(input, { target: { value: '/shrug oh well' } });
+      fireEvent.keyDown(input, { key: 'Enter' });
+
+      await waitFor(() => {
+        expect(mockSendMessage).toHaveBeenCalledWith({
+          text: String.raw`oh well ¯\_(ツ)_/¯`,
+          metadata: undefined,
+          headers: undefined,
+        });
+      });
+      await waitFor(() => {
+        expect(input).toHaveValue('');
+      });
+    });
+
+    it('shows ephemeral responses instead of sending', async () => {
+      const onSend = vi.fn();
+      const onEphemeralResponse = vi.fn();
+      topicHandler.mockResolvedValueOnce({ type: 'ephemeral', text: 'Topics are disabled' });
+      render(
+        <MessageInput
+          onSend={onSend}
+          slashCommands={createRegistry()}
+          onEphemeralResponse={onEphemeralResponse}
+        />
+      );
+      const input = screen.getByTestId('text-input');
+
+      fireEvent.change(input, { target: { value: '/topic Planning' } });
+      fireEvent.keyDown(input, { key: 'Enter' });
+
+      await waitFor(() => {
+        expect(onEphemeralResponse).toHaveBeenCalledWith(
+          expect.objectContaining({ command: '/topic Planning', text: 'Topics are disabled' })
+        );
+      });
+      expect(topicHandler).toHaveBeenCalledWith('Planning');
+      expect(onSend).not.toHaveBeenCalled();
+      expect(input).toHaveValue('');
+    });
+
+    it('clears the input after a local action, sending nothing', async () => {
+      const onSend = vi.fn();
+      topicHandler.mockResolvedValueOnce(undefined);
+      render(<MessageInput onSend={onSend} slashCommands={createRegistry()} />);
+      const input = screen.getByTestId('text-input');
+
+      fireEvent.change(input, { target: { value: '/TOPIC Planning' } });
+      fireEvent.keyDown(input, { key: 'Enter' });
+
+      await waitFor(() => {
+        expect(input).toHaveValue('');
+      });
+      expect(topicHandler).toHaveBeenCalledWith('Planning');
+      expect(onSend).not.toHaveBeenCalled();
+    });
+
+    it('keeps the command and reports the error when a command fails', async () => {
+      const onCommandError = vi.fn();
+      const error = new Error('Not allowed');
+      topicHandler.mockRejectedValueOnce(error);
+      render(
+        <MessageInput
+          onSend={vi.fn()}
+          slashCommands={createRegistry()}
+          onCommandError={onCommandError}
+        />
+      );
+      const input = screen.getByTestId('text-input');
+
+      fireEvent.change(input, { target: { value: '/topic Planning' } });
+      fireEvent.keyDown(input, { key: 'Enter' });
+
+      await waitFor(() => {
+        expect(onCommandError).toHaveBeenCalledWith(error, '/topic Planning');
+      });
+      expect(input).toHaveValue('/topic Planning');
+      expect(input).not.toBeDisabled();
+    });
+
+    it('reports commands that throw and unlocks the input', async () => {
+      const onCommandError = vi.fn();
+      const error = new Error('Broken handler');
+      topicHandler.mockImplementationOnce(() => {
+        throw error;
+      });
+      const onSend = vi.fn();
+      render(
+        <MessageInput
+          onSend={onSend}
+          slashCommands={createRegistry()}
+          onCommandError={onCommandError}
+        />
+      );
+      const input = screen.getByTestId('text-input');
+
+      fireEvent.change(input, { target: { value: '/topic Planning' } });
+      fireEvent.keyDown(input, { key: 'Enter' });
+
+      await waitFor(() => {
+        expect(onCommandError).toHaveBeenCalledWith(error, '/topic Planning');
+      });
+      expect(input).not.toBeDisabled();
+
+      fireEvent.change(input, { target: { value: 'Still works' } });
+      fireEvent.keyDown(input, { key: 'Enter' });
+      expect(onSend).toHaveBeenCalledWith('Still works', undefined, undefined);
+    });
+
+    it('sends unregistered commands and all commands without a registry as typed', () => {
+      const onSend = vi.fn();
+      const { rerender } = render(
+        <MessageInput onSend={onSend} slashCommands={createRegistry()} />
+      );
+      const input = screen.getByTestId('text-input');
+
+      fireEvent.change(input, { target: { value: '/unknown thing' } });
+      fireEvent.keyDown(input, { key: 'Enter' });
+      expect(onSend).toHaveBeenLastCalledWith('/unknown thing', undefined, undefined);
+
+      rerender(<MessageInput onSend={onSend} />);
+      fireEvent.change(input, { target: { value: '/shrug' } });
+      expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+      fireEvent.keyDown(input, { key: 'Enter' });
+      expect(onSend).toHaveBeenLastCalledWith('/shrug', undefined, undefined);
+    });
+  });
+
+  describe('attachments', () => {
+    const file = new File(['hello'], 'notes.txt', { type: 'text/plain' });
+    const attachment = {
+      url: 'https://cdn.example.com/notes.txt',
+      name: 'notes.txt',
+      mimeType: 'text/plain',
+      size: 5,
+    };
+    const createUploads = (
+      overrides: Partial<UseAttachmentUploadsReturn> = {}
+    ): UseAttachmentUploadsReturn => ({
+      uploads: [],
+      attachments: [],
+      isUploading: false,
+      addFiles: vi.fn(),
+      remove: vi.fn(),
+      clear: vi.fn(),
+      ...overrides,
+    });
+
+    it('only shows the attach button when attachment uploads are given', () => {
+      const { rerender } = render(<MessageInput onSend={vi.fn()} />);
+      expect(screen.queryByLabelText('Attach files')).not.toBeInTheDocument();
+
+      rerender(<MessageInput onSend={vi.fn()} attachmentUploads={createUploads()} />);
+      expect(screen.getByLabelText('Attach files')).toBeInTheDocument();
+    });
+
+    it('attaches chosen and pasted files', () => {
+      const attachmentUploads = createUploads();
+      render(<MessageInput onSend={vi.fn()} attachmentUploads={attachmentUploads} />);
+
+      fireEvent.change(screen.getByTestId('attachment-file-input'), { target: { files: [file] } });
+      expect(attachmentUploads.addFiles).toHaveBeenCalledWith([file]);
+
+      fireEvent.paste(screen.getByTestId('text-input'), { clipboardData: { files: [file] } });
+      expect(attachmentUploads.addFiles).toHaveBeenCalledTimes(2);
+    });
+
+    it('shows attached files with their progress and removes them', () => {
+      const attachmentUploads = createUploads({
+        uploads: [
+          { id: 'u1', file, progress: 0.5, status: 'uploading' },
+          { id: 'u2', file: new File([''], 'broken.png'), progress: 0, status: 'failed' },
+        ],
+        isUploading: true,
+      });
+      render(<MessageInput onSend={vi.fn()} attachmentUploads={attachmentUploads} />);
+
+      expect(screen.getByRole('progressbar', { name: 'Uploading notes.txt' })).toHaveAttribute(
+        'aria-valuenow',
+        '50'
+      );
+      expect(screen.getByText('Upload failed')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByLabelText('Cancel upload of notes.txt'));
+      fireEvent.click(screen.getByLabelText('Remove broken.png'));
+      expect(attachmentUploads.remove).toHaveBeenCalledWith('u1');
+      expect(attachmentUploads.remove).toHaveBeenCalledWith('u2');
+    });
+
+    it('sends uploaded attachments in metadata, even without text, and clears them', () => {
+      const onSend = vi.fn();
+      const attachmentUploads = createUploads({
+        uploads: [{ id: 'u1', file, progress: 1, status: 'uploaded', attachment }],
+        attachments: [attachment],
+      });
+      render(<MessageInput onSend={onSend} attachmentUploads={attachmentUploads} />);
+
+      fireEvent.keyDown(screen.getByTestId('text-input'), { key: 'Enter' });
+
+      expect(onSend).toHaveBeenCalledWith('', { attachments: [attachment] }, undefined);
+      expect(attachmentUploads.clear).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not send while files are still uploading', () => {
+      const onSend = vi.fn();
+      const attachmentUploads = createUploads({
+        uploads: [{ id: 'u1', file, progress: 0.2, status: 'uploading' }],
+        isUploading: true,
+      });
+      render(<MessageInput onSend={onSend} attachmentUploads={attachmentUploads} />);
+
+      const input = screen.getByTestId('text-input');
+      fireEvent.change(input, { target: { value: 'Here it is' } });
+      fireEvent.keyDown(input, { key: 'Enter' });
+
+      expect(onSend).not.toHaveBeenCalled();
+    });
+  });
+
+  it('does not suggest mentions when disabled', () => {
+    render(<MessageInput onSend={vi.fn()} enableMentions={false} />);
+
+    fireEvent.change(screen.getByTestId('text-input'), { target: { value: '@al' } });
+
+    expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+  });
+
   it('does not call onSend when Shift+Enter is pressed', () => {
     render(<MessageInput onSent={mockOnSent} />);
 
@@ -1,9 +1,21 @@
-import { Message } from '@ably/chat';
-import { fireEvent, render, screen } from '@testing-library/react';
+import { Message, MessageReactionType } from '@ably/chat';
+import { act, fireEvent, render, screen, within } from '@testing-library/react';
 import React from 'react';
 import { describe, expect, it, vi } from 'vitest';
 
 import { MessageReactions } from '../../../components/molecules/message-reactions.tsx';
+import { UseUserAvatarReturn } from '../../../hooks/use-user-avatar.tsx';
+
+// Mock the useUserAvatar hook so we don't need to provide an actual avatar context
+vi.mock('../../../hooks/use-user-avatar.tsx', () => ({
+  useUserAvatar: ({ clientId }: { clientId: string }): Partial<UseUserAvatarReturn> => ({
+    userAvatar: {
+      displayName: `Name of ${clientId}`,
+      initials: clientId.slice(0, 2).toUpperCase(),
+      color: '#ff0000',
+    },
+  }),
+}));
 
 // Create a mock message with reactions
 const createMockMessage = (reactions: Record<string, { total: number; clientIds: string[] }>) => {
@@ -177,4 +189,181 @@ describe('MessageReactions', () => {
     expect(container).toHaveClass('gap-1');
     expect(container).toHaveClass('mt-2');
   });
+
+  describe('who reacted', () => {
+    it('lists reactors on hover, current user first, summarising the rest', () => {
+      const clientIds = ['user2', 'user3', 'user1', 'user4', 'user5', 'user6', 'user7'];
+      const message = createMockMessage({ '👍': { total: 9, clientIds } });
+
+      render(<MessageReactions message={message} currentClientId="user1" />);
+      const button = screen.getByRole('button', { name: /👍 reaction/ });
+      expect(screen.queryByRole('tooltip')).not.toBeInTheDocument();
+
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      fireEvent.mouseEnter(button.parentElement!);
+
+      const tooltip = screen.getByRole('tooltip');
+      expect(button).toHaveAttribute('aria-describedby', tooltip.id);
+      expect(
+        within(tooltip)
+          .getAllByRole('listitem')
+          .map((item) => item.lastChild?.textContent)
+      ).toEqual(['You', 'Name of user2', 'Name of user3', 'Name of user4', 'Name of user5']);
+      expect(tooltip).toHaveTextContent('and 4 others');
+
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      fireEvent.mouseLeave(button.parentElement!);
+      expect(screen.queryByRole('tooltip')).not.toBeInTheDocument();
+    });
+
+    it('shows reactors on keyboard focus and hides them with escape', () => {
+      const message = createMockMessage({ '❤️': { total: 1, clientIds: ['user3'] } });
+
+      render(<MessageReactions message={message} currentClientId="user1" />);
+      const button = screen.getByRole('button', { name: /❤️ reaction/ });
+
+      fireEvent.focus(button);
+      expect(screen.getByRole('tooltip')).toHaveTextContent('Name of user3');
+      expect(screen.getByRole('tooltip')).not.toHaveTextContent('other');
+
+      fireEvent.keyDown(button, { key: 'Escape' });
+      expect(screen.queryByRole('tooltip')).not.toBeInTheDocument();
+    });
+
+    it('shows reactors on long press without toggling the reaction', () => {
+      vi.useFakeTimers();
+      const handleReactionClick = vi.fn();
+      const message = createMockMessage({ '👍': { total: 1, clientIds: ['user2'] } });
+
+      render(
+        <MessageReactions
+          message={message}
+          currentClientId="user1"
+          onReactionClick={handleReactionClick}
+        />
+      );
+      const button = screen.getByRole('button', { name: /👍 reaction/ });
+
+      fireEvent.touchStart(button);
+      act(() => {
+        vi.advanceTimersByTime(500);
+      });
+      fireEvent.touchEnd(button);
+      fireEvent.click(button);
+
+      expect(screen.getByRole('tooltip')).toHaveTextContent('Name of user2');
+      expect(handleReactionClick).not.toHaveBeenCalled();
+
+      // A short tap still toggles the reaction
+      fireEvent.touchStart(button);
+      fireEvent.touchEnd(button);
+      fireEvent.click(button);
+      expect(handleReactionClick).toHaveBeenCalledWith('👍');
+      vi.useRealTimers();
+    });
+  });
+
+  describe('reaction types', () => {
+    it('shows unique reactions from the unique summary', () => {
+      const message = {
+        reactions: {
+          distinct: { '👍': { total: 3, clientIds: ['user1', 'user2', 'user3'] } },
+          unique: { '🎉': { total: 1, clientIds: ['user1'] } },
+          multiple: {},
+        },
+      } as unknown as Message;
+
+      render(
+        <MessageReactions
+          message={message}
+          reactionType={MessageReactionType.Unique}
+          currentClientId="user1"
+        />
+      );
+
+      expect(screen.queryByText('👍')).not.toBeInTheDocument();
+      expect(
+        screen.getByRole('button', { name: '🎉 reaction (you reacted), 1 person' })
+      ).toHaveAttribute('aria-pressed', 'true');
+    });
+
+    it('shows per-user counts for multiple reactions and adds on click', () => {
+      const handleReactionClick = vi.fn();
+      const handleReactionRemove = vi.fn();
+      const message = {
+        reactions: {
+          distinct: {},
+          unique: {},
+          multiple: {
+            '👏': {
+              total: 5,
+              clientIds: { user1: 3, user2: 2 },
+              totalUnidentified: 0,
+              clipped: false,
+              totalClientIds: 2,
+            },
+          },
+        },
+      } as unknown as Message;
+
+      render(
+        <MessageReactions
+          message={message}
+          reactionType={MessageReactionType.Multiple}
+          currentClientId="user1"
+          onReactionClick={handleReactionClick}
+          onReactionRemove={handleReactionRemove}
+        />
+      );
+
+      const button = screen.getByRole('button', {
+        name: '👏 reaction (you reacted 3 times), 5 reactions',
+      });
+      expect(button).not.toHaveAttribute('aria-pressed');
+      expect(screen.getByText('5')).toBeInTheDocument();
+
+      fireEvent.focus(button);
+      expect(
+        within(screen.getByRole('tooltip'))
+          .getAllByRole('listitem')
+          .map((item) => item.textContent)
+      ).toEqual(['USYou×3', 'USName of user2×2']);
+
+      fireEvent.click(button);
+      expect(handleReactionClick).toHaveBeenCalledWith('👏');
+
+      fireEvent.click(screen.getByRole('button', { name: 'Remove your 👏 reactions' }));
+      expect(handleReactionRemove).toHaveBeenCalledWith('👏');
+    });
+
+    it('does not offer removal of multiple reactions the user has not added', () => {
+      const message = {
+        reactions: {
+          distinct: {},
+          unique: {},
+          multiple: {
+            '👏': {
+              total: 2,
+              clientIds: { user2: 2 },
+              totalUnidentified: 0,
+              clipped: false,
+              totalClientIds: 1,
+            },
+          },
+        },
+      } as unknown as Message;
+
+      render(
+        <MessageReactions
+          message={message}
+          reactionType={MessageReactionType.Multiple}
+          currentClientId="user1"
+          onReactionRemove={vi.fn()}
+        />
+      );
+
+      expect(screen.getByRole('button', { name: '👏 reaction, 2 reactions' })).toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: /Remove your/ })).not.toBeInTheDocument();
+    });
+  });
 });
@@ -0,0 +1,58 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+
+import { PendingMessage } from '../../../components/molecules/pending-message.tsx';
+import { OutboxMessage } from '../../../utils/outbox.ts';
+
+describe('PendingMessage', () => {
+  const entry: OutboxMessage = {
+    id: 'outbox-1',
+    text: 'Hello there',
+    status: 'sending',
+    createdAt: new Date(),
+  };
+
+  it('shows a sending state without actions', () => {
+    render(<PendingMessage message={entry} />);
+
+    expect(screen.getByText('Hello there')).toBeInTheDocument();
+    expect(screen.getByText('Sending…')).toBeInTheDocument();
+    expect(screen.getByRole('article', { name: 'Sending message' })).toHaveAttribute(
+      'aria-busy',
+      'true'
+    );
+    expect(screen.queryByRole('button', { name: 'Retry' })).not.toBeInTheDocument();
+  });
+
+  it('shows queued messages as waiting, with a discard action', () => {
+    const onDiscard = vi.fn();
+    render(<PendingMessage message={{ ...entry, status: 'queued' }} onDiscard={onDiscard} />);
+
+    expect(screen.getByText('Waiting to send…')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Retry' })).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Discard' }));
+    expect(onDiscard).toHaveBeenCalledWith('outbox-1');
+  });
+
+  it('offers retry and discard once failed', () => {
+    const onRetry = vi.fn();
+    const onDiscard = vi.fn();
+    render(
+      <PendingMessage
+        message={{ ...entry, status: 'failed' }}
+        onRetry={onRetry}
+        onDiscard={onDiscard}
+      />
+    );
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Failed to send');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Retry' }));
+    expect(onRetry).toHaveBeenCalledWith('outbox-1');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Discard' }));
+    expect(onDiscard).toHaveBeenCalledWith('outbox-1');
+  });
+});
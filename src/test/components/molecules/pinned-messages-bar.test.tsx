@@ -0,0 +1,64 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+
+import { PinnedMessagesBar } from '../../../components/molecules/pinned-messages-bar.tsx';
+import { UseUserAvatarReturn } from '../../../hooks/use-user-avatar.tsx';
+import { PinnedMessage } from '../../../utils/pins.ts';
+
+vi.mock('../../../hooks/use-user-avatar', () => ({
+  useUserAvatar: ({ clientId }: { clientId: string }): Partial<UseUserAvatarReturn> => ({
+    userAvatar: { displayName: clientId === 'alice' ? 'Alice' : 'Bob', initials: 'A' },
+  }),
+}));
+
+describe('PinnedMessagesBar', () => {
+  const pins: PinnedMessage[] = [
+    { serial: 's2', clientId: 'alice', text: 'Read the rules', pinnedAt: new Date() },
+    { serial: 's1', clientId: 'bob', text: 'Meeting notes', pinnedAt: new Date() },
+  ];
+
+  it('renders nothing without pins', () => {
+    const { container } = render(<PinnedMessagesBar pins={[]} onSelect={vi.fn()} />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('shows the number of pins and the latest one while collapsed', () => {
+    render(<PinnedMessagesBar pins={pins} onSelect={vi.fn()} />);
+
+    expect(screen.getByRole('region', { name: 'Pinned messages' })).toBeInTheDocument();
+    const toggle = screen.getByRole('button', { expanded: false });
+    expect(toggle).toHaveTextContent('2 pinned messages');
+    expect(toggle).toHaveTextContent('Read the rules');
+    expect(screen.queryByRole('list')).not.toBeInTheDocument();
+  });
+
+  it('lists every pin when expanded, jumping to and collapsing on selection', () => {
+    const onSelect = vi.fn();
+    render(<PinnedMessagesBar pins={pins} onSelect={onSelect} />);
+
+    fireEvent.click(screen.getByRole('button', { expanded: false }));
+    expect(screen.getAllByRole('listitem')).toHaveLength(2);
+
+    fireEvent.click(
+      screen.getByRole('button', { name: 'Go to the message from Bob: Meeting notes' })
+    );
+
+    expect(onSelect).toHaveBeenCalledWith('s1');
+    expect(screen.queryByRole('list')).not.toBeInTheDocument();
+  });
+
+  it('only shows unpin buttons when onUnpin is provided', () => {
+    const onUnpin = vi.fn();
+    const { rerender } = render(<PinnedMessagesBar pins={pins} onSelect={vi.fn()} />);
+    fireEvent.click(screen.getByRole('button', { expanded: false }));
+    expect(screen.queryByRole('button', { name: 'Unpin message' })).not.toBeInTheDocument();
+
+    rerender(<PinnedMessagesBar pins={pins} onSelect={vi.fn()} onUnpin={onUnpin} />);
+    const [firstUnpin] = screen.getAllByRole('button', { name: 'Unpin message' });
+    if (firstUnpin) fireEvent.click(firstUnpin);
+
+    expect(onUnpin).toHaveBeenCalledWith('s2');
+  });
+});
@@ -0,0 +1,127 @@
+import { ChatMessageAction } from '@ably/chat';
+import { fireEvent, render, screen } from '@testing-library/react';
+import React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+
+import { createMockMessage } from '../../../../.storybook/mocks/mock-ably-chat.ts';
+import { ChatMessageProps } from '../../../components/molecules/chat-message.tsx';
+import { ChatMessageListProps } from '../../../components/molecules/chat-message-list.tsx';
+import { MessageInputProps } from '../../../components/molecules/message-input.tsx';
+import { ThreadPanel } from '../../../components/molecules/thread-panel.tsx';
+
+vi.mock('../../../components/molecules/chat-message', () => ({
+  ChatMessage: ({ message }: ChatMessageProps) => <div data-testid="parent">{message.text}</div>,
+}));
+
+vi.mock('../../../components/molecules/chat-message-list', () => ({
+  ChatMessageList: ({
+    messages,
+    enableTypingIndicators,
+    pendingMessages,
+  }: ChatMessageListProps) => (
+    <ul aria-label="Thread replies" data-typing={String(enableTypingIndicators)}>
+      {messages.map((m) => (
+        <li key={m.serial}>{m.text}</li>
+      ))}
+      {pendingMessages?.map((m) => (
+        <li key={m.id}>
+          {m.text} ({m.status})
+        </li>
+      ))}
+    </ul>
+  ),
+}));
+
+vi.mock('../../../components/molecules/message-input', () => ({
+  MessageInput: ({ headers, placeholder, enableTyping, onSend }: MessageInputProps) => (
+    <>
+      <input
+        aria-label="Thread input"
+        placeholder={placeholder}
+        data-headers={JSON.stringify(headers)}
+        data-typing={String(enableTyping)}
+      />
+      <button
+        onClick={() => {
+          onSend?.('Queued reply', undefined, headers);
+        }}
+      >
+        Send
+      </button>
+    </>
+  ),
+}));
+
+describe('ThreadPanel', () => {
+  const parent = createMockMessage({ serial: 'parent-1', text: 'Start here' });
+  const replies = [
+    createMockMessage({ serial: 'reply-1', text: 'First' }),
+    createMockMessage({ serial: 'reply-2', text: 'Second' }),
+    createMockMessage({ serial: 'reply-3', action: ChatMessageAction.MessageDelete }),
+  ];
+
+  it('shows the parent message, its replies and their count', () => {
+    render(<ThreadPanel parent={parent} replies={replies} onClose={vi.fn()} />);
+
+    expect(screen.getByRole('complementary', { name: 'Thread' })).toBeInTheDocument();
+    expect(screen.getByTestId('parent')).toHaveTextContent('Start here');
+    expect(screen.getByText('2 replies')).toBeInTheDocument();
+    expect(screen.getByRole('list', { name: 'Thread replies' })).toHaveTextContent('FirstSecond');
+  });
+
+  it('shows an empty thread', () => {
+    render(<ThreadPanel parent={parent} replies={[]} onClose={vi.fn()} />);
+
+    expect(screen.getByText('No replies yet')).toBeInTheDocument();
+  });
+
+  it('posts into the thread without typing indicators', () => {
+    render(<ThreadPanel parent={parent} replies={replies} onClose={vi.fn()} />);
+
+    const input = screen.getByRole('textbox', { name: 'Thread input' });
+    expect(input).toHaveAttribute('data-headers', '{"threadParent":"parent-1"}');
+    expect(input).toHaveAttribute('placeholder', 'Reply in thread...');
+    expect(input).toHaveAttribute('data-typing', 'false');
+    expect(screen.getByRole('list', { name: 'Thread replies' })).toHaveAttribute(
+      'data-typing',
+      'false'
+    );
+  });
+
+  it('hands replies to onSend and shows the pending ones', () => {
+    const onSend = vi.fn();
+    render(
+      <ThreadPanel
+        parent={parent}
+        replies={replies}
+        onClose={vi.fn()}
+        onSend={onSend}
+        pendingReplies={[
+          {
+            id: 'p1',
+            text: 'Offline reply',
+            headers: { threadParent: 'parent-1' },
+            status: 'queued',
+            createdAt: new Date(),
+          },
+        ]}
+      />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Send' }));
+
+    expect(onSend).toHaveBeenCalledWith('Queued reply', undefined, { threadParent: 'parent-1' });
+    expect(screen.getByRole('list', { name: 'Thread replies' })).toHaveTextContent(
+      'Offline reply (queued)'
+    );
+  });
+
+  it('calls onClose when the close button is clicked', () => {
+    const onClose = vi.fn();
+    render(<ThreadPanel parent={parent} replies={replies} onClose={onClose} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Close thread' }));
+
+    expect(onClose).toHaveBeenCalledTimes(1);
+  });
+});
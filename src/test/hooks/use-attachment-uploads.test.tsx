@@ -0,0 +1,82 @@
+import '@testing-library/jest-dom';
+
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+
+import { useAttachmentUploads } from '../../hooks/use-attachment-uploads.tsx';
+import { AttachmentUploader, MockAttachmentUploader } from '../../utils/attachments.ts';
+
+describe('useAttachmentUploads', () => {
+  const file = new File(['hello'], 'notes.txt', { type: 'text/plain' });
+
+  it('uploads added files and exposes the completed attachments', async () => {
+    const uploader = new MockAttachmentUploader();
+    const { result } = renderHook(() => useAttachmentUploads({ uploader }));
+
+    act(() => {
+      result.current.addFiles([file]);
+    });
+    expect(result.current.uploads).toMatchObject([{ file, status: 'uploading' }]);
+    expect(result.current.isUploading).toBe(true);
+
+    await waitFor(() => {
+      expect(result.current.attachments).toHaveLength(1);
+    });
+    expect(result.current.attachments[0]).toMatchObject({ name: 'notes.txt' });
+    expect(result.current.isUploading).toBe(false);
+
+    act(() => {
+      result.current.clear();
+    });
+    expect(result.current.uploads).toEqual([]);
+  });
+
+  it('cancels an upload in progress when it is removed', () => {
+    let signal: AbortSignal | undefined;
+    const uploader: AttachmentUploader = {
+      upload: (_file, options) => {
+        signal = options?.signal;
+        return new Promise(() => {});
+      },
+    };
+    const { result } = renderHook(() => useAttachmentUploads({ uploader }));
+
+    act(() => {
+      result.current.addFiles([file]);
+    });
+    const [upload] = result.current.uploads;
+    act(() => {
+      if (upload) result.current.remove(upload.id);
+    });
+
+    expect(signal?.aborted).toBe(true);
+    expect(result.current.uploads).toEqual([]);
+  });
+
+  it('marks failed uploads and reports them through onUploadError', async () => {
+    const error = new Error('Storage unavailable');
+    const uploader: AttachmentUploader = { upload: () => Promise.reject(error) };
+    const onUploadError = vi.fn();
+    const { result } = renderHook(() => useAttachmentUploads({ uploader, onUploadError }));
+
+    act(() => {
+      result.current.addFiles([file]);
+    });
+
+    await waitFor(() => {
+      expect(result.current.uploads[0]?.status).toBe('failed');
+    });
+    expect(onUploadError).toHaveBeenCalledWith(error, file);
+    expect(result.current.attachments).toEqual([]);
+  });
+
+  it('ignores files without an uploader', () => {
+    const { result } = renderHook(() => useAttachmentUploads());
+
+    act(() => {
+      result.current.addFiles([file]);
+    });
+
+    expect(result.current.uploads).toEqual([]);
+  });
+});
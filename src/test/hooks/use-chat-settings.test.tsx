@@ -1,5 +1,6 @@
 import '@testing-library/jest-dom';
 
+import { MessageReactionType } from '@ably/chat';
 import { renderHook } from '@testing-library/react';
 import React from 'react';
 import { describe, expect, it, vi } from 'vitest';
@@ -18,6 +19,9 @@ describe('useChatSettings Hook', () => {
     allowMessageDeletesOwn: true,
     allowMessageDeletesAny: false,
     allowMessageReactions: true,
+    messageReactionType: MessageReactionType.Distinct,
+    allowMessagePins: false,
+    enableMarkdown: false,
   };
 
   const mockRoomSettings: Record<string, Partial<ChatSettings>> = {
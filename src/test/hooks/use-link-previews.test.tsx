@@ -0,0 +1,48 @@
+import { renderHook, waitFor } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+
+import { useLinkPreviews } from '../../hooks/use-link-previews.tsx';
+import { StaticLinkPreviewResolver } from '../../utils/link-preview.ts';
+
+describe('useLinkPreviews', () => {
+  it('returns loaded previews in the order of the URLs', async () => {
+    const resolver = new StaticLinkPreviewResolver({
+      'https://a.com': { title: 'A' },
+      'https://b.com': { title: 'B' },
+    });
+
+    const { result } = renderHook(() =>
+      useLinkPreviews({
+        urls: ['https://b.com', 'https://missing.com', 'https://a.com'],
+        resolver,
+      })
+    );
+
+    expect(result.current).toEqual([]);
+    await waitFor(() => {
+      expect(result.current.map((p) => p.title)).toEqual(['B', 'A']);
+    });
+  });
+
+  it('shares results between components using the same resolver', async () => {
+    const resolver = new StaticLinkPreviewResolver({ 'https://a.com': { title: 'A' } });
+    const resolve = vi.spyOn(resolver, 'resolve');
+
+    const first = renderHook(() => useLinkPreviews({ urls: ['https://a.com'], resolver }));
+    await waitFor(() => {
+      expect(first.result.current).toHaveLength(1);
+    });
+    first.unmount();
+
+    const second = renderHook(() => useLinkPreviews({ urls: ['https://a.com'], resolver }));
+
+    expect(second.result.current[0]?.title).toBe('A');
+    expect(resolve).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns nothing without a resolver', () => {
+    const { result } = renderHook(() => useLinkPreviews({ urls: ['https://a.com'] }));
+
+    expect(result.current).toEqual([]);
+  });
+});
@@ -0,0 +1,43 @@
+import { act, renderHook } from '@testing-library/react';
+import React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+
+import { useAvatar } from '../../hooks/use-avatar.tsx';
+import { useMentionCandidates } from '../../hooks/use-mention-candidates.tsx';
+import { AvatarProvider } from '../../providers/avatar-provider.tsx';
+
+vi.mock('@ably/chat/react', () => ({
+  useChatClient: () => ({ clientId: 'me' }),
+  usePresenceListener: () => ({
+    presenceData: [{ clientId: 'zed' }, { clientId: 'me' }, { clientId: 'zed' }],
+  }),
+}));
+
+const wrapper = ({ children }: { children: React.ReactNode }) => (
+  <AvatarProvider>{children}</AvatarProvider>
+);
+
+describe('useMentionCandidates', () => {
+  it('lists present members first, then users with known avatars, excluding the current user', () => {
+    const { result } = renderHook(
+      () => ({ candidates: useMentionCandidates(), avatars: useAvatar() }),
+      { wrapper }
+    );
+
+    act(() => {
+      result.current.avatars.createAvatarForUser('amy', 'Amy');
+      result.current.avatars.createAvatarForUser('me', 'Me');
+    });
+
+    expect(
+      result.current.candidates.map(({ clientId, displayName, isOnline }) => ({
+        clientId,
+        displayName,
+        isOnline,
+      }))
+    ).toEqual([
+      { clientId: 'zed', displayName: 'zed', isOnline: true },
+      { clientId: 'amy', displayName: 'Amy', isOnline: false },
+    ]);
+  });
+});
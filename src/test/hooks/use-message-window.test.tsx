@@ -2,6 +2,8 @@ import '@testing-library/jest-dom';
 
 import {
   ChatMessageAction,
+  ChatMessageEvent,
+  ChatMessageEventType,
   ConnectionStatus,
   DiscontinuityListener,
   ErrorInfo,
@@ -9,6 +11,7 @@ import {
   MessageReactionListener,
   MessageReactionSummaryEvent,
   MessageReactionSummaryEventType,
+  OrderBy,
   PaginatedResult,
   RoomStatus,
 } from '@ably/chat';
@@ -22,7 +25,8 @@ import {
 import { act, renderHook, waitFor } from '@testing-library/react';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
-import { useMessageWindow } from '../../hooks/use-message-window.tsx';
+import { type JumpToMessageResult, useMessageWindow } from '../../hooks/use-message-window.tsx';
+import { InMemoryMessageCache } from '../../utils/message-cache.ts';
 
 vi.mock('@ably/chat/react', () => ({
   useMessages: vi.fn(),
@@ -424,6 +428,57 @@ describe('useMessageWindow Hook', () => {
     expect(msg2.with).toHaveBeenCalledWith(updateMessage);
   });
 
+  it('keeps the versions of messages replaced by edits', async () => {
+    let listener: UseMessagesParams['listener'];
+    const original = createMockMessage({
+      serial: getSerial(Date.now()),
+      text: 'Original',
+      version: { serial: getSerial(Date.now()), timestamp: new Date() },
+    });
+    const stableResponse = createMockUseMessagesResponse({
+      historyBeforeSubscribe: vi
+        .fn()
+        .mockResolvedValue(createMockPaginatedResult({ items: [original] })),
+    });
+    vi.mocked(useMessages).mockImplementation((params?: UseMessagesParams) => {
+      listener = params?.listener;
+      return stableResponse;
+    });
+
+    const { result } = renderHook(() => useMessageWindow());
+    await waitFor(() => {
+      expect(result.current.activeMessages).toHaveLength(1);
+    });
+    expect(result.current.editHistory.size).toBe(0);
+
+    const firstEdit = createMockMessage({
+      serial: original.serial,
+      text: 'First edit',
+      action: ChatMessageAction.MessageUpdate,
+      version: { serial: getSerial(Date.now() + 1), timestamp: new Date(), clientId: 'editor' },
+    });
+    const secondEdit = createMockMessage({
+      serial: original.serial,
+      text: 'Second edit',
+      action: ChatMessageAction.MessageUpdate,
+      version: { serial: getSerial(Date.now() + 2), timestamp: new Date() },
+    });
+    act(() => {
+      listener?.({ type: ChatMessageEventType.Updated, message: firstEdit } as ChatMessageEvent);
+    });
+    act(() => {
+      listener?.({ type: ChatMessageEventType.Updated, message: secondEdit } as ChatMessageEvent);
+      // A repeated event does not add another version
+      listener?.({ type: ChatMessageEventType.Updated, message: secondEdit } as ChatMessageEvent);
+    });
+
+    expect(result.current.activeMessages[0]?.text).toBe('Second edit');
+    expect(result.current.editHistory.get(original.serial)?.map((m) => m.text)).toEqual([
+      'Original',
+      'First edit',
+    ]);
+  });
+
   it('should handle message reactions and ignore reactions for non-existent messages', async () => {
     let reactionsListener: MessageReactionListener | undefined;
     const msgSerial = getSerial(Date.now());
@@ -536,6 +591,7 @@ describe('useMessageWindow Hook', () => {
 
     const stableMockResponse = createMockUseMessagesResponse({
       historyBeforeSubscribe: stableHistoryBeforeSubscribe,
+      history: vi.fn().mockResolvedValue(createMockPaginatedResult({ items: mockMessages })),
     });
 
     vi.mocked(useMessages).mockImplementation((params?: UseMessagesParams) => {
@@ -562,7 +618,142 @@ describe('useMessageWindow Hook', () => {
     });
   });
 
-  it('should clear old state and get fresh state after discontinuity', async () => {
+  it('fills the gap after a discontinuity, keeping older history', async () => {
+    let onDiscontinuityCallback: DiscontinuityListener | undefined;
+    const base = Date.now() - 1000 * 60 * 10;
+    const messages = Array.from({ length: 6 }, (_, i) =>
+      createMockMessage({
+        serial: getSerial(base + i * 1000),
+        text: `Message ${String(i + 1)}`,
+        timestamp: new Date(base + i * 1000),
+      })
+    );
+    const [m1, m2, m3, m4, m5, m6] = messages;
+    if (!m1 || !m2 || !m3 || !m4 || !m5 || !m6) throw new Error('missing messages');
+
+    const olderGapPage = createMockPaginatedResult({
+      items: [m4, m3],
+      hasNext: vi.fn().mockReturnValue(true),
+    });
+    const newerGapPage = createMockPaginatedResult({
+      items: [m6, m5],
+      hasNext: vi.fn().mockReturnValue(true),
+      next: vi.fn().mockResolvedValue(olderGapPage),
+    });
+    const mockHistoryBeforeSubscribe = vi
+      .fn()
+      .mockResolvedValueOnce(
+        createMockPaginatedResult({
+          items: [m3, m2, m1],
+          hasNext: vi.fn().mockReturnValue(true),
+        })
+      )
+      .mockResolvedValueOnce(newerGapPage);
+    const editedM2 = createMockMessage({
+      ...m2,
+      text: 'Message 2 (edited)',
+      action: ChatMessageAction.MessageUpdate,
+      version: { serial: getSerial(Date.now() + 1000), timestamp: new Date() },
+    });
+    const mockHistory = vi
+      .fn()
+      .mockResolvedValue(createMockPaginatedResult({ items: [m1, editedM2, m3] }));
+
+    const stableMockResponse = createMockUseMessagesResponse({
+      historyBeforeSubscribe: mockHistoryBeforeSubscribe,
+      history: mockHistory,
+    });
+    vi.mocked(useMessages).mockImplementation((params?: UseMessagesParams) => {
+      onDiscontinuityCallback = params?.onDiscontinuity;
+      return stableMockResponse;
+    });
+
+    const { result } = renderHook(() => useMessageWindow());
+
+    await waitFor(() => {
+      expect(result.current.activeMessages.length).toBe(3);
+    });
+
+    act(() => {
+      onDiscontinuityCallback?.(new Error('Simulated discontinuity') as ErrorInfo);
+    });
+
+    await waitFor(() => {
+      expect(result.current.activeMessages.length).toBe(6);
+    });
+    expect(newerGapPage.next).toHaveBeenCalledTimes(1);
+    expect(result.current.hasMoreHistory).toBe(true);
+
+    // Messages shown before the discontinuity are refreshed, picking up missed edits
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+    expect(mockHistory).toHaveBeenCalledWith({
+      start: m1.timestamp.getTime(),
+      end: m3.timestamp.getTime() + 1,
+      orderBy: OrderBy.OldestFirst,
+      limit: 300,
+    });
+    expect(result.current.activeMessages.map((m) => m.text)).toEqual([
+      'Message 1',
+      'Message 2 (edited)',
+      'Message 3',
+      'Message 4',
+      'Message 5',
+      'Message 6',
+    ]);
+    expect(result.current.editHistory.get(m2.serial)?.map((m) => m.text)).toEqual(['Message 2']);
+  });
+
+  it('reloads the latest messages when discontinuity recovery fails', async () => {
+    let onDiscontinuityCallback: DiscontinuityListener | undefined;
+    const base = Date.now() - 1000 * 60 * 10;
+    const [m1, m2, m3] = Array.from({ length: 3 }, (_, i) =>
+      createMockMessage({
+        serial: getSerial(base + i * 1000),
+        text: `Message ${String(i + 1)}`,
+        timestamp: new Date(base + i * 1000),
+      })
+    );
+    if (!m1 || !m2 || !m3) throw new Error('missing messages');
+    const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const mockHistoryBeforeSubscribe = vi
+      .fn()
+      .mockResolvedValueOnce(createMockPaginatedResult({ items: [m2, m1] }))
+      .mockRejectedValueOnce(new Error('Network error'))
+      .mockResolvedValueOnce(createMockPaginatedResult({ items: [m3, m2, m1] }));
+    const stableMockResponse = createMockUseMessagesResponse({
+      historyBeforeSubscribe: mockHistoryBeforeSubscribe,
+    });
+    vi.mocked(useMessages).mockImplementation((params?: UseMessagesParams) => {
+      onDiscontinuityCallback = params?.onDiscontinuity;
+      return stableMockResponse;
+    });
+
+    const { result } = renderHook(() => useMessageWindow());
+    await waitFor(() => {
+      expect(result.current.activeMessages.length).toBe(2);
+    });
+
+    act(() => {
+      onDiscontinuityCallback?.(new Error('Simulated discontinuity') as ErrorInfo);
+    });
+    expect(result.current.loading).toBe(true);
+
+    await waitFor(() => {
+      expect(result.current.activeMessages.length).toBe(3);
+    });
+    expect(result.current.loading).toBe(false);
+    expect(mockHistoryBeforeSubscribe).toHaveBeenCalledTimes(3);
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      'Discontinuity recovery failed',
+      expect.any(Error)
+    );
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('falls back to a full reload when the gap after a discontinuity cannot be bridged', async () => {
     let onDiscontinuityCallback: DiscontinuityListener | undefined;
 
     // Initial messages that will be loaded first
@@ -869,4 +1060,679 @@ describe('useMessageWindow Hook', () => {
       expect(secondHistoryFn).toHaveBeenCalledTimes(1);
     });
   });
+  describe('threads', () => {
+    const parentSerial = getSerial(Date.now() - 1000 * 60 * 2);
+    const parent = createMockMessage({ serial: parentSerial, text: 'Start a thread' });
+    const firstReply = createMockMessage({
+      serial: getSerial(Date.now() - 1000 * 60),
+      text: 'First reply',
+      headers: { threadParent: parentSerial },
+    });
+
+    it('keeps thread replies out of the window and groups them by thread', async () => {
+      let listener: UseMessagesParams['listener'];
+      const stableResponse = createMockUseMessagesResponse({
+        historyBeforeSubscribe: vi
+          .fn()
+          .mockResolvedValue(createMockPaginatedResult({ items: [firstReply, parent] })),
+      });
+      vi.mocked(useMessages).mockImplementation((params?: UseMessagesParams) => {
+        listener = params?.listener;
+        return stableResponse;
+      });
+
+      const { result } = renderHook(() => useMessageWindow());
+
+      await waitFor(() => {
+        expect(result.current.activeMessages.map((m) => m.text)).toEqual(['Start a thread']);
+      });
+      expect(result.current.threadReplies.get(parentSerial)?.map((m) => m.text)).toEqual([
+        'First reply',
+      ]);
+
+      const secondReply = createMockMessage({
+        serial: getSerial(Date.now()),
+        text: 'Second reply',
+        headers: { threadParent: parentSerial },
+      });
+      act(() => {
+        listener?.({
+          type: ChatMessageEventType.Created,
+          message: secondReply,
+        } as ChatMessageEvent);
+        listener?.({
+          type: ChatMessageEventType.Updated,
+          message: { ...firstReply, text: 'First reply (edited)' },
+        } as ChatMessageEvent);
+      });
+
+      expect(result.current.activeMessages).toHaveLength(1);
+      expect(result.current.threadReplies.get(parentSerial)?.map((m) => m.text)).toEqual([
+        'First reply (edited)',
+        'Second reply',
+      ]);
+    });
+
+    it('applies reactions to thread replies', async () => {
+      let reactionsListener: MessageReactionListener | undefined;
+      const stableResponse = createMockUseMessagesResponse({
+        historyBeforeSubscribe: vi
+          .fn()
+          .mockResolvedValue(createMockPaginatedResult({ items: [firstReply, parent] })),
+      });
+      vi.mocked(useMessages).mockImplementation((params?: UseMessagesParams) => {
+        reactionsListener = params?.reactionsListener;
+        return stableResponse;
+      });
+
+      const { result } = renderHook(() => useMessageWindow());
+      await waitFor(() => {
+        expect(result.current.threadReplies.get(parentSerial)).toHaveLength(1);
+      });
+
+      act(() => {
+        reactionsListener?.({
+          type: MessageReactionSummaryEventType.Summary,
+          messageSerial: firstReply.serial,
+          reactions: {
+            distinct: { '👍': { total: 1, clientIds: ['user1'], clipped: false } },
+            unique: {},
+            multiple: {},
+          },
+        });
+      });
+
+      expect(
+        result.current.threadReplies.get(parentSerial)?.[0]?.reactions.distinct['👍']?.total
+      ).toBe(1);
+    });
+  });
+
+  describe('message cache', () => {
+    it('should hydrate messages from the cache before history resolves', async () => {
+      const cache = new InMemoryMessageCache();
+      await cache.save(mockRoomName, [
+        createMockMessage({ serial: getSerial(1000), text: 'Cached 1' }),
+        createMockMessage({ serial: getSerial(2000), text: 'Cached 2' }),
+      ]);
+
+      vi.mocked(useMessages).mockReturnValue(
+        createMockUseMessagesResponse({
+          historyBeforeSubscribe: vi.fn().mockReturnValue(new Promise(() => {})),
+        })
+      );
+
+      const { result } = renderHook(() => useMessageWindow({ cache }));
+
+      await waitFor(() => {
+        expect(result.current.activeMessages.map((m) => m.text)).toEqual(['Cached 1', 'Cached 2']);
+      });
+      expect(result.current.loading).toBe(true);
+    });
+
+    it('should replace cached messages with the copies returned by history', async () => {
+      const serial = getSerial(1000);
+      const cache = new InMemoryMessageCache();
+      await cache.save(mockRoomName, [
+        createMockMessage({
+          serial,
+          text: 'Cached',
+          version: { serial: getSerial(1000), timestamp: new Date(1000) },
+        }),
+      ]);
+
+      let resolveHistory: (value: PaginatedResult<Message>) => void = () => {};
+      vi.mocked(useMessages).mockReturnValue(
+        createMockUseMessagesResponse({
+          historyBeforeSubscribe: vi.fn().mockReturnValue(
+            new Promise((resolve) => {
+              resolveHistory = resolve;
+            })
+          ),
+        })
+      );
+
+      const { result } = renderHook(() => useMessageWindow({ cache }));
+
+      await waitFor(() => {
+        expect(result.current.activeMessages[0]?.text).toBe('Cached');
+      });
+
+      const fresh = createMockMessage({
+        serial,
+        text: 'Edited while away',
+        action: ChatMessageAction.MessageUpdate,
+        version: { serial: getSerial(5000), timestamp: new Date(5000) },
+        reactions: {
+          distinct: { '👍': { total: 2, clientIds: ['a', 'b'], clipped: false } },
+          unique: {},
+          multiple: {},
+        },
+      });
+
+      await act(async () => {
+        resolveHistory(createMockPaginatedResult({ items: [fresh] }));
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      });
+
+      expect(result.current.activeMessages).toHaveLength(1);
+      expect(result.current.activeMessages[0]?.text).toBe('Edited while away');
+      expect(result.current.activeMessages[0]?.reactions.distinct['👍']?.total).toBe(2);
+    });
+
+    it('should drop cached messages that cannot be joined to the latest history', async () => {
+      const cache = new InMemoryMessageCache();
+      await cache.save(mockRoomName, [
+        createMockMessage({ serial: getSerial(1000), text: 'Very old cached' }),
+      ]);
+
+      let resolveHistory: (value: PaginatedResult<Message>) => void = () => {};
+      vi.mocked(useMessages).mockReturnValue(
+        createMockUseMessagesResponse({
+          historyBeforeSubscribe: vi.fn().mockReturnValue(
+            new Promise((resolve) => {
+              resolveHistory = resolve;
+            })
+          ),
+        })
+      );
+
+      const { result } = renderHook(() => useMessageWindow({ cache }));
+
+      await waitFor(() => {
+        expect(result.current.activeMessages).toHaveLength(1);
+      });
+
+      await act(async () => {
+        resolveHistory(
+          createMockPaginatedResult({
+            items: [
+              createMockMessage({ serial: getSerial(9000), text: 'Recent 1' }),
+              createMockMessage({ serial: getSerial(9001), text: 'Recent 2' }),
+            ],
+            hasNext: () => true,
+          })
+        );
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      });
+
+      expect(result.current.activeMessages.map((m) => m.text)).toEqual(['Recent 1', 'Recent 2']);
+      expect(result.current.hasMoreHistory).toBe(true);
+    });
+
+    it('should log cache write failures', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const cache = new InMemoryMessageCache();
+      const saveError = new Error('Quota exceeded');
+      vi.spyOn(cache, 'save').mockRejectedValue(saveError);
+
+      renderHook(() => useMessageWindow({ cache }));
+
+      await waitFor(() => {
+        expect(consoleSpy).toHaveBeenCalledWith('Message cache save failed', saveError);
+      });
+      consoleSpy.mockRestore();
+    });
+
+    it('should write loaded messages back to the cache', async () => {
+      const cache = new InMemoryMessageCache();
+
+      const { result } = renderHook(() => useMessageWindow({ cache }));
+
+      await waitFor(() => {
+        expect(result.current.activeMessages.length).toBe(3);
+      });
+
+      await waitFor(async () => {
+        const cached = await cache.load(mockRoomName);
+        expect(cached).toHaveLength(3);
+      });
+    });
+  });
+
+  describe('jumpToMessage', () => {
+    // Five pages of four messages, newest page first
+    const pagedMessages = Array.from({ length: 20 }, (_, i) =>
+      createMockMessage({ serial: getSerial(1000 + i), text: `Paged ${String(i)}` })
+    );
+
+    const createPage = (pageIdx: number): PaginatedResult<Message> => {
+      const end = pagedMessages.length - pageIdx * 4;
+      const hasNext = end - 4 > 0;
+      return createMockPaginatedResult({
+        items: pagedMessages.slice(end - 4, end),
+        hasNext: () => hasNext,
+        next: vi.fn(() => Promise.resolve(hasNext ? createPage(pageIdx + 1) : null)),
+      });
+    };
+
+    beforeEach(() => {
+      vi.mocked(useMessages).mockReturnValue(
+        createMockUseMessagesResponse({
+          historyBeforeSubscribe: vi.fn().mockResolvedValue(createPage(0)),
+        })
+      );
+    });
+
+    it('should centre on a message that is already loaded', async () => {
+      const { result } = renderHook(() => useMessageWindow({ windowSize: 2, overscan: 0 }));
+
+      await waitFor(() => {
+        expect(result.current.activeMessages.length).toBeGreaterThan(0);
+      });
+
+      let outcome: JumpToMessageResult | undefined;
+      await act(async () => {
+        outcome = await result.current.jumpToMessage(getSerial(1016));
+      });
+
+      expect(outcome).toEqual({ status: 'found' });
+      expect(result.current.activeMessages.map((m) => m.text)).toContain('Paged 16');
+      expect(result.current.activeMessages.map((m) => m.text)).not.toContain('Paged 19');
+    });
+
+    it('should page back through history until the message is found', async () => {
+      const { result } = renderHook(() => useMessageWindow({ windowSize: 2, overscan: 0 }));
+
+      let outcome: JumpToMessageResult | undefined;
+      await act(async () => {
+        outcome = await result.current.jumpToMessage(getSerial(1005));
+      });
+
+      expect(outcome).toEqual({ status: 'found' });
+      await waitFor(() => {
+        expect(result.current.activeMessages.map((m) => m.text)).toContain('Paged 5');
+      });
+      expect(result.current.hasMoreHistory).toBe(true);
+      expect(result.current.loading).toBe(false);
+    });
+
+    it('should give up after maxPages pages', async () => {
+      const { result } = renderHook(() => useMessageWindow({ windowSize: 2, overscan: 0 }));
+
+      let outcome: JumpToMessageResult | undefined;
+      await act(async () => {
+        outcome = await result.current.jumpToMessage(getSerial(1001), { maxPages: 2 });
+      });
+
+      expect(outcome).toEqual({ status: 'page-limit' });
+      expect(result.current.hasMoreHistory).toBe(true);
+      expect(result.current.loading).toBe(false);
+    });
+
+    it('should not fetch history for a missing message newer than the oldest loaded', async () => {
+      const getMessage = vi.fn().mockRejectedValue({ statusCode: 404, message: 'Not found' });
+      const historyBeforeSubscribe = vi.fn().mockResolvedValue(createPage(0));
+      vi.mocked(useMessages).mockReturnValue(
+        createMockUseMessagesResponse({ historyBeforeSubscribe, getMessage })
+      );
+      const { result } = renderHook(() => useMessageWindow());
+
+      await waitFor(() => {
+        expect(result.current.activeMessages.length).toBe(4);
+      });
+
+      let outcome: JumpToMessageResult | undefined;
+      await act(async () => {
+        outcome = await result.current.jumpToMessage(getSerial(5000));
+      });
+
+      expect(outcome).toEqual({ status: 'not-found' });
+      expect(getMessage).toHaveBeenCalledWith(getSerial(5000));
+      expect(historyBeforeSubscribe).toHaveBeenCalledTimes(1);
+      expect(result.current.activeMessages.length).toBe(4);
+    });
+
+    it('should report the thread of a reply within the loaded range', async () => {
+      const heldReply = createMockMessage({
+        serial: getSerial(1017, '002'),
+        text: 'Held reply',
+        headers: { threadParent: getSerial(1016) },
+      });
+      const unseenReply = createMockMessage({
+        serial: getSerial(1018, '002'),
+        text: 'Unseen reply',
+        headers: { threadParent: getSerial(1017) },
+      });
+      const getMessage = vi.fn().mockResolvedValue(unseenReply);
+      const firstPage = createPage(0);
+      vi.mocked(useMessages).mockReturnValue(
+        createMockUseMessagesResponse({
+          historyBeforeSubscribe: vi
+            .fn()
+            .mockResolvedValue({ ...firstPage, items: [...firstPage.items, heldReply] }),
+          getMessage,
+        })
+      );
+      const { result } = renderHook(() => useMessageWindow());
+
+      await waitFor(() => {
+        expect(result.current.threadReplies.size).toBe(1);
+      });
+
+      let outcome: JumpToMessageResult | undefined;
+      await act(async () => {
+        outcome = await result.current.jumpToMessage(heldReply.serial);
+      });
+      expect(outcome).toEqual({ status: 'in-thread', threadParentSerial: getSerial(1016) });
+      expect(getMessage).not.toHaveBeenCalled();
+
+      await act(async () => {
+        outcome = await result.current.jumpToMessage(unseenReply.serial);
+      });
+      expect(outcome).toEqual({ status: 'in-thread', threadParentSerial: getSerial(1017) });
+      expect(result.current.threadReplies.get(getSerial(1017))?.map((m) => m.text)).toEqual([
+        'Unseen reply',
+      ]);
+    });
+
+    it('should report a lookup failure', async () => {
+      const error = new Error('Network error');
+      vi.mocked(useMessages).mockReturnValue(
+        createMockUseMessagesResponse({
+          historyBeforeSubscribe: vi.fn().mockResolvedValue(createPage(0)),
+          getMessage: vi.fn().mockRejectedValue(error),
+        })
+      );
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const { result } = renderHook(() => useMessageWindow());
+
+      await waitFor(() => {
+        expect(result.current.activeMessages.length).toBe(4);
+      });
+
+      let outcome: JumpToMessageResult | undefined;
+      await act(async () => {
+        outcome = await result.current.jumpToMessage(getSerial(5000));
+      });
+
+      expect(outcome).toEqual({ status: 'error', error });
+      expect(result.current.loading).toBe(false);
+      consoleErrorSpy.mockRestore();
+    });
+
+    it('should wait for the new room history when a room change cancels a load', async () => {
+      const resolvers: ((value: PaginatedResult<Message>) => void)[] = [];
+      const mockRoomMessages = () => {
+        vi.mocked(useMessages).mockReturnValue(
+          createMockUseMessagesResponse({
+            historyBeforeSubscribe: vi.fn(
+              () =>
+                new Promise<PaginatedResult<Message>>((resolve) => {
+                  resolvers.push(resolve);
+                })
+            ),
+          })
+        );
+      };
+      mockRoomMessages();
+      const { result, rerender } = renderHook(() => useMessageWindow());
+      await waitFor(() => {
+        expect(resolvers).toHaveLength(1);
+      });
+
+      vi.mocked(useRoom).mockReturnValue(createMockUseRoomResponse({ roomName: 'new-test-room' }));
+      mockRoomMessages();
+      rerender();
+      await waitFor(() => {
+        expect(resolvers).toHaveLength(2);
+      });
+
+      let settled = false;
+      const jump = result.current.jumpToMessage(getSerial(1019)).then(() => {
+        settled = true;
+      });
+
+      // The cancelled load for the old room must not release the jump
+      await act(async () => {
+        resolvers[0]?.(createPage(4));
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      });
+      expect(settled).toBe(false);
+
+      await act(async () => {
+        resolvers[1]?.(createPage(0));
+        await jump;
+      });
+      expect(settled).toBe(true);
+    });
+
+    it('should stop when the jump is aborted', async () => {
+      const { result } = renderHook(() => useMessageWindow());
+      const controller = new AbortController();
+
+      let outcome: JumpToMessageResult | undefined;
+      await act(async () => {
+        const jump = result.current.jumpToMessage(getSerial(1000), {
+          signal: controller.signal,
+        });
+        controller.abort();
+        outcome = await jump;
+      });
+
+      expect(outcome).toEqual({ status: 'cancelled' });
+      expect(result.current.activeMessages.length).toBe(4);
+    });
+  });
+
+  describe('maxStoredMessages', () => {
+    const createTimedMessage = (ts: number) =>
+      createMockMessage({
+        serial: getSerial(ts),
+        timestamp: new Date(ts),
+        text: `At ${String(ts)}`,
+      });
+
+    it('should evict the oldest messages when following the latest, and re-fetch them', async () => {
+      const initial = Array.from({ length: 20 }, (_, i) => createTimedMessage(1000 + i));
+      const older = Array.from({ length: 5 }, (_, i) => createTimedMessage(1010 - i));
+      const history = vi.fn().mockResolvedValue(createMockPaginatedResult({ items: older }));
+
+      vi.mocked(useMessages).mockReturnValue(
+        createMockUseMessagesResponse({
+          historyBeforeSubscribe: vi
+            .fn()
+            .mockResolvedValue(createMockPaginatedResult({ items: [...initial].reverse() })),
+          history,
+        })
+      );
+
+      const { result } = renderHook(() =>
+        useMessageWindow({ windowSize: 4, overscan: 1, maxStoredMessages: 10 })
+      );
+
+      // Only the newest 9 (90% of the limit) are kept, so older history is available again
+      await waitFor(() => {
+        expect(result.current.activeMessages.length).toBeGreaterThan(0);
+        expect(result.current.loading).toBe(false);
+      });
+      expect(result.current.hasMoreHistory).toBe(true);
+      expect(result.current.hasNewerMessages).toBe(false);
+
+      // Scroll back to the oldest held message, then load more from before it
+      act(() => {
+        result.current.showMessagesAroundSerial(getSerial(1011));
+      });
+      await act(async () => {
+        await result.current.loadMoreHistory();
+      });
+
+      expect(history).toHaveBeenCalledWith({
+        end: 1012,
+        orderBy: OrderBy.NewestFirst,
+        limit: 300,
+      });
+      await waitFor(() => {
+        expect(result.current.activeMessages.map((m) => m.text)).toContain('At 1010');
+      });
+    });
+
+    it('should drop thread replies once neither they nor their parent are held', async () => {
+      const initial = Array.from({ length: 20 }, (_, i) => createTimedMessage(1000 + i));
+      const reply = (parentTs: number, ts: number) =>
+        createMockMessage({
+          serial: getSerial(ts, '002'),
+          timestamp: new Date(ts),
+          text: `Reply at ${String(ts)}`,
+          headers: { threadParent: getSerial(parentTs) },
+        });
+
+      vi.mocked(useMessages).mockReturnValue(
+        createMockUseMessagesResponse({
+          historyBeforeSubscribe: vi.fn().mockResolvedValue(
+            createMockPaginatedResult({
+              items: [
+                ...initial,
+                reply(1000, 1001),
+                reply(1001, 1015),
+                reply(1018, 1002),
+              ].reverse(),
+            })
+          ),
+        })
+      );
+
+      const { result } = renderHook(() =>
+        useMessageWindow({ windowSize: 4, overscan: 1, maxStoredMessages: 10 })
+      );
+
+      await waitFor(() => {
+        expect(result.current.activeMessages.length).toBeGreaterThan(0);
+        expect(result.current.loading).toBe(false);
+      });
+
+      // Evicted parent and reply
+      expect(result.current.threadReplies.has(getSerial(1000))).toBe(false);
+      // Evicted parent, but the reply is still within the held range
+      expect(result.current.threadReplies.get(getSerial(1001))?.map((m) => m.text)).toEqual([
+        'Reply at 1015',
+      ]);
+      // Held parent keeps its whole thread
+      expect(result.current.threadReplies.get(getSerial(1018))?.map((m) => m.text)).toEqual([
+        'Reply at 1002',
+      ]);
+    });
+
+    it('should drop the earlier versions of evicted messages', async () => {
+      let listener: UseMessagesParams['listener'];
+      const initial = Array.from({ length: 10 }, (_, i) => createTimedMessage(1000 + i));
+      const response = createMockUseMessagesResponse({
+        historyBeforeSubscribe: vi
+          .fn()
+          .mockResolvedValue(createMockPaginatedResult({ items: [...initial].reverse() })),
+      });
+      vi.mocked(useMessages).mockImplementation((params?: UseMessagesParams) => {
+        listener = params?.listener;
+        return response;
+      });
+
+      const { result } = renderHook(() =>
+        useMessageWindow({ windowSize: 4, overscan: 1, maxStoredMessages: 10 })
+      );
+      await waitFor(() => {
+        expect(result.current.activeMessages.length).toBeGreaterThan(0);
+      });
+
+      const edit = (ts: number) =>
+        createMockMessage({
+          serial: getSerial(ts),
+          timestamp: new Date(ts),
+          text: `Edited at ${String(ts)}`,
+          action: ChatMessageAction.MessageUpdate,
+          version: { serial: getSerial(Date.now() + ts), timestamp: new Date() },
+        });
+      act(() => {
+        listener?.({ type: ChatMessageEventType.Updated, message: edit(1000) } as ChatMessageEvent);
+        listener?.({ type: ChatMessageEventType.Updated, message: edit(1009) } as ChatMessageEvent);
+      });
+      expect(result.current.editHistory.has(getSerial(1000))).toBe(true);
+
+      // A new message takes the store past its limit, evicting the oldest
+      act(() => {
+        listener?.({
+          type: ChatMessageEventType.Created,
+          message: createTimedMessage(1010),
+        } as ChatMessageEvent);
+      });
+
+      await waitFor(() => {
+        expect(result.current.editHistory.has(getSerial(1000))).toBe(false);
+      });
+      expect(result.current.editHistory.get(getSerial(1009))?.map((m) => m.text)).toEqual([
+        'At 1009',
+      ]);
+    });
+
+    it('should evict newer messages far from the anchor and re-fetch them on returning to latest', async () => {
+      let listener: ((event: ChatMessageEvent) => void) | undefined;
+      const newestPage = Array.from({ length: 8 }, (_, i) => createTimedMessage(2000 + i));
+      const olderPage = Array.from({ length: 8 }, (_, i) => createTimedMessage(1000 + i));
+      const history = vi
+        .fn()
+        .mockResolvedValue(createMockPaginatedResult({ items: newestPage.slice(4) }));
+
+      const response = createMockUseMessagesResponse({
+        historyBeforeSubscribe: vi.fn().mockResolvedValue(
+          createMockPaginatedResult({
+            items: [...newestPage].reverse(),
+            hasNext: () => true,
+            next: () =>
+              Promise.resolve(createMockPaginatedResult({ items: [...olderPage].reverse() })),
+          })
+        ),
+        history,
+      });
+      vi.mocked(useMessages).mockImplementation((params?: UseMessagesParams) => {
+        listener = params?.listener;
+        return response;
+      });
+
+      const { result } = renderHook(() =>
+        useMessageWindow({ windowSize: 4, overscan: 1, maxStoredMessages: 10 })
+      );
+
+      await waitFor(() => {
+        expect(result.current.activeMessages.length).toBeGreaterThan(0);
+      });
+
+      // Anchor on the oldest message and load older history, exceeding the limit
+      act(() => {
+        result.current.showMessagesAroundSerial(getSerial(2000));
+      });
+      await act(async () => {
+        await result.current.loadMoreHistory();
+      });
+
+      await waitFor(() => {
+        expect(result.current.hasNewerMessages).toBe(true);
+      });
+      expect(result.current.activeMessages.map((m) => m.text)).toContain('At 2000');
+
+      // Live messages beyond the evicted range are held back until the gap is filled
+      const live = createTimedMessage(3000);
+      act(() => {
+        listener?.({ type: ChatMessageEventType.Created, message: live });
+      });
+      expect(result.current.activeMessages.map((m) => m.serial)).not.toContain(live.serial);
+
+      act(() => {
+        result.current.showLatestMessages();
+      });
+
+      await waitFor(() => {
+        expect(result.current.hasNewerMessages).toBe(false);
+      });
+      expect(history).toHaveBeenCalledWith(
+        expect.objectContaining({ orderBy: OrderBy.OldestFirst })
+      );
+
+      act(() => {
+        result.current.showLatestMessages();
+      });
+      await waitFor(() => {
+        expect(result.current.activeMessages.at(-1)?.serial).toBe(live.serial);
+      });
+      expect(result.current.activeMessages.map((m) => m.text)).toContain('At 2007');
+    });
+  });
 });
@@ -0,0 +1,181 @@
+import { ConnectionStatus } from '@ably/chat';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { ErrorInfo } from 'ably';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { createMockMessage } from '../../../.storybook/mocks/mock-ably-chat.ts';
+import { useOutbox } from '../../hooks/use-outbox.tsx';
+import { OutboxStore } from '../../utils/outbox.ts';
+
+const mockSendMessage = vi.fn();
+let mockConnectionStatus = ConnectionStatus.Connected;
+
+vi.mock('@ably/chat/react', () => ({
+  useMessages: () => ({ sendMessage: mockSendMessage }),
+  useChatConnection: () => ({ currentStatus: mockConnectionStatus }),
+}));
+
+describe('useOutbox', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockConnectionStatus = ConnectionStatus.Connected;
+    mockSendMessage.mockImplementation(({ text }: { text: string }) =>
+      Promise.resolve(createMockMessage({ text }))
+    );
+  });
+
+  it('sends messages and hands the result to onSent', async () => {
+    const store = new OutboxStore({ persist: false });
+    const onSent = vi.fn();
+    const { result } = renderHook(() => useOutbox({ roomName: 'room', store, onSent }));
+
+    act(() => {
+      result.current.send('hello');
+    });
+    expect(result.current.pendingMessages).toHaveLength(1);
+
+    await waitFor(() => {
+      expect(result.current.pendingMessages).toHaveLength(0);
+    });
+    expect(onSent).toHaveBeenCalledWith(expect.objectContaining({ text: 'hello' }));
+  });
+
+  it('sends the metadata and headers given with a message', async () => {
+    const store = new OutboxStore({ persist: false });
+    const { result } = renderHook(() => useOutbox({ roomName: 'room', store }));
+
+    act(() => {
+      result.current.send('hello', { emote: true }, { 'x-message-type': 'poll' });
+    });
+
+    await waitFor(() => {
+      expect(mockSendMessage).toHaveBeenCalledWith({
+        text: 'hello',
+        metadata: { emote: true },
+        headers: { 'x-message-type': 'poll' },
+      });
+    });
+  });
+
+  it('queues messages while disconnected and flushes them in order on reconnect', async () => {
+    mockConnectionStatus = ConnectionStatus.Disconnected;
+    const store = new OutboxStore({ persist: false });
+    const { result, rerender } = renderHook(() => useOutbox({ roomName: 'room', store }));
+
+    act(() => {
+      result.current.send('first');
+      result.current.send('second');
+    });
+
+    expect(mockSendMessage).not.toHaveBeenCalled();
+    expect(result.current.pendingMessages.map((m) => m.status)).toEqual(['queued', 'queued']);
+
+    mockConnectionStatus = ConnectionStatus.Connected;
+    rerender();
+
+    await waitFor(() => {
+      expect(result.current.pendingMessages).toHaveLength(0);
+    });
+    expect(mockSendMessage.mock.calls).toEqual([[{ text: 'first' }], [{ text: 'second' }]]);
+  });
+
+  it('marks failed sends and retries them on request', async () => {
+    const error = new ErrorInfo('Failed', 50000, 500);
+    mockSendMessage.mockRejectedValueOnce(error);
+    const onSendError = vi.fn();
+    const store = new OutboxStore({ persist: false });
+    const { result } = renderHook(() => useOutbox({ roomName: 'room', store, onSendError }));
+
+    act(() => {
+      result.current.send('hello');
+    });
+
+    await waitFor(() => {
+      expect(result.current.pendingMessages[0]?.status).toBe('failed');
+    });
+    expect(onSendError).toHaveBeenCalledWith(error, 'hello');
+
+    act(() => {
+      result.current.retry(result.current.pendingMessages[0]?.id ?? '');
+    });
+
+    await waitFor(() => {
+      expect(result.current.pendingMessages).toHaveLength(0);
+    });
+    expect(mockSendMessage).toHaveBeenCalledTimes(2);
+  });
+
+  it('holds later messages back until a failed one is retried, keeping them in order', async () => {
+    mockSendMessage.mockRejectedValueOnce(new ErrorInfo('Failed', 50000, 500));
+    const store = new OutboxStore({ persist: false });
+    const { result } = renderHook(() =>
+      useOutbox({ roomName: 'room', store, onSendError: vi.fn() })
+    );
+
+    act(() => {
+      result.current.send('first');
+      result.current.send('second');
+    });
+
+    await waitFor(() => {
+      expect(result.current.pendingMessages.map((m) => m.status)).toEqual(['failed', 'queued']);
+    });
+    expect(mockSendMessage).toHaveBeenCalledTimes(1);
+
+    act(() => {
+      result.current.retry(result.current.pendingMessages[0]?.id ?? '');
+    });
+
+    await waitFor(() => {
+      expect(result.current.pendingMessages).toHaveLength(0);
+    });
+    expect(mockSendMessage.mock.calls.map(([params]) => (params as { text: string }).text)).toEqual(
+      ['first', 'first', 'second']
+    );
+  });
+
+  it('sends the next message once a failed one is discarded', async () => {
+    mockSendMessage.mockRejectedValueOnce(new ErrorInfo('Failed', 50000, 500));
+    const store = new OutboxStore({ persist: false });
+    const { result } = renderHook(() =>
+      useOutbox({ roomName: 'room', store, onSendError: vi.fn() })
+    );
+
+    act(() => {
+      result.current.send('first');
+      result.current.send('second');
+    });
+    await waitFor(() => {
+      expect(result.current.pendingMessages[0]?.status).toBe('failed');
+    });
+
+    act(() => {
+      result.current.discard(result.current.pendingMessages[0]?.id ?? '');
+    });
+
+    await waitFor(() => {
+      expect(result.current.pendingMessages).toHaveLength(0);
+    });
+    expect(mockSendMessage).toHaveBeenLastCalledWith({ text: 'second' });
+  });
+
+  it('reports errors that are not ErrorInfo as ErrorInfo', async () => {
+    const cause = new TypeError('fetch failed');
+    mockSendMessage.mockRejectedValueOnce(cause);
+    const onSendError = vi.fn();
+    const store = new OutboxStore({ persist: false });
+    const { result } = renderHook(() => useOutbox({ roomName: 'room', store, onSendError }));
+
+    act(() => {
+      result.current.send('hello');
+    });
+
+    await waitFor(() => {
+      expect(onSendError).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'fetch failed', code: 50000, statusCode: 500, cause }),
+        'hello'
+      );
+    });
+    expect(result.current.pendingMessages[0]?.error?.code).toBe(50000);
+  });
+});
@@ -0,0 +1,41 @@
+import '@testing-library/jest-dom';
+
+import { act, renderHook } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+
+import { createMockMessage } from '../../../.storybook/mocks/mock-ably-chat.ts';
+import { usePinnedMessages } from '../../hooks/use-pinned-messages.tsx';
+import { LocalPinStore } from '../../utils/pins.ts';
+
+describe('usePinnedMessages', () => {
+  it('pins and unpins messages in the room', async () => {
+    const store = new LocalPinStore({ persist: false });
+    const { result } = renderHook(() => usePinnedMessages({ roomName: 'room', store }));
+
+    expect(result.current.pins).toEqual([]);
+
+    await act(() => result.current.pin(createMockMessage({ serial: 's1', text: 'Rules' }), 'mod'));
+
+    expect(result.current.pins).toMatchObject([{ serial: 's1', text: 'Rules', pinnedBy: 'mod' }]);
+    expect(result.current.pinnedSerials.has('s1')).toBe(true);
+
+    await act(() => result.current.unpin('s1'));
+
+    expect(result.current.pins).toEqual([]);
+    expect(result.current.pinnedSerials.size).toBe(0);
+  });
+
+  it('reflects changes made through the store elsewhere', async () => {
+    const store = new LocalPinStore({ persist: false });
+    const { result } = renderHook(() => usePinnedMessages({ roomName: 'room', store }));
+
+    await act(() =>
+      store.pin('room', { serial: 's2', clientId: 'alice', text: 'Hi', pinnedAt: new Date() })
+    );
+    await act(() =>
+      store.pin('other', { serial: 's3', clientId: 'alice', text: 'Hi', pinnedAt: new Date() })
+    );
+
+    expect(result.current.pins.map((pin) => pin.serial)).toEqual(['s2']);
+  });
+});
@@ -0,0 +1,44 @@
+import '@testing-library/jest-dom';
+
+import { act, renderHook } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+
+import { createMockMessage } from '../../../.storybook/mocks/mock-ably-chat.ts';
+import { useUnreadMessages } from '../../hooks/use-unread-messages.tsx';
+import { ReadMarkerStore } from '../../utils/read-markers.ts';
+
+describe('useUnreadMessages', () => {
+  const messages = [
+    createMockMessage({ serial: 's1', clientId: 'other' }),
+    createMockMessage({ serial: 's2', clientId: 'other' }),
+  ];
+
+  it('reflects the store and updates when messages arrive', () => {
+    const store = new ReadMarkerStore({ persist: false });
+    store.markAsRead('room', 's1');
+    const { result } = renderHook(() => useUnreadMessages({ roomName: 'room', store }));
+
+    expect(result.current.lastReadSerial).toBe('s1');
+    expect(result.current.unreadCount).toBe(0);
+
+    act(() => {
+      store.updateMessages('room', messages, 'me');
+    });
+
+    expect(result.current.unreadCount).toBe(1);
+  });
+
+  it('marks the room as read', () => {
+    const store = new ReadMarkerStore({ persist: false });
+    store.markAsRead('room', 's1');
+    store.updateMessages('room', messages, 'me');
+    const { result } = renderHook(() => useUnreadMessages({ roomName: 'room', store }));
+
+    act(() => {
+      result.current.markAsRead();
+    });
+
+    expect(result.current.lastReadSerial).toBe('s2');
+    expect(result.current.unreadCount).toBe(0);
+  });
+});
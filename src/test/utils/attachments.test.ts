@@ -0,0 +1,91 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import {
+  Attachment,
+  ATTACHMENTS_METADATA_KEY,
+  createAttachmentsMetadata,
+  formatFileSize,
+  getAttachmentKind,
+  getAttachments,
+  MockAttachmentUploader,
+} from '../../utils/attachments.ts';
+
+const image: Attachment = {
+  url: 'https://cdn.example.com/cat.png',
+  name: 'cat.png',
+  mimeType: 'image/png',
+  size: 2048,
+  width: 640,
+  height: 480,
+};
+
+describe('createAttachmentsMetadata', () => {
+  it('stores attachments under the attachments key', () => {
+    expect(createAttachmentsMetadata([image])).toEqual({ [ATTACHMENTS_METADATA_KEY]: [image] });
+  });
+
+  it('returns undefined without attachments', () => {
+    expect(createAttachmentsMetadata([])).toBeUndefined();
+  });
+});
+
+describe('getAttachments', () => {
+  it('reads attachments from metadata, ignoring invalid entries and unsafe URLs', () => {
+    const metadata = {
+      attachments: [
+        { ...image },
+        { url: 'javascript:alert(1)', name: 'x', mimeType: 'text/html', size: 1 },
+        { url: 'https://cdn.example.com/a.pdf', name: 'a.pdf' },
+        'not an attachment',
+      ],
+    };
+
+    expect(getAttachments(metadata)).toEqual([image]);
+  });
+
+  it('returns an empty array when there are no attachments', () => {
+    expect(getAttachments(undefined)).toEqual([]);
+    expect(getAttachments({ attachments: 'nope' })).toEqual([]);
+  });
+});
+
+describe('getAttachmentKind', () => {
+  it('shows images and videos inline and everything else as files', () => {
+    expect(getAttachmentKind({ mimeType: 'image/jpeg' })).toBe('image');
+    expect(getAttachmentKind({ mimeType: 'video/mp4' })).toBe('video');
+    expect(getAttachmentKind({ mimeType: 'application/pdf' })).toBe('file');
+  });
+});
+
+describe('formatFileSize', () => {
+  it('formats sizes in the largest whole unit', () => {
+    expect(formatFileSize(512)).toBe('512 B');
+    expect(formatFileSize(1536)).toBe('1.5 KB');
+    expect(formatFileSize(5 * 1024 * 1024)).toBe('5.0 MB');
+  });
+});
+
+describe('MockAttachmentUploader', () => {
+  const file = new File(['hello'], 'notes.txt', { type: 'text/plain' });
+
+  it('reports progress and resolves with the attachment', async () => {
+    const uploader = new MockAttachmentUploader({ progressSteps: 2 });
+    const onProgress = vi.fn();
+
+    const attachment = await uploader.upload(file, { onProgress });
+
+    expect(onProgress.mock.calls).toEqual([[0.5], [1]]);
+    expect(attachment).toMatchObject({ name: 'notes.txt', mimeType: 'text/plain', size: 5 });
+    expect(getAttachments(createAttachmentsMetadata([attachment]))).toEqual([attachment]);
+  });
+
+  it('rejects when the upload is cancelled', async () => {
+    const uploader = new MockAttachmentUploader({ durationMs: 1000 });
+    const controller = new AbortController();
+
+    const upload = uploader.upload(file, { signal: controller.signal });
+    controller.abort();
+
+    await expect(upload).rejects.toThrow();
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import {
+  LinkPreviewCache,
+  LinkPreviewResolver,
+  sanitizeLinkPreview,
+  StaticLinkPreviewResolver,
+} from '../../utils/link-preview.ts';
+
+describe('StaticLinkPreviewResolver', () => {
+  it('resolves known URLs and nothing else', async () => {
+    const resolver = new StaticLinkPreviewResolver({
+      'https://ably.com': { title: 'Ably', description: 'Realtime' },
+    });
+
+    await expect(resolver.resolve('https://ably.com')).resolves.toEqual({
+      url: 'https://ably.com',
+      title: 'Ably',
+      description: 'Realtime',
+    });
+    await expect(resolver.resolve('https://example.com')).resolves.toBeUndefined();
+  });
+});
+
+describe('sanitizeLinkPreview', () => {
+  it('drops previews of pages that are not http(s), and unsafe images', () => {
+    expect(sanitizeLinkPreview({ url: 'javascript:alert(1)', title: 'Hi' })).toBeUndefined();
+    expect(sanitizeLinkPreview({ url: 'not a url' })).toBeUndefined();
+    expect(
+      sanitizeLinkPreview({ url: 'https://ably.com', title: 'Ably', image: 'javascript:x' })
+    ).toEqual({ url: 'https://ably.com', title: 'Ably', image: undefined });
+    expect(
+      sanitizeLinkPreview({ url: 'http://ably.com', image: 'https://ably.com/og.png' })
+    ).toEqual({ url: 'http://ably.com', image: 'https://ably.com/og.png' });
+  });
+});
+
+describe('LinkPreviewCache', () => {
+  it('does not keep previews with unsafe URLs from the resolver', async () => {
+    const resolver: LinkPreviewResolver = {
+      resolve: (url) => Promise.resolve({ url: 'javascript:alert(1)', title: url }),
+    };
+    const cache = new LinkPreviewCache(resolver);
+    const listener = vi.fn();
+    cache.subscribe(listener);
+
+    cache.load('https://ably.com');
+
+    await vi.waitFor(() => {
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+    expect(cache.get('https://ably.com')).toBeUndefined();
+  });
+
+  it('resolves each URL once and notifies when it settles', async () => {
+    const resolver = new StaticLinkPreviewResolver({ 'https://ably.com': { title: 'Ably' } });
+    const resolve = vi.spyOn(resolver, 'resolve');
+    const cache = new LinkPreviewCache(resolver);
+    const listener = vi.fn();
+    cache.subscribe(listener);
+
+    cache.load('https://ably.com');
+    cache.load('https://ably.com');
+    expect(cache.get('https://ably.com')).toBeUndefined();
+
+    await vi.waitFor(() => {
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+    expect(resolve).toHaveBeenCalledTimes(1);
+    expect(cache.get('https://ably.com')?.title).toBe('Ably');
+    expect(cache.getVersion()).toBe(1);
+  });
+
+  it('reports failed lookups and does not retry them', async () => {
+    const resolver: LinkPreviewResolver = {
+      resolve: vi.fn().mockRejectedValue(new Error('offline')),
+    };
+    const onError = vi.fn();
+    const cache = new LinkPreviewCache(resolver, { onError });
+
+    cache.load('https://ably.com');
+    await vi.waitFor(() => {
+      expect(onError).toHaveBeenCalledWith(expect.any(Error), 'https://ably.com');
+    });
+    cache.load('https://ably.com');
+
+    expect(resolver.resolve).toHaveBeenCalledTimes(1);
+    expect(cache.get('https://ably.com')).toBeUndefined();
+  });
+
+  it('forgets the oldest settled lookups beyond maxEntries', async () => {
+    const resolver = new StaticLinkPreviewResolver({});
+    const resolve = vi.spyOn(resolver, 'resolve');
+    const cache = new LinkPreviewCache(resolver, { maxEntries: 1 });
+    const listener = vi.fn();
+    cache.subscribe(listener);
+
+    cache.load('https://a.com');
+    await vi.waitFor(() => {
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+    cache.load('https://b.com');
+    cache.load('https://a.com');
+
+    expect(resolve).toHaveBeenCalledTimes(3);
+  });
+});
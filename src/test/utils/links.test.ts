@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+
+import { extractLinks, isLinkAllowed, linkifyText } from '../../utils/links.ts';
+
+describe('linkifyText', () => {
+  it('splits text around URLs', () => {
+    expect(linkifyText('See https://ably.com/docs for details')).toEqual([
+      { type: 'text', text: 'See ' },
+      { type: 'link', text: 'https://ably.com/docs', href: 'https://ably.com/docs' },
+      { type: 'text', text: ' for details' },
+    ]);
+  });
+
+  it('links bare www hostnames over https', () => {
+    expect(linkifyText('www.ably.com')).toEqual([
+      { type: 'link', text: 'www.ably.com', href: 'https://www.ably.com' },
+    ]);
+  });
+
+  it('leaves trailing punctuation and unbalanced parentheses out of the link', () => {
+    expect(linkifyText('(see https://ably.com/docs).')).toEqual([
+      { type: 'text', text: '(see ' },
+      { type: 'link', text: 'https://ably.com/docs', href: 'https://ably.com/docs' },
+      { type: 'text', text: ').' },
+    ]);
+    expect(extractLinks('https://en.wikipedia.org/wiki/Ably_(company)!')).toEqual([
+      'https://en.wikipedia.org/wiki/Ably_(company)',
+    ]);
+  });
+
+  it('keeps URLs rejected by the policy as text', () => {
+    expect(linkifyText('go to https://bit.ly/x', { deniedDomains: ['bit.ly'] })).toEqual([
+      { type: 'text', text: 'go to https://bit.ly/x' },
+    ]);
+  });
+});
+
+describe('isLinkAllowed', () => {
+  it('matches domains and their subdomains', () => {
+    const policy = { allowedDomains: ['ably.com'], deniedDomains: ['status.ably.com'] };
+
+    expect(isLinkAllowed('https://ably.com', policy)).toBe(true);
+    expect(isLinkAllowed('https://docs.ably.com', policy)).toBe(true);
+    expect(isLinkAllowed('https://status.ably.com', policy)).toBe(false);
+    expect(isLinkAllowed('https://notably.com', policy)).toBe(false);
+  });
+
+  it('rejects unsafe protocols regardless of the policy', () => {
+    expect(isLinkAllowed('javascript:alert(1)')).toBe(false);
+  });
+});
+
+describe('extractLinks', () => {
+  it('returns each allowed URL once, in order', () => {
+    expect(
+      extractLinks('https://b.com and https://a.com, then https://b.com again', {
+        deniedDomains: ['c.com'],
+      })
+    ).toEqual(['https://b.com', 'https://a.com']);
+  });
+});
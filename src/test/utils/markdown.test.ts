@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  isSafeLinkHref,
+  parseInlineMarkdown,
+  parseMarkdown,
+  splitCodeBlocks,
+} from '../../utils/markdown.ts';
+
+describe('parseInlineMarkdown', () => {
+  it('parses bold, italic, strikethrough and inline code', () => {
+    expect(parseInlineMarkdown('**bold** *em* ~~gone~~ `x = 1`')).toEqual([
+      { type: 'strong', children: [{ type: 'text', text: 'bold' }] },
+      { type: 'text', text: ' ' },
+      { type: 'emphasis', children: [{ type: 'text', text: 'em' }] },
+      { type: 'text', text: ' ' },
+      { type: 'strikethrough', children: [{ type: 'text', text: 'gone' }] },
+      { type: 'text', text: ' ' },
+      { type: 'code', text: 'x = 1' },
+    ]);
+  });
+
+  it('leaves underscores inside words alone', () => {
+    expect(parseInlineMarkdown('call my_helper_fn now')).toEqual([
+      { type: 'text', text: 'call my_helper_fn now' },
+    ]);
+    expect(parseInlineMarkdown('_quiet_')).toEqual([
+      { type: 'emphasis', children: [{ type: 'text', text: 'quiet' }] },
+    ]);
+  });
+
+  it('does not format inside code spans or escaped characters', () => {
+    expect(parseInlineMarkdown('`**raw**` \\*literal\\*')).toEqual([
+      { type: 'code', text: '**raw**' },
+      { type: 'text', text: ' *literal*' },
+    ]);
+  });
+
+  it('renders safe links and keeps unsafe ones as text', () => {
+    expect(parseInlineMarkdown('[docs](https://ably.com/docs)')).toEqual([
+      { type: 'link', href: 'https://ably.com/docs', children: [{ type: 'text', text: 'docs' }] },
+    ]);
+    expect(parseInlineMarkdown('[click](javascript:alert(1))')).toEqual([
+      { type: 'text', text: '[click](javascript:alert(1))' },
+    ]);
+  });
+});
+
+describe('parseMarkdown', () => {
+  it('parses fenced code blocks without formatting their contents', () => {
+    expect(parseMarkdown('```ts\nconst a = **b**;\n```')).toEqual([
+      { type: 'codeBlock', language: 'ts', code: 'const a = **b**;' },
+    ]);
+  });
+
+  it('parses ordered and unordered lists', () => {
+    expect(parseMarkdown('- one\n- two\n\n3. three')).toEqual([
+      {
+        type: 'list',
+        ordered: false,
+        start: 1,
+        items: [[{ type: 'text', text: 'one' }], [{ type: 'text', text: 'two' }]],
+      },
+      { type: 'list', ordered: true, start: 3, items: [[{ type: 'text', text: 'three' }]] },
+    ]);
+  });
+
+  it('parses blockquotes and keeps line breaks in paragraphs', () => {
+    expect(parseMarkdown('> quoted\nfirst\nsecond')).toEqual([
+      {
+        type: 'blockquote',
+        children: [{ type: 'paragraph', children: [{ type: 'text', text: 'quoted' }] }],
+      },
+      { type: 'paragraph', children: [{ type: 'text', text: 'first\nsecond' }] },
+    ]);
+  });
+
+  it('keeps HTML as literal text', () => {
+    expect(parseMarkdown('<img src=x onerror=alert(1)>')).toEqual([
+      { type: 'paragraph', children: [{ type: 'text', text: '<img src=x onerror=alert(1)>' }] },
+    ]);
+  });
+});
+
+describe('isSafeLinkHref', () => {
+  it('allows only http, https and mailto URLs', () => {
+    expect(isSafeLinkHref('https://example.com')).toBe(true);
+    expect(isSafeLinkHref('mailto:team@example.com')).toBe(true);
+    expect(isSafeLinkHref('javascript:alert(1)')).toBe(false);
+    expect(isSafeLinkHref('/relative')).toBe(false);
+  });
+});
+
+describe('splitCodeBlocks', () => {
+  it('splits fenced code blocks from the text around them', () => {
+    expect(splitCodeBlocks('Try this:\n```py\nprint("**hi**")\n```\nThen run it')).toEqual([
+      { type: 'text', text: 'Try this:' },
+      { type: 'codeBlock', language: 'py', code: 'print("**hi**")' },
+      { type: 'text', text: 'Then run it' },
+    ]);
+  });
+
+  it('keeps text without fences as a single segment and closes unterminated fences', () => {
+    expect(splitCodeBlocks('Ship **it**')).toEqual([{ type: 'text', text: 'Ship **it**' }]);
+    expect(splitCodeBlocks('```\nno end')).toEqual([
+      { type: 'codeBlock', language: undefined, code: 'no end' },
+    ]);
+  });
+});
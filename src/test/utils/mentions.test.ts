@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  createMentionsMetadata,
+  findMentionQuery,
+  getMentions,
+  isMentioned,
+  splitMentions,
+} from '../../utils/mentions.ts';
+
+const alice = { clientId: 'alice-1', label: 'Alice' };
+const aliceSmith = { clientId: 'alice-2', label: 'Alice Smith' };
+
+describe('splitMentions', () => {
+  it('splits text around whole-word mentions, preferring longer labels', () => {
+    expect(splitMentions('Hi @Alice Smith and @Alice!', [alice, aliceSmith])).toEqual([
+      { type: 'text', text: 'Hi ' },
+      { type: 'mention', mention: aliceSmith },
+      { type: 'text', text: ' and ' },
+      { type: 'mention', mention: alice },
+      { type: 'text', text: '!' },
+    ]);
+  });
+
+  it('ignores labels within words and email addresses', () => {
+    expect(splitMentions('mail bob@Alice or @Alicein', [alice])).toEqual([
+      { type: 'text', text: 'mail bob@Alice or @Alicein' },
+    ]);
+  });
+});
+
+describe('createMentionsMetadata', () => {
+  it('keeps only mentions still present in the text, once each', () => {
+    expect(createMentionsMetadata('@Alice @Alice', [alice, aliceSmith, alice])).toEqual({
+      mentions: [alice],
+    });
+    expect(createMentionsMetadata('nobody here', [alice])).toBeUndefined();
+  });
+});
+
+describe('getMentions', () => {
+  it('ignores malformed metadata', () => {
+    expect(getMentions({ mentions: [alice, { clientId: 3 }, 'x'] })).toEqual([alice]);
+    expect(getMentions({ mentions: 'alice' })).toEqual([]);
+    expect(getMentions(undefined)).toEqual([]);
+  });
+});
+
+describe('isMentioned', () => {
+  it('checks that the mention is still in the text, e.g. after an edit', () => {
+    const metadata = { mentions: [alice] };
+
+    expect(isMentioned('hey @Alice', metadata, 'alice-1')).toBe(true);
+    expect(isMentioned('hey everyone', metadata, 'alice-1')).toBe(false);
+    expect(isMentioned('hey @Alice', metadata, 'bob')).toBe(false);
+  });
+});
+
+describe('findMentionQuery', () => {
+  it('finds an @ query immediately before the caret', () => {
+    expect(findMentionQuery('hello @ali', 10)).toEqual({ start: 6, query: 'ali' });
+    expect(findMentionQuery('@', 1)).toEqual({ start: 0, query: '' });
+  });
+
+  it('ignores email addresses and finished mentions', () => {
+    expect(findMentionQuery('me@example', 10)).toBeUndefined();
+    expect(findMentionQuery('@Alice hi', 9)).toBeUndefined();
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createMockMessage } from '../../../.storybook/mocks/mock-ably-chat.ts';
+import { ChatSettings } from '../../context/chat-settings-context.tsx';
+import {
+  canDeleteMessage,
+  canEditMessage,
+  getAvailableMessageActions,
+  MessageAction,
+} from '../../utils/message-actions.ts';
+
+const copyLink: MessageAction = {
+  id: 'copy-link',
+  label: 'Copy link',
+  isVisible: (message) => message.text.includes('https://'),
+  onSelect: vi.fn(),
+};
+
+const report: MessageAction = {
+  id: 'report',
+  label: 'Report',
+  isPermitted: (_message, { isOwn }) => !isOwn,
+  onSelect: vi.fn(),
+};
+
+const forward: MessageAction = { id: 'forward', label: 'Forward', onSelect: vi.fn() };
+
+const context = { currentClientId: 'alice', isOwn: false, settings: {} as ChatSettings };
+
+describe('getAvailableMessageActions', () => {
+  it('returns no actions when none are registered', () => {
+    expect(getAvailableMessageActions(undefined, createMockMessage(), context)).toEqual([]);
+  });
+
+  it('keeps actions that are visible and permitted, in order', () => {
+    const message = createMockMessage({ text: 'See https://ably.com' });
+
+    expect(getAvailableMessageActions([copyLink, report, forward], message, context)).toEqual([
+      copyLink,
+      report,
+      forward,
+    ]);
+  });
+
+  it('hides actions that do not apply to the message', () => {
+    const message = createMockMessage({ text: 'No links here' });
+
+    expect(getAvailableMessageActions([copyLink, forward], message, context)).toEqual([forward]);
+  });
+
+  it('hides actions the current user may not use', () => {
+    const message = createMockMessage({ clientId: 'alice' });
+
+    expect(
+      getAvailableMessageActions([report, forward], message, { ...context, isOwn: true })
+    ).toEqual([forward]);
+  });
+});
+
+describe('canEditMessage and canDeleteMessage', () => {
+  const settings = {
+    allowMessageUpdatesOwn: true,
+    allowMessageUpdatesAny: false,
+    allowMessageDeletesOwn: false,
+    allowMessageDeletesAny: false,
+  } as ChatSettings;
+
+  it('allow own messages only with the own setting', () => {
+    expect(canEditMessage(true, settings)).toBe(true);
+    expect(canEditMessage(false, settings)).toBe(false);
+    expect(canDeleteMessage(true, settings)).toBe(false);
+  });
+
+  it('allow every message with the any setting', () => {
+    const any = { ...settings, allowMessageUpdatesOwn: false, allowMessageUpdatesAny: true };
+    expect(canEditMessage(true, any)).toBe(true);
+    expect(canEditMessage(false, any)).toBe(true);
+    expect(canDeleteMessage(false, { ...settings, allowMessageDeletesAny: true })).toBe(true);
+  });
+});
@@ -0,0 +1,129 @@
+import { ChatMessageAction, MessageReactionSummaryEventType } from '@ably/chat';
+import { describe, expect, it } from 'vitest';
+
+import { createMockMessage } from '../../../.storybook/mocks/mock-ably-chat.ts';
+import {
+  IndexedDBMessageCache,
+  InMemoryMessageCache,
+  restoreMessage,
+  serializeMessage,
+} from '../../utils/message-cache.ts';
+
+describe('message cache', () => {
+  describe('serializeMessage / restoreMessage', () => {
+    it('round-trips message fields through serialization', () => {
+      const original = createMockMessage({
+        serial: 'serial-1',
+        clientId: 'user1',
+        text: 'Hello',
+        metadata: { foo: 'bar' },
+        headers: { type: 'note' },
+        timestamp: new Date(1000),
+        version: { serial: 'version-1', timestamp: new Date(2000) },
+      });
+
+      const restored = restoreMessage(structuredClone(serializeMessage(original)));
+
+      expect(restored.serial).toBe('serial-1');
+      expect(restored.clientId).toBe('user1');
+      expect(restored.text).toBe('Hello');
+      expect(restored.metadata).toEqual({ foo: 'bar' });
+      expect(restored.headers).toEqual({ type: 'note' });
+      expect(restored.timestamp).toEqual(new Date(1000));
+      expect(restored.version.timestamp).toEqual(new Date(2000));
+    });
+
+    it('applies newer versions and ignores older ones', () => {
+      const restored = restoreMessage(
+        serializeMessage(
+          createMockMessage({
+            serial: 'serial-1',
+            text: 'Original',
+            version: { serial: 'version-2', timestamp: new Date() },
+          })
+        )
+      );
+
+      const older = createMockMessage({
+        serial: 'serial-1',
+        text: 'Older',
+        version: { serial: 'version-1', timestamp: new Date() },
+      });
+      expect(restored.with(older)).toBe(restored);
+
+      const newer = createMockMessage({
+        serial: 'serial-1',
+        text: 'Edited',
+        action: ChatMessageAction.MessageUpdate,
+        version: { serial: 'version-3', timestamp: new Date() },
+      });
+      const merged = restored.with(newer);
+      expect(merged.text).toBe('Edited');
+      expect(merged.action).toBe(ChatMessageAction.MessageUpdate);
+    });
+
+    it('applies reaction summaries', () => {
+      const restored = restoreMessage(serializeMessage(createMockMessage({ serial: 'serial-1' })));
+
+      const merged = restored.with({
+        type: MessageReactionSummaryEventType.Summary,
+        messageSerial: 'serial-1',
+        reactions: {
+          distinct: { '👍': { total: 1, clientIds: ['user1'], clipped: false } },
+          unique: {},
+          multiple: {},
+        },
+      });
+
+      expect(merged.reactions.distinct['👍']?.total).toBe(1);
+    });
+
+    it('rejects events for a different message', () => {
+      const restored = restoreMessage(serializeMessage(createMockMessage({ serial: 'serial-1' })));
+
+      expect(() => restored.with(createMockMessage({ serial: 'serial-2' }))).toThrow();
+    });
+  });
+
+  describe('InMemoryMessageCache', () => {
+    it('returns an empty list for unknown rooms', async () => {
+      const cache = new InMemoryMessageCache();
+
+      await expect(cache.load('unknown')).resolves.toEqual([]);
+    });
+
+    it('saves, loads and clears messages per room', async () => {
+      const cache = new InMemoryMessageCache();
+      await cache.save('room-a', [createMockMessage({ serial: 'a1', text: 'in a' })]);
+      await cache.save('room-b', [createMockMessage({ serial: 'b1', text: 'in b' })]);
+
+      const roomA = await cache.load('room-a');
+      expect(roomA.map((m) => m.text)).toEqual(['in a']);
+
+      await cache.clear('room-a');
+      await expect(cache.load('room-a')).resolves.toEqual([]);
+      await expect(cache.load('room-b')).resolves.toHaveLength(1);
+    });
+
+    it('keeps only the newest messages up to maxMessagesPerRoom', async () => {
+      const cache = new InMemoryMessageCache({ maxMessagesPerRoom: 2 });
+      await cache.save('room', [
+        createMockMessage({ serial: 's1' }),
+        createMockMessage({ serial: 's2' }),
+        createMockMessage({ serial: 's3' }),
+      ]);
+
+      const loaded = await cache.load('room');
+      expect(loaded.map((m) => m.serial)).toEqual(['s2', 's3']);
+    });
+  });
+
+  describe('IndexedDBMessageCache', () => {
+    it('behaves as an empty cache when IndexedDB is unavailable', async () => {
+      const cache = new IndexedDBMessageCache();
+
+      await cache.save('room', [createMockMessage({ serial: 's1' })]);
+      await expect(cache.load('room')).resolves.toEqual([]);
+    });
+  });
+});
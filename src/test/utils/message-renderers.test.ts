@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+
+import { createMockMessage } from '../../../.storybook/mocks/mock-ably-chat.ts';
+import {
+  findMessageRenderer,
+  matchHeader,
+  matchMetadata,
+  MessageRenderer,
+} from '../../utils/message-renderers.ts';
+
+describe('findMessageRenderer', () => {
+  const first: MessageRenderer = { match: matchHeader('type', 'notice'), render: () => 'first' };
+  const second: MessageRenderer = { match: () => true, render: () => 'second' };
+
+  it('returns the first renderer whose match returns true', () => {
+    const notice = createMockMessage({ headers: { type: 'notice' } });
+    const plain = createMockMessage({});
+
+    expect(findMessageRenderer([first, second], notice)).toBe(first);
+    expect(findMessageRenderer([first, second], plain)).toBe(second);
+  });
+
+  it('returns undefined when nothing matches or no renderers are given', () => {
+    const plain = createMockMessage({});
+
+    expect(findMessageRenderer([first], plain)).toBeUndefined();
+    expect(findMessageRenderer(undefined, plain)).toBeUndefined();
+  });
+});
+
+describe('matchHeader', () => {
+  it('matches messages with the header set to the value', () => {
+    const match = matchHeader('type', 'order-update');
+
+    expect(match(createMockMessage({ headers: { type: 'order-update' } }))).toBe(true);
+    expect(match(createMockMessage({ headers: { type: 'other' } }))).toBe(false);
+    expect(match(createMockMessage({}))).toBe(false);
+  });
+});
+
+describe('matchMetadata', () => {
+  it('matches messages with the metadata key set to the value', () => {
+    const match = matchMetadata('bot', true);
+
+    expect(match(createMockMessage({ metadata: { bot: true } }))).toBe(true);
+    expect(match(createMockMessage({ metadata: { bot: 'true' } }))).toBe(false);
+  });
+});
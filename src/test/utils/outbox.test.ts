@@ -0,0 +1,88 @@
+import { ErrorInfo } from 'ably';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { OutboxStore } from '../../utils/outbox.ts';
+
+describe('OutboxStore', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('queues messages per room in the order they were added', () => {
+    const store = new OutboxStore({ persist: false });
+    store.enqueue('room', 'first');
+    store.enqueue('room', 'second');
+    store.enqueue('other', 'elsewhere');
+
+    expect(store.getMessages('room').map((m) => [m.text, m.status])).toEqual([
+      ['first', 'queued'],
+      ['second', 'queued'],
+    ]);
+    expect(store.getMessages('other')).toHaveLength(1);
+  });
+
+  it('updates status and error, and removes messages', () => {
+    const store = new OutboxStore({ persist: false });
+    const { id } = store.enqueue('room', 'hello');
+    const error = new ErrorInfo('Failed', 50000, 500);
+
+    store.setStatus('room', id, 'failed', error);
+    expect(store.getMessages('room')[0]).toMatchObject({ status: 'failed', error });
+
+    store.setStatus('room', id, 'queued');
+    expect(store.getMessages('room')[0]?.error).toBeUndefined();
+
+    store.remove('room', id);
+    expect(store.getMessages('room')).toEqual([]);
+  });
+
+  it('notifies subscribers when an outbox changes', () => {
+    const store = new OutboxStore({ persist: false });
+    const listener = vi.fn();
+    const unsubscribe = store.subscribe(listener);
+
+    const { id } = store.enqueue('room', 'hello');
+    store.setStatus('room', id, 'sending');
+    expect(listener).toHaveBeenCalledTimes(2);
+
+    unsubscribe();
+    store.remove('room', id);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it('persists messages to localStorage, restoring in-flight sends as failed', () => {
+    const store = new OutboxStore();
+    store.enqueue('room', 'queued');
+    const { id } = store.enqueue('room', 'in flight');
+    store.setStatus('room', id, 'sending');
+
+    const restored = new OutboxStore().getMessages('room');
+
+    expect(restored.map((m) => [m.text, m.status])).toEqual([
+      ['queued', 'queued'],
+      ['in flight', 'failed'],
+    ]);
+    expect(restored[0]?.createdAt).toBeInstanceOf(Date);
+  });
+
+  it('keeps message metadata and headers through status changes and reloads', () => {
+    const store = new OutboxStore();
+    const metadata = { mentions: [{ clientId: 'alice', label: 'Alice' }] };
+    const headers = { 'x-message-type': 'poll' };
+    const { id } = store.enqueue('room', 'hi @Alice', metadata, headers);
+    store.setStatus('room', id, 'failed');
+
+    expect(store.getMessages('room')[0]).toMatchObject({ metadata, headers });
+    expect(new OutboxStore().getMessages('room')[0]).toMatchObject({ metadata, headers });
+  });
+
+  it('reports invalid persisted data through onError', () => {
+    localStorage.setItem('ably-chat-ui-outbox', JSON.stringify({ foo: 'bar' }));
+    const onError = vi.fn();
+
+    const store = new OutboxStore({ onError });
+
+    expect(store.getMessages('room')).toEqual([]);
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { PersistedStore, PersistedStoreOptions } from '../../utils/persisted-store.ts';
+
+interface Data {
+  items: string[];
+}
+
+const createStore = (options: Partial<PersistedStoreOptions<Data>> = {}) =>
+  new PersistedStore<Data>({
+    persist: true,
+    storageKey: 'test-store',
+    version: 2,
+    name: 'test',
+    isValid: (data) => Array.isArray(data.items),
+    restore: vi.fn(),
+    ...options,
+  });
+
+describe('PersistedStore', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('saves data with its version and restores it once', () => {
+    createStore().save({ items: ['a'] });
+    expect(JSON.parse(localStorage.getItem('test-store') ?? '')).toEqual({
+      items: ['a'],
+      version: 2,
+    });
+
+    const restore = vi.fn();
+    const store = createStore({ restore });
+    store.init();
+    store.init();
+
+    expect(restore).toHaveBeenCalledTimes(1);
+    expect(restore).toHaveBeenCalledWith({ items: ['a'], version: 2 });
+  });
+
+  it('reports data with another version or an invalid shape', () => {
+    const onError = vi.fn();
+    const restore = vi.fn();
+
+    localStorage.setItem('test-store', JSON.stringify({ items: ['a'], version: 1 }));
+    createStore({ onError, restore }).init();
+    localStorage.setItem('test-store', JSON.stringify({ items: 'a', version: 2 }));
+    createStore({ onError, restore }).init();
+    localStorage.setItem('test-store', '{not json');
+    createStore({ onError, restore }).init();
+
+    expect(restore).not.toHaveBeenCalled();
+    expect(onError).toHaveBeenCalledTimes(3);
+    expect(onError).toHaveBeenCalledWith(new Error('Invalid test data in localStorage'));
+  });
+
+  it('does not touch localStorage when not persisting', () => {
+    localStorage.setItem('test-store', JSON.stringify({ items: ['a'], version: 2 }));
+    const restore = vi.fn();
+    const store = createStore({ persist: false, restore });
+
+    store.init();
+    store.save({ items: ['b'] });
+
+    expect(restore).not.toHaveBeenCalled();
+    expect(JSON.parse(localStorage.getItem('test-store') ?? '')).toEqual({
+      items: ['a'],
+      version: 2,
+    });
+  });
+
+  it('reports storage write failures', () => {
+    const onError = vi.fn();
+    const error = new Error('Quota exceeded');
+    const setItem = vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw error;
+    });
+
+    createStore({ onError }).save({ items: [] });
+
+    expect(onError).toHaveBeenCalledWith(error);
+    setItem.mockRestore();
+  });
+
+  it('notifies subscribed listeners until they unsubscribe', () => {
+    const store = createStore();
+    const listener = vi.fn();
+    const unsubscribe = store.subscribe(listener);
+
+    store.notify();
+    unsubscribe();
+    store.notify();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,104 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { createMockMessage } from '../../../.storybook/mocks/mock-ably-chat.ts';
+import { createPinnedMessage, LocalPinStore, PinnedMessage } from '../../utils/pins.ts';
+
+const makePin = (serial: string): PinnedMessage => ({
+  serial,
+  clientId: 'alice',
+  text: `Message ${serial}`,
+  pinnedAt: new Date(),
+});
+
+describe('createPinnedMessage', () => {
+  it('builds a pin with a snippet of the message text', () => {
+    const message = createMockMessage({ serial: 's1', clientId: 'alice', text: 'a'.repeat(200) });
+
+    const pin = createPinnedMessage(message, 'mod');
+
+    expect(pin).toMatchObject({ serial: 's1', clientId: 'alice', pinnedBy: 'mod' });
+    expect(pin.text.length).toBeLessThan(200);
+    expect(pin.pinnedAt).toBeInstanceOf(Date);
+  });
+
+  it('omits pinnedBy when not given', () => {
+    const pin = createPinnedMessage(createMockMessage({ serial: 's1' }));
+
+    expect(pin).not.toHaveProperty('pinnedBy');
+  });
+});
+
+describe('LocalPinStore', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('keeps pins per room, most recently pinned first', async () => {
+    const store = new LocalPinStore({ persist: false });
+    await store.pin('room', makePin('s1'));
+    await store.pin('room', makePin('s2'));
+    await store.pin('other', makePin('s3'));
+
+    expect(store.getPins('room').map((p) => p.serial)).toEqual(['s2', 's1']);
+    expect(store.getPins('other')).toHaveLength(1);
+    expect(store.getPins('empty')).toEqual([]);
+  });
+
+  it('moves a message pinned again to the top, and unpins messages', async () => {
+    const store = new LocalPinStore({ persist: false });
+    await store.pin('room', makePin('s1'));
+    await store.pin('room', makePin('s2'));
+    await store.pin('room', makePin('s1'));
+
+    expect(store.getPins('room').map((p) => p.serial)).toEqual(['s1', 's2']);
+
+    await store.unpin('room', 's1');
+    expect(store.getPins('room').map((p) => p.serial)).toEqual(['s2']);
+  });
+
+  it('returns the same array until the pins change', async () => {
+    const store = new LocalPinStore({ persist: false });
+    await store.pin('room', makePin('s1'));
+    const pins = store.getPins('room');
+
+    expect(store.getPins('room')).toBe(pins);
+
+    await store.pin('room', makePin('s2'));
+    expect(store.getPins('room')).not.toBe(pins);
+  });
+
+  it('notifies subscribers when pins change', async () => {
+    const store = new LocalPinStore({ persist: false });
+    const listener = vi.fn();
+    const unsubscribe = store.subscribe(listener);
+
+    await store.pin('room', makePin('s1'));
+    await store.unpin('room', 'missing');
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    unsubscribe();
+    await store.unpin('room', 's1');
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('persists pins to localStorage', async () => {
+    const store = new LocalPinStore();
+    await store.pin('room', { ...makePin('s1'), pinnedBy: 'mod' });
+
+    const restored = new LocalPinStore().getPins('room');
+
+    expect(restored).toHaveLength(1);
+    expect(restored[0]).toMatchObject({ serial: 's1', pinnedBy: 'mod' });
+    expect(restored[0]?.pinnedAt).toBeInstanceOf(Date);
+  });
+
+  it('reports invalid persisted data through onError', () => {
+    localStorage.setItem('ably-chat-ui-pins', JSON.stringify({ foo: 'bar' }));
+    const onError = vi.fn();
+
+    const store = new LocalPinStore({ onError });
+
+    expect(store.getPins('room')).toEqual([]);
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,59 @@
+import { MessageReactionSummary, MessageReactionType } from '@ably/chat';
+import { describe, expect, it } from 'vitest';
+
+import { getReactionCounts, getUserReactionCount } from '../../utils/reactions.ts';
+
+const summary = {
+  distinct: { '👍': { total: 2, clientIds: ['alice', 'bob'], clipped: false } },
+  unique: { '🎉': { total: 1, clientIds: ['carol'], clipped: false } },
+  multiple: {
+    '👏': {
+      total: 7,
+      clientIds: { alice: 4, bob: 1 },
+      totalUnidentified: 2,
+      clipped: false,
+      totalClientIds: 3,
+    },
+  },
+} as MessageReactionSummary;
+
+describe('getReactionCounts', () => {
+  it('reads the summary for distinct and unique reactions', () => {
+    expect(getReactionCounts(summary, MessageReactionType.Distinct)).toEqual([
+      { emoji: '👍', total: 2, reactorCount: 2, clientIds: ['alice', 'bob'] },
+    ]);
+    expect(getReactionCounts(summary, MessageReactionType.Unique)).toEqual([
+      { emoji: '🎉', total: 1, reactorCount: 1, clientIds: ['carol'] },
+    ]);
+  });
+
+  it('reads per-user counts for multiple reactions', () => {
+    expect(getReactionCounts(summary, MessageReactionType.Multiple)).toEqual([
+      {
+        emoji: '👏',
+        total: 7,
+        reactorCount: 3,
+        clientIds: ['alice', 'bob'],
+        counts: { alice: 4, bob: 1 },
+      },
+    ]);
+  });
+});
+
+describe('getUserReactionCount', () => {
+  it('counts a user reaction once for distinct reactions', () => {
+    const [reaction] = getReactionCounts(summary, MessageReactionType.Distinct);
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    expect(getUserReactionCount(reaction!, 'bob')).toBe(1);
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    expect(getUserReactionCount(reaction!, 'carol')).toBe(0);
+  });
+
+  it('counts repeated multiple reactions', () => {
+    const [reaction] = getReactionCounts(summary, MessageReactionType.Multiple);
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    expect(getUserReactionCount(reaction!, 'alice')).toBe(4);
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    expect(getUserReactionCount(reaction!, 'carol')).toBe(0);
+  });
+});
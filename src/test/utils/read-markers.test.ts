@@ -0,0 +1,95 @@
+import { ChatMessageAction } from '@ably/chat';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { createMockMessage } from '../../../.storybook/mocks/mock-ably-chat.ts';
+import { ReadMarkerStore } from '../../utils/read-markers.ts';
+
+describe('ReadMarkerStore', () => {
+  const messages = [
+    createMockMessage({ serial: 's1', clientId: 'other' }),
+    createMockMessage({ serial: 's2', clientId: 'me' }),
+    createMockMessage({ serial: 's3', clientId: 'other' }),
+    createMockMessage({ serial: 's4', clientId: 'other', action: ChatMessageAction.MessageDelete }),
+  ];
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('has no marker or unread messages for unknown rooms', () => {
+    const store = new ReadMarkerStore({ persist: false });
+
+    expect(store.getPosition('room')).toEqual({ unreadCount: 0 });
+  });
+
+  it('counts messages from others after the marker, ignoring deleted messages', () => {
+    const store = new ReadMarkerStore({ persist: false });
+    store.markAsRead('room', 's1');
+    store.updateMessages('room', messages, 'me');
+
+    expect(store.getPosition('room')).toEqual({
+      lastReadSerial: 's1',
+      latestSerial: 's4',
+      unreadCount: 1,
+    });
+  });
+
+  it('keeps counting reported messages after they are unloaded', () => {
+    const store = new ReadMarkerStore({ persist: false });
+    store.markAsRead('room', 's0');
+    store.updateMessages('room', messages, 'me');
+    store.updateMessages('room', [createMockMessage({ serial: 's5', clientId: 'other' })], 'me');
+
+    expect(store.getPosition('room')).toMatchObject({ latestSerial: 's5', unreadCount: 3 });
+
+    store.markAsRead('room', 's3');
+    expect(store.getPosition('room').unreadCount).toBe(1);
+  });
+
+  it('only moves the marker forward', () => {
+    const store = new ReadMarkerStore({ persist: false });
+    store.markAsRead('room', 's3');
+    store.markAsRead('room', 's1');
+
+    expect(store.getPosition('room').lastReadSerial).toBe('s3');
+  });
+
+  it('marks the newest known message as read when no serial is given', () => {
+    const store = new ReadMarkerStore({ persist: false });
+    store.markAsRead('room', 's1');
+    store.updateMessages('room', messages, 'me');
+
+    store.markAsRead('room');
+
+    expect(store.getPosition('room')).toMatchObject({ lastReadSerial: 's4', unreadCount: 0 });
+  });
+
+  it('notifies subscribers when read state changes', () => {
+    const store = new ReadMarkerStore({ persist: false });
+    const listener = vi.fn();
+    const unsubscribe = store.subscribe(listener);
+
+    store.markAsRead('room', 's1');
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    unsubscribe();
+    store.markAsRead('room', 's2');
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('persists markers to localStorage', () => {
+    new ReadMarkerStore().markAsRead('room', 's2');
+
+    expect(new ReadMarkerStore().getPosition('room').lastReadSerial).toBe('s2');
+  });
+
+  it('reports invalid persisted data through onError', () => {
+    localStorage.setItem('ably-chat-ui-read-markers', JSON.stringify({ foo: 'bar' }));
+    const onError = vi.fn();
+
+    const store = new ReadMarkerStore({ onError });
+
+    expect(store.getPosition('room')).toEqual({ unreadCount: 0 });
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+});
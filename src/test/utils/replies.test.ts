@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+
+import { createMockMessage } from '../../../.storybook/mocks/mock-ably-chat.ts';
+import { createReplyMetadata, createSnippet, getReplyReference } from '../../utils/replies.ts';
+
+describe('createSnippet', () => {
+  it('collapses whitespace onto one line', () => {
+    expect(createSnippet('  first line\n\n  second   line ')).toBe('first line second line');
+  });
+
+  it('truncates long text with an ellipsis', () => {
+    expect(createSnippet('one two three four', 10)).toBe('one two t…');
+    expect(createSnippet('short', 10)).toBe('short');
+  });
+});
+
+describe('createReplyMetadata', () => {
+  it('stores the parent serial, sender and a snippet of its text', () => {
+    const parent = createMockMessage({
+      serial: 'parent-1',
+      clientId: 'alice',
+      text: `Hello\n${'x'.repeat(200)}`,
+    });
+
+    const metadata = createReplyMetadata(parent);
+    const reply = getReplyReference(metadata);
+
+    expect(reply?.serial).toBe('parent-1');
+    expect(reply?.clientId).toBe('alice');
+    expect(reply?.text).toHaveLength(140);
+    expect(reply?.text.startsWith('Hello x')).toBe(true);
+  });
+});
+
+describe('getReplyReference', () => {
+  it('returns undefined for messages that are not replies', () => {
+    expect(getReplyReference(undefined)).toBeUndefined();
+    expect(getReplyReference({ mentions: [] })).toBeUndefined();
+  });
+
+  it('ignores malformed references', () => {
+    expect(getReplyReference({ replyTo: 'parent-1' })).toBeUndefined();
+    expect(getReplyReference({ replyTo: [] })).toBeUndefined();
+    expect(getReplyReference({ replyTo: { serial: '', clientId: 'alice' } })).toBeUndefined();
+    expect(getReplyReference({ replyTo: { serial: 'parent-1', clientId: 7 } })).toBeUndefined();
+  });
+
+  it('tolerates a missing snippet', () => {
+    expect(getReplyReference({ replyTo: { serial: 'parent-1', clientId: 'alice' } })).toEqual({
+      serial: 'parent-1',
+      clientId: 'alice',
+      text: '',
+    });
+  });
+});
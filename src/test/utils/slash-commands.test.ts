@@ -0,0 +1,174 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import {
+  createEphemeralResponse,
+  createGiphyCommand,
+  createTopicCommand,
+  findSlashCommandQuery,
+  isEmote,
+  meCommand,
+  parseSlashCommand,
+  shrugCommand,
+  SlashCommand,
+  SlashCommandRegistry,
+} from '../../utils/slash-commands.ts';
+
+const pollCommand: SlashCommand = {
+  name: 'poll',
+  description: 'Starts a poll',
+  handler: () => Promise.resolve(),
+};
+
+describe('SlashCommandRegistry', () => {
+  it('finds commands by name, ignoring case', () => {
+    const registry = new SlashCommandRegistry([shrugCommand, pollCommand]);
+
+    expect(registry.get('shrug')).toBe(shrugCommand);
+    expect(registry.get('POLL')).toBe(pollCommand);
+    expect(registry.get('giphy')).toBeUndefined();
+  });
+
+  it('searches commands by name prefix, sorted by name', () => {
+    const registry = new SlashCommandRegistry([shrugCommand, pollCommand, meCommand]);
+
+    expect(registry.search('')).toEqual([meCommand, pollCommand, shrugCommand]);
+    expect(registry.search('Sh')).toEqual([shrugCommand]);
+    expect(registry.search('x')).toEqual([]);
+  });
+
+  it('replaces commands with the same name and unregisters them', () => {
+    const registry = new SlashCommandRegistry([shrugCommand]);
+    const customShrug: SlashCommand = { ...shrugCommand, description: 'Shrugs' };
+
+    const unregister = registry.register(customShrug);
+    expect(registry.get('shrug')).toBe(customShrug);
+
+    unregister();
+    expect(registry.get('shrug')).toBeUndefined();
+
+    registry.register(pollCommand);
+    registry.unregister('Poll');
+    expect(registry.get('poll')).toBeUndefined();
+  });
+
+  it('only removes the command it registered', () => {
+    const registry = new SlashCommandRegistry();
+    const unregister = registry.register(shrugCommand);
+    const customShrug: SlashCommand = { ...shrugCommand, description: 'Shrugs' };
+    registry.register(customShrug);
+
+    unregister();
+    expect(registry.get('shrug')).toBe(customShrug);
+  });
+
+  it('rejects invalid command names', () => {
+    const registry = new SlashCommandRegistry();
+
+    expect(() => registry.register({ ...pollCommand, name: 'two words' })).toThrow(
+      'invalid slash command name "two words"'
+    );
+    expect(() => registry.register({ ...pollCommand, name: '' })).toThrow();
+  });
+});
+
+describe('parseSlashCommand', () => {
+  it('splits the command name from its arguments', () => {
+    expect(parseSlashCommand('/Giphy  happy cats ')).toEqual({ name: 'giphy', args: 'happy cats' });
+    expect(parseSlashCommand('/shrug')).toEqual({ name: 'shrug', args: '' });
+    expect(parseSlashCommand('/me waves\nhello')).toEqual({ name: 'me', args: 'waves\nhello' });
+  });
+
+  it('ignores text that is not a command', () => {
+    expect(parseSlashCommand('hello /shrug')).toBeUndefined();
+    expect(parseSlashCommand('/')).toBeUndefined();
+    expect(parseSlashCommand('/usr/local/bin')).toBeUndefined();
+    expect(parseSlashCommand('// comment')).toBeUndefined();
+  });
+});
+
+describe('findSlashCommandQuery', () => {
+  it('finds the command name typed at the start of the text', () => {
+    expect(findSlashCommandQuery('/', 1)).toBe('');
+    expect(findSlashCommandQuery('/shr', 4)).toBe('shr');
+    expect(findSlashCommandQuery('/shrug', 3)).toBe('sh');
+  });
+
+  it('ends once arguments are typed or the text is not a command', () => {
+    expect(findSlashCommandQuery('/shrug ', 7)).toBeUndefined();
+    expect(findSlashCommandQuery('hi /shr', 7)).toBeUndefined();
+    expect(findSlashCommandQuery('', 0)).toBeUndefined();
+  });
+});
+
+describe('createEphemeralResponse', () => {
+  it('creates responses with unique IDs', () => {
+    const first = createEphemeralResponse('/giphy cats', 'No GIFs found');
+    const second = createEphemeralResponse('/giphy cats', 'No GIFs found');
+
+    expect(first).toMatchObject({ command: '/giphy cats', text: 'No GIFs found' });
+    expect(first.timestamp).toBeInstanceOf(Date);
+    expect(first.id).not.toBe(second.id);
+  });
+});
+
+describe('built-in commands', () => {
+  it('/shrug appends a shrug to the message', async () => {
+    await expect(shrugCommand.handler('oh well')).resolves.toEqual({
+      type: 'send',
+      text: String.raw`oh well ¯\_(ツ)_/¯`,
+    });
+    await expect(shrugCommand.handler('')).resolves.toEqual({
+      type: 'send',
+      text: String.raw`¯\_(ツ)_/¯`,
+    });
+  });
+
+  it('/me sends the action as an emote', async () => {
+    const result = await meCommand.handler('waves');
+
+    expect(result).toEqual({ type: 'send', text: 'waves', metadata: { emote: true } });
+    expect(isEmote(result?.type === 'send' ? result.metadata : undefined)).toBe(true);
+    await expect(meCommand.handler('')).resolves.toEqual({
+      type: 'ephemeral',
+      text: 'Usage: /me <action>',
+    });
+  });
+
+  it('/giphy sends the URL of a matching GIF', async () => {
+    const search = vi
+      .fn<(query: string) => Promise<string | undefined>>()
+      .mockResolvedValueOnce('https://gifs.example/cats.gif')
+      .mockResolvedValueOnce(undefined);
+    const giphyCommand = createGiphyCommand(search);
+
+    await expect(giphyCommand.handler('cats')).resolves.toEqual({
+      type: 'send',
+      text: 'https://gifs.example/cats.gif',
+    });
+    expect(search).toHaveBeenCalledWith('cats');
+    await expect(giphyCommand.handler('zzz')).resolves.toEqual({
+      type: 'ephemeral',
+      text: 'No GIFs found for "zzz"',
+    });
+  });
+
+  it('/topic sets the topic without sending a message', async () => {
+    const setTopic = vi.fn();
+    const topicCommand = createTopicCommand(setTopic);
+
+    await expect(topicCommand.handler('Release planning')).resolves.toBeUndefined();
+    expect(setTopic).toHaveBeenCalledWith('Release planning');
+    await expect(topicCommand.handler('')).resolves.toEqual({
+      type: 'ephemeral',
+      text: 'Usage: /topic <topic>',
+    });
+  });
+});
+
+describe('isEmote', () => {
+  it('only recognises messages marked as emotes', () => {
+    expect(isEmote({ emote: true })).toBe(true);
+    expect(isEmote({ emote: 'yes' })).toBe(false);
+    expect(isEmote(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+
+import { highlightCode, isHighlightedLanguage } from '../../utils/syntax-highlight.ts';
+
+describe('highlightCode', () => {
+  it('highlights keywords, strings, numbers and comments', () => {
+    expect(highlightCode('const a = "x"; // note\nreturn 42;', 'ts')).toEqual([
+      { type: 'keyword', text: 'const' },
+      { type: 'plain', text: ' a = ' },
+      { type: 'string', text: '"x"' },
+      { type: 'plain', text: '; ' },
+      { type: 'comment', text: '// note' },
+      { type: 'plain', text: '\n' },
+      { type: 'keyword', text: 'return' },
+      { type: 'plain', text: ' ' },
+      { type: 'number', text: '42' },
+      { type: 'plain', text: ';' },
+    ]);
+  });
+
+  it('uses the rules of the named language', () => {
+    expect(highlightCode('def f(): # done', 'Python')).toEqual([
+      { type: 'keyword', text: 'def' },
+      { type: 'plain', text: ' f(): ' },
+      { type: 'comment', text: '# done' },
+    ]);
+  });
+
+  it('handles escapes, unclosed strings and block comments without losing text', () => {
+    const code = String.raw`s = 'it\'s' /* multi` + "\nline */ t = 'open\nnext";
+    const tokens = highlightCode(code, 'js');
+
+    expect(tokens.map((t) => t.text).join('')).toBe(code);
+    expect(tokens).toContainEqual({ type: 'string', text: String.raw`'it\'s'` });
+    expect(tokens).toContainEqual({ type: 'comment', text: '/* multi\nline */' });
+    expect(tokens).toContainEqual({ type: 'string', text: "'open" });
+  });
+
+  it('returns unrecognised languages as plain text', () => {
+    expect(highlightCode('const a = 1;', 'brainfudge')).toEqual([
+      { type: 'plain', text: 'const a = 1;' },
+    ]);
+    expect(highlightCode('const a = 1;', undefined)).toEqual([
+      { type: 'plain', text: 'const a = 1;' },
+    ]);
+    expect(highlightCode('', 'ts')).toEqual([]);
+  });
+});
+
+describe('isHighlightedLanguage', () => {
+  it('recognises supported languages and aliases only', () => {
+    expect(isHighlightedLanguage('TypeScript')).toBe(true);
+    expect(isHighlightedLanguage('sh')).toBe(true);
+    expect(isHighlightedLanguage('constructor')).toBe(false);
+    expect(isHighlightedLanguage(undefined)).toBe(false);
+  });
+});
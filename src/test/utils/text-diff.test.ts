@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+
+import { diffWords } from '../../utils/text-diff.ts';
+
+describe('diffWords', () => {
+  it('marks the words added and removed by an edit', () => {
+    expect(diffWords('Meet at 3pm today', 'Meet at 4pm today please')).toEqual([
+      { type: 'equal', text: 'Meet at ' },
+      { type: 'removed', text: '3pm' },
+      { type: 'added', text: '4pm' },
+      { type: 'equal', text: ' today' },
+      { type: 'added', text: ' please' },
+    ]);
+  });
+
+  it('preserves whitespace so each side can be rebuilt', () => {
+    const before = 'one  two\nthree';
+    const after = 'one two\nthree four';
+    const segments = diffWords(before, after);
+
+    const rebuild = (skip: string) =>
+      segments
+        .filter((s) => s.type !== skip)
+        .map((s) => s.text)
+        .join('');
+    expect(rebuild('added')).toBe(before);
+    expect(rebuild('removed')).toBe(after);
+  });
+
+  it('handles empty texts and identical texts', () => {
+    expect(diffWords('', 'new')).toEqual([{ type: 'added', text: 'new' }]);
+    expect(diffWords('gone', '')).toEqual([{ type: 'removed', text: 'gone' }]);
+    expect(diffWords('same', 'same')).toEqual([{ type: 'equal', text: 'same' }]);
+  });
+
+  it('replaces very long texts in full instead of comparing them word by word', () => {
+    const before = 'a '.repeat(600);
+    const after = 'b '.repeat(600);
+
+    expect(diffWords(before, after)).toEqual([
+      { type: 'removed', text: before },
+      { type: 'added', text: after },
+    ]);
+  });
+});
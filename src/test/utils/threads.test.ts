@@ -0,0 +1,39 @@
+import { ChatMessageAction } from '@ably/chat';
+import { describe, expect, it } from 'vitest';
+
+import { createMockMessage } from '../../../.storybook/mocks/mock-ably-chat.ts';
+import {
+  countThreadReplies,
+  createThreadHeaders,
+  getThreadParentSerial,
+} from '../../utils/threads.ts';
+
+describe('getThreadParentSerial', () => {
+  it('reads the parent serial from the thread header', () => {
+    const reply = createMockMessage({ headers: createThreadHeaders('parent-1') });
+
+    expect(getThreadParentSerial(reply)).toBe('parent-1');
+  });
+
+  it('ignores messages without a valid thread header', () => {
+    expect(getThreadParentSerial(createMockMessage())).toBeUndefined();
+    expect(getThreadParentSerial(createMockMessage({ headers: { threadParent: '' } }))).toBe(
+      undefined
+    );
+    expect(
+      getThreadParentSerial(createMockMessage({ headers: { threadParent: 42 } }))
+    ).toBeUndefined();
+  });
+});
+
+describe('countThreadReplies', () => {
+  it('does not count deleted replies', () => {
+    expect(
+      countThreadReplies([
+        createMockMessage(),
+        createMockMessage({ action: ChatMessageAction.MessageDelete }),
+        createMockMessage(),
+      ])
+    ).toBe(2);
+  });
+});
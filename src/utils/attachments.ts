@@ -0,0 +1,253 @@
+import { MessageMetadata } from '@ably/chat';
+
+/**
+ * A file attached to a message. Attachments are uploaded before the message is sent and
+ * stored in its metadata, so the file itself never passes through the chat service.
+ */
+export interface Attachment {
+  /** Where the uploaded file can be fetched from */
+  url: string;
+  /** The file name shown to users */
+  name: string;
+  /** MIME type of the file, e.g. `image/png` */
+  mimeType: string;
+  /** Size of the file in bytes */
+  size: number;
+  /** Width in pixels, for images and videos, if known */
+  width?: number;
+  /** Height in pixels, for images and videos, if known */
+  height?: number;
+}
+
+/**
+ * How an attachment is shown in a message
+ */
+export type AttachmentKind = 'image' | 'video' | 'file';
+
+/**
+ * Options for a single upload
+ */
+export interface AttachmentUploadOptions {
+  /**
+   * Called as the upload progresses.
+   * @param progress - Fraction of the file uploaded, from 0 to 1
+   */
+  onProgress?: (progress: number) => void;
+
+  /**
+   * Aborted when the user cancels the upload. The upload should stop and reject.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Uploads attached files to storage, e.g. your own API or a cloud storage bucket.
+ *
+ * @example
+ * const uploader: AttachmentUploader = {
+ *   upload: async (file, { signal } = {}) => {
+ *     const body = new FormData();
+ *     body.append('file', file);
+ *     const response = await fetch('/api/uploads', { method: 'POST', body, signal });
+ *     const { url } = await response.json();
+ *     return { url, name: file.name, mimeType: file.type, size: file.size };
+ *   },
+ * };
+ */
+export interface AttachmentUploader {
+  /**
+   * Uploads a file.
+   *
+   * @param file - The file to upload
+   * @param options - Progress callback and cancellation signal
+   * @returns The uploaded attachment, with a URL users can fetch it from
+   */
+  upload(file: File, options?: AttachmentUploadOptions): Promise<Attachment>;
+}
+
+/** Metadata key under which a message's attachments are stored */
+export const ATTACHMENTS_METADATA_KEY = 'attachments';
+
+const SAFE_ATTACHMENT_PROTOCOLS = new Set(['http:', 'https:', 'blob:']);
+
+/**
+ * Checks an attachment URL can be safely used as a link or media source.
+ *
+ * @param url - The attachment URL
+ * @returns Whether the URL uses http(s) or is a local blob URL
+ */
+const isSafeAttachmentUrl = (url: string): boolean => {
+  try {
+    return SAFE_ATTACHMENT_PROTOCOLS.has(new URL(url).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const isAttachment = (value: unknown): value is Attachment => {
+  if (!value || typeof value !== 'object') return false;
+  const obj = value as Record<string, unknown>;
+  return (
+    typeof obj.url === 'string' &&
+    isSafeAttachmentUrl(obj.url) &&
+    typeof obj.name === 'string' &&
+    typeof obj.mimeType === 'string' &&
+    typeof obj.size === 'number'
+  );
+};
+
+/**
+ * Builds the metadata storing a message's attachments.
+ *
+ * @param attachments - The uploaded attachments
+ * @returns Metadata to send with the message, or undefined if there are no attachments
+ */
+export const createAttachmentsMetadata = (
+  attachments: Attachment[]
+): MessageMetadata | undefined => {
+  if (attachments.length === 0) return undefined;
+  return {
+    [ATTACHMENTS_METADATA_KEY]: attachments.map(({ url, name, mimeType, size, width, height }) => ({
+      url,
+      name,
+      mimeType,
+      size,
+      ...(width !== undefined && { width }),
+      ...(height !== undefined && { height }),
+    })),
+  };
+};
+
+/**
+ * Reads the attachments stored in message metadata. Invalid entries and unsafe URLs are
+ * ignored, as metadata is untrusted user input.
+ *
+ * @param metadata - The message metadata
+ * @returns The attachments, or an empty array if there are none
+ */
+export const getAttachments = (metadata: MessageMetadata | undefined): Attachment[] => {
+  const value = metadata?.[ATTACHMENTS_METADATA_KEY];
+  return Array.isArray(value) ? value.filter((v) => isAttachment(v)) : [];
+};
+
+/**
+ * Works out how an attachment should be shown from its MIME type.
+ *
+ * @param attachment - The attachment
+ * @returns `image` or `video` for inline media, otherwise `file`
+ */
+export const getAttachmentKind = (attachment: Pick<Attachment, 'mimeType'>): AttachmentKind => {
+  if (attachment.mimeType.startsWith('image/')) return 'image';
+  if (attachment.mimeType.startsWith('video/')) return 'video';
+  return 'file';
+};
+
+/**
+ * Formats a file size for display, e.g. `1.5 MB`.
+ *
+ * @param bytes - Size in bytes
+ * @returns The size in the largest whole unit
+ */
+export const formatFileSize = (bytes: number): string => {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let size = bytes;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? String(size) : size.toFixed(1)} ${units[unit] ?? 'B'}`;
+};
+
+/**
+ * Options for the {@link MockAttachmentUploader}
+ */
+export interface MockAttachmentUploaderOptions {
+  /**
+   * How long each upload takes, in milliseconds.
+   * @defaultValue 0
+   */
+  durationMs?: number;
+
+  /**
+   * Number of progress updates reported during each upload.
+   * @defaultValue 4
+   */
+  progressSteps?: number;
+
+  /**
+   * URL prefix for uploaded files when object URLs are unavailable, e.g. in tests.
+   * @defaultValue 'https://uploads.example.com/'
+   */
+  baseUrl?: string;
+}
+
+/**
+ * Uploader that keeps files in the browser instead of uploading them, for tests, demos and
+ * local development. Uploaded files get object URLs where supported, so they can be
+ * previewed in the current page only.
+ *
+ * @example
+ * <ChatWindow roomName="general" attachmentUploader={new MockAttachmentUploader({ durationMs: 1000 })} />
+ */
+export class MockAttachmentUploader implements AttachmentUploader {
+  private readonly _durationMs: number;
+  private readonly _progressSteps: number;
+  private readonly _baseUrl: string;
+
+  constructor(options: MockAttachmentUploaderOptions = {}) {
+    this._durationMs = options.durationMs ?? 0;
+    this._progressSteps = Math.max(1, options.progressSteps ?? 4);
+    this._baseUrl = options.baseUrl ?? 'https://uploads.example.com/';
+  }
+
+  /**
+   * Simulates uploading a file, reporting progress in even steps.
+   *
+   * @param file - The file to upload
+   * @param options - Progress callback and cancellation signal
+   * @returns The attachment, once the simulated upload completes
+   */
+  upload(file: File, { onProgress, signal }: AttachmentUploadOptions = {}): Promise<Attachment> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason as Error);
+        return;
+      }
+
+      let step = 0;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal?.reason as Error);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const tick = () => {
+        step++;
+        onProgress?.(step / this._progressSteps);
+        if (step < this._progressSteps) {
+          timer = setTimeout(tick, this._durationMs / this._progressSteps);
+          return;
+        }
+        signal?.removeEventListener('abort', onAbort);
+        resolve({
+          url: this._createUrl(file),
+          name: file.name,
+          mimeType: file.type || 'application/octet-stream',
+          size: file.size,
+        });
+      };
+
+      timer = setTimeout(tick, this._durationMs / this._progressSteps);
+    });
+  }
+
+  private _createUrl(file: File): string {
+    if (typeof URL.createObjectURL === 'function') {
+      return URL.createObjectURL(file);
+    }
+    return `${this._baseUrl}${Date.now().toString(36)}/${encodeURIComponent(file.name)}`;
+  }
+}
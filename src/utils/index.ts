@@ -0,0 +1,129 @@
+export {
+  type Attachment,
+  type AttachmentKind,
+  ATTACHMENTS_METADATA_KEY,
+  type AttachmentUploader,
+  type AttachmentUploadOptions,
+  createAttachmentsMetadata,
+  formatFileSize,
+  getAttachmentKind,
+  getAttachments,
+  MockAttachmentUploader,
+  type MockAttachmentUploaderOptions,
+} from './attachments.ts';
+export {
+  type LinkPreview,
+  LinkPreviewCache,
+  type LinkPreviewCacheOptions,
+  type LinkPreviewResolver,
+  sanitizeLinkPreview,
+  StaticLinkPreviewResolver,
+} from './link-preview.ts';
+export {
+  extractLinks,
+  isLinkAllowed,
+  linkifyText,
+  type LinkPolicy,
+  type LinkSegment,
+} from './links.ts';
+export {
+  type CodeFenceSegment,
+  isSafeLinkHref,
+  type MarkdownBlock,
+  type MarkdownInline,
+  parseInlineMarkdown,
+  parseMarkdown,
+  splitCodeBlocks,
+} from './markdown.ts';
+export {
+  createMentionsMetadata,
+  findMentionQuery,
+  getMentions,
+  isMentioned,
+  type Mention,
+  type MentionQuery,
+  MENTIONS_METADATA_KEY,
+  type MentionSegment,
+  splitMentions,
+} from './mentions.ts';
+export {
+  canDeleteMessage,
+  canEditMessage,
+  getAvailableMessageActions,
+  type MessageAction,
+  type MessageActionContext,
+} from './message-actions.ts';
+export {
+  IndexedDBMessageCache,
+  InMemoryMessageCache,
+  type MessageCache,
+  type MessageCacheOptions,
+  restoreMessage,
+  type SerializedMessage,
+  serializeMessage,
+} from './message-cache.ts';
+export {
+  findMessageRenderer,
+  matchHeader,
+  matchMetadata,
+  type MessageRenderer,
+  type MessageRendererHelpers,
+} from './message-renderers.ts';
+export {
+  defaultOutboxStore,
+  type OutboxMessage,
+  type OutboxMessageStatus,
+  OutboxStore,
+  type OutboxStoreOptions,
+} from './outbox.ts';
+export {
+  createPinnedMessage,
+  defaultPinStore,
+  LocalPinStore,
+  type LocalPinStoreOptions,
+  type PinnedMessage,
+  type PinStore,
+} from './pins.ts';
+export { getReactionCounts, getUserReactionCount, type ReactionCount } from './reactions.ts';
+export {
+  defaultReadMarkerStore,
+  ReadMarkerStore,
+  type ReadMarkerStoreOptions,
+  type ReadPosition,
+} from './read-markers.ts';
+export {
+  createReplyMetadata,
+  createSnippet,
+  getReplyReference,
+  REPLY_METADATA_KEY,
+  type ReplyReference,
+} from './replies.ts';
+export {
+  createEphemeralResponse,
+  createGiphyCommand,
+  createTopicCommand,
+  EMOTE_METADATA_KEY,
+  type EphemeralResponse,
+  findSlashCommandQuery,
+  isEmote,
+  meCommand,
+  type ParsedSlashCommand,
+  parseSlashCommand,
+  shrugCommand,
+  type SlashCommand,
+  SlashCommandRegistry,
+  type SlashCommandResult,
+} from './slash-commands.ts';
+export {
+  type CodeToken,
+  type CodeTokenType,
+  highlightCode,
+  isHighlightedLanguage,
+} from './syntax-highlight.ts';
+export { type DiffSegment, diffWords } from './text-diff.ts';
+export {
+  countThreadReplies,
+  createThreadHeaders,
+  getThreadParentSerial,
+  THREAD_HEADER,
+} from './threads.ts';
@@ -0,0 +1,212 @@
+/**
+ * Metadata describing the page behind a link
+ */
+export interface LinkPreview {
+  /** The URL the preview is for */
+  url: string;
+  /** Page title */
+  title?: string;
+  /** Short summary of the page */
+  description?: string;
+  /** URL of an image representing the page */
+  image?: string;
+}
+
+/**
+ * Looks up previews for links in messages, e.g. by calling a server that reads a page's
+ * Open Graph tags. Browsers usually cannot fetch arbitrary pages directly because of CORS.
+ */
+export interface LinkPreviewResolver {
+  /**
+   * Resolves the preview for a URL.
+   *
+   * @param url - The URL to look up
+   * @returns The preview, or `undefined` if the page has nothing worth showing
+   */
+  resolve(url: string): Promise<LinkPreview | undefined>;
+}
+
+/**
+ * Options for the {@link LinkPreviewCache}
+ */
+export interface LinkPreviewCacheOptions {
+  /**
+   * Maximum number of URLs to remember. The oldest lookups are forgotten first.
+   * @defaultValue 200
+   */
+  maxEntries?: number;
+
+  /**
+   * Error handler callback, called when the resolver rejects
+   * @param error - The error that occurred
+   * @param url - The URL that could not be resolved
+   */
+  onError?: (error: unknown, url: string) => void;
+}
+
+interface LinkPreviewEntry {
+  settled: boolean;
+  preview?: LinkPreview;
+}
+
+const DEFAULT_MAX_ENTRIES = 200;
+
+const PREVIEW_PROTOCOLS = new Set(['http:', 'https:']);
+
+const isHttpUrl = (url: string): boolean => {
+  try {
+    return PREVIEW_PROTOCOLS.has(new URL(url).protocol);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Checks the URLs in a preview from a resolver, which may be a custom one returning anything.
+ * The page and image must use http(s), so a `javascript:` URL can never become a link.
+ *
+ * @param preview - The preview to check
+ * @returns The preview, without its image if the image URL is unsafe, or undefined if the
+ * page URL is unsafe
+ */
+export const sanitizeLinkPreview = (preview: LinkPreview): LinkPreview | undefined => {
+  if (!isHttpUrl(preview.url)) return undefined;
+  if (preview.image === undefined || isHttpUrl(preview.image)) return preview;
+  return { ...preview, image: undefined };
+};
+
+/**
+ * Caches the results of a {@link LinkPreviewResolver} by URL, so each link is resolved once
+ * however many messages contain it or how often they are re-rendered.
+ *
+ * Lookups that fail or find nothing are cached too, and are not retried.
+ *
+ * @example
+ * const cache = new LinkPreviewCache(resolver);
+ * cache.load('https://ably.com');
+ * cache.subscribe(() => console.log(cache.get('https://ably.com')?.title));
+ */
+export class LinkPreviewCache {
+  private readonly _resolver: LinkPreviewResolver;
+  private readonly _maxEntries: number;
+  private readonly _onError?: (error: unknown, url: string) => void;
+  private readonly _entries = new Map<string, LinkPreviewEntry>();
+  private readonly _listeners = new Set<() => void>();
+  private _version = 0;
+
+  constructor(resolver: LinkPreviewResolver, options: LinkPreviewCacheOptions = {}) {
+    this._resolver = resolver;
+    this._maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this._onError = options.onError;
+  }
+
+  /**
+   * Returns the resolved preview for a URL, if it has loaded and found one.
+   *
+   * @param url - The URL to look up
+   */
+  get(url: string): LinkPreview | undefined {
+    return this._entries.get(url)?.preview;
+  }
+
+  /**
+   * Starts resolving a URL, unless it has already been requested.
+   *
+   * @param url - The URL to resolve
+   */
+  load(url: string): void {
+    if (this._entries.has(url)) return;
+
+    const entry: LinkPreviewEntry = { settled: false };
+    this._entries.set(url, entry);
+    this._evict();
+
+    this._resolver
+      .resolve(url)
+      .then((preview) => {
+        entry.settled = true;
+        entry.preview = preview && sanitizeLinkPreview(preview);
+      })
+      .catch((error: unknown) => {
+        entry.settled = true;
+        this._handleError(error, url);
+      })
+      .finally(() => {
+        this._notify();
+      });
+  }
+
+  /**
+   * Returns a number that changes whenever a lookup settles, for use as a snapshot with
+   * `useSyncExternalStore`.
+   */
+  getVersion(): number {
+    return this._version;
+  }
+
+  /**
+   * Registers a listener that is called whenever a lookup settles.
+   *
+   * @param listener - Callback invoked on change
+   * @returns Function to remove the listener
+   */
+  subscribe(listener: () => void): () => void {
+    this._listeners.add(listener);
+    return () => {
+      this._listeners.delete(listener);
+    };
+  }
+
+  private _evict() {
+    for (const [url, entry] of this._entries) {
+      if (this._entries.size <= this._maxEntries) return;
+      if (entry.settled) this._entries.delete(url);
+    }
+  }
+
+  private _notify() {
+    this._version++;
+    for (const listener of this._listeners) {
+      listener();
+    }
+  }
+
+  private _handleError(error: unknown, url: string) {
+    if (this._onError) {
+      this._onError(error, url);
+    } else if (process.env.NODE_ENV === 'development') {
+      console.warn('Link preview error:', error);
+    }
+  }
+}
+
+/**
+ * Resolver that serves previews from a fixed map instead of the network. Useful in tests,
+ * stories and demos.
+ *
+ * @example
+ * const resolver = new StaticLinkPreviewResolver({
+ *   'https://ably.com': { title: 'Ably', description: 'Realtime experience infrastructure' },
+ * });
+ */
+export class StaticLinkPreviewResolver implements LinkPreviewResolver {
+  private readonly _previews: Record<string, Omit<LinkPreview, 'url'>>;
+  private readonly _delay: number;
+
+  /**
+   * @param previews - Preview metadata keyed by URL; other URLs resolve to `undefined`
+   * @param delay - Milliseconds to wait before resolving, to mimic a network request
+   */
+  constructor(previews: Record<string, Omit<LinkPreview, 'url'>>, delay = 0) {
+    this._previews = previews;
+    this._delay = delay;
+  }
+
+  async resolve(url: string): Promise<LinkPreview | undefined> {
+    if (this._delay > 0) {
+      await new Promise((resolve) => setTimeout(resolve, this._delay));
+    }
+    const preview = this._previews[url];
+    return preview && { url, ...preview };
+  }
+}
@@ -0,0 +1,113 @@
+import { isSafeLinkHref } from './markdown.ts';
+
+/**
+ * Controls which URLs are turned into links. Hostnames match themselves and their subdomains,
+ * so `example.com` also matches `docs.example.com`.
+ */
+export interface LinkPolicy {
+  /**
+   * When set, only URLs on these hosts are linked; anything else stays plain text.
+   */
+  allowedDomains?: string[];
+
+  /**
+   * URLs on these hosts are never linked. Takes precedence over `allowedDomains`.
+   */
+  deniedDomains?: string[];
+}
+
+/**
+ * A run of text, or a URL detected within it
+ */
+export type LinkSegment =
+  | { type: 'text'; text: string }
+  | { type: 'link'; text: string; href: string };
+
+/** Matches http(s) URLs and bare `www.` hostnames */
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"'`]+/gi;
+/** Punctuation that usually ends the sentence rather than the URL */
+const TRAILING_PUNCTUATION = /[.,;:!?*_~]+$/;
+
+const matchesDomain = (hostname: string, domains: string[]) =>
+  domains.some((domain) => {
+    const normalized = domain.toLowerCase().replace(/^\*?\./, '');
+    return hostname === normalized || hostname.endsWith(`.${normalized}`);
+  });
+
+/**
+ * Checks whether a URL may be rendered as a link: it must use a safe protocol and pass the
+ * policy's allow and deny lists.
+ *
+ * @param href - The URL to check
+ * @param policy - Optional allow and deny lists
+ * @returns `true` if the URL can be linked
+ */
+export const isLinkAllowed = (href: string, policy?: LinkPolicy): boolean => {
+  if (!isSafeLinkHref(href)) return false;
+  if (!policy) return true;
+
+  const hostname = new URL(href).hostname.toLowerCase();
+  if (policy.deniedDomains && matchesDomain(hostname, policy.deniedDomains)) return false;
+  if (policy.allowedDomains) return matchesDomain(hostname, policy.allowedDomains);
+  return true;
+};
+
+/**
+ * Strips characters that were matched as part of a URL but most likely follow it, such as a
+ * full stop or a closing parenthesis without a matching opening one.
+ */
+const trimUrl = (url: string): string => {
+  let trimmed = url.replace(TRAILING_PUNCTUATION, '');
+  while (trimmed.endsWith(')')) {
+    const opens = trimmed.split('(').length - 1;
+    const closes = trimmed.split(')').length - 1;
+    if (closes <= opens) break;
+    trimmed = trimmed.slice(0, -1).replace(TRAILING_PUNCTUATION, '');
+  }
+  return trimmed;
+};
+
+/**
+ * Splits text into plain runs and detected URLs. URLs starting with `www.` are linked over
+ * https, and URLs rejected by the policy stay part of the surrounding text.
+ *
+ * @param text - The text to scan
+ * @param policy - Optional allow and deny lists
+ * @returns Segments in order, with adjacent text merged
+ */
+export const linkifyText = (text: string, policy?: LinkPolicy): LinkSegment[] => {
+  const segments: LinkSegment[] = [];
+  let buffer = '';
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(URL_PATTERN)) {
+    const url = trimUrl(match[0]);
+    const href = url.toLowerCase().startsWith('www.') ? `https://${url}` : url;
+    if (!isLinkAllowed(href, policy)) continue;
+
+    buffer += text.slice(lastIndex, match.index);
+    if (buffer) segments.push({ type: 'text', text: buffer });
+    buffer = '';
+    segments.push({ type: 'link', text: url, href });
+    lastIndex = match.index + url.length;
+  }
+
+  buffer += text.slice(lastIndex);
+  if (buffer) segments.push({ type: 'text', text: buffer });
+  return segments;
+};
+
+/**
+ * Finds the distinct URLs in text that the policy allows, in the order they appear.
+ *
+ * @param text - The text to scan
+ * @param policy - Optional allow and deny lists
+ * @returns The URLs, normalized to include a protocol
+ */
+export const extractLinks = (text: string, policy?: LinkPolicy): string[] => {
+  const links = new Set<string>();
+  for (const segment of linkifyText(text, policy)) {
+    if (segment.type === 'link') links.add(segment.href);
+  }
+  return [...links];
+};
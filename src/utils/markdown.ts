@@ -0,0 +1,286 @@
+/**
+ * Inline content within a Markdown block
+ */
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'emphasis' | 'strikethrough'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; children: MarkdownInline[] };
+
+/**
+ * A block of Markdown content
+ */
+export type MarkdownBlock =
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'codeBlock'; language?: string; code: string }
+  | { type: 'blockquote'; children: MarkdownBlock[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownInline[][] };
+
+/**
+ * A run of plain text, or a fenced code block within it
+ */
+export type CodeFenceSegment =
+  | { type: 'text'; text: string }
+  | { type: 'codeBlock'; language?: string; code: string };
+
+/** Protocols allowed in link targets; anything else is rendered as plain text */
+const SAFE_LINK_PROTOCOLS = new Set(['http:', 'https:', 'mailto:']);
+
+const FENCE_PATTERN = /^\s*```\s*([\w+#.-]*)\s*$/;
+const CLOSING_FENCE_PATTERN = /^\s*```\s*$/;
+const QUOTE_PATTERN = /^\s*> ?(.*)$/;
+const UNORDERED_ITEM_PATTERN = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_ITEM_PATTERN = /^\s*(\d{1,9})[.)]\s+(.*)$/;
+const LINK_PATTERN = /^\[([^\]\n]+)\]\(\s*([^)\s]+)\s*\)/;
+const ESCAPABLE = new Set('\\`*_~[]()#+-.!>');
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+
+/**
+ * Checks whether a link target is an absolute URL with an allowed protocol.
+ *
+ * @param href - The link target
+ * @returns `true` if the link can be rendered safely
+ */
+export const isSafeLinkHref = (href: string): boolean => {
+  try {
+    return SAFE_LINK_PROTOCOLS.has(new URL(href).protocol);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Finds the closing delimiter for an inline span, ignoring escaped characters.
+ * Single-character delimiters skip runs of the same character, so `*` does not close on `**`.
+ */
+const findClosing = (text: string, delimiter: string, from: number): number => {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (!text.startsWith(delimiter, i)) continue;
+    if (delimiter.length === 1) {
+      const char = delimiter;
+      if (text[i + 1] === char) {
+        while (text[i + 1] === char) i++;
+        continue;
+      }
+      if (text[i - 1] === char) continue;
+    }
+    return i;
+  }
+  return -1;
+};
+
+/**
+ * Parses inline Markdown: code spans, bold, italic, strikethrough and links.
+ *
+ * @param text - The text to parse
+ * @returns The inline nodes, with adjacent text merged
+ */
+export const parseInlineMarkdown = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let buffer = '';
+
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i] ?? '';
+    const next = text[i + 1] ?? '';
+
+    if (char === '\\' && ESCAPABLE.has(next)) {
+      buffer += next;
+      i += 2;
+      continue;
+    }
+
+    if (char === '`') {
+      const end = text.indexOf('`', i + 1);
+      if (end > i + 1) {
+        flush();
+        nodes.push({ type: 'code', text: text.slice(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (char === '[') {
+      const match = LINK_PATTERN.exec(text.slice(i));
+      if (match?.[1] && match[2] && isSafeLinkHref(match[2])) {
+        flush();
+        nodes.push({ type: 'link', href: match[2], children: parseInlineMarkdown(match[1]) });
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    const double = char + next;
+    if (double === '**' || double === '__' || double === '~~') {
+      const end = findClosing(text, double, i + 2);
+      const inner = text.slice(i + 2, end);
+      if (end !== -1 && inner.trim() === inner && inner) {
+        flush();
+        nodes.push({
+          type: double === '~~' ? 'strikethrough' : 'strong',
+          children: parseInlineMarkdown(inner),
+        });
+        i = end + 2;
+        continue;
+      }
+    }
+
+    // Underscores only emphasise whole words, so snake_case identifiers are left alone
+    const opensEmphasis = char === '*' || (char === '_' && !WORD_CHAR.test(text[i - 1] ?? ''));
+    if (opensEmphasis && next !== char) {
+      const end = findClosing(text, char, i + 1);
+      const inner = text.slice(i + 1, end);
+      const closes = end !== -1 && (char === '*' || !WORD_CHAR.test(text[end + 1] ?? ''));
+      if (closes && inner && inner.trim() === inner) {
+        flush();
+        nodes.push({ type: 'emphasis', children: parseInlineMarkdown(inner) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    buffer += char;
+    i++;
+  }
+
+  flush();
+  return nodes;
+};
+
+/**
+ * Parses a safe subset of Markdown into blocks: paragraphs, fenced code blocks, blockquotes
+ * and flat ordered or unordered lists, with inline formatting within them.
+ *
+ * Raw HTML is never interpreted; it is kept as literal text. Line breaks within a paragraph
+ * are preserved, as is usual in chat.
+ *
+ * @param text - The Markdown source
+ * @returns The parsed blocks
+ */
+export const parseMarkdown = (text: string): MarkdownBlock[] => {
+  const lines = text.replaceAll('\r\n', '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i] ?? '';
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE_PATTERN.exec(line);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !CLOSING_FENCE_PATTERN.test(lines[i] ?? '')) {
+        code.push(lines[i] ?? '');
+        i++;
+      }
+      i++; // Skip the closing fence, if any
+      blocks.push({ type: 'codeBlock', language: fence[1] || undefined, code: code.join('\n') });
+      continue;
+    }
+
+    if (QUOTE_PATTERN.test(line)) {
+      const quoted: string[] = [];
+      let match: RegExpExecArray | null;
+      while (i < lines.length && (match = QUOTE_PATTERN.exec(lines[i] ?? ''))) {
+        quoted.push(match[1] ?? '');
+        i++;
+      }
+      blocks.push({ type: 'blockquote', children: parseMarkdown(quoted.join('\n')) });
+      continue;
+    }
+
+    const ordered = ORDERED_ITEM_PATTERN.exec(line);
+    if (ordered || UNORDERED_ITEM_PATTERN.test(line)) {
+      const pattern = ordered ? ORDERED_ITEM_PATTERN : UNORDERED_ITEM_PATTERN;
+      const items: MarkdownInline[][] = [];
+      let match: RegExpExecArray | null;
+      while (i < lines.length && (match = pattern.exec(lines[i] ?? ''))) {
+        items.push(parseInlineMarkdown((ordered ? match[2] : match[1]) ?? ''));
+        i++;
+      }
+      blocks.push({
+        type: 'list',
+        ordered: !!ordered,
+        start: ordered ? Number(ordered[1]) : 1,
+        items,
+      });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length) {
+      const current = lines[i] ?? '';
+      if (
+        !current.trim() ||
+        FENCE_PATTERN.test(current) ||
+        QUOTE_PATTERN.test(current) ||
+        ORDERED_ITEM_PATTERN.test(current) ||
+        UNORDERED_ITEM_PATTERN.test(current)
+      ) {
+        break;
+      }
+      paragraph.push(current);
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInlineMarkdown(paragraph.join('\n')) });
+  }
+
+  return blocks;
+};
+
+/**
+ * Splits plain text into fenced code blocks and the text around them, for messages shown
+ * without Markdown formatting. Text outside the fences is returned unchanged.
+ *
+ * @param text - The message text
+ * @returns The text and code block segments, in order
+ */
+export const splitCodeBlocks = (text: string): CodeFenceSegment[] => {
+  const lines = text.replaceAll('\r\n', '\n').split('\n');
+  const segments: CodeFenceSegment[] = [];
+  let prose: string[] = [];
+  let i = 0;
+
+  const flush = () => {
+    const joined = prose.join('\n').replaceAll(/^\n+|\n+$/g, '');
+    if (joined) segments.push({ type: 'text', text: joined });
+    prose = [];
+  };
+
+  while (i < lines.length) {
+    const line = lines[i] ?? '';
+    const fence = FENCE_PATTERN.exec(line);
+    if (!fence) {
+      prose.push(line);
+      i++;
+      continue;
+    }
+
+    flush();
+    const code: string[] = [];
+    i++;
+    while (i < lines.length && !CLOSING_FENCE_PATTERN.test(lines[i] ?? '')) {
+      code.push(lines[i] ?? '');
+      i++;
+    }
+    i++; // Skip the closing fence, if any
+    segments.push({ type: 'codeBlock', language: fence[1] || undefined, code: code.join('\n') });
+  }
+
+  flush();
+  return segments;
+};
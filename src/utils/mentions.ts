@@ -0,0 +1,143 @@
+import { MessageMetadata } from '@ably/chat';
+
+/**
+ * A user mentioned in a message. The message text contains `@` followed by the label.
+ */
+export interface Mention {
+  /** The mentioned user's client ID */
+  clientId: string;
+  /** The text shown after `@`, usually the user's display name */
+  label: string;
+}
+
+/**
+ * A run of message text, or a mention within it
+ */
+export type MentionSegment = { type: 'text'; text: string } | { type: 'mention'; mention: Mention };
+
+/**
+ * A partially typed mention at the caret, e.g. `@ali`
+ */
+export interface MentionQuery {
+  /** Index of the `@` in the text */
+  start: number;
+  /** Text typed after the `@` */
+  query: string;
+}
+
+/** Metadata key under which a message's mentions are stored */
+export const MENTIONS_METADATA_KEY = 'mentions';
+
+const WORD_CHAR = /[\p{L}\p{N}_]/u;
+const MENTION_QUERY_PATTERN = /(?:^|\s)@([^\s@]*)$/;
+
+const isMention = (value: unknown): value is Mention => {
+  if (!value || typeof value !== 'object') return false;
+  const obj = value as Record<string, unknown>;
+  return typeof obj.clientId === 'string' && typeof obj.label === 'string' && !!obj.label;
+};
+
+/**
+ * Reads the mentions stored in message metadata. Invalid entries are ignored, as metadata is
+ * untrusted user input.
+ *
+ * @param metadata - The message metadata
+ * @returns The mentions, or an empty array if there are none
+ */
+export const getMentions = (metadata: MessageMetadata | undefined): Mention[] => {
+  const value = metadata?.[MENTIONS_METADATA_KEY];
+  return Array.isArray(value) ? value.filter((v) => isMention(v)) : [];
+};
+
+/**
+ * Splits text into plain runs and mentions. A mention matches where `@label` appears as a
+ * whole word; longer labels win where they overlap.
+ *
+ * @param text - The message text
+ * @param mentions - The message's mentions
+ * @returns Segments in order, with adjacent text merged
+ */
+export const splitMentions = (text: string, mentions: Mention[]): MentionSegment[] => {
+  if (mentions.length === 0) return text ? [{ type: 'text', text }] : [];
+
+  const byLength = [...mentions].sort((a, b) => b.label.length - a.label.length);
+  const segments: MentionSegment[] = [];
+  let buffer = '';
+  let i = 0;
+
+  while (i < text.length) {
+    const atBoundary = text[i] === '@' && !WORD_CHAR.test(text[i - 1] ?? '');
+    const mention =
+      atBoundary &&
+      byLength.find(
+        ({ label }) =>
+          text.startsWith(label, i + 1) && !WORD_CHAR.test(text[i + 1 + label.length] ?? '')
+      );
+
+    if (mention) {
+      if (buffer) segments.push({ type: 'text', text: buffer });
+      buffer = '';
+      segments.push({ type: 'mention', mention });
+      i += mention.label.length + 1;
+    } else {
+      buffer += text[i] ?? '';
+      i++;
+    }
+  }
+
+  if (buffer) segments.push({ type: 'text', text: buffer });
+  return segments;
+};
+
+/**
+ * Builds the metadata for a message's mentions, keeping only those still present in the text.
+ *
+ * @param text - The message text
+ * @param mentions - Mentions selected while composing, possibly since edited out
+ * @returns Metadata to send with the message, or `undefined` if nobody is mentioned
+ */
+export const createMentionsMetadata = (
+  text: string,
+  mentions: Mention[]
+): MessageMetadata | undefined => {
+  const present = new Map<string, string>();
+  for (const segment of splitMentions(text, mentions)) {
+    if (segment.type === 'mention') present.set(segment.mention.clientId, segment.mention.label);
+  }
+  if (present.size === 0) return undefined;
+  return {
+    [MENTIONS_METADATA_KEY]: [...present].map(([clientId, label]) => ({ clientId, label })),
+  };
+};
+
+/**
+ * Checks whether a message mentions a user.
+ *
+ * @param text - The message text
+ * @param metadata - The message metadata
+ * @param clientId - The user to look for
+ * @returns `true` if the user is mentioned in the text
+ */
+export const isMentioned = (
+  text: string,
+  metadata: MessageMetadata | undefined,
+  clientId: string | undefined
+): boolean =>
+  !!clientId &&
+  splitMentions(text, getMentions(metadata)).some(
+    (segment) => segment.type === 'mention' && segment.mention.clientId === clientId
+  );
+
+/**
+ * Finds a mention being typed immediately before the caret.
+ *
+ * @param text - The input's text
+ * @param caret - The caret position
+ * @returns The query, or `undefined` if the caret is not in a mention
+ */
+export const findMentionQuery = (text: string, caret: number): MentionQuery | undefined => {
+  const match = MENTION_QUERY_PATTERN.exec(text.slice(0, caret));
+  if (!match) return undefined;
+  const query = match[1] ?? '';
+  return { start: caret - query.length - 1, query };
+};
@@ -0,0 +1,108 @@
+import { Message } from '@ably/chat';
+import { ReactNode } from 'react';
+
+import { ChatSettings } from '../context/chat-settings-context.tsx';
+
+/**
+ * What a {@link MessageAction} can check to decide whether the current user may use it
+ */
+export interface MessageActionContext {
+  /** Client ID of the current user */
+  currentClientId?: string;
+  /** Whether the message was sent by the current user */
+  isOwn: boolean;
+  /** The chat settings in effect for the room */
+  settings: ChatSettings;
+}
+
+/**
+ * A custom action offered on messages alongside react, reply, edit and delete, e.g. copy text,
+ * report or create ticket. Actions are listed in the order given, in the "More actions" menu of
+ * the message toolbar and in the context menu opened by right-click or long press.
+ *
+ * @example
+ * const copyTextAction: MessageAction = {
+ *   id: 'copy-text',
+ *   label: 'Copy text',
+ *   isVisible: (message) => !!message.text,
+ *   onSelect: (message) => void navigator.clipboard.writeText(message.text),
+ * };
+ * const reportAction: MessageAction = {
+ *   id: 'report',
+ *   label: 'Report',
+ *   isPermitted: (message, { isOwn }) => !isOwn,
+ *   onSelect: (message) => reportMessage(message.serial),
+ * };
+ * <ChatWindow roomName="support" messageActions={[copyTextAction, reportAction]} />
+ */
+export interface MessageAction {
+  /** Unique identifier for the action */
+  id: string;
+
+  /** Text shown for the action, e.g. "Copy link" */
+  label: string;
+
+  /** Optional icon shown before the label */
+  icon?: ReactNode;
+
+  /**
+   * Whether the action applies to the message, e.g. only messages with links can have a link
+   * copied. The action is shown for every message when omitted.
+   * @param message - The message the action would apply to
+   */
+  isVisible?: (message: Message) => boolean;
+
+  /**
+   * Whether the current user may use the action on the message, e.g. based on their role or
+   * the room's settings. The action is hidden when this returns false, and is permitted for
+   * everyone when omitted.
+   * @param message - The message the action would apply to
+   * @param context - The current user and the room's chat settings
+   */
+  isPermitted?: (message: Message, context: MessageActionContext) => boolean;
+
+  /**
+   * Performs the action.
+   * @param message - The message the action was chosen on
+   */
+  onSelect: (message: Message) => void;
+}
+
+/**
+ * Finds the actions that are visible and permitted on a message.
+ *
+ * @param actions - The actions in the order they should be listed
+ * @param message - The message the actions would apply to
+ * @param context - The current user and the room's chat settings
+ * @returns The available actions, in order
+ */
+export const getAvailableMessageActions = (
+  actions: readonly MessageAction[] | undefined,
+  message: Message,
+  context: MessageActionContext
+): MessageAction[] =>
+  actions?.filter(
+    (action) =>
+      (action.isVisible?.(message) ?? true) && (action.isPermitted?.(message, context) ?? true)
+  ) ?? [];
+
+/**
+ * Checks whether the current user may edit a message, the same way for the edit action on the
+ * message and for shortcuts such as editing the last message.
+ *
+ * @param isOwn - Whether the message was sent by the current user
+ * @param settings - The chat settings in effect for the room
+ * @returns Whether the message may be edited
+ */
+export const canEditMessage = (isOwn: boolean, settings: ChatSettings): boolean =>
+  (isOwn && settings.allowMessageUpdatesOwn) || settings.allowMessageUpdatesAny;
+
+/**
+ * Checks whether the current user may delete a message.
+ *
+ * @param isOwn - Whether the message was sent by the current user
+ * @param settings - The chat settings in effect for the room
+ * @returns Whether the message may be deleted
+ */
+export const canDeleteMessage = (isOwn: boolean, settings: ChatSettings): boolean =>
+  (isOwn && settings.allowMessageDeletesOwn) || settings.allowMessageDeletesAny;
@@ -0,0 +1,346 @@
+import {
+  ChatMessageAction,
+  ChatMessageEvent,
+  Message,
+  MessageCopyParams,
+  MessageHeaders,
+  MessageMetadata,
+  MessageOperationMetadata,
+  MessageReactionSummary,
+  MessageReactionSummaryEvent,
+  MessageVersion,
+} from '@ably/chat';
+
+/**
+ * JSON-safe representation of a chat message, as written to a {@link MessageCache}.
+ * Dates are stored as milliseconds since epoch.
+ */
+export interface SerializedMessage {
+  serial: string;
+  clientId: string;
+  text: string;
+  metadata: MessageMetadata;
+  headers: MessageHeaders;
+  action: ChatMessageAction;
+  timestamp: number;
+  version: {
+    serial: string;
+    timestamp: number;
+    clientId?: string;
+    description?: string;
+    metadata?: MessageOperationMetadata;
+  };
+  reactions: MessageReactionSummary;
+}
+
+/**
+ * Pluggable storage used by `useMessageWindow` to hydrate a room's messages
+ * before history has been fetched.
+ *
+ * Implementations should never throw for missing data; `load` resolves with an
+ * empty array when nothing is cached for the room.
+ */
+export interface MessageCache {
+  /**
+   * Loads the cached messages for a room, oldest first.
+   * @param roomName - The room to load messages for
+   */
+  load: (roomName: string) => Promise<Message[]>;
+
+  /**
+   * Replaces the cached messages for a room.
+   * Implementations may keep only the most recent messages.
+   * @param roomName - The room the messages belong to
+   * @param messages - Messages sorted oldest first
+   */
+  save: (roomName: string, messages: Message[]) => Promise<void>;
+
+  /**
+   * Removes the cached messages for a room.
+   * @param roomName - The room to clear
+   */
+  clear: (roomName: string) => Promise<void>;
+}
+
+/**
+ * Options shared by the built-in {@link MessageCache} implementations
+ */
+export interface MessageCacheOptions {
+  /**
+   * Maximum number of messages kept per room. The newest messages are retained.
+   * @defaultValue 500
+   */
+  maxMessagesPerRoom?: number;
+
+  /**
+   * Error handler callback, called when the underlying storage fails.
+   * @param error - The error that occurred
+   */
+  onError?: (error: unknown) => void;
+}
+
+const DEFAULT_MAX_MESSAGES_PER_ROOM = 500;
+
+/**
+ * Converts a message into its JSON-safe form.
+ *
+ * @param message - The message to serialize
+ * @returns The serialized message
+ */
+export const serializeMessage = (message: Message): SerializedMessage => ({
+  serial: message.serial,
+  clientId: message.clientId,
+  text: message.text,
+  metadata: message.metadata,
+  headers: message.headers,
+  action: message.action,
+  timestamp: message.timestamp.getTime(),
+  version: {
+    ...message.version,
+    timestamp: message.version.timestamp.getTime(),
+  },
+  reactions: message.reactions,
+});
+
+type MessageFields = Omit<Message, 'with' | 'copy'>;
+
+/**
+ * Picks the data fields of a message, leaving out its methods
+ */
+const fieldsOf = (message: Message): MessageFields => ({
+  serial: message.serial,
+  clientId: message.clientId,
+  text: message.text,
+  metadata: message.metadata,
+  headers: message.headers,
+  action: message.action,
+  version: message.version,
+  timestamp: message.timestamp,
+  reactions: message.reactions,
+});
+
+/**
+ * Message restored from a cache. Mirrors the merge semantics of the SDK's own
+ * message implementation so it can be updated in place by live events.
+ */
+class CachedMessage implements Message {
+  readonly serial: string;
+  readonly clientId: string;
+  readonly text: string;
+  readonly metadata: MessageMetadata;
+  readonly headers: MessageHeaders;
+  readonly action: ChatMessageAction;
+  readonly version: MessageVersion;
+  readonly timestamp: Date;
+  readonly reactions: MessageReactionSummary;
+
+  constructor(fields: MessageFields) {
+    this.serial = fields.serial;
+    this.clientId = fields.clientId;
+    this.text = fields.text;
+    this.metadata = fields.metadata;
+    this.headers = fields.headers;
+    this.action = fields.action;
+    this.version = fields.version;
+    this.timestamp = fields.timestamp;
+    this.reactions = fields.reactions;
+    Object.freeze(this);
+  }
+
+  with(event: Message | ChatMessageEvent | MessageReactionSummaryEvent): Message {
+    if ('messageSerial' in event) {
+      if (event.messageSerial !== this.serial) {
+        throw new Error('unable to apply message event; event is for a different message');
+      }
+      return new CachedMessage({ ...fieldsOf(this), reactions: event.reactions });
+    }
+
+    const incoming = 'message' in event ? event.message : event;
+    if (incoming.serial !== this.serial) {
+      throw new Error('unable to apply message event; event is for a different message');
+    }
+
+    // Keep whichever version is newer, carrying our reactions forward like the SDK does
+    if (this.version.serial >= incoming.version.serial) return this;
+    return new CachedMessage({ ...fieldsOf(incoming), reactions: this.reactions });
+  }
+
+  copy(params: MessageCopyParams = {}): Message {
+    return new CachedMessage({
+      ...fieldsOf(this),
+      text: params.text ?? this.text,
+      metadata: params.metadata ?? this.metadata,
+      headers: params.headers ?? this.headers,
+    });
+  }
+}
+
+/**
+ * Restores a message previously produced by {@link serializeMessage}.
+ *
+ * @param data - The serialized message
+ * @returns A message that behaves like one received from the SDK
+ */
+export const restoreMessage = (data: SerializedMessage): Message =>
+  new CachedMessage({
+    serial: data.serial,
+    clientId: data.clientId,
+    text: data.text,
+    metadata: data.metadata,
+    headers: data.headers,
+    action: data.action,
+    timestamp: new Date(data.timestamp),
+    version: { ...data.version, timestamp: new Date(data.version.timestamp) },
+    reactions: data.reactions,
+  });
+
+/**
+ * Simple in-memory {@link MessageCache}, useful for tests and for sessions
+ * where persistence across reloads is not wanted.
+ *
+ * @example
+ * const cache = new InMemoryMessageCache({ maxMessagesPerRoom: 100 });
+ * <ChatWindow roomName="general" messageCache={cache} />
+ */
+export class InMemoryMessageCache implements MessageCache {
+  private readonly _rooms = new Map<string, SerializedMessage[]>();
+  private readonly _maxMessagesPerRoom: number;
+
+  constructor(options: MessageCacheOptions = {}) {
+    this._maxMessagesPerRoom = options.maxMessagesPerRoom ?? DEFAULT_MAX_MESSAGES_PER_ROOM;
+  }
+
+  load(roomName: string): Promise<Message[]> {
+    return Promise.resolve((this._rooms.get(roomName) ?? []).map((m) => restoreMessage(m)));
+  }
+
+  save(roomName: string, messages: Message[]): Promise<void> {
+    this._rooms.set(
+      roomName,
+      messages.slice(-this._maxMessagesPerRoom).map((m) => serializeMessage(m))
+    );
+    return Promise.resolve();
+  }
+
+  clear(roomName: string): Promise<void> {
+    this._rooms.delete(roomName);
+    return Promise.resolve();
+  }
+}
+
+const DB_NAME = 'ably-chat-ui-messages';
+const DB_VERSION = 1;
+const STORE_NAME = 'rooms';
+
+/**
+ * Record stored per room in IndexedDB
+ */
+interface StoredRoom {
+  roomName: string;
+  messages: SerializedMessage[];
+}
+
+/**
+ * Wraps an IndexedDB request in a promise
+ */
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.addEventListener('success', () => {
+      resolve(request.result);
+    });
+    request.addEventListener('error', () => {
+      reject(request.error ?? new Error('IndexedDB request failed'));
+    });
+  });
+
+/**
+ * {@link MessageCache} backed by IndexedDB, so cached rooms survive page reloads.
+ *
+ * If IndexedDB is not available (e.g. server rendering or private browsing modes
+ * that disable it) the cache behaves as if it were always empty.
+ *
+ * @example
+ * const cache = new IndexedDBMessageCache();
+ * <ChatWindow roomName="general" messageCache={cache} />
+ */
+export class IndexedDBMessageCache implements MessageCache {
+  private readonly _maxMessagesPerRoom: number;
+  private readonly _onError?: (error: unknown) => void;
+  private _db?: Promise<IDBDatabase | undefined>;
+
+  constructor(options: MessageCacheOptions = {}) {
+    this._maxMessagesPerRoom = options.maxMessagesPerRoom ?? DEFAULT_MAX_MESSAGES_PER_ROOM;
+    this._onError = options.onError;
+  }
+
+  async load(roomName: string): Promise<Message[]> {
+    try {
+      const db = await this._open();
+      if (!db) return [];
+      const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+      const record = (await promisify(store.get(roomName))) as StoredRoom | undefined;
+      return record ? record.messages.map((m) => restoreMessage(m)) : [];
+    } catch (error) {
+      this._handleError(error);
+      return [];
+    }
+  }
+
+  async save(roomName: string, messages: Message[]): Promise<void> {
+    // Serialize synchronously so later mutations of the caller's array are not persisted
+    const record: StoredRoom = {
+      roomName,
+      messages: messages.slice(-this._maxMessagesPerRoom).map((m) => serializeMessage(m)),
+    };
+    try {
+      const db = await this._open();
+      if (!db) return;
+      const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+      await promisify(store.put(record));
+    } catch (error) {
+      this._handleError(error);
+    }
+  }
+
+  async clear(roomName: string): Promise<void> {
+    try {
+      const db = await this._open();
+      if (!db) return;
+      const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+      await promisify(store.delete(roomName));
+    } catch (error) {
+      this._handleError(error);
+    }
+  }
+
+  private _open(): Promise<IDBDatabase | undefined> {
+    this._db ??= this._connect();
+    return this._db;
+  }
+
+  private async _connect(): Promise<IDBDatabase | undefined> {
+    if (typeof indexedDB === 'undefined') return;
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.addEventListener('upgradeneeded', () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'roomName' });
+      }
+    });
+
+    try {
+      return await promisify(request);
+    } catch (error) {
+      this._handleError(error);
+      return;
+    }
+  }
+
+  private _handleError(error: unknown) {
+    if (this._onError) {
+      this._onError(error);
+    } else if (process.env.NODE_ENV === 'development') {
+      console.warn('Message cache error:', error);
+    }
+  }
+}
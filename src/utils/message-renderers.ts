@@ -0,0 +1,82 @@
+import { Message } from '@ably/chat';
+import { ReactNode } from 'react';
+
+/**
+ * Helpers given to a {@link MessageRenderer} for the message it is rendering
+ */
+export interface MessageRendererHelpers {
+  /** Whether the message continues a group of consecutive messages from the same sender */
+  isGrouped: boolean;
+  /** Renders the message as a standard chat bubble, e.g. to wrap it or fall back to it */
+  renderDefault: () => ReactNode;
+  /** Adds a reaction to the message. Undefined when reactions are not handled by the list. */
+  addReaction?: (emoji: string) => void;
+  /** Removes the current user's reaction. Undefined when reactions are not handled by the list. */
+  removeReaction?: (emoji: string) => void;
+  /** Starts a reply quoting the message. Undefined when replies are not handled by the list. */
+  reply?: () => void;
+  /** Deletes the message. Undefined when deletes are not handled by the list. */
+  deleteMessage?: () => void;
+}
+
+/**
+ * Renders matching messages with a custom component instead of a chat bubble, e.g. bot cards
+ * or system notices. Renderers are checked in order, and the first match is used.
+ *
+ * @example
+ * const orderUpdateRenderer: MessageRenderer = {
+ *   match: matchHeader('type', 'order-update'),
+ *   render: (message) => <OrderCard orderId={message.metadata.orderId as string} />,
+ * };
+ * <ChatWindow roomName="orders" messageRenderers={[orderUpdateRenderer]} />
+ */
+export interface MessageRenderer {
+  /**
+   * Whether this renderer handles the message.
+   * @param message - The message being rendered
+   */
+  match: (message: Message) => boolean;
+
+  /**
+   * Renders the message in place of the standard chat bubble.
+   * @param message - The message being rendered
+   * @param helpers - Actions and the default rendering for the message
+   */
+  render: (message: Message, helpers: MessageRendererHelpers) => ReactNode;
+}
+
+/**
+ * Finds the first renderer that handles a message.
+ *
+ * @param renderers - Renderers in the order they should be checked
+ * @param message - The message being rendered
+ * @returns The matching renderer, or undefined to render a standard chat bubble
+ */
+export const findMessageRenderer = (
+  renderers: readonly MessageRenderer[] | undefined,
+  message: Message
+): MessageRenderer | undefined => renderers?.find((renderer) => renderer.match(message));
+
+/**
+ * Creates a `match` function for messages with a header set to the given value.
+ *
+ * @param name - The header name
+ * @param value - The value the header must have
+ * @returns A function matching messages with the header
+ */
+export const matchHeader =
+  (name: string, value: string | number | boolean) =>
+  (message: Message): boolean =>
+    message.headers[name] === value;
+
+/**
+ * Creates a `match` function for messages with a metadata key set to the given value.
+ *
+ * @param key - The metadata key
+ * @param value - The value the key must have
+ * @returns A function matching messages with the metadata value
+ */
+export const matchMetadata =
+  (key: string, value: string | number | boolean) =>
+  (message: Message): boolean =>
+    message.metadata[key] === value;
@@ -0,0 +1,249 @@
+import { ErrorInfo, MessageHeaders, MessageMetadata } from '@ably/chat';
+
+import { PersistedStore } from './persisted-store.ts';
+
+/**
+ * Delivery state of a message in the outbox:
+ * - `queued`: waiting for the connection, or for earlier messages in the room to be sent
+ * - `sending`: the send request is in flight
+ * - `failed`: the last attempt failed; the message waits for the user to retry or discard it
+ */
+export type OutboxMessageStatus = 'queued' | 'sending' | 'failed';
+
+/** A message that has been submitted by the user but not yet confirmed by the server */
+export interface OutboxMessage {
+  /** Local identifier, stable across retries and reloads */
+  id: string;
+  /** Text of the message */
+  text: string;
+  /** Metadata to send with the message, e.g. mentions */
+  metadata?: MessageMetadata;
+  /** Headers to send with the message, e.g. to pick a custom renderer */
+  headers?: MessageHeaders;
+  /** Where the message is in the delivery process */
+  status: OutboxMessageStatus;
+  /** When the user submitted the message */
+  createdAt: Date;
+  /** Error from the last failed attempt, if any. Not persisted. */
+  error?: ErrorInfo;
+}
+
+/**
+ * Options for the {@link OutboxStore}
+ */
+export interface OutboxStoreOptions {
+  /**
+   * Whether to persist queued messages to localStorage
+   * @defaultValue true
+   */
+  persist?: boolean;
+
+  /**
+   * localStorage key used when persisting
+   * @defaultValue 'ably-chat-ui-outbox'
+   */
+  storageKey?: string;
+
+  /**
+   * Error handler callback
+   * @param error - The error that occurred
+   */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Persisted outbox structure for localStorage
+ */
+interface PersistedOutbox {
+  /** Outbox entries keyed by room name, oldest first */
+  rooms: Record<
+    string,
+    {
+      id: string;
+      text: string;
+      metadata?: MessageMetadata;
+      headers?: MessageHeaders;
+      status: OutboxMessageStatus;
+      createdAt: number;
+    }[]
+  >;
+}
+
+const DEFAULT_STORAGE_KEY = 'ably-chat-ui-outbox';
+const OUTBOX_VERSION = 1;
+const EMPTY_MESSAGES: OutboxMessage[] = [];
+
+/**
+ * Generates an ID that stays unique across page loads
+ */
+const createOutboxId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Holds each room's unsent messages, in the order they were submitted, and persists them
+ * locally by default so they survive reloads.
+ *
+ * The store only tracks delivery state; sending is driven by the `useOutbox` hook, which
+ * flushes a room's queue whenever the connection is available.
+ *
+ * Messages that were mid-send when the page unloaded may already have been delivered,
+ * so they are restored as `failed` for the user to retry or discard, rather than resent.
+ *
+ * @example
+ * const store = new OutboxStore({ persist: false });
+ * store.enqueue('general', 'Hello!');
+ * store.getMessages('general'); // [{ text: 'Hello!', status: 'queued', ... }]
+ */
+export class OutboxStore {
+  private readonly _storage: PersistedStore<PersistedOutbox>;
+  private readonly _rooms = new Map<string, OutboxMessage[]>();
+
+  constructor(options: OutboxStoreOptions = {}) {
+    this._storage = new PersistedStore({
+      persist: options.persist ?? true,
+      storageKey: options.storageKey ?? DEFAULT_STORAGE_KEY,
+      version: OUTBOX_VERSION,
+      name: 'outbox',
+      isValid: (data) => typeof data.rooms === 'object' && !!data.rooms,
+      restore: ({ rooms }) => {
+        for (const [roomName, entries] of Object.entries(rooms)) {
+          this._rooms.set(
+            roomName,
+            entries.map((entry) => ({
+              id: entry.id,
+              text: entry.text,
+              ...(entry.metadata && { metadata: entry.metadata }),
+              ...(entry.headers && { headers: entry.headers }),
+              status: entry.status === 'sending' ? 'failed' : entry.status,
+              createdAt: new Date(entry.createdAt),
+            }))
+          );
+        }
+      },
+      onError: options.onError,
+    });
+  }
+
+  /**
+   * Returns a room's outbox, oldest first. The returned array is replaced, never mutated,
+   * when the outbox changes.
+   *
+   * @param roomName - The room to look up
+   */
+  getMessages(roomName: string): OutboxMessage[] {
+    this._storage.init();
+    return this._rooms.get(roomName) ?? EMPTY_MESSAGES;
+  }
+
+  /**
+   * Adds a message to the end of a room's outbox with a `queued` status.
+   *
+   * @param roomName - The room the message is for
+   * @param text - Text of the message
+   * @param metadata - Metadata to send with the message, if any
+   * @param headers - Headers to send with the message, if any
+   * @returns The new outbox entry
+   */
+  enqueue(
+    roomName: string,
+    text: string,
+    metadata?: MessageMetadata,
+    headers?: MessageHeaders
+  ): OutboxMessage {
+    const message: OutboxMessage = {
+      id: createOutboxId(),
+      text,
+      ...(metadata && { metadata }),
+      ...(headers && { headers }),
+      status: 'queued',
+      createdAt: new Date(),
+    };
+    this._setMessages(roomName, [...this.getMessages(roomName), message]);
+    return message;
+  }
+
+  /**
+   * Updates the delivery state of a message. Unknown IDs are ignored.
+   *
+   * @param roomName - The room the message is for
+   * @param id - Outbox ID of the message
+   * @param status - The new status
+   * @param error - The error that caused a `failed` status, if any
+   */
+  setStatus(roomName: string, id: string, status: OutboxMessageStatus, error?: ErrorInfo): void {
+    const messages = this.getMessages(roomName);
+    if (!messages.some((m) => m.id === id)) return;
+
+    this._setMessages(
+      roomName,
+      messages.map((m) =>
+        m.id === id
+          ? {
+              id: m.id,
+              text: m.text,
+              ...(m.metadata && { metadata: m.metadata }),
+              ...(m.headers && { headers: m.headers }),
+              createdAt: m.createdAt,
+              status,
+              ...(error && { error }),
+            }
+          : m
+      )
+    );
+  }
+
+  /**
+   * Removes a message from a room's outbox, e.g. once sent or discarded.
+   *
+   * @param roomName - The room the message is for
+   * @param id - Outbox ID of the message
+   */
+  remove(roomName: string, id: string): void {
+    const messages = this.getMessages(roomName);
+    if (!messages.some((m) => m.id === id)) return;
+    this._setMessages(
+      roomName,
+      messages.filter((m) => m.id !== id)
+    );
+  }
+
+  /**
+   * Registers a listener that is called whenever any room's outbox changes.
+   *
+   * @param listener - Callback invoked on change
+   * @returns Function to remove the listener
+   */
+  subscribe(listener: () => void): () => void {
+    return this._storage.subscribe(listener);
+  }
+
+  private _setMessages(roomName: string, messages: OutboxMessage[]) {
+    if (messages.length === 0) {
+      this._rooms.delete(roomName);
+    } else {
+      this._rooms.set(roomName, messages);
+    }
+    this._save();
+    this._storage.notify();
+  }
+
+  private _save() {
+    const rooms: PersistedOutbox['rooms'] = {};
+    for (const [roomName, messages] of this._rooms) {
+      rooms[roomName] = messages.map((m) => ({
+        id: m.id,
+        text: m.text,
+        ...(m.metadata && { metadata: m.metadata }),
+        ...(m.headers && { headers: m.headers }),
+        status: m.status,
+        createdAt: m.createdAt.getTime(),
+      }));
+    }
+    this._storage.save({ rooms });
+  }
+}
+
+/**
+ * Outbox used by `ChatWindow` and `useOutbox` when no store is passed
+ */
+export const defaultOutboxStore = new OutboxStore();
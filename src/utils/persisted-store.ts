@@ -0,0 +1,141 @@
+/**
+ * Options for a {@link PersistedStore}
+ *
+ * @typeParam T - Shape of the persisted data, excluding its version
+ */
+export interface PersistedStoreOptions<T extends object> {
+  /** Whether to read and write localStorage. When `false`, the store only notifies listeners. */
+  persist: boolean;
+
+  /** localStorage key the data is kept under */
+  storageKey: string;
+
+  /** Schema version of the data. Data saved under any other version is discarded. */
+  version: number;
+
+  /** Name of the data, used in error messages, e.g. `'outbox'` */
+  name: string;
+
+  /**
+   * Checks that parsed data, with a matching version, has the expected shape
+   * @param data - The parsed data
+   */
+  isValid: (data: Record<string, unknown>) => boolean;
+
+  /**
+   * Called once with the saved data, the first time {@link PersistedStore.init} is called
+   * @param data - The saved data
+   */
+  restore: (data: T) => void;
+
+  /**
+   * Error handler callback. Errors are logged in development when omitted.
+   * @param error - The error that occurred
+   */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Versioned localStorage persistence and change notification, shared by the stores that
+ * keep UI state on this device, such as read markers, the outbox and local pins.
+ *
+ * Saved data is restored lazily on first use, so stores can be created at module level
+ * and during server-side rendering. Invalid or outdated data is reported and ignored.
+ *
+ * @typeParam T - Shape of the persisted data, excluding its version
+ *
+ * @example
+ * const storage = new PersistedStore<{ rooms: Record<string, string[]> }>({
+ *   persist: true,
+ *   storageKey: 'my-rooms',
+ *   version: 1,
+ *   name: 'room',
+ *   isValid: (data) => typeof data.rooms === 'object' && !!data.rooms,
+ *   restore: ({ rooms }) => { ... },
+ * });
+ * storage.init();
+ * storage.save({ rooms });
+ */
+export class PersistedStore<T extends object> {
+  private readonly _options: PersistedStoreOptions<T>;
+  private readonly _listeners = new Set<() => void>();
+  private _initialized = false;
+
+  constructor(options: PersistedStoreOptions<T>) {
+    this._options = options;
+  }
+
+  /**
+   * Restores the saved data, if any. Only the first call has an effect.
+   */
+  init(): void {
+    if (this._initialized) return;
+    this._initialized = true;
+    const { persist, storageKey, version, name, isValid, restore } = this._options;
+    if (!persist || typeof localStorage === 'undefined') return;
+
+    try {
+      const saved = localStorage.getItem(storageKey);
+      if (!saved) return;
+      const parsed: unknown = JSON.parse(saved);
+      if (
+        !parsed ||
+        typeof parsed !== 'object' ||
+        (parsed as Record<string, unknown>).version !== version ||
+        !isValid(parsed as Record<string, unknown>)
+      ) {
+        this._handleError(new Error(`Invalid ${name} data in localStorage`));
+        return;
+      }
+      restore(parsed as T);
+    } catch (error) {
+      this._handleError(error);
+    }
+  }
+
+  /**
+   * Writes the data to localStorage under the current version.
+   *
+   * @param data - The data to persist
+   */
+  save(data: T): void {
+    const { persist, storageKey, version } = this._options;
+    if (!persist || typeof localStorage === 'undefined') return;
+
+    try {
+      localStorage.setItem(storageKey, JSON.stringify({ ...data, version }));
+    } catch (error) {
+      this._handleError(error);
+    }
+  }
+
+  /**
+   * Calls every registered listener.
+   */
+  notify(): void {
+    for (const listener of this._listeners) {
+      listener();
+    }
+  }
+
+  /**
+   * Registers a listener that is called by {@link PersistedStore.notify}.
+   *
+   * @param listener - Callback invoked on change
+   * @returns Function to remove the listener
+   */
+  subscribe(listener: () => void): () => void {
+    this._listeners.add(listener);
+    return () => {
+      this._listeners.delete(listener);
+    };
+  }
+
+  private _handleError(error: unknown) {
+    if (this._options.onError) {
+      this._options.onError(error);
+    } else if (process.env.NODE_ENV === 'development') {
+      console.warn(`Error in ${this._options.name} store:`, error);
+    }
+  }
+}
@@ -0,0 +1,236 @@
+import { Message } from '@ably/chat';
+
+import { PersistedStore } from './persisted-store.ts';
+import { createSnippet } from './replies.ts';
+
+/** A message pinned in a room */
+export interface PinnedMessage {
+  /** Serial of the pinned message */
+  serial: string;
+  /** Client ID of the pinned message's sender */
+  clientId: string;
+  /** The start of the pinned message's text, shown in the pinned messages list */
+  text: string;
+  /** Client ID of the user who pinned the message, if known */
+  pinnedBy?: string;
+  /** When the message was pinned */
+  pinnedAt: Date;
+}
+
+/**
+ * Storage for a room's pinned messages. Implement this to keep pins in your own service;
+ * pinning is a UI feature, so the Ably room itself does not store them.
+ *
+ * `getPins` and `subscribe` back a React external store, so `getPins` must return the same
+ * array until the room's pins change, and listeners must be called after every change,
+ * including changes made by other users if your service pushes them.
+ *
+ * @example
+ * class ServerPinStore implements PinStore {
+ *   private pins = new Map<string, PinnedMessage[]>();
+ *   private listeners = new Set<() => void>();
+ *
+ *   getPins(roomName: string) {
+ *     return this.pins.get(roomName) ?? [];
+ *   }
+ *   async pin(roomName: string, pin: PinnedMessage) {
+ *     await fetch(`/api/rooms/${roomName}/pins`, { method: 'POST', body: JSON.stringify(pin) });
+ *     this.pins.set(roomName, [pin, ...this.getPins(roomName)]);
+ *     this.listeners.forEach((listener) => listener());
+ *   }
+ *   // ...unpin and subscribe
+ * }
+ */
+export interface PinStore {
+  /**
+   * Returns a room's pinned messages, most recently pinned first.
+   *
+   * @param roomName - The room to look up
+   */
+  getPins(roomName: string): PinnedMessage[];
+
+  /**
+   * Pins a message. Pinning a message that is already pinned moves it to the top.
+   *
+   * @param roomName - The room the message belongs to
+   * @param pin - The message to pin
+   */
+  pin(roomName: string, pin: PinnedMessage): Promise<void>;
+
+  /**
+   * Unpins a message. Unpinning a message that is not pinned does nothing.
+   *
+   * @param roomName - The room the message belongs to
+   * @param serial - Serial of the message to unpin
+   */
+  unpin(roomName: string, serial: string): Promise<void>;
+
+  /**
+   * Registers a listener that is called whenever any room's pins change.
+   *
+   * @param listener - Callback invoked on change
+   * @returns Function to remove the listener
+   */
+  subscribe(listener: () => void): () => void;
+}
+
+/**
+ * Options for the {@link LocalPinStore}
+ */
+export interface LocalPinStoreOptions {
+  /**
+   * Whether to persist pins to localStorage. When `false`, pins are only kept in memory.
+   * @defaultValue true
+   */
+  persist?: boolean;
+
+  /**
+   * localStorage key used when persisting
+   * @defaultValue 'ably-chat-ui-pins'
+   */
+  storageKey?: string;
+
+  /**
+   * Error handler callback
+   * @param error - The error that occurred
+   */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Persisted pins structure for localStorage
+ */
+interface PersistedPins {
+  /** Pins keyed by room name, most recently pinned first */
+  rooms: Record<
+    string,
+    { serial: string; clientId: string; text: string; pinnedBy?: string; pinnedAt: number }[]
+  >;
+}
+
+const DEFAULT_STORAGE_KEY = 'ably-chat-ui-pins';
+const PINS_VERSION = 1;
+const EMPTY_PINS: PinnedMessage[] = [];
+
+/**
+ * Builds the pin for a message.
+ *
+ * @param message - The message to pin
+ * @param pinnedBy - Client ID of the user pinning it
+ * @returns The pin, with a snippet of the message's text
+ */
+export const createPinnedMessage = (message: Message, pinnedBy?: string): PinnedMessage => ({
+  serial: message.serial,
+  clientId: message.clientId,
+  text: createSnippet(message.text),
+  ...(pinnedBy && { pinnedBy }),
+  pinnedAt: new Date(),
+});
+
+/**
+ * Keeps pinned messages on this device, persisted to localStorage by default.
+ *
+ * Pins are only visible to the browser that made them, so this store suits demos and
+ * single-user setups. Implement {@link PinStore} to share pins between users.
+ *
+ * @example
+ * const store = new LocalPinStore({ persist: false });
+ * await store.pin('general', createPinnedMessage(message, clientId));
+ * store.getPins('general'); // [{ serial: message.serial, ... }]
+ */
+export class LocalPinStore implements PinStore {
+  private readonly _storage: PersistedStore<PersistedPins>;
+  private readonly _rooms = new Map<string, PinnedMessage[]>();
+
+  constructor(options: LocalPinStoreOptions = {}) {
+    this._storage = new PersistedStore({
+      persist: options.persist ?? true,
+      storageKey: options.storageKey ?? DEFAULT_STORAGE_KEY,
+      version: PINS_VERSION,
+      name: 'pin',
+      isValid: (data) => typeof data.rooms === 'object' && !!data.rooms,
+      restore: ({ rooms }) => {
+        for (const [roomName, pins] of Object.entries(rooms)) {
+          this._rooms.set(
+            roomName,
+            pins.map((pin) => ({ ...pin, pinnedAt: new Date(pin.pinnedAt) }))
+          );
+        }
+      },
+      onError: options.onError,
+    });
+  }
+
+  /**
+   * Returns a room's pins, most recently pinned first. The returned array is replaced,
+   * never mutated, when the pins change.
+   *
+   * @param roomName - The room to look up
+   */
+  getPins(roomName: string): PinnedMessage[] {
+    this._storage.init();
+    return this._rooms.get(roomName) ?? EMPTY_PINS;
+  }
+
+  /**
+   * Pins a message, moving it to the top if it is already pinned.
+   *
+   * @param roomName - The room the message belongs to
+   * @param pin - The message to pin
+   */
+  pin(roomName: string, pin: PinnedMessage): Promise<void> {
+    const others = this.getPins(roomName).filter((p) => p.serial !== pin.serial);
+    this._setPins(roomName, [pin, ...others]);
+    return Promise.resolve();
+  }
+
+  /**
+   * Unpins a message.
+   *
+   * @param roomName - The room the message belongs to
+   * @param serial - Serial of the message to unpin
+   */
+  unpin(roomName: string, serial: string): Promise<void> {
+    const pins = this.getPins(roomName);
+    if (pins.some((p) => p.serial === serial)) {
+      this._setPins(
+        roomName,
+        pins.filter((p) => p.serial !== serial)
+      );
+    }
+    return Promise.resolve();
+  }
+
+  /**
+   * Registers a listener that is called whenever any room's pins change.
+   *
+   * @param listener - Callback invoked on change
+   * @returns Function to remove the listener
+   */
+  subscribe(listener: () => void): () => void {
+    return this._storage.subscribe(listener);
+  }
+
+  private _setPins(roomName: string, pins: PinnedMessage[]) {
+    if (pins.length === 0) {
+      this._rooms.delete(roomName);
+    } else {
+      this._rooms.set(roomName, pins);
+    }
+    this._save();
+    this._storage.notify();
+  }
+
+  private _save() {
+    const rooms: PersistedPins['rooms'] = {};
+    for (const [roomName, pins] of this._rooms) {
+      rooms[roomName] = pins.map((pin) => ({ ...pin, pinnedAt: pin.pinnedAt.getTime() }));
+    }
+    this._storage.save({ rooms });
+  }
+}
+
+/**
+ * Pins kept by `ChatWindow` and `usePinnedMessages` when no store is passed
+ */
+export const defaultPinStore = new LocalPinStore();
@@ -0,0 +1,59 @@
+import { MessageReactionSummary, MessageReactionType } from '@ably/chat';
+
+/**
+ * The reactions with one emoji on a message, read from the summary for a reaction type
+ */
+export interface ReactionCount {
+  /** The emoji reacted with */
+  emoji: string;
+  /** Number of reactions, counting repeats for `Multiple` reactions */
+  total: number;
+  /** Number of users who reacted */
+  reactorCount: number;
+  /** Users who reacted, which may be clipped for messages with many reactions */
+  clientIds: string[];
+  /** Number of times each user reacted, for `Multiple` reactions only */
+  counts?: Record<string, number>;
+}
+
+/**
+ * Reads the reactions of one type from a message's reaction summary.
+ *
+ * @param summary - The message's reaction summary, `message.reactions`
+ * @param type - The reaction type used in the room
+ * @returns The reactions for each emoji, in the order they appear in the summary
+ */
+export const getReactionCounts = (
+  summary: MessageReactionSummary,
+  type: MessageReactionType
+): ReactionCount[] => {
+  if (type === MessageReactionType.Multiple) {
+    return Object.entries(summary.multiple).map(([emoji, reaction]) => ({
+      emoji,
+      total: reaction.total,
+      reactorCount: reaction.totalClientIds,
+      clientIds: Object.keys(reaction.clientIds),
+      counts: reaction.clientIds,
+    }));
+  }
+
+  const values = type === MessageReactionType.Unique ? summary.unique : summary.distinct;
+  return Object.entries(values).map(([emoji, reaction]) => ({
+    emoji,
+    total: reaction.total,
+    reactorCount: reaction.total,
+    clientIds: reaction.clientIds,
+  }));
+};
+
+/**
+ * Counts how many times a user reacted with an emoji.
+ *
+ * @param reaction - The reactions with the emoji
+ * @param clientId - The user's client ID
+ * @returns The number of reactions, which is 0 or 1 except for `Multiple` reactions
+ */
+export const getUserReactionCount = (reaction: ReactionCount, clientId: string): number =>
+  reaction.counts
+    ? (reaction.counts[clientId] ?? 0)
+    : Number(reaction.clientIds.includes(clientId));
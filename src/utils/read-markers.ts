@@ -0,0 +1,186 @@
+import { ChatMessageAction, Message } from '@ably/chat';
+
+import { PersistedStore } from './persisted-store.ts';
+
+/**
+ * Read state for a single room
+ */
+export interface ReadPosition {
+  /** Serial of the newest message the user has read, if any */
+  lastReadSerial?: string;
+  /** Serial of the newest message known for the room, if any */
+  latestSerial?: string;
+  /**
+   * Number of messages from other users newer than `lastReadSerial` that have been reported
+   * since the marker was set, including ones that are no longer loaded
+   */
+  unreadCount: number;
+}
+
+/**
+ * Options for the {@link ReadMarkerStore}
+ */
+export interface ReadMarkerStoreOptions {
+  /**
+   * Whether to persist read markers to localStorage
+   * @defaultValue true
+   */
+  persist?: boolean;
+
+  /**
+   * localStorage key used when persisting
+   * @defaultValue 'ably-chat-ui-read-markers'
+   */
+  storageKey?: string;
+
+  /**
+   * Error handler callback
+   * @param error - The error that occurred
+   */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Persisted read marker structure for localStorage
+ */
+interface PersistedReadMarkers {
+  /** Last read serial keyed by room name */
+  markers: Record<string, string>;
+}
+
+const DEFAULT_STORAGE_KEY = 'ably-chat-ui-read-markers';
+const READ_MARKERS_VERSION = 1;
+const EMPTY_POSITION: ReadPosition = Object.freeze({ unreadCount: 0 });
+
+/**
+ * Tracks the last-read message serial for each room, and how many messages after it
+ * are unread. Markers only ever move forward and are persisted locally by default.
+ *
+ * The store is subscribable, so any component can observe a room's read state
+ * through the `useUnreadMessages` hook.
+ *
+ * @example
+ * const store = new ReadMarkerStore({ persist: false });
+ * store.markAsRead('general', message.serial);
+ * store.getPosition('general').unreadCount;
+ */
+export class ReadMarkerStore {
+  private readonly _storage: PersistedStore<PersistedReadMarkers>;
+  private readonly _positions = new Map<string, ReadPosition>();
+  /** Serials of unread messages from other users, by room */
+  private readonly _unreadSerials = new Map<string, Set<string>>();
+
+  constructor(options: ReadMarkerStoreOptions = {}) {
+    this._storage = new PersistedStore({
+      persist: options.persist ?? true,
+      storageKey: options.storageKey ?? DEFAULT_STORAGE_KEY,
+      version: READ_MARKERS_VERSION,
+      name: 'read marker',
+      isValid: (data) => typeof data.markers === 'object' && !!data.markers,
+      restore: ({ markers }) => {
+        for (const [roomName, lastReadSerial] of Object.entries(markers)) {
+          this._positions.set(roomName, Object.freeze({ lastReadSerial, unreadCount: 0 }));
+        }
+      },
+      onError: options.onError,
+    });
+  }
+
+  /**
+   * Returns the read state for a room. The returned object is replaced, never mutated,
+   * when the state changes.
+   *
+   * @param roomName - The room to look up
+   */
+  getPosition(roomName: string): ReadPosition {
+    this._storage.init();
+    return this._positions.get(roomName) ?? EMPTY_POSITION;
+  }
+
+  /**
+   * Marks a room as read up to and including the given serial.
+   * Calls with a serial older than the current marker are ignored.
+   *
+   * @param roomName - The room to update
+   * @param serial - The newest read serial. Defaults to the newest known message in the room.
+   */
+  markAsRead(roomName: string, serial?: string): void {
+    this._storage.init();
+    const current = this.getPosition(roomName);
+    const target = serial ?? current.latestSerial;
+    if (!target || (current.lastReadSerial && current.lastReadSerial >= target)) return;
+
+    const unread = new Set(this._unreadSerials.get(roomName));
+    for (const unreadSerial of unread) {
+      if (unreadSerial <= target) unread.delete(unreadSerial);
+    }
+    this._unreadSerials.set(roomName, unread);
+
+    this._setPosition(roomName, {
+      ...current,
+      lastReadSerial: target,
+      unreadCount: unread.size,
+    });
+    this._save();
+  }
+
+  /**
+   * Reports messages loaded or received for a room, so the unread count can be kept up to date.
+   * Messages are remembered once reported, so they stay counted after being unloaded.
+   *
+   * @param roomName - The room the messages belong to
+   * @param messages - Loaded or received messages, in any order
+   * @param clientId - The current user's client ID; their own messages never count as unread
+   */
+  updateMessages(roomName: string, messages: Message[], clientId?: string): void {
+    this._storage.init();
+    const current = this.getPosition(roomName);
+    const { lastReadSerial } = current;
+    let latestSerial = current.latestSerial;
+    // Without a marker nothing is unread, and the count starts once one is set
+    const unread = new Set(lastReadSerial ? this._unreadSerials.get(roomName) : undefined);
+
+    for (const m of messages) {
+      if (!latestSerial || m.serial > latestSerial) latestSerial = m.serial;
+      if (!lastReadSerial || m.serial <= lastReadSerial) continue;
+      if (m.clientId === clientId || m.action === ChatMessageAction.MessageDelete) {
+        unread.delete(m.serial);
+      } else {
+        unread.add(m.serial);
+      }
+    }
+    this._unreadSerials.set(roomName, unread);
+
+    if (latestSerial !== current.latestSerial || unread.size !== current.unreadCount) {
+      this._setPosition(roomName, { ...current, latestSerial, unreadCount: unread.size });
+    }
+  }
+
+  /**
+   * Registers a listener that is called whenever any room's read state changes.
+   *
+   * @param listener - Callback invoked on change
+   * @returns Function to remove the listener
+   */
+  subscribe(listener: () => void): () => void {
+    return this._storage.subscribe(listener);
+  }
+
+  private _setPosition(roomName: string, position: ReadPosition) {
+    this._positions.set(roomName, Object.freeze(position));
+    this._storage.notify();
+  }
+
+  private _save() {
+    const markers: Record<string, string> = {};
+    for (const [roomName, position] of this._positions) {
+      if (position.lastReadSerial) markers[roomName] = position.lastReadSerial;
+    }
+    this._storage.save({ markers });
+  }
+}
+
+/**
+ * Read markers used by `ChatWindow` and `useUnreadMessages` when no store is passed
+ */
+export const defaultReadMarkerStore = new ReadMarkerStore();
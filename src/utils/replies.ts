@@ -0,0 +1,64 @@
+import { Message, MessageMetadata } from '@ably/chat';
+
+/**
+ * The message a reply answers, as stored in the reply's metadata
+ */
+export interface ReplyReference {
+  /** Serial of the parent message */
+  serial: string;
+  /** Client ID of the parent message's sender */
+  clientId: string;
+  /** The start of the parent's text, shown as a quote */
+  text: string;
+}
+
+/** Metadata key under which a reply's parent is stored */
+export const REPLY_METADATA_KEY = 'replyTo';
+
+/** Maximum length of the quoted snippet of the parent message */
+const SNIPPET_LENGTH = 140;
+
+/**
+ * Shortens text to a single-line snippet suitable for quoting.
+ *
+ * @param text - The text to shorten
+ * @param maxLength - Maximum length of the snippet, including the ellipsis
+ * @returns The snippet
+ */
+export const createSnippet = (text: string, maxLength = SNIPPET_LENGTH): string => {
+  const singleLine = text.replaceAll(/\s+/g, ' ').trim();
+  return singleLine.length > maxLength
+    ? `${singleLine.slice(0, maxLength - 1).trimEnd()}…`
+    : singleLine;
+};
+
+/**
+ * Builds the metadata that marks a message as a reply.
+ *
+ * @param parent - The message being replied to
+ * @returns Metadata to send with the reply
+ */
+export const createReplyMetadata = (parent: Message): MessageMetadata => ({
+  [REPLY_METADATA_KEY]: {
+    serial: parent.serial,
+    clientId: parent.clientId,
+    text: createSnippet(parent.text),
+  },
+});
+
+/**
+ * Reads the parent of a reply from message metadata. Metadata is untrusted user input, so
+ * anything malformed is ignored.
+ *
+ * @param metadata - The message metadata
+ * @returns The parent, or `undefined` if the message is not a reply
+ */
+export const getReplyReference = (
+  metadata: MessageMetadata | undefined
+): ReplyReference | undefined => {
+  const value = metadata?.[REPLY_METADATA_KEY];
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+  const { serial, clientId, text } = value as Record<string, unknown>;
+  if (typeof serial !== 'string' || !serial || typeof clientId !== 'string') return undefined;
+  return { serial, clientId, text: typeof text === 'string' ? createSnippet(text) : '' };
+};
@@ -0,0 +1,272 @@
+import { MessageHeaders, MessageMetadata } from '@ably/chat';
+
+/**
+ * What a {@link SlashCommand} asks the message input to do once it has run
+ *
+ * - `send` sends a message in place of the command, e.g. the text with a shrug appended
+ * - `ephemeral` shows a response only the current user can see, which is never sent
+ */
+export type SlashCommandResult =
+  | { type: 'send'; text: string; metadata?: MessageMetadata; headers?: MessageHeaders }
+  | { type: 'ephemeral'; text: string };
+
+/**
+ * A command run by typing `/` and its name in the message input, e.g. `/shrug` or `/topic`
+ *
+ * @example
+ * const pollCommand: SlashCommand = {
+ *   name: 'poll',
+ *   description: 'Starts a poll',
+ *   argsHint: '<question>',
+ *   handler: async (args) => {
+ *     await createPoll(args);
+ *     return { type: 'ephemeral', text: 'Poll created' };
+ *   },
+ * };
+ */
+export interface SlashCommand {
+  /** Name typed after `/`, made of letters, digits, `-` and `_`. Matched case-insensitively. */
+  name: string;
+
+  /** Short description of what the command does, shown in the autocomplete list */
+  description: string;
+
+  /** Hint for the arguments, shown after the name in the autocomplete list, e.g. `[message]` */
+  argsHint?: string;
+
+  /**
+   * Runs the command. Resolves with a message to send or a response only the current user
+   * sees, or with nothing when the command ran a local action.
+   * @param args - Text typed after the command name, trimmed
+   */
+  handler: (args: string) => Promise<SlashCommandResult | undefined> | Promise<void>;
+}
+
+/**
+ * A response to a slash command shown only to the current user, and never sent to the room
+ */
+export interface EphemeralResponse {
+  /** Local ID of the response */
+  id: string;
+  /** The command as typed, e.g. `/giphy cats` */
+  command: string;
+  /** The response text */
+  text: string;
+  /** When the response was shown */
+  timestamp: Date;
+}
+
+/**
+ * A command typed in the message input, split into its name and arguments
+ */
+export interface ParsedSlashCommand {
+  /** The command name, lowercased */
+  name: string;
+  /** Text after the name, trimmed */
+  args: string;
+}
+
+/** Metadata key marking a message sent with `/me` */
+export const EMOTE_METADATA_KEY = 'emote';
+
+const COMMAND_NAME_PATTERN = /^[\w-]+$/;
+const COMMAND_PATTERN = /^\/([\w-]+)/;
+const COMMAND_QUERY_PATTERN = /^\/([\w-]*)$/;
+
+const SHRUG = String.raw`¯\_(ツ)_/¯`;
+
+/**
+ * Holds the slash commands offered in the message input. Registering a command with the name of
+ * an existing one replaces it, so the built-in commands can be overridden.
+ *
+ * @example
+ * const commands = new SlashCommandRegistry([shrugCommand, meCommand]);
+ * const unregister = commands.register(pollCommand);
+ * <MessageInput slashCommands={commands} />
+ */
+export class SlashCommandRegistry {
+  private readonly _commands = new Map<string, SlashCommand>();
+
+  constructor(commands: Iterable<SlashCommand> = []) {
+    for (const command of commands) {
+      this.register(command);
+    }
+  }
+
+  /**
+   * Adds a command, replacing any command with the same name.
+   *
+   * @param command - The command to add
+   * @returns A function that removes the command again
+   * @throws If the name contains characters other than letters, digits, `-` and `_`
+   */
+  register(command: SlashCommand): () => void {
+    if (!COMMAND_NAME_PATTERN.test(command.name)) {
+      throw new Error(`invalid slash command name "${command.name}"`);
+    }
+    const key = command.name.toLowerCase();
+    this._commands.set(key, command);
+    return () => {
+      if (this._commands.get(key) === command) this._commands.delete(key);
+    };
+  }
+
+  /**
+   * Removes a command.
+   *
+   * @param name - Name of the command, without the `/`
+   */
+  unregister(name: string): void {
+    this._commands.delete(name.toLowerCase());
+  }
+
+  /**
+   * Finds a command by name.
+   *
+   * @param name - Name of the command, without the `/`
+   * @returns The command, if registered
+   */
+  get(name: string): SlashCommand | undefined {
+    return this._commands.get(name.toLowerCase());
+  }
+
+  /**
+   * Finds the commands whose names start with what has been typed after `/`.
+   *
+   * @param query - The partial name, without the `/`
+   * @returns The matching commands, sorted by name
+   */
+  search(query: string): SlashCommand[] {
+    const prefix = query.toLowerCase();
+    return [...this._commands]
+      .filter(([key]) => key.startsWith(prefix))
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([, command]) => command);
+  }
+}
+
+/**
+ * Splits message text into a command name and arguments, if it starts with `/` and a name.
+ *
+ * @param text - The text typed in the message input
+ * @returns The command, or undefined if the text is not a command
+ */
+export const parseSlashCommand = (text: string): ParsedSlashCommand | undefined => {
+  const trimmed = text.trim();
+  const match = COMMAND_PATTERN.exec(trimmed);
+  if (!match?.[1]) return;
+  // The name must be followed by whitespace or nothing, so `/path/to` is not a command
+  const rest = trimmed.slice(match[0].length);
+  if (rest && !/^\s/.test(rest)) return;
+  return { name: match[1].toLowerCase(), args: rest.trim() };
+};
+
+/**
+ * Finds a partially typed command name at the caret, e.g. `/shr`, for autocomplete. Only the
+ * start of the message is a command, and the query ends once a space is typed.
+ *
+ * @param text - The text typed in the message input
+ * @param caret - Position of the caret in the text
+ * @returns The name typed so far, without the `/`, or undefined if no command is being typed
+ */
+export const findSlashCommandQuery = (text: string, caret: number): string | undefined =>
+  COMMAND_QUERY_PATTERN.exec(text.slice(0, caret))?.[1];
+
+/**
+ * Creates an ephemeral response to a command.
+ *
+ * @param command - The command as typed
+ * @param text - The response text
+ * @returns The response, with a new local ID
+ */
+export const createEphemeralResponse = (command: string, text: string): EphemeralResponse => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`,
+  command,
+  text,
+  timestamp: new Date(),
+});
+
+/**
+ * Checks whether a message was sent with `/me`, and describes an action by the sender.
+ *
+ * @param metadata - The message metadata
+ * @returns Whether the message is an emote
+ */
+export const isEmote = (metadata: MessageMetadata | undefined): boolean =>
+  metadata?.[EMOTE_METADATA_KEY] === true;
+
+/**
+ * `/shrug [message]` sends the message with ¯\\_(ツ)_/¯ appended
+ */
+export const shrugCommand: SlashCommand = {
+  name: 'shrug',
+  description: `Appends ${SHRUG} to your message`,
+  argsHint: '[message]',
+  handler: (args) =>
+    Promise.resolve<SlashCommandResult>({ type: 'send', text: args ? `${args} ${SHRUG}` : SHRUG }),
+};
+
+/**
+ * `/me <action>` sends the action as an emote, shown in italics
+ */
+export const meCommand: SlashCommand = {
+  name: 'me',
+  description: 'Describes what you are doing',
+  argsHint: '<action>',
+  handler: (args) =>
+    Promise.resolve<SlashCommandResult>(
+      args
+        ? { type: 'send', text: args, metadata: { [EMOTE_METADATA_KEY]: true } }
+        : { type: 'ephemeral', text: 'Usage: /me <action>' }
+    ),
+};
+
+/**
+ * Creates a `/giphy <search>` command, which sends the URL of a GIF matching the search. The
+ * GIF is shown in the message when link previews are enabled.
+ *
+ * @param search - Finds the URL of a GIF for the search terms, or undefined if none match
+ * @returns The command
+ *
+ * @example
+ * const giphyCommand = createGiphyCommand(async (query) => {
+ *   const response = await fetch(`/api/gifs?q=${encodeURIComponent(query)}`);
+ *   const { url } = await response.json();
+ *   return url;
+ * });
+ */
+export const createGiphyCommand = (
+  search: (query: string) => Promise<string | undefined>
+): SlashCommand => ({
+  name: 'giphy',
+  description: 'Sends a GIF matching your search',
+  argsHint: '<search>',
+  handler: async (args) => {
+    if (!args) return { type: 'ephemeral', text: 'Usage: /giphy <search>' };
+    const url = await search(args);
+    return url
+      ? { type: 'send', text: url }
+      : { type: 'ephemeral', text: `No GIFs found for "${args}"` };
+  },
+});
+
+/**
+ * Creates a `/topic <topic>` command, which sets the room topic through the app.
+ *
+ * @param setTopic - Sets the topic of the current room
+ * @returns The command
+ *
+ * @example
+ * const topicCommand = createTopicCommand((topic) => updateRoomTopic(roomName, topic));
+ */
+export const createTopicCommand = (
+  setTopic: (topic: string) => Promise<void> | void
+): SlashCommand => ({
+  name: 'topic',
+  description: 'Sets the room topic',
+  argsHint: '<topic>',
+  handler: async (args) => {
+    if (!args) return { type: 'ephemeral', text: 'Usage: /topic <topic>' };
+    await setTopic(args);
+  },
+});
@@ -0,0 +1,426 @@
+/**
+ * Kind of a highlighted piece of code
+ */
+export type CodeTokenType = 'plain' | 'keyword' | 'string' | 'comment' | 'number';
+
+/**
+ * A piece of code with the kind used to colour it
+ */
+export interface CodeToken {
+  type: CodeTokenType;
+  text: string;
+}
+
+/**
+ * Lexical rules for a highlighted language
+ */
+interface LanguageDefinition {
+  keywords: ReadonlySet<string>;
+  lineComment?: string;
+  blockComment?: [string, string];
+  quotes: string;
+}
+
+const C_LIKE_KEYWORDS = [
+  'break',
+  'case',
+  'catch',
+  'class',
+  'const',
+  'continue',
+  'default',
+  'do',
+  'else',
+  'enum',
+  'extends',
+  'false',
+  'finally',
+  'for',
+  'if',
+  'import',
+  'new',
+  'null',
+  'private',
+  'protected',
+  'public',
+  'return',
+  'static',
+  'super',
+  'switch',
+  'this',
+  'throw',
+  'true',
+  'try',
+  'void',
+  'while',
+];
+
+const keywords = (...lists: string[][]): ReadonlySet<string> => new Set(lists.flat());
+
+const JAVASCRIPT: LanguageDefinition = {
+  keywords: keywords(C_LIKE_KEYWORDS, [
+    'as',
+    'async',
+    'await',
+    'delete',
+    'export',
+    'from',
+    'function',
+    'in',
+    'instanceof',
+    'interface',
+    'let',
+    'of',
+    'type',
+    'typeof',
+    'undefined',
+    'var',
+    'yield',
+  ]),
+  lineComment: '//',
+  blockComment: ['/*', '*/'],
+  quotes: '\'"`',
+};
+
+const PYTHON: LanguageDefinition = {
+  keywords: keywords([
+    'False',
+    'None',
+    'True',
+    'and',
+    'as',
+    'async',
+    'await',
+    'break',
+    'class',
+    'continue',
+    'def',
+    'elif',
+    'else',
+    'except',
+    'finally',
+    'for',
+    'from',
+    'if',
+    'import',
+    'in',
+    'is',
+    'lambda',
+    'not',
+    'or',
+    'pass',
+    'raise',
+    'return',
+    'try',
+    'while',
+    'with',
+    'yield',
+  ]),
+  lineComment: '#',
+  quotes: '\'"',
+};
+
+const GO: LanguageDefinition = {
+  keywords: keywords([
+    'break',
+    'case',
+    'chan',
+    'const',
+    'continue',
+    'default',
+    'defer',
+    'else',
+    'false',
+    'for',
+    'func',
+    'go',
+    'if',
+    'import',
+    'interface',
+    'map',
+    'nil',
+    'package',
+    'range',
+    'return',
+    'select',
+    'struct',
+    'switch',
+    'true',
+    'type',
+    'var',
+  ]),
+  lineComment: '//',
+  blockComment: ['/*', '*/'],
+  quotes: '\'"`',
+};
+
+const JAVA: LanguageDefinition = {
+  keywords: keywords(C_LIKE_KEYWORDS, [
+    'abstract',
+    'boolean',
+    'final',
+    'implements',
+    'instanceof',
+    'int',
+    'interface',
+    'long',
+    'package',
+    'throws',
+    'var',
+  ]),
+  lineComment: '//',
+  blockComment: ['/*', '*/'],
+  quotes: '\'"',
+};
+
+const C: LanguageDefinition = {
+  keywords: keywords(C_LIKE_KEYWORDS, [
+    'auto',
+    'bool',
+    'char',
+    'double',
+    'float',
+    'int',
+    'long',
+    'namespace',
+    'nullptr',
+    'sizeof',
+    'struct',
+    'template',
+    'typedef',
+    'unsigned',
+    'using',
+  ]),
+  lineComment: '//',
+  blockComment: ['/*', '*/'],
+  quotes: '\'"',
+};
+
+const RUST: LanguageDefinition = {
+  keywords: keywords([
+    'as',
+    'async',
+    'await',
+    'break',
+    'const',
+    'continue',
+    'else',
+    'enum',
+    'false',
+    'fn',
+    'for',
+    'if',
+    'impl',
+    'in',
+    'let',
+    'loop',
+    'match',
+    'mod',
+    'mut',
+    'pub',
+    'return',
+    'self',
+    'struct',
+    'trait',
+    'true',
+    'use',
+    'where',
+    'while',
+  ]),
+  lineComment: '//',
+  blockComment: ['/*', '*/'],
+  quotes: '"',
+};
+
+const SHELL: LanguageDefinition = {
+  keywords: keywords([
+    'case',
+    'do',
+    'done',
+    'elif',
+    'else',
+    'esac',
+    'export',
+    'fi',
+    'for',
+    'function',
+    'if',
+    'in',
+    'local',
+    'return',
+    'then',
+    'while',
+  ]),
+  lineComment: '#',
+  quotes: '\'"',
+};
+
+const JSON_LANGUAGE: LanguageDefinition = {
+  keywords: keywords(['false', 'null', 'true']),
+  quotes: '"',
+};
+
+const CSS: LanguageDefinition = {
+  keywords: keywords([]),
+  blockComment: ['/*', '*/'],
+  quotes: '\'"',
+};
+
+const SQL: LanguageDefinition = {
+  keywords: keywords(
+    [
+      'and',
+      'as',
+      'by',
+      'create',
+      'delete',
+      'from',
+      'group',
+      'insert',
+      'into',
+      'join',
+      'left',
+      'limit',
+      'not',
+      'null',
+      'on',
+      'or',
+      'order',
+      'select',
+      'set',
+      'table',
+      'update',
+      'values',
+      'where',
+    ].flatMap((keyword) => [keyword, keyword.toUpperCase()])
+  ),
+  lineComment: '--',
+  blockComment: ['/*', '*/'],
+  quotes: '\'"',
+};
+
+const LANGUAGES = new Map<string, LanguageDefinition>(
+  Object.entries({
+    javascript: JAVASCRIPT,
+    js: JAVASCRIPT,
+    jsx: JAVASCRIPT,
+    typescript: JAVASCRIPT,
+    ts: JAVASCRIPT,
+    tsx: JAVASCRIPT,
+    python: PYTHON,
+    py: PYTHON,
+    go: GO,
+    golang: GO,
+    java: JAVA,
+    kotlin: JAVA,
+    c: C,
+    cpp: C,
+    'c++': C,
+    csharp: C,
+    'c#': C,
+    cs: C,
+    rust: RUST,
+    rs: RUST,
+    bash: SHELL,
+    sh: SHELL,
+    shell: SHELL,
+    zsh: SHELL,
+    json: JSON_LANGUAGE,
+    css: CSS,
+    sql: SQL,
+  })
+);
+
+const WORD_PATTERN = /[A-Za-z_$][\w$]*/y;
+const NUMBER_PATTERN = /\d[\w.]*/y;
+
+/**
+ * Checks whether code can be highlighted for a language.
+ *
+ * @param language - The language named on the code fence, e.g. `ts` or `python`
+ * @returns Whether the language is recognised
+ */
+export const isHighlightedLanguage = (language: string | undefined): boolean =>
+  !!language && LANGUAGES.has(language.toLowerCase());
+
+/**
+ * Splits code into tokens for syntax highlighting: keywords, strings, comments and numbers.
+ *
+ * This is a lightweight lexer covering common languages rather than a full parser, so
+ * unusual syntax may be coloured imperfectly. Code in an unrecognised language is
+ * returned as a single plain token. Joining the token texts always gives back the code.
+ *
+ * @param code - The code to highlight
+ * @param language - The language named on the code fence, e.g. `ts` or `python`
+ * @returns The tokens, in order
+ */
+export const highlightCode = (code: string, language: string | undefined): CodeToken[] => {
+  const definition = language ? LANGUAGES.get(language.toLowerCase()) : undefined;
+  if (!definition) return code ? [{ type: 'plain', text: code }] : [];
+
+  const tokens: CodeToken[] = [];
+  const push = (type: CodeTokenType, text: string) => {
+    const last = tokens.at(-1);
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      tokens.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  while (i < code.length) {
+    const char = code[i] ?? '';
+
+    if (definition.lineComment && code.startsWith(definition.lineComment, i)) {
+      const end = code.indexOf('\n', i);
+      const text = code.slice(i, end === -1 ? undefined : end);
+      push('comment', text);
+      i += text.length;
+      continue;
+    }
+
+    if (definition.blockComment && code.startsWith(definition.blockComment[0], i)) {
+      const [open, close] = definition.blockComment;
+      const end = code.indexOf(close, i + open.length);
+      const text = code.slice(i, end === -1 ? undefined : end + close.length);
+      push('comment', text);
+      i += text.length;
+      continue;
+    }
+
+    if (definition.quotes.includes(char)) {
+      let end = i + 1;
+      while (end < code.length && code[end] !== char) {
+        // Strings other than template literals end at the line break if left unclosed
+        if (code[end] === '\n' && char !== '`') break;
+        end += code[end] === '\\' ? 2 : 1;
+      }
+      const text = code.slice(i, code[end] === char ? end + 1 : Math.min(end, code.length));
+      push('string', text);
+      i += text.length;
+      continue;
+    }
+
+    WORD_PATTERN.lastIndex = i;
+    const word = WORD_PATTERN.exec(code);
+    if (word) {
+      push(definition.keywords.has(word[0]) ? 'keyword' : 'plain', word[0]);
+      i += word[0].length;
+      continue;
+    }
+
+    NUMBER_PATTERN.lastIndex = i;
+    const number = NUMBER_PATTERN.exec(code);
+    if (number) {
+      push('number', number[0]);
+      i += number[0].length;
+      continue;
+    }
+
+    push('plain', char);
+    i++;
+  }
+
+  return tokens;
+};
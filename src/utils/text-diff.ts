@@ -0,0 +1,76 @@
+/**
+ * A run of text that is unchanged, added or removed between two versions
+ */
+export interface DiffSegment {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+/** Largest word-by-word comparison attempted before falling back to replacing the whole text */
+const MAX_DIFF_CELLS = 250_000;
+
+const tokenize = (text: string): string[] => text.match(/\s+|\S+/g) ?? [];
+
+/**
+ * Compares two versions of a text word by word, for showing what an edit changed.
+ *
+ * Whitespace is kept, so joining the `equal` and `removed` segments gives back the old text,
+ * and joining the `equal` and `added` segments gives back the new text. Very long texts are
+ * shown as removed and re-added in full rather than compared word by word.
+ *
+ * @param before - The earlier version
+ * @param after - The later version
+ * @returns The segments, in order
+ */
+export const diffWords = (before: string, after: string): DiffSegment[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment['type'], text: string) => {
+    const last = segments.at(-1);
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ type, text });
+    }
+  };
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    if (before) push('removed', before);
+    if (after) push('added', after);
+    return segments;
+  }
+
+  // lengths[i][j] is the length of the longest common subsequence of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () =>
+    Array.from({ length: b.length + 1 }, () => 0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    const row = lengths[i] ?? [];
+    const next = lengths[i + 1] ?? [];
+    for (let j = b.length - 1; j >= 0; j--) {
+      row[j] = a[i] === b[j] ? (next[j + 1] ?? 0) + 1 : Math.max(next[j] ?? 0, row[j + 1] ?? 0);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('equal', a[i] ?? '');
+      i++;
+      j++;
+    } else if ((lengths[i + 1]?.[j] ?? 0) >= (lengths[i]?.[j + 1] ?? 0)) {
+      push('removed', a[i] ?? '');
+      i++;
+    } else {
+      push('added', b[j] ?? '');
+      j++;
+    }
+  }
+  while (i < a.length) push('removed', a[i++] ?? '');
+  while (j < b.length) push('added', b[j++] ?? '');
+
+  return segments;
+};
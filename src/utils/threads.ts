@@ -0,0 +1,40 @@
+import { ChatMessageAction, Message, MessageHeaders } from '@ably/chat';
+
+/**
+ * Header holding the serial of the message a thread reply belongs to. Messages carrying it are
+ * kept out of the main timeline and shown in the thread instead.
+ */
+export const THREAD_HEADER = 'threadParent';
+
+/**
+ * Builds the headers that post a message into a thread.
+ *
+ * @param parentSerial - Serial of the message that started the thread
+ * @returns Headers to send with the reply
+ */
+export const createThreadHeaders = (parentSerial: string): MessageHeaders => ({
+  [THREAD_HEADER]: parentSerial,
+});
+
+/**
+ * Reads the thread a message was posted in.
+ *
+ * @param message - The message to check, or a message waiting to be sent
+ * @returns Serial of the thread's parent message, or `undefined` if the message is not a reply
+ * in a thread
+ */
+export const getThreadParentSerial = (message: {
+  headers?: MessageHeaders;
+}): string | undefined => {
+  const value = message.headers?.[THREAD_HEADER];
+  return typeof value === 'string' && value ? value : undefined;
+};
+
+/**
+ * Counts the replies in a thread, ignoring deleted ones.
+ *
+ * @param replies - The thread's replies
+ * @returns The number of replies shown to users
+ */
+export const countThreadReplies = (replies: Message[]): number =>
+  replies.filter((m) => m.action !== ChatMessageAction.MessageDelete).length;